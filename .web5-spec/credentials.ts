@@ -1,11 +1,9 @@
 import { Request, Response } from 'express';
-import { VerifiableCredential, SignOptions } from '@web5/credentials';
+import { VerifiableCredential, SignOptions, JwtKeyManager } from '@web5/credentials';
 import { DidKeyMethod, PortableDid } from '@web5/dids';
 import { Ed25519, Jose } from '@web5/crypto';
 import { paths } from './openapi.js';
 
-type Signer = (data: Uint8Array) => Promise<Uint8Array>;
-
 let _ownDid: PortableDid;
 
 async function getOwnDid(): Promise<PortableDid> {
@@ -26,12 +24,12 @@ export async function credentialIssue(req: Request, res: Response) {
     const [signingKeyPair] = ownDid.keySet.verificationMethodKeys!;
     const privateKey = (await Jose.jwkToKey({ key: signingKeyPair.privateKeyJwk!})).keyMaterial;
     const subjectIssuerDid = body.credential.credentialSubject["id"] as string;
-    const signer = EdDsaSigner(privateKey);
+    const keyManager = EdDsaKeyManager(privateKey);
     const signOptions: SignOptions = {
         issuerDid  : ownDid.did,
         subjectDid : subjectIssuerDid,
-        kid        : '#' + ownDid.did.split(':')[2],
-        signer     : signer
+        kid        : ownDid.document.verificationMethod![0].id,
+        keyManager : keyManager
     };
 
   const vc: VerifiableCredential = VerifiableCredential.create(body.credential.type[body.credential.type.length - 1], body.credential.issuer, subjectIssuerDid, body.credential.credentialSubject);
@@ -45,9 +43,9 @@ export async function credentialIssue(req: Request, res: Response) {
   res.json(resp);
 }
 
-function EdDsaSigner(privateKey: Uint8Array): Signer {
-    return async (data: Uint8Array): Promise<Uint8Array> => {
-        const signature = await Ed25519.sign({ data, key: privateKey});
-        return signature;
+function EdDsaKeyManager(privateKey: Uint8Array): JwtKeyManager {
+    return {
+        getKey : async () => ({ privateKey: { algorithm: { name: 'EdDSA', namedCurve: 'Ed25519' } } }),
+        sign   : async ({ data }) => Ed25519.sign({ data, key: privateKey })
     };
 }
\ No newline at end of file
@@ -0,0 +1,109 @@
+import type { Request, Response } from "express";
+
+import { expect } from "chai";
+import { consumeRepresentation, DidJwkMethod } from "@web5/dids";
+
+import { didResolve } from "./did-resolver.js";
+
+const DID_RESOLUTION_MEDIA_TYPE =
+  'application/ld+json;profile="https://w3id.org/did-resolution"';
+
+// Stands in for the parts of an Express request that `didResolve` uses.
+function createRequest(path: string, accept = DID_RESOLUTION_MEDIA_TYPE): Request {
+  return {
+    originalUrl: path,
+    accepts: (types: string[]) => (accept === "*/*") ? types[0] : types.find((type) => type === accept) ?? false,
+    get: () => accept,
+  } as unknown as Request;
+}
+
+// Records the status, media type and body sent by `didResolve`.
+function createResponse() {
+  const response = {
+    statusCode: 0,
+    contentType: "",
+    body: undefined as string | Buffer | undefined,
+    status(statusCode: number) { response.statusCode = statusCode; return response; },
+    type(contentType: string) { response.contentType = contentType; return response; },
+    send(body: string | Buffer) { response.body = body; return response; },
+  };
+
+  return response;
+}
+
+describe("didResolve", () => {
+  let did: string;
+
+  before(async () => {
+    ({ did } = await DidJwkMethod.create());
+  });
+
+  it("returns a DID resolution result", async () => {
+    const res = createResponse();
+
+    await didResolve(createRequest(`/1.0/identifiers/${did}`), res as unknown as Response);
+
+    expect(res.statusCode).to.equal(200);
+    expect(res.contentType).to.equal(DID_RESOLUTION_MEDIA_TYPE);
+    expect(JSON.parse(res.body as string).didDocument.id).to.equal(did);
+  });
+
+  it("returns the DID document in the requested representation", async () => {
+    const res = createResponse();
+
+    await didResolve(createRequest(`/1.0/identifiers/${did}`, "application/did+cbor"), res as unknown as Response);
+
+    expect(res.statusCode).to.equal(200);
+    expect(res.contentType).to.equal("application/did+cbor");
+    const didDocument = consumeRepresentation({
+      representation: new Uint8Array(res.body as Buffer),
+      contentType: "application/did+cbor",
+    });
+    expect(didDocument.id).to.equal(did);
+  });
+
+  it("resolves DIDs that were percent-encoded as a whole", async () => {
+    const res = createResponse();
+
+    await didResolve(createRequest(`/1.0/identifiers/${encodeURIComponent(did)}?foo=bar`), res as unknown as Response);
+
+    expect(res.statusCode).to.equal(200);
+    expect(JSON.parse(res.body as string).didDocument.id).to.equal(did);
+  });
+
+  it("returns an invalidDid error for DIDs that cannot be decoded", async () => {
+    const res = createResponse();
+
+    await didResolve(createRequest("/1.0/identifiers/did%3Ajwk%3A%E0%A4%A"), res as unknown as Response);
+
+    expect(res.statusCode).to.equal(400);
+    expect(JSON.parse(res.body as string).didResolutionMetadata.error).to.equal("invalidDid");
+  });
+
+  it("returns an invalidDid error for malformed DIDs", async () => {
+    const res = createResponse();
+
+    await didResolve(createRequest("/1.0/identifiers/did:jwk:"), res as unknown as Response);
+
+    expect(res.statusCode).to.equal(400);
+    expect(JSON.parse(res.body as string).didResolutionMetadata.error).to.equal("invalidDid");
+  });
+
+  it("returns a representationNotSupported error for unsupported media types", async () => {
+    const res = createResponse();
+
+    await didResolve(createRequest(`/1.0/identifiers/${did}`, "text/html"), res as unknown as Response);
+
+    expect(res.statusCode).to.equal(406);
+    expect(JSON.parse(res.body as string).didResolutionMetadata.error).to.equal("representationNotSupported");
+  });
+
+  it("returns resolution errors in preference to unsupported media types", async () => {
+    const res = createResponse();
+
+    await didResolve(createRequest("/1.0/identifiers/did:unknown:123", "text/html"), res as unknown as Response);
+
+    expect(res.statusCode).to.equal(501);
+    expect(JSON.parse(res.body as string).didResolutionMetadata.error).to.equal("methodNotSupported");
+  });
+});
@@ -0,0 +1,129 @@
+import {
+  DidDhtMethod,
+  DidIonMethod,
+  DidJwkMethod,
+  DidKeyMethod,
+  DidPeerMethod,
+  DidResolver,
+  DidResolverCacheMemory,
+  DidWebMethod,
+  produceRepresentation,
+} from "@web5/dids";
+import type { DidResolutionResult } from "@web5/dids";
+import { Request, Response } from "express";
+
+// Media type of a DID resolution result, as defined by the Universal Resolver HTTP API.
+const DID_RESOLUTION_MEDIA_TYPE =
+  'application/ld+json;profile="https://w3id.org/did-resolution"';
+
+// Media types of DID document representations.
+const DID_DOCUMENT_MEDIA_TYPES = [
+  "application/did+ld+json",
+  "application/did+json",
+  "application/did+cbor",
+];
+
+const IDENTIFIERS_PATH = "/1.0/identifiers/";
+
+const errorToHttpStatus: Record<string, number> = {
+  invalidDid: 400,
+  notFound: 404,
+  representationNotSupported: 406,
+  methodNotSupported: 501,
+  internalError: 500,
+};
+
+const didResolver = new DidResolver({
+  cache: new DidResolverCacheMemory(),
+  didResolvers: [
+    DidDhtMethod,
+    DidIonMethod,
+    DidJwkMethod,
+    DidKeyMethod,
+    DidPeerMethod,
+    DidWebMethod,
+  ],
+});
+
+function errorResult(error: string, errorMessage: string): DidResolutionResult {
+  return {
+    "@context": "https://w3id.org/did-resolution/v1",
+    didDocument: undefined,
+    didDocumentMetadata: {},
+    didResolutionMetadata: { error, errorMessage },
+  };
+}
+
+// Express percent-decodes `req.params.did`, which would change DIDs that contain
+// percent-encoded characters (e.g. `did:web:localhost%3A8080`), so the DID is read
+// from the original URL instead. It is only decoded if the whole DID was encoded.
+function getDid(req: Request): string {
+  const [path] = req.originalUrl.split("?");
+  const did = path.substring(path.indexOf(IDENTIFIERS_PATH) + IDENTIFIERS_PATH.length);
+
+  return did.startsWith("did:") ? did : decodeURIComponent(did);
+}
+
+function getHttpStatus(resolutionResult: DidResolutionResult): number {
+  const { error } = resolutionResult.didResolutionMetadata;
+
+  if (error) {
+    return errorToHttpStatus[error] ?? 500;
+  }
+
+  if (resolutionResult.didDocumentMetadata.deactivated) {
+    return 410;
+  }
+
+  return 200;
+}
+
+// Implements `GET /1.0/identifiers/:did` of the Universal Resolver HTTP API.
+export async function didResolve(req: Request, res: Response) {
+  const mediaType = req.accepts([DID_RESOLUTION_MEDIA_TYPE, ...DID_DOCUMENT_MEDIA_TYPES]);
+
+  // Resolve the DID even if the representation is not supported, so that
+  // resolution errors take precedence.
+  const accept = (mediaType && mediaType !== DID_RESOLUTION_MEDIA_TYPE) ? mediaType : undefined;
+
+  let did: string;
+  try {
+    did = getDid(req);
+  } catch (error: any) {
+    const resp = errorResult("invalidDid", `Unable to decode DID: ${error.message}`);
+    res.status(400).type(DID_RESOLUTION_MEDIA_TYPE).send(JSON.stringify(resp));
+    return;
+  }
+
+  let resolutionResult: DidResolutionResult;
+  try {
+    resolutionResult = await didResolver.resolve(did, { accept });
+  } catch (error: any) {
+    resolutionResult = errorResult("internalError", `Unexpected error while resolving DID: ${error.message}`);
+  }
+  const status = getHttpStatus(resolutionResult);
+
+  if (!mediaType) {
+    if (resolutionResult.didResolutionMetadata.error) {
+      res.status(status).type(DID_RESOLUTION_MEDIA_TYPE).send(JSON.stringify(resolutionResult));
+      return;
+    }
+
+    const resp = errorResult("representationNotSupported", `Unsupported representation: ${req.get("accept")}`);
+    res.status(406).type(DID_RESOLUTION_MEDIA_TYPE).send(JSON.stringify(resp));
+    return;
+  }
+
+  // Errors are always returned in a DID resolution result, since there is no DID document.
+  if (mediaType === DID_RESOLUTION_MEDIA_TYPE || !resolutionResult.didDocument) {
+    res.status(status).type(DID_RESOLUTION_MEDIA_TYPE).send(JSON.stringify(resolutionResult));
+    return;
+  }
+
+  // Encode the DID document in the requested representation.
+  const representation = produceRepresentation({
+    didDocument: resolutionResult.didDocument,
+    contentType: mediaType,
+  });
+  res.status(status).type(mediaType).send(Buffer.from(representation));
+}
@@ -1,6 +1,7 @@
 import express from "express";
 import { credentialIssue } from "./credentials.js";
 import { didIonCreate } from "./did-ion.js";
+import { didResolve } from "./did-resolver.js";
 import {
   encoderBase64Decode,
   encoderBase64Encode,
@@ -17,6 +18,8 @@ app.use(bodyparser.json());
 
 app.post("/did-ion/create", didIonCreate);
 
+app.get("/1.0/identifiers/:did", didResolve);
+
 app.post("/credentials/issue", credentialIssue);
 
 app.post("/encoders/base64/encode", encoderBase64Encode);
@@ -0,0 +1,319 @@
+import type { DhtGateway } from '@web5/dids';
+
+import { Level } from 'level';
+import { Convert } from '@web5/common';
+import { DidDht, DID_DHT_TTL, DhtGatewayHttp, utils as didUtils } from '@web5/dids';
+
+import type { Web5ManagedAgent } from './types/agent.js';
+
+export interface DidDhtRepublisher {
+  agent: Web5ManagedAgent;
+  getStatus(options: { did: string }): Promise<DidDhtRepublishStatus | undefined>;
+  registerDid(options: { did: string }): Promise<void>;
+  registerManagedDids(): Promise<void>;
+  republish(): Promise<void>;
+  startRepublish(options?: { interval?: number }): void;
+  stopRepublish(): void;
+}
+
+export type DidDhtRepublisherOptions = {
+  agent?: Web5ManagedAgent;
+  dataPath?: string;
+  db?: Level;
+  gateway?: DhtGateway;
+  /**
+   * Time, in milliseconds, after which a published DID is republished. Must
+   * be shorter than the TTL of did:dht records. Defaults to half the TTL.
+   */
+  republishInterval?: number;
+};
+
+export type DidDhtRepublishStatus = {
+  did: string;
+
+  /** ISO 8601 timestamp of the last republish attempt, if any. */
+  lastAttempt?: string;
+
+  /** ISO 8601 timestamp of the last successful publish, if any. */
+  lastPublished?: string;
+
+  /** ISO 8601 timestamp at which the DID is next due to be republished, if it has been published. */
+  nextRepublish?: string;
+
+  /** Reason the last republish attempt failed, if it did. */
+  error?: string;
+
+  /**
+   * `true` if the DID was not found in the DHT and has never been published
+   * by this republisher. It is not retried until it is registered again.
+   */
+  unpublished?: boolean;
+}
+
+type RepublishState = Omit<DidDhtRepublishStatus, 'nextRepublish'> & {
+  /** Base64url encoded bytes of the last published signed packet. */
+  signedPacket?: string;
+}
+
+export class DidDhtRepublisherLevel implements DidDhtRepublisher {
+  /**
+   * Holds the instance of a `Web5ManagedAgent` that represents the current
+   * execution context for the `DidDhtRepublisher`. This agent is utilized
+   * to interact with other Web5 agent components. It's vital
+   * to ensure this instance is set to correctly contextualize
+   * operations within the broader Web5 agent framework.
+   */
+  private _agent?: Web5ManagedAgent;
+  private _db: Level;
+  private _gateway: DhtGateway;
+  private _republishInterval: number;
+  private _republishIntervalId?: ReturnType<typeof setInterval>;
+  private _isRepublishing = false;
+
+  constructor(options?: DidDhtRepublisherOptions) {
+    let {
+      agent,
+      dataPath = 'DATA/AGENT/DHT_REPUBLISH_STORE',
+      db,
+      gateway = new DhtGatewayHttp(),
+      republishInterval = DID_DHT_TTL * 1000 / 2
+    } = options ?? {};
+
+    if (republishInterval >= DID_DHT_TTL * 1000) {
+      throw new Error(`DidDhtRepublisher: Republish interval must be less than the did:dht TTL of ${DID_DHT_TTL} seconds.`);
+    }
+
+    this._agent = agent;
+    this._db = (db) ? db : new Level(dataPath);
+    this._gateway = gateway;
+    this._republishInterval = republishInterval;
+  }
+
+  /**
+   * Retrieves the `Web5ManagedAgent` execution context.
+   * If the `agent` instance proprety is undefined, it will throw an error.
+   *
+   * @returns The `Web5ManagedAgent` instance that represents the current execution
+   * context.
+   *
+   * @throws Will throw an error if the `agent` instance property is undefined.
+   */
+  get agent(): Web5ManagedAgent {
+    if (this._agent === undefined) {
+      throw new Error('DidDhtRepublisher: Unable to determine agent execution context.');
+    }
+
+    return this._agent;
+  }
+
+  set agent(agent: Web5ManagedAgent) {
+    this._agent = agent;
+  }
+
+  public async clear(): Promise<void> {
+    await this._db.clear();
+  }
+
+  public async close(): Promise<void> {
+    this.stopRepublish();
+    await this._db.close();
+  }
+
+  /**
+   * Returns the republish status of a registered DID, or `undefined` if the
+   * DID is not registered.
+   */
+  public async getStatus(options: {
+    did: string
+  }): Promise<DidDhtRepublishStatus | undefined> {
+    const { did } = options;
+
+    const state = await this.getState({ did });
+    if (!state) return undefined;
+
+    // The signed packet is only needed internally to republish the DID.
+    const { signedPacket: _, ...status } = state;
+
+    const nextRepublish = this.getNextRepublish({ state });
+
+    return { ...status, ...nextRepublish && { nextRepublish: nextRepublish.toISOString() } };
+  }
+
+  /**
+   * Registers a did:dht DID to be republished. Registering a DID that is
+   * already registered leaves its republish status unchanged, unless the DID
+   * was found to be unpublished, in which case it is checked again.
+   */
+  public async registerDid(options: {
+    did: string
+  }): Promise<void> {
+    const { did } = options;
+
+    const parsedDid = didUtils.parseDid({ didUrl: did });
+    if (parsedDid?.method !== 'dht') {
+      throw new Error(`DidDhtRepublisher: Only did:dht DIDs can be republished: ${did}`);
+    }
+
+    const state = await this.getState({ did: parsedDid.did });
+    if (state && !state.unpublished) return;
+
+    await this.putState({ state: { did: parsedDid.did } });
+  }
+
+  /**
+   * Registers the did:dht DIDs that the agent already manages, which are
+   * stored under the tenant of the agent and of each of its identities, so
+   * that DIDs created before the republisher was in use are republished too.
+   */
+  public async registerManagedDids(): Promise<void> {
+    const { didManager, identityManager } = this.agent;
+
+    const identities = await identityManager.list();
+    const contexts = [undefined, ...identities.map(identity => identity.did)];
+
+    for (const context of contexts) {
+      const managedDids = await didManager.list({ context });
+
+      for (const { did, method } of managedDids) {
+        if (method === 'dht') await this.registerDid({ did });
+      }
+    }
+  }
+
+  /**
+   * Republishes the signed packet of each registered DID that is due to be
+   * republished. Failures are recorded in the republish status of the DID
+   * and retried on the next run, except for DIDs that are unpublished.
+   */
+  public async republish(): Promise<void> {
+    const republishStates = this._db.sublevel('republishStates');
+    const entries = await republishStates.iterator().all();
+
+    const now = new Date();
+
+    for (let [, value] of entries) {
+      const state: RepublishState = JSON.parse(value);
+
+      if (state.unpublished) continue;
+
+      const nextRepublish = this.getNextRepublish({ state });
+      if (nextRepublish && nextRepublish > now) {
+        continue;
+      }
+
+      await this.putState({ state: await this.republishDid({ state, now }) });
+    }
+  }
+
+  /**
+   * Republishes the registered DIDs that are due immediately and then at
+   * every interval, until `stopRepublish()` is called. A run is skipped if
+   * the previous run has not finished yet.
+   */
+  public startRepublish(options?: {
+    interval?: number
+  }): void {
+    const { interval = 60_000 } = options ?? {};
+
+    this.stopRepublish();
+
+    const runRepublish = async () => {
+      if (this._isRepublishing) return;
+
+      this._isRepublishing = true;
+      try {
+        await this.republish();
+      } catch {
+        // Failures are retried on the next interval.
+      } finally {
+        this._isRepublishing = false;
+      }
+    };
+
+    this._republishIntervalId = setInterval(runRepublish, interval);
+
+    // In Node.js, do not keep the process running only to republish DIDs.
+    const intervalId = this._republishIntervalId as { unref?: () => void };
+    intervalId.unref?.();
+
+    void runRepublish();
+  }
+
+  public stopRepublish(): void {
+    if (this._republishIntervalId) {
+      clearInterval(this._republishIntervalId);
+      this._republishIntervalId = undefined;
+    }
+  }
+
+  private getNextRepublish({ state }: { state: RepublishState }): Date | undefined {
+    // DIDs that have not been published by this republisher are due immediately.
+    if (!state.lastPublished) return undefined;
+
+    return new Date(Date.parse(state.lastPublished) + this._republishInterval);
+  }
+
+  private async getState({ did }: { did: string }): Promise<RepublishState | undefined> {
+    const republishStates = this._db.sublevel('republishStates');
+
+    try {
+      const value = await republishStates.get(did);
+      return JSON.parse(value);
+    } catch (error: any) {
+      if (error.notFound) return undefined;
+      throw error;
+    }
+  }
+
+  private async putState({ state }: { state: RepublishState }): Promise<void> {
+    const republishStates = this._db.sublevel('republishStates');
+
+    await republishStates.put(state.did, JSON.stringify(state));
+  }
+
+  private async republishDid({ state, now }: {
+    state: RepublishState,
+    now: Date
+  }): Promise<RepublishState> {
+    const { did } = state;
+
+    let signedPacket: Uint8Array | undefined;
+    let isNotFound = false;
+
+    /** Prefer the packet currently stored in the DHT, since the DID may have
+     * been updated elsewhere since it was last republished. */
+    try {
+      ({ bytes: signedPacket } = await DidDht.getSignedPacket({ did, gateway: this._gateway }));
+    } catch (error: any) {
+      // Fall back to the last published packet, if any.
+      isNotFound = error.message === 'No packet found';
+    }
+
+    if (!signedPacket && state.signedPacket) {
+      signedPacket = Convert.base64Url(state.signedPacket).toUint8Array();
+    }
+
+    if (!signedPacket) {
+      // Only stop retrying if the DHT answered, rather than failed to respond.
+      return { ...state, lastAttempt: now.toISOString(), error: 'No signed packet found', ...isNotFound && { unpublished: true } };
+    }
+
+    let isPublished: boolean;
+    try {
+      isPublished = await this._gateway.put({ publicKey: DidDht.getIdentityKey({ did }), signedPacket });
+    } catch {
+      isPublished = false;
+    }
+
+    if (!isPublished) {
+      return { ...state, lastAttempt: now.toISOString(), error: 'Failed to republish signed packet' };
+    }
+
+    return {
+      did,
+      lastAttempt   : now.toISOString(),
+      lastPublished : now.toISOString(),
+      signedPacket  : Convert.uint8Array(signedPacket).toBase64Url()
+    };
+  }
+}
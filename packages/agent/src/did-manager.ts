@@ -5,7 +5,9 @@ import type {
   DidMetadata,
   PortableDid,
   DidMethodApi,
+  DidDhtCreateOptions,
   DidIonCreateOptions,
+  DidJwkCreateOptions,
   DidKeyCreateOptions,
 } from '@web5/dids';
 
@@ -18,7 +20,9 @@ import type { DidRequest, DidResponse, Web5ManagedAgent } from './types/agent.js
 import { DidStoreMemory } from './store-managed-did.js';
 
 export type CreateDidMethodOptions = {
+  dht: DidDhtCreateOptions;
   ion: DidIonCreateOptions;
+  jwk: DidJwkCreateOptions;
   key: DidKeyCreateOptions;
 };
 
@@ -61,11 +65,15 @@ export type DidManagerOptions = {
   store?: ManagedDidStore;
 }
 
+export type DidDhtGenerateKeySetOptions = { /* empty */ }
 export type DidIonGenerateKeySetOptions = { /* empty */ }
+export type DidJwkGenerateKeySetOptions = { /* empty */ }
 export type DidKeyGenerateKeySetOptions = { /* empty */ }
 
 export type GenerateKeySetOptions = {
+  dht: DidDhtGenerateKeySetOptions;
   ion: DidIonGenerateKeySetOptions;
+  jwk: DidJwkGenerateKeySetOptions;
   key: DidKeyGenerateKeySetOptions;
 };
 
@@ -153,6 +161,11 @@ export class DidManager {
     // Store the ManagedDid in the store.
     await this._store.importDid({ did: managedDid, agent: this.agent, context });
 
+    // Republish published did:dht DIDs before their DHT records expire.
+    if (method === 'dht' && (methodOptions as DidDhtCreateOptions).publish) {
+      await this.agent.didRepublisher?.registerDid({ did: managedDid.did });
+    }
+
     return managedDid;
   }
 
@@ -197,6 +210,16 @@ export class DidManager {
     return undefined;
   }
 
+  async list(options?: {
+    context?: string
+  }): Promise<ManagedDid[]> {
+    const { context } = options ?? {};
+
+    const dids = await this._store.listDids({ agent: this.agent, context });
+
+    return dids;
+  }
+
   async import(options: ImportDidOptions): Promise<ManagedDid> {
     let { alias, context, did, kms } = options;
 
@@ -234,6 +257,12 @@ export class DidManager {
     // Store the ManagedDid in the store.
     await this._store.importDid({ did: managedDid, agent: this.agent, context });
 
+    /** Republish did:dht DIDs before their DHT records expire. Whether an
+     * imported DID was published is not known, so the republisher checks. */
+    if (method === 'dht') {
+      await this.agent.didRepublisher?.registerDid({ did: managedDid.did });
+    }
+
     return managedDid;
   }
 
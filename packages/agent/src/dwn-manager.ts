@@ -39,15 +39,7 @@ import type { DwnResponse,ProcessDwnRequest, SendDwnRequest, Web5ManagedAgent }
 import { isManagedKeyPair } from './utils.js';
 import { blobToIsomorphicNodeReadable, webReadableToIsomorphicNodeReadable } from './utils.js';
 
-export type GeneralJws = {
-  payload: string
-  signatures: SignatureEntry[]
-};
-
-export type SignatureEntry = {
-  protected: string
-  signature: string
-};
+export type { GeneralJws, GeneralJwsSignature as SignatureEntry } from '@web5/crypto';
 
 export type RecordsWriteAuthorizationPayload = {
   recordId: string;
@@ -2,6 +2,7 @@ export type * from './types/agent.js';
 export type * from './types/managed-key.js';
 
 export * from './app-data-store.js';
+export * from './did-dht-republisher.js';
 export * from './did-manager.js';
 export * from './dwn-manager.js';
 export * from './identity-manager.js';
@@ -4,12 +4,14 @@ import type {
   SignOptions,
   CryptoManager,
   VerifyOptions,
+  WrapKeyOptions,
   DecryptOptions,
   EncryptOptions,
   ManagedKeyPair,
   GenerateKeyType,
   ManagedKeyStore,
   ImportKeyOptions,
+  UnwrapKeyOptions,
   UpdateKeyOptions,
   DeriveBitsOptions,
   PortableKeyPair,
@@ -117,19 +119,22 @@ export class KeyManager implements CryptoManager {
   async deriveBits(options: DeriveBitsOptions): Promise<Uint8Array> {
     const { baseKeyRef, ...deriveBitsOptions } = options;
 
-    const ownKeyPair = await this.getKey({ keyRef: baseKeyRef });
+    const baseKeyOrKeyPair = await this.getKey({ keyRef: baseKeyRef });
 
-    if (!isManagedKeyPair(ownKeyPair)) {
+    if (!baseKeyOrKeyPair) {
       throw new Error(`Key not found: '${baseKeyRef}'`);
     }
 
-    const kmsName = ownKeyPair.privateKey.kms;
+    // Key pairs derive bits with the private key and secret keys derive bits directly.
+    const { id: baseKeyId, kms: kmsName } = (isManagedKeyPair(baseKeyOrKeyPair))
+      ? baseKeyOrKeyPair.privateKey
+      : baseKeyOrKeyPair;
+
     const kms = this.getKms(kmsName);
 
-    const ownKeyId = ownKeyPair.privateKey.id;
-    const sharedSecret = kms.deriveBits({ baseKeyRef: ownKeyId, ...deriveBitsOptions });
+    const derivedBits = kms.deriveBits({ baseKeyRef: baseKeyId, ...deriveBitsOptions });
 
-    return sharedSecret;
+    return derivedBits;
   }
 
   async encrypt(options: EncryptOptions): Promise<Uint8Array> {
@@ -217,21 +222,45 @@ export class KeyManager implements CryptoManager {
   async sign(options: SignOptions): Promise<Uint8Array> {
     const { keyRef, ...signOptions } = options;
 
-    const keyPair = await this.getKey({ keyRef });
+    const keyOrKeyPair = await this.getKey({ keyRef });
 
-    if (!isManagedKeyPair(keyPair)) {
+    if (!keyOrKeyPair) {
       throw new Error(`Key not found: '${keyRef}'`);
     }
 
-    const kmsName = keyPair.privateKey.kms;
+    // Key pairs sign with the private key and secret keys (e.g., HMAC) sign directly.
+    const { id: keyId, kms: kmsName } = (isManagedKeyPair(keyOrKeyPair))
+      ? keyOrKeyPair.privateKey
+      : keyOrKeyPair;
+
     const kms = this.getKms(kmsName);
 
-    const keyId = keyPair.privateKey.id;
     const signature = await kms.sign({ keyRef: keyId, ...signOptions });
 
     return signature;
   }
 
+  async unwrapKey(options: UnwrapKeyOptions): Promise<ManagedKey> {
+    const { unwrappingKeyRef, ...unwrapKeyOptions } = options;
+
+    const unwrappingKey = await this.getKey({ keyRef: unwrappingKeyRef });
+
+    if (!isManagedKey(unwrappingKey)) {
+      throw new Error(`Key not found: '${unwrappingKeyRef}'`);
+    }
+
+    const kmsName = unwrappingKey.kms;
+    const kms = this.getKms(kmsName);
+
+    const unwrappingKeyId = unwrappingKey.id;
+    const unwrappedKey = await kms.unwrapKey({ unwrappingKeyRef: unwrappingKeyId, ...unwrapKeyOptions });
+
+    // Store the unwrapped ManagedKey in KeyManager's key store.
+    await this._store.importKey({ key: unwrappedKey, agent: this.agent });
+
+    return unwrappedKey;
+  }
+
   async updateKey(options: UpdateKeyOptions): Promise<boolean> {
     const { keyRef, alias, metadata } = options;
 
@@ -258,21 +287,52 @@ export class KeyManager implements CryptoManager {
   async verify(options: VerifyOptions): Promise<boolean> {
     let { keyRef, ...verifyOptions } = options;
 
-    const keyPair = await this.getKey({ keyRef });
+    const keyOrKeyPair = await this.getKey({ keyRef });
 
-    if (!isManagedKeyPair(keyPair)) {
+    if (!keyOrKeyPair) {
       throw new Error(`Key not found: '${keyRef}'`);
     }
 
-    const kmsName = keyPair.publicKey.kms;
+    // Key pairs verify with the public key and secret keys (e.g., HMAC) verify directly.
+    const { id: keyId, kms: kmsName } = (isManagedKeyPair(keyOrKeyPair))
+      ? keyOrKeyPair.publicKey
+      : keyOrKeyPair;
+
     const kms = this.getKms(kmsName);
 
-    const keyId = keyPair.publicKey.id;
     const isValid = await kms.verify({ keyRef: keyId, ...verifyOptions });
 
     return isValid;
   }
 
+  async wrapKey(options: WrapKeyOptions): Promise<Uint8Array> {
+    const { keyRef, wrappingKeyRef, ...wrapKeyOptions } = options;
+
+    const key = await this.getKey({ keyRef });
+
+    if (!isManagedKey(key)) {
+      throw new Error(`Key not found: '${keyRef}'`);
+    }
+
+    const wrappingKey = await this.getKey({ keyRef: wrappingKeyRef });
+
+    if (!isManagedKey(wrappingKey)) {
+      throw new Error(`Key not found: '${wrappingKeyRef}'`);
+    }
+
+    // Key material cannot leave a KMS unwrapped, so both keys must be held by the same KMS.
+    if (key.kms !== wrappingKey.kms) {
+      throw new Error(`Operation failed: 'wrapKey'. Keys are held by different key management systems: '${key.kms}', '${wrappingKey.kms}'`);
+    }
+
+    const kmsName = wrappingKey.kms;
+    const kms = this.getKms(kmsName);
+
+    const wrappedKey = await kms.wrapKey({ keyRef: key.id, wrappingKeyRef: wrappingKey.id, ...wrapKeyOptions });
+
+    return wrappedKey;
+  }
+
   private getKms(name: string | undefined): KeyManagementSystem {
     // For developer convenience, if a KMS name isn't specified and KeyManager only has
     // one KMS defined, use it.  Otherwise, an exception will be thrown.
@@ -6,7 +6,11 @@ import {
   EcdhAlgorithm,
   EcdsaAlgorithm,
   EdDsaAlgorithm,
+  HkdfAlgorithm,
+  HmacAlgorithm,
   AesCtrAlgorithm,
+  AesGcmAlgorithm,
+  AesKwAlgorithm,
   CryptoAlgorithm,
 } from '@web5/crypto';
 
@@ -22,6 +26,8 @@ import {
   GenerateKeyType,
   PortableKeyPair,
   ImportKeyOptions,
+  WrapKeyOptions,
+  UnwrapKeyOptions,
   UpdateKeyOptions,
   DeriveBitsOptions,
   ManagedPrivateKey,
@@ -51,9 +57,13 @@ export type KmsOptions = {
 // Map key operations to algorithm specs to implementations.
 export const defaultAlgorithms: AlgorithmImplementations = {
   'AES-CTR' : AesCtrAlgorithm,
+  'AES-GCM' : AesGcmAlgorithm,
+  'AES-KW'  : AesKwAlgorithm,
   ECDH      : EcdhAlgorithm,
   ECDSA     : EcdsaAlgorithm,
   EdDSA     : EdDsaAlgorithm,
+  HKDF      : HkdfAlgorithm,
+  HMAC      : HmacAlgorithm,
 };
 
 export class LocalKms implements KeyManagementSystem {
@@ -133,24 +143,29 @@ export class LocalKms implements KeyManagementSystem {
   async deriveBits(options: DeriveBitsOptions): Promise<Uint8Array> {
     let { algorithm, baseKeyRef, length } = options;
 
-    // Retrieve the ManagedKeyPair from the KMS key metadata store.
-    const ownKeyPair = await this.getKey({ keyRef: baseKeyRef });
+    // Retrieve the ManagedKey or ManagedKeyPair from the KMS key metadata store.
+    const baseKeyOrKeyPair = await this.getKey({ keyRef: baseKeyRef });
 
-    if (isManagedKeyPair(ownKeyPair)) {
+    // Key pairs derive bits with the private key and secret keys (e.g., HKDF) derive bits directly.
+    const baseKey = (isManagedKeyPair(baseKeyOrKeyPair))
+      ? baseKeyOrKeyPair.privateKey
+      : baseKeyOrKeyPair;
+
+    if (isManagedKey(baseKey)) {
       const privateManagedKey = await this._privateKeyStore.getKey({
-        id    : ownKeyPair.privateKey.id,
+        id    : baseKey.id,
         agent : this.agent
       });
 
       if (privateManagedKey !== undefined) {
         // Construct a CryptoKey object from the key metadata and private key material.
-        const privateCryptoKey = this.toCryptoKey({ ...ownKeyPair.privateKey, material: privateManagedKey.material });
+        const privateCryptoKey = this.toCryptoKey({ ...baseKey, material: privateManagedKey.material });
 
-        // Derive the shared secret.
+        // Derive the shared secret or key material.
         const cryptoAlgorithm = this.getAlgorithm(algorithm);
-        const sharedSecret = cryptoAlgorithm.deriveBits({ algorithm, baseKey: privateCryptoKey, length: length ?? null });
+        const derivedBits = cryptoAlgorithm.deriveBits({ algorithm, baseKey: privateCryptoKey, length: length ?? null });
 
-        return sharedSecret;
+        return derivedBits;
       }
     }
 
@@ -292,18 +307,23 @@ export class LocalKms implements KeyManagementSystem {
   async sign(options: SignOptions): Promise<Uint8Array> {
     const { algorithm, data, keyRef } = options;
 
-    // Retrieve the ManagedKeyPair from the KMS key metadata store.
-    const keyPair = await this.getKey({ keyRef });
+    // Retrieve the ManagedKey or ManagedKeyPair from the KMS key metadata store.
+    const keyOrKeyPair = await this.getKey({ keyRef });
+
+    // Key pairs sign with the private key and secret keys (e.g., HMAC) sign directly.
+    const key = (isManagedKeyPair(keyOrKeyPair))
+      ? keyOrKeyPair.privateKey
+      : keyOrKeyPair;
 
-    if (isManagedKeyPair(keyPair)) {
+    if (isManagedKey(key)) {
       const privateManagedKey = await this._privateKeyStore.getKey({
-        id    : keyPair.privateKey.id,
+        id    : key.id,
         agent : this.agent
       });
 
       if (privateManagedKey !== undefined) {
         // Construct a CryptoKey object from the key metadata and private key material.
-        const privateCryptoKey = this.toCryptoKey({ ...keyPair.privateKey, material: privateManagedKey.material });
+        const privateCryptoKey = this.toCryptoKey({ ...key, material: privateManagedKey.material });
 
         // Sign the data.
         const cryptoAlgorithm = this.getAlgorithm(algorithm);
@@ -316,6 +336,50 @@ export class LocalKms implements KeyManagementSystem {
     throw new Error(`Operation failed: 'sign'. Key not found: ${keyRef}`);
   }
 
+  async unwrapKey(options: UnwrapKeyOptions): Promise<ManagedKey> {
+    let { alias, extractable, keyUsages, metadata, unwrapAlgorithm, unwrappedKeyAlgorithm, unwrappingKeyRef, wrappedKey } = options;
+
+    // Retrieve the ManagedKey from the KMS key metadata store.
+    const unwrappingKey = await this.getKey({ keyRef: unwrappingKeyRef });
+
+    if (isManagedKey(unwrappingKey)) {
+      const secretManagedKey = await this._privateKeyStore.getKey({
+        id    : unwrappingKey.id,
+        agent : this.agent
+      });
+
+      if (secretManagedKey !== undefined) {
+        // Construct a CryptoKey object from the key metadata and secret key material.
+        const unwrappingCryptoKey = this.toCryptoKey({ ...unwrappingKey, material: secretManagedKey.material });
+
+        // Unwrap the key.
+        extractable ??= false; // Default to non-extractable if not specified.
+        const cryptoAlgorithm = this.getAlgorithm(unwrapAlgorithm);
+        const cryptoKey = await cryptoAlgorithm.unwrapKey({
+          algorithm     : unwrapAlgorithm,
+          extractable,
+          keyUsages,
+          unwrappedKeyAlgorithm,
+          unwrappingKey : unwrappingCryptoKey,
+          wrappedKey
+        });
+
+        // Store the unwrapped key material so that it never leaves the KMS.
+        const keyType = cryptoKey.type as Web5Crypto.PrivateKeyType;
+        const id = await this._privateKeyStore.importKey({
+          key   : { material: cryptoKey.material, type: keyType },
+          agent : this.agent
+        });
+        const managedKey = this.toManagedKey({ ...cryptoKey, id, alias, metadata });
+        await this._keyStore.importKey({ key: managedKey, agent: this.agent });
+
+        return managedKey;
+      }
+    }
+
+    throw new Error(`Operation failed: 'unwrapKey'. Key not found: ${unwrappingKeyRef}`);
+  }
+
   async updateKey(options: UpdateKeyOptions): Promise<boolean> {
     const { keyRef, alias, metadata } = options;
 
@@ -336,17 +400,35 @@ export class LocalKms implements KeyManagementSystem {
   async verify(options: VerifyOptions): Promise<boolean> {
     const { algorithm, data, keyRef, signature } = options;
 
-    // Retrieve the ManagedKeyPair from the KMS key metadata store.
-    const keyPair = await this.getKey({ keyRef });
+    // Retrieve the ManagedKey or ManagedKeyPair from the KMS key metadata store.
+    const keyOrKeyPair = await this.getKey({ keyRef });
 
-    if (isManagedKeyPair(keyPair)) {
-      if (keyPair.publicKey.material === undefined) {
+    if (isManagedKey(keyOrKeyPair) && keyOrKeyPair.type === 'secret') {
+      const secretManagedKey = await this._privateKeyStore.getKey({
+        id    : keyOrKeyPair.id,
+        agent : this.agent
+      });
+
+      if (secretManagedKey !== undefined) {
+        // Construct a CryptoKey object from the key metadata and secret key material.
+        const secretCryptoKey = this.toCryptoKey({ ...keyOrKeyPair, material: secretManagedKey.material });
+
+        // Verify the signature and data.
+        const cryptoAlgorithm = this.getAlgorithm(algorithm);
+        const isValid = cryptoAlgorithm.verify({ algorithm, key: secretCryptoKey, signature, data });
+
+        return isValid;
+      }
+    }
+
+    if (isManagedKeyPair(keyOrKeyPair)) {
+      if (keyOrKeyPair.publicKey.material === undefined) {
         throw new Error(`Required property missing: 'material'`);
       }
       // Construct a CryptoKey object from the key metadata and private key material.
       const publicCryptoKey = this.toCryptoKey({
-        ...keyPair.publicKey,
-        material: keyPair.publicKey.material
+        ...keyOrKeyPair.publicKey,
+        material: keyOrKeyPair.publicKey.material
       });
 
       // Verify the signature and data.
@@ -359,6 +441,39 @@ export class LocalKms implements KeyManagementSystem {
     throw new Error(`Operation failed: 'verify'. Key not found: ${keyRef}`);
   }
 
+  async wrapKey(options: WrapKeyOptions): Promise<Uint8Array> {
+    const { keyRef, wrapAlgorithm, wrappingKeyRef } = options;
+
+    // Retrieve the ManagedKeys from the KMS key metadata store.
+    const key = await this.getKey({ keyRef });
+    const wrappingKey = await this.getKey({ keyRef: wrappingKeyRef });
+
+    if (isManagedKey(key) && isManagedKey(wrappingKey)) {
+      const secretManagedKey = await this._privateKeyStore.getKey({
+        id    : key.id,
+        agent : this.agent
+      });
+      const wrappingSecretManagedKey = await this._privateKeyStore.getKey({
+        id    : wrappingKey.id,
+        agent : this.agent
+      });
+
+      if (secretManagedKey !== undefined && wrappingSecretManagedKey !== undefined) {
+        // Construct CryptoKey objects from the key metadata and secret key material.
+        const cryptoKey = this.toCryptoKey({ ...key, material: secretManagedKey.material });
+        const wrappingCryptoKey = this.toCryptoKey({ ...wrappingKey, material: wrappingSecretManagedKey.material });
+
+        // Wrap the key.
+        const cryptoAlgorithm = this.getAlgorithm(wrapAlgorithm);
+        const wrappedKey = cryptoAlgorithm.wrapKey({ algorithm: wrapAlgorithm, key: cryptoKey, wrappingKey: wrappingCryptoKey });
+
+        return wrappedKey;
+      }
+    }
+
+    throw new Error(`Operation failed: 'wrapKey'. Key not found: ${keyRef}, ${wrappingKeyRef}`);
+  }
+
   private getAlgorithm(algorithmIdentifier: Web5Crypto.AlgorithmIdentifier): CryptoAlgorithm {
     cryptoUtils.checkRequiredProperty({ property: 'name', inObject: algorithmIdentifier });
     const algorithm = this._supportedAlgorithms.get(algorithmIdentifier.name.toUpperCase());
@@ -5,7 +5,7 @@ import { Level } from 'level';
 import { Jose } from '@web5/crypto';
 import { Dwn, MessageStoreLevel, DataStoreLevel, EventLogLevel } from '@tbd54566975/dwn-sdk-js';
 import { LevelStore, MemoryStore } from '@web5/common';
-import { DidIonMethod, DidKeyMethod, DidResolver, DidResolverCacheLevel } from '@web5/dids';
+import { DhtGatewayMemory, DidDhtMethod, DidIonMethod, DidJwkMethod, DidKeyMethod, DidResolver, DidResolverCacheLevel } from '@web5/dids';
 
 import type { Web5ManagedAgent } from './types/agent.js';
 
@@ -16,6 +16,7 @@ import { KeyManager } from './key-manager.js';
 import { Web5RpcClient } from './rpc-client.js';
 import { AppDataVault } from './app-data-store.js';
 import { SyncManagerLevel } from './sync-manager.js';
+import { DidDhtRepublisherLevel } from './did-dht-republisher.js';
 import { cryptoToPortableKeyPair } from './utils.js';
 import { DidStoreDwn, DidStoreMemory } from './store-managed-did.js';
 import { IdentityManager, ManagedIdentity } from './identity-manager.js';
@@ -33,6 +34,7 @@ type TestManagedAgentOptions = {
 
   agentStores: 'dwn' | 'memory';
   appDataStore: KeyValueStore<string, any>;
+  didRepublisherStore: Level;
   didResolverCache: DidResolverCache;
   dwn: Dwn;
   dwnDataStore: DataStoreLevel;
@@ -46,6 +48,7 @@ export class TestManagedAgent {
 
   agentStores: 'dwn' | 'memory';
   appDataStore: KeyValueStore<string, any>;
+  didRepublisherStore: Level;
   didResolverCache: DidResolverCache;
   dwn: Dwn;
   dwnDataStore: DataStoreLevel;
@@ -57,6 +60,7 @@ export class TestManagedAgent {
     this.agent = options.agent;
     this.agentStores = options.agentStores;
     this.appDataStore = options.appDataStore;
+    this.didRepublisherStore = options.didRepublisherStore;
     this.didResolverCache = options.didResolverCache;
     this.dwn = options.dwn;
     this.dwnDataStore = options.dwnDataStore;
@@ -68,6 +72,7 @@ export class TestManagedAgent {
   async clearStorage(): Promise<void> {
     this.agent.agentDid = undefined;
     await this.appDataStore.clear();
+    await this.didRepublisherStore.clear();
     await this.didResolverCache.clear();
     await this.dwnDataStore.clear();
     await this.dwnEventLog.clear();
@@ -86,6 +91,7 @@ export class TestManagedAgent {
 
   async closeStorage(): Promise<void> {
     await this.appDataStore.close();
+    await this.didRepublisherStore.close();
     await this.didResolverCache.close();
     await this.dwnDataStore.close();
     await this.dwnEventLog.close();
@@ -105,7 +111,7 @@ export class TestManagedAgent {
       : TestManagedAgent.useDiskStorage({ testDataLocation });
 
     // Instantiate DID resolver.
-    const didMethodApis = [DidIonMethod, DidKeyMethod];
+    const didMethodApis = [DidIonMethod, DidJwkMethod, DidKeyMethod];
     const didResolver = new DidResolver({
       cache        : didResolverCache,
       didResolvers : didMethodApis
@@ -138,10 +144,15 @@ export class TestManagedAgent {
     const syncStore = new Level(testDataPath('SYNC_STORE'));
     const syncManager = new SyncManagerLevel({ db: syncStore });
 
+    // Instantiate a DidDhtRepublisher that publishes to an in-memory DHT gateway.
+    const didRepublisherStore = new Level(testDataPath('DHT_REPUBLISH_STORE'));
+    const didRepublisher = new DidDhtRepublisherLevel({ db: didRepublisherStore, gateway: new DhtGatewayMemory() });
+
     const agent = new agentClass({
       agentDid: '',
       appData,
       didManager,
+      didRepublisher,
       didResolver,
       dwnManager,
       identityManager,
@@ -154,6 +165,7 @@ export class TestManagedAgent {
       agent,
       agentStores,
       appDataStore,
+      didRepublisherStore,
       didResolverCache,
       dwn,
       dwnDataStore,
@@ -218,7 +230,7 @@ export class TestManagedAgent {
 
     const didManager = new DidManager({
       agent,
-      didMethods : [DidIonMethod, DidKeyMethod],
+      didMethods : [DidDhtMethod, DidIonMethod, DidJwkMethod, DidKeyMethod],
       store      : new DidStoreDwn()
     });
 
@@ -264,7 +276,7 @@ export class TestManagedAgent {
 
     const didManager = new DidManager({
       agent,
-      didMethods : [DidIonMethod, DidKeyMethod],
+      didMethods : [DidDhtMethod, DidIonMethod, DidJwkMethod, DidKeyMethod],
       store      : new DidStoreMemory()
     });
 
@@ -15,6 +15,7 @@ import type {
 import { DidResolver } from '@web5/dids';
 
 import type { SyncManager } from '../sync-manager.js';
+import type { DidDhtRepublisher } from '../did-dht-republisher.js';
 import type { AppDataStore } from '../app-data-store.js';
 import type { DwnRpcResponse, Web5Rpc } from '../rpc-client.js';
 
@@ -124,6 +125,7 @@ export interface Web5Agent {
 export interface Web5ManagedAgent extends Web5Agent {
   appData: AppDataStore;
   didManager: DidManager;
+  didRepublisher?: DidDhtRepublisher;
   didResolver: DidResolver;
   dwnManager: DwnManager;
   identityManager: IdentityManager;
@@ -134,4 +136,5 @@ export interface Web5ManagedAgent extends Web5Agent {
   firstLaunch(): Promise<boolean>;
   initialize(options: { passphrase: string }): Promise<void>;
   start(options: { passphrase: string }): Promise<void>;
+  stop?(): Promise<void>;
 }
\ No newline at end of file
@@ -32,9 +32,21 @@ export interface CryptoManager {
 
   sign(options: SignOptions): Promise<Uint8Array>;
 
+  /**
+   * Unwraps a wrapped secret key and stores it as a new ManagedKey, so that
+   * the unwrapped key material never leaves the CryptoManager.
+   */
+  unwrapKey(options: UnwrapKeyOptions): Promise<ManagedKey>;
+
   updateKey(options: UpdateKeyOptions): Promise<boolean>;
 
   verify(options: VerifyOptions): Promise<boolean>;
+
+  /**
+   * Wraps a secret ManagedKey with another ManagedKey, returning only the
+   * wrapped key material.
+   */
+  wrapKey(options: WrapKeyOptions): Promise<Uint8Array>;
 }
 
 /**
@@ -73,7 +85,7 @@ export type DeriveBitsOptions = {
   /**
    * An object defining the derivation algorithm to use and its parameters.
    */
-  algorithm: Web5Crypto.AlgorithmIdentifier | Web5Crypto.EcdhDeriveKeyOptions | Web5Crypto.Pbkdf2Options;
+  algorithm: Web5Crypto.AlgorithmIdentifier | Web5Crypto.EcdhDeriveKeyOptions | Web5Crypto.HkdfOptions | Web5Crypto.Pbkdf2Options;
 
   /**
    * An identifier of the ManagedKey that will be the input to the
@@ -131,11 +143,11 @@ export type GenerateKeyOptionTypes =
   | Web5Crypto.AesGenerateKeyOptions
   | Web5Crypto.EcdsaGenerateKeyOptions
   | Web5Crypto.EdDsaGenerateKeyOptions
-  // | HmacGenerateKeyOptions
+  | Web5Crypto.HmacGenerateKeyOptions
   // | Pbkdf2Params;
 
 export type GenerateKeyType<T> = T extends Web5Crypto.EcGenerateKeyOptions ? ManagedKeyPair :
-  T extends Web5Crypto.AesGenerateKeyOptions /*| HmacGenerateKeyOptions | Pbkdf2Params*/ ? ManagedKey :
+  T extends Web5Crypto.AesGenerateKeyOptions | Web5Crypto.HmacGenerateKeyOptions /*| Pbkdf2Params*/ ? ManagedKey :
   T extends Web5Crypto.AlgorithmIdentifier ? ManagedKey | ManagedKeyPair :
   never;
 
@@ -387,6 +399,55 @@ export type SignOptions = {
   keyRef: string;
 }
 
+/**
+ * Input arguments for implementations of the CryptoManager interface
+ * {@link CryptoManager.unwrapKey | unwrapKey} method.
+ *
+ * @public
+ */
+export type UnwrapKeyOptions = {
+  /**
+   * An alternate identifier used to identify the unwrapped key in a KMS.
+   */
+  alias?: string;
+
+  /**
+   * Indicates whether the unwrapped key can be exported. Defaults to false.
+   */
+  extractable?: boolean;
+
+  /**
+   * The operations the unwrapped key will be used for.
+   */
+  keyUsages: Web5Crypto.KeyUsage[];
+
+  /**
+   * Optional. Additional Key metadata.
+   */
+  metadata?: KeyMetadata;
+
+  /**
+   * An object defining the key wrap algorithm to use and its parameters.
+   */
+  unwrapAlgorithm: Web5Crypto.AlgorithmIdentifier;
+
+  /**
+   * An object defining the algorithm of the key being unwrapped.
+   */
+  unwrappedKeyAlgorithm: Web5Crypto.AlgorithmIdentifier | Web5Crypto.GenerateKeyOptions;
+
+  /**
+   * An identifier of the ManagedKey to unwrap with.
+   * You can use the id or alias property of the key.
+   */
+  unwrappingKeyRef: string;
+
+  /**
+   * A Uint8Array containing the wrapped key material.
+   */
+  wrappedKey: Uint8Array;
+}
+
 /**
  * Input arguments for implementations of the CryptoManager interface
  * {@link CryptoManager.updateKey | updateKey} method.
@@ -439,4 +500,29 @@ export type VerifyOptions = {
    * A Uint8Array containing the signature to verify.
    */
   signature: Uint8Array;
+}
+
+/**
+ * Input arguments for implementations of the CryptoManager interface
+ * {@link CryptoManager.wrapKey | wrapKey} method.
+ *
+ * @public
+ */
+export type WrapKeyOptions = {
+  /**
+   * An identifier of the secret ManagedKey to be wrapped.
+   * You can use the id or alias property of the key.
+   */
+  keyRef: string;
+
+  /**
+   * An object defining the key wrap algorithm to use and its parameters.
+   */
+  wrapAlgorithm: Web5Crypto.AlgorithmIdentifier;
+
+  /**
+   * An identifier of the ManagedKey to wrap with.
+   * You can use the id or alias property of the key.
+   */
+  wrappingKeyRef: string;
 }
\ No newline at end of file
@@ -0,0 +1,305 @@
+import type { DidDhtKeySet } from '@web5/dids';
+
+import * as sinon from 'sinon';
+import { Level } from 'level';
+import chai, { expect } from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import { DhtGatewayMemory, DidDht, DidDhtMethod } from '@web5/dids';
+
+import type { Web5ManagedAgent } from '../src/types/agent.js';
+
+import { DidDhtRepublisherLevel } from '../src/did-dht-republisher.js';
+
+chai.use(chaiAsPromised);
+
+describe('DidDhtRepublisherLevel', () => {
+  const republishInterval = 60 * 60 * 1000;
+
+  let db: Level;
+  let gateway: DhtGatewayMemory;
+  let didRepublisher: DidDhtRepublisherLevel;
+
+  before(() => {
+    db = new Level('__TESTDATA__/DHT_REPUBLISH_STORE');
+  });
+
+  beforeEach(async () => {
+    gateway = new DhtGatewayMemory();
+    didRepublisher = new DidDhtRepublisherLevel({ db, gateway, republishInterval });
+    await didRepublisher.clear();
+  });
+
+  afterEach(() => {
+    didRepublisher.stopRepublish();
+    sinon.restore();
+  });
+
+  after(async () => {
+    await didRepublisher.clear();
+    await didRepublisher.close();
+  });
+
+  describe('constructor', () => {
+    it('throws an error if the republish interval is not shorter than the did:dht TTL', () => {
+      expect(() =>
+        new DidDhtRepublisherLevel({ db, republishInterval: 7200 * 1000 })
+      ).to.throw(Error, 'Republish interval must be less than the did:dht TTL');
+    });
+  });
+
+  describe('get agent', () => {
+    it(`returns the 'agent' instance property`, async () => {
+      // @ts-expect-error because we are only mocking a single property.
+      const mockAgent: Web5ManagedAgent = {
+        agentDid: 'did:method:abc123'
+      };
+      const didRepublisher = new DidDhtRepublisherLevel({ agent: mockAgent, db });
+      const agent = didRepublisher.agent;
+      expect(agent).to.exist;
+      expect(agent.agentDid).to.equal('did:method:abc123');
+    });
+
+    it(`throws an error if the 'agent' instance property is undefined`, () => {
+      const didRepublisher = new DidDhtRepublisherLevel({ db });
+      expect(() =>
+        didRepublisher.agent
+      ).to.throw(Error, 'Unable to determine agent execution context');
+    });
+  });
+
+  describe('registerDid()', () => {
+    it('registers a did:dht DID that has not yet been republished', async () => {
+      const { did } = await DidDhtMethod.create();
+
+      await didRepublisher.registerDid({ did });
+
+      const status = await didRepublisher.getStatus({ did });
+      expect(status).to.deep.equal({ did });
+    });
+
+    it('does not reset the status of a DID that is already registered', async () => {
+      const { did } = await DidDhtMethod.create({ publish: true, gateway });
+      await didRepublisher.registerDid({ did });
+      await didRepublisher.republish();
+
+      await didRepublisher.registerDid({ did });
+
+      const status = await didRepublisher.getStatus({ did });
+      expect(status?.lastPublished).to.exist;
+    });
+
+    it('checks a DID that was found to be unpublished again', async () => {
+      const { did } = await DidDhtMethod.create();
+      await didRepublisher.registerDid({ did });
+      await didRepublisher.republish();
+      expect((await didRepublisher.getStatus({ did }))?.unpublished).to.be.true;
+
+      await didRepublisher.registerDid({ did });
+
+      const status = await didRepublisher.getStatus({ did });
+      expect(status).to.deep.equal({ did });
+    });
+
+    it('throws an error for DIDs of other methods', async () => {
+      await expect(
+        didRepublisher.registerDid({ did: 'did:key:z6MkmNvXGmVuux5W63nXKEM8zoxFmDLNfe7siCKG2GM7Kd8D' })
+      ).to.eventually.be.rejectedWith(Error, 'Only did:dht DIDs can be republished');
+    });
+  });
+
+  describe('registerManagedDids()', () => {
+    it('registers the did:dht DIDs stored for the agent and each of its identities', async () => {
+      const agentDid = 'did:dht:9tjoow45ef1hksoo96bmzkwwy3mhme95d7fsi3ezjyjghmp75qyo';
+      const identityDid = 'did:dht:1wiaaaoagzceggsnwfzmx5cweog5msg4u536mby8sqy3mkp3wyko';
+
+      const mockAgent = {
+        didManager: {
+          list: sinon.stub().callsFake(async ({ context }) => (context === undefined)
+            ? [{ did: agentDid, method: 'dht' }, { did: 'did:key:abc123', method: 'key' }]
+            : [{ did: identityDid, method: 'dht' }])
+        },
+        identityManager: {
+          list: sinon.stub().resolves([{ did: identityDid }])
+        }
+      } as unknown as Web5ManagedAgent;
+      didRepublisher.agent = mockAgent;
+
+      await didRepublisher.registerManagedDids();
+
+      expect(await didRepublisher.getStatus({ did: agentDid })).to.exist;
+      expect(await didRepublisher.getStatus({ did: identityDid })).to.exist;
+      expect(await didRepublisher.getStatus({ did: 'did:key:abc123' })).to.be.undefined;
+    });
+  });
+
+  describe('getStatus()', () => {
+    it('returns undefined for DIDs that are not registered', async () => {
+      const status = await didRepublisher.getStatus({ did: 'did:dht:abc123' });
+
+      expect(status).to.be.undefined;
+    });
+  });
+
+  describe('republish()', () => {
+    it('republishes registered DIDs and records when they were published', async () => {
+      const clock = sinon.useFakeTimers({ now: Date.parse('2023-11-01T12:00:00.000Z'), toFake: ['Date'] });
+      const { did } = await DidDhtMethod.create({ publish: true, gateway });
+      await didRepublisher.registerDid({ did });
+      const putSpy = sinon.spy(gateway, 'put');
+
+      await didRepublisher.republish();
+
+      sinon.assert.calledOnce(putSpy);
+      expect(await didRepublisher.getStatus({ did })).to.deep.equal({
+        did,
+        lastAttempt   : '2023-11-01T12:00:00.000Z',
+        lastPublished : '2023-11-01T12:00:00.000Z',
+        nextRepublish : '2023-11-01T13:00:00.000Z'
+      });
+
+      clock.restore();
+    });
+
+    it('only republishes DIDs once the republish interval has elapsed', async () => {
+      const clock = sinon.useFakeTimers({ now: Date.parse('2023-11-01T12:00:00.000Z'), toFake: ['Date'] });
+      const { did } = await DidDhtMethod.create({ publish: true, gateway });
+      await didRepublisher.registerDid({ did });
+      await didRepublisher.republish();
+      const putSpy = sinon.spy(gateway, 'put');
+
+      clock.tick(republishInterval - 1);
+      await didRepublisher.republish();
+      sinon.assert.notCalled(putSpy);
+
+      clock.tick(1);
+      await didRepublisher.republish();
+      sinon.assert.calledOnce(putSpy);
+      expect((await didRepublisher.getStatus({ did }))?.lastPublished).to.equal('2023-11-01T13:00:00.000Z');
+
+      clock.restore();
+    });
+
+    it('republishes the last published packet if the DID is no longer in the DHT', async () => {
+      const clock = sinon.useFakeTimers({ now: Date.parse('2023-11-01T12:00:00.000Z'), toFake: ['Date'] });
+      const { did, document } = await DidDhtMethod.create({ publish: true, gateway });
+      await didRepublisher.registerDid({ did });
+      await didRepublisher.republish();
+
+      await gateway.clear();
+      clock.tick(republishInterval);
+      await didRepublisher.republish();
+
+      const didDocument = await DidDht.getDidDocument({ did, gateway });
+      expect(didDocument.id).to.equal(document.id);
+
+      clock.restore();
+    });
+
+    it('republishes the latest version of an updated DID', async () => {
+      const { did, keySet } = await DidDhtMethod.create({ publish: true, gateway });
+      await didRepublisher.registerDid({ did });
+      await didRepublisher.republish();
+
+      const services = [{ id: 'dwn', type: 'DecentralizedWebNode', serviceEndpoint: 'https://example.com/dwn' }];
+      await DidDhtMethod.update({ keySet: keySet as DidDhtKeySet, services, gateway });
+
+      // Simulate the DHT dropping the updated record after the republisher fetched it.
+      const clock = sinon.useFakeTimers({ now: Date.now() + republishInterval, toFake: ['Date'] });
+      await didRepublisher.republish();
+      await gateway.clear();
+      clock.tick(republishInterval);
+      await didRepublisher.republish();
+
+      const didDocument = await DidDht.getDidDocument({ did, gateway });
+      expect(didDocument.service).to.have.length(1);
+
+      clock.restore();
+    });
+
+    it('records an error and stops retrying if the DID has never been published', async () => {
+      const { did } = await DidDhtMethod.create();
+      await didRepublisher.registerDid({ did });
+
+      await didRepublisher.republish();
+
+      const status = await didRepublisher.getStatus({ did });
+      expect(status?.error).to.equal('No signed packet found');
+      expect(status?.unpublished).to.be.true;
+      expect(status?.lastAttempt).to.exist;
+      expect(status).to.not.have.property('lastPublished');
+
+      const getSignedPacketSpy = sinon.spy(DidDht, 'getSignedPacket');
+      await didRepublisher.republish();
+      expect(getSignedPacketSpy.called).to.be.false;
+    });
+
+    it('keeps retrying a DID that has never been published if the gateway fails', async () => {
+      const { did } = await DidDhtMethod.create();
+      await didRepublisher.registerDid({ did });
+      sinon.stub(gateway, 'get').rejects(new Error('Relay unreachable'));
+
+      await didRepublisher.republish();
+
+      const status = await didRepublisher.getStatus({ did });
+      expect(status?.error).to.equal('No signed packet found');
+      expect(status).to.not.have.property('unpublished');
+    });
+
+    it('records an error and retries if the gateway rejects the packet', async () => {
+      const { did } = await DidDhtMethod.create({ publish: true, gateway });
+      await didRepublisher.registerDid({ did });
+      sinon.stub(gateway, 'put').resolves(false);
+
+      await didRepublisher.republish();
+      expect((await didRepublisher.getStatus({ did }))?.error).to.equal('Failed to republish signed packet');
+
+      sinon.restore();
+      await didRepublisher.republish();
+
+      const status = await didRepublisher.getStatus({ did });
+      expect(status).to.not.have.property('error');
+      expect(status?.lastPublished).to.exist;
+    });
+  });
+
+  describe('startRepublish()', () => {
+    it('republishes DIDs on the given interval until stopped', async () => {
+      const clock = sinon.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+      const republishStub = sinon.stub(didRepublisher, 'republish').resolves();
+
+      didRepublisher.startRepublish({ interval: 1000 });
+      await clock.tickAsync(2000);
+      sinon.assert.calledThrice(republishStub);
+
+      didRepublisher.stopRepublish();
+      await clock.tickAsync(2000);
+      sinon.assert.calledThrice(republishStub);
+
+      clock.restore();
+    });
+
+    it('republishes DIDs immediately when started', async () => {
+      const republishStub = sinon.stub(didRepublisher, 'republish').resolves();
+
+      didRepublisher.startRepublish({ interval: 1000 });
+
+      sinon.assert.calledOnce(republishStub);
+    });
+
+    it('skips an interval if the previous republish has not finished', async () => {
+      const clock = sinon.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'setTimeout'] });
+      const republishStub = sinon.stub(didRepublisher, 'republish').callsFake(
+        () => new Promise(resolve => setTimeout(resolve, 2500))
+      );
+
+      didRepublisher.startRepublish({ interval: 1000 });
+      await clock.tickAsync(2000);
+      sinon.assert.calledOnce(republishStub);
+
+      await clock.tickAsync(1000);
+      sinon.assert.calledTwice(republishStub);
+
+      clock.restore();
+    });
+  });
+});
@@ -2,7 +2,7 @@ import type { PrivateKeyJwk, PublicKeyJwk, Web5Crypto } from '@web5/crypto';
 import type { DidKeySet, PortableDid } from '@web5/dids';
 
 import { expect } from 'chai';
-import { DidKeyMethod } from '@web5/dids';
+import { DhtGatewayMemory, DidDhtMethod, DidJwkMethod, DidKeyMethod } from '@web5/dids';
 import { Jose, EdDsaAlgorithm } from '@web5/crypto';
 
 import type { ManagedDid } from '../src/did-manager.js';
@@ -104,6 +104,45 @@ describe('DidManager', () => {
           expect(managedDid).to.have.property('method');
         }).timeout(100000);
 
+        it('registers did:dht DIDs to be republished only if they are published', async () => {
+          const { didRepublisher } = testAgent.agent;
+          if (!didRepublisher) throw new Error('Type guard');
+
+          // Store the DIDs under the Agent's context, since did:dht DIDs can't be resolved offline.
+          const context = testAgent.agent.agentDid;
+          const unpublishedDid = await testAgent.agent.didManager.create({ method: 'dht', kms: 'local', context });
+          const publishedDid = await testAgent.agent.didManager.create({
+            method  : 'dht',
+            kms     : 'local',
+            context,
+            publish : true,
+            gateway : new DhtGatewayMemory()
+          });
+
+          expect(await didRepublisher.getStatus({ did: unpublishedDid.did })).to.be.undefined;
+          expect(await didRepublisher.getStatus({ did: publishedDid.did })).to.deep.equal({ did: publishedDid.did });
+        });
+
+        it('creates a did:jwk ManagedDid with keys if keySet is not given', async () => {
+          // Create a ManagedDid.
+          const managedDid = await testAgent.agent.didManager.create({
+            method : 'jwk',
+            kms    : 'local'
+          });
+
+          // Verify the result.
+          expect(managedDid).to.have.property('did');
+          expect(managedDid).to.have.property('document');
+          expect(managedDid).to.have.property('method', 'jwk');
+
+          // Verify the generated key was added to KeyManager.
+          const signingKeyId = await testAgent.agent.didManager.getDefaultSigningKey({ did: managedDid.did });
+          if (!signingKeyId) throw new Error('Type guard');
+          const storedKeyPair = await testAgent.agent.keyManager.getKey({ keyRef: signingKeyId });
+          expect(storedKeyPair).to.have.property('privateKey');
+          expect(storedKeyPair).to.have.property('publicKey');
+        });
+
         it('adds generated keys to KeyManager if keySet is not given', async () => {
           // Create a ManagedDid.
           const managedDid = await testAgent.agent.didManager.create({ method: 'key', kms: 'local' });
@@ -289,6 +328,34 @@ describe('DidManager', () => {
         xit('should be implemented');
       });
 
+      describe('list()', () => {
+        it(`returns the DIDs stored under the Agent's tenant, by default`, async () => {
+          const managedDid = await testAgent.agent.didManager.create({
+            method  : 'key',
+            kms     : 'local',
+            context : testAgent.agent.agentDid
+          });
+
+          const storedDids = await testAgent.agent.didManager.list();
+          expect(storedDids.map(storedDid => storedDid.did)).to.include(managedDid.did);
+        });
+
+        // Tests that should only run for DWN-backed stores that provide multi-tenancy.
+        if (agentStoreType === 'dwn') {
+          it('returns the DIDs stored under the context of the specified DID', async () => {
+            const managedDid = await testAgent.agent.didManager.create({
+              method  : 'key',
+              kms     : 'local',
+              context : testAgent.agent.agentDid
+            });
+
+            // Verify that the DID was NOT stored under the new DID's tenant.
+            const storedDids = await testAgent.agent.didManager.list({ context: managedDid.did });
+            expect(storedDids).to.have.length(0);
+          });
+        }
+      });
+
       describe('import()', () => {
         it('imports did:key DID and key set', async () => {
           // Create did:key DID with key set to use to attempt import.
@@ -309,6 +376,43 @@ describe('DidManager', () => {
           expect(storedDid.document).to.deep.equal(portableDid.document);
         });
 
+        it('imports did:jwk DID and key set', async () => {
+          // Create did:jwk DID with key set to use to attempt import.
+          const portableDid = await DidJwkMethod.create({ keyAlgorithm: 'secp256k1' });
+
+          // Attempt to import the DID with DidManager under the Agent's context.
+          const managedDid = await testAgent.agent.didManager.import({
+            did     : portableDid,
+            kms     : 'local',
+            context : testAgent.agent.agentDid
+          });
+
+          // Try to retrieve the DID from the DidManager store to verify it was imported.
+          const storedDid = await testAgent.agent.didManager.get({ didRef: managedDid.did });
+
+          if (storedDid === undefined) throw new Error('Type guard unexpectedly threw'); // Type guard.
+          expect(storedDid.did).to.equal(portableDid.did);
+          expect(storedDid.method).to.equal('jwk');
+          expect(storedDid.document).to.deep.equal(portableDid.document);
+        });
+
+        it('imports did:dht DID and registers it to be republished', async () => {
+          // Create did:dht DID with key set to use to attempt import.
+          const portableDid = await DidDhtMethod.create();
+
+          // Attempt to import the DID with DidManager under the Agent's context.
+          const managedDid = await testAgent.agent.didManager.import({
+            did     : portableDid,
+            kms     : 'local',
+            context : testAgent.agent.agentDid
+          });
+
+          // Verify the DID was registered with the DID republisher.
+          const republishStatus = await testAgent.agent.didRepublisher?.getStatus({ did: managedDid.did });
+          expect(managedDid.method).to.equal('dht');
+          expect(republishStatus).to.deep.equal({ did: portableDid.did });
+        });
+
         it('supports importing multiple DIDs to the same Identity/tenant', async () => {
           // Create and import the first DID.
           const did1 = await DidKeyMethod.create();
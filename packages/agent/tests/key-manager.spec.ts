@@ -127,6 +127,26 @@ describe('KeyManager', () => {
       if (!('publicKey' in storedKeyPair2)) throw new Error('Type guard unexpectedly threw'); // Type guard.
       expect(storedKeyPair2.publicKey.kms).to.equal('two');
     });
+
+    it('throws an error when wrapping a key held by a different KMS', async () => {
+      const wrappingKey = await keyManager.generateKey({
+        algorithm : { name: 'AES-KW', length: 256 },
+        keyUsages : ['wrapKey', 'unwrapKey'],
+        kms       : 'one'
+      });
+
+      const dataEncryptionKey = await keyManager.generateKey({
+        algorithm : { name: 'AES-GCM', length: 256 },
+        keyUsages : ['encrypt', 'decrypt'],
+        kms       : 'two'
+      });
+
+      await expect(keyManager.wrapKey({
+        keyRef         : dataEncryptionKey.id,
+        wrapAlgorithm  : { name: 'AES-KW' },
+        wrappingKeyRef : wrappingKey.id
+      })).to.eventually.be.rejectedWith(Error, 'different key management systems');
+    });
   });
 
   describe('decrypt()', () => {
@@ -277,6 +297,24 @@ describe('KeyManager', () => {
       expect(sharedSecret.byteLength).to.equal(32);
     });
 
+    it('derives HKDF key material from secret keys', async () => {
+      const baseKey = await keyManager.importKey({
+        algorithm   : { name: 'HKDF' },
+        extractable : false,
+        kms         : 'memory',
+        material    : new Uint8Array(32),
+        type        : 'secret',
+        usages      : ['deriveBits'],
+      });
+
+      const derivedBits = await keyManager.deriveBits({
+        algorithm  : { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(32), info: new Uint8Array([1, 2, 3]) },
+        baseKeyRef : baseKey.id,
+        length     : 256
+      });
+      expect(derivedBits.byteLength).to.equal(32);
+    });
+
     it('throws an error when baseKey reference is not found', async () => {
       await expect(keyManager.deriveBits({
         algorithm  : { name: 'ECDH', publicKey: otherPartyPublicCryptoKey },
@@ -336,6 +374,36 @@ describe('KeyManager', () => {
       expect(ciphertext.byteLength).to.equal(4);
     });
 
+    it('encrypts data with AES-GCM', async () => {
+      const gcmKey = await keyManager.generateKey({
+        algorithm   : { name: 'AES-GCM', length: 256 },
+        extractable : false,
+        keyUsages   : ['encrypt', 'decrypt']
+      });
+
+      const algorithm = {
+        name           : 'AES-GCM',
+        additionalData : new Uint8Array([5, 6, 7, 8]),
+        iv             : new Uint8Array(12),
+        tagLength      : 128
+      };
+
+      const ciphertext = await keyManager.encrypt({ algorithm, keyRef: gcmKey.id, data: new Uint8Array([1, 2, 3, 4]) });
+
+      // The ciphertext includes the 16-byte authentication tag.
+      expect(ciphertext).to.be.instanceOf(Uint8Array);
+      expect(ciphertext.byteLength).to.equal(4 + 16);
+
+      const plaintext = await keyManager.decrypt({ algorithm, keyRef: gcmKey.id, data: ciphertext });
+      expect(plaintext).to.deep.equal(new Uint8Array([1, 2, 3, 4]));
+
+      // Decryption fails if the ciphertext was tampered with.
+      ciphertext[0] ^= 1;
+      await expect(
+        keyManager.decrypt({ algorithm, keyRef: gcmKey.id, data: ciphertext })
+      ).to.eventually.be.rejected;
+    });
+
     it('throws an error when key reference is not found', async () => {
       await expect(keyManager.encrypt({
         algorithm: {
@@ -661,7 +729,22 @@ describe('KeyManager', () => {
       expect(storedSecretKey.usages).to.deep.equal(['encrypt', 'decrypt']);
     });
 
-    xit('imports HMAC keys');
+    it('imports HMAC keys', async () => {
+      const importedSecretKey = await keyManager.importKey({
+        algorithm   : { name: 'HMAC', hash: { name: 'SHA-256' } },
+        extractable : false,
+        kms         : 'memory',
+        material    : new Uint8Array(32),
+        type        : 'secret',
+        usages      : ['sign', 'verify'],
+      });
+
+      const storedSecretKey = await keyManager.getKey({ keyRef: importedSecretKey.id }) as ManagedKey;
+      expect(storedSecretKey.algorithm).to.deep.equal({ name: 'HMAC', hash: { name: 'SHA-256' } });
+      expect(storedSecretKey.material).to.be.undefined;
+      expect(storedSecretKey.type).to.equal('secret');
+      expect(storedSecretKey.usages).to.deep.equal(['sign', 'verify']);
+    });
 
     it(`ignores the 'id' property and overwrites with internally generated unique identifier`, async () => {
       // Test importing a private key and validate the result.
@@ -855,6 +938,23 @@ describe('KeyManager', () => {
       expect(signature.byteLength).to.equal(64);
     });
 
+    it('generates and verifies HMAC signatures', async () => {
+      const key = await keyManager.generateKey({
+        algorithm   : { name: 'HMAC', hash: { name: 'SHA-256' } },
+        extractable : false,
+        keyUsages   : ['sign', 'verify']
+      });
+
+      const algorithm = { name: 'HMAC' };
+      const data = new Uint8Array([51, 52, 53]);
+
+      const signature = await keyManager.sign({ algorithm, keyRef: key.id, data });
+      expect(signature.byteLength).to.equal(32);
+
+      const isValid = await keyManager.verify({ algorithm, keyRef: key.id, signature, data });
+      expect(isValid).to.be.true;
+    });
+
     it('throws an error when key reference is not found', async () => {
       await expect(keyManager.sign({
         algorithm : { name: 'ECDSA', hash: 'SHA-256' },
@@ -864,6 +964,63 @@ describe('KeyManager', () => {
     });
   });
 
+  describe('unwrapKey()', () => {
+    let wrappingKey: ManagedKey;
+
+    beforeEach(async () => {
+      wrappingKey = await keyManager.generateKey({
+        algorithm   : { name: 'AES-KW', length: 256 },
+        extractable : false,
+        keyUsages   : ['wrapKey', 'unwrapKey']
+      });
+    });
+
+    it('unwraps keys into the KMS without exposing the key material', async () => {
+      const dataEncryptionKey = await keyManager.generateKey({
+        algorithm   : { name: 'AES-GCM', length: 256 },
+        extractable : true,
+        keyUsages   : ['encrypt', 'decrypt']
+      });
+
+      const wrappedKey = await keyManager.wrapKey({
+        keyRef         : dataEncryptionKey.id,
+        wrapAlgorithm  : { name: 'AES-KW' },
+        wrappingKeyRef : wrappingKey.id
+      });
+
+      const unwrappedKey = await keyManager.unwrapKey({
+        alias                 : 'unwrapped-key',
+        keyUsages             : ['encrypt', 'decrypt'],
+        unwrapAlgorithm       : { name: 'AES-KW' },
+        unwrappedKeyAlgorithm : { name: 'AES-GCM', length: 256 },
+        unwrappingKeyRef      : wrappingKey.id,
+        wrappedKey
+      });
+
+      expect(unwrappedKey.id).to.not.equal(dataEncryptionKey.id);
+      expect(unwrappedKey.alias).to.equal('unwrapped-key');
+      expect(unwrappedKey.algorithm).to.deep.equal({ name: 'AES-GCM', length: 256 });
+      expect(unwrappedKey.material).to.be.undefined;
+      expect(unwrappedKey.type).to.equal('secret');
+
+      // Data encrypted with the original key can be decrypted with the unwrapped key.
+      const algorithm = { name: 'AES-GCM', iv: new Uint8Array(12) };
+      const ciphertext = await keyManager.encrypt({ algorithm, keyRef: dataEncryptionKey.id, data: new Uint8Array([1, 2, 3, 4]) });
+      const plaintext = await keyManager.decrypt({ algorithm, keyRef: unwrappedKey.id, data: ciphertext });
+      expect(plaintext).to.deep.equal(new Uint8Array([1, 2, 3, 4]));
+    });
+
+    it('throws an error when key reference is not found', async () => {
+      await expect(keyManager.unwrapKey({
+        keyUsages             : ['encrypt', 'decrypt'],
+        unwrapAlgorithm       : { name: 'AES-KW' },
+        unwrappedKeyAlgorithm : { name: 'AES-GCM', length: 256 },
+        unwrappingKeyRef      : 'non-existent-key',
+        wrappedKey            : new Uint8Array(40)
+      })).to.eventually.be.rejectedWith(Error, 'Key not found');
+    });
+  });
+
   describe('updateKey()', () => {
     let testKey: ManagedKey;
     let testKeyPair: ManagedKeyPair;
@@ -1017,6 +1174,57 @@ describe('KeyManager', () => {
     });
   });
 
+  describe('wrapKey()', () => {
+    let wrappingKey: ManagedKey;
+
+    beforeEach(async () => {
+      wrappingKey = await keyManager.generateKey({
+        algorithm   : { name: 'AES-KW', length: 128 },
+        extractable : false,
+        keyUsages   : ['wrapKey', 'unwrapKey']
+      });
+    });
+
+    it('wraps secret keys', async () => {
+      const dataEncryptionKey = await keyManager.generateKey({
+        algorithm   : { name: 'AES-GCM', length: 256 },
+        extractable : true,
+        keyUsages   : ['encrypt', 'decrypt']
+      });
+
+      const wrappedKey = await keyManager.wrapKey({
+        keyRef         : dataEncryptionKey.id,
+        wrapAlgorithm  : { name: 'AES-KW' },
+        wrappingKeyRef : wrappingKey.id
+      });
+
+      expect(wrappedKey).to.be.instanceOf(Uint8Array);
+      expect(wrappedKey.byteLength).to.equal(32 + 8);
+    });
+
+    it('throws an error if the key to wrap is not extractable', async () => {
+      const dataEncryptionKey = await keyManager.generateKey({
+        algorithm   : { name: 'AES-GCM', length: 256 },
+        extractable : false,
+        keyUsages   : ['encrypt', 'decrypt']
+      });
+
+      await expect(keyManager.wrapKey({
+        keyRef         : dataEncryptionKey.id,
+        wrapAlgorithm  : { name: 'AES-KW' },
+        wrappingKeyRef : wrappingKey.id
+      })).to.eventually.be.rejectedWith(Error, 'non-extractable');
+    });
+
+    it('throws an error when key reference is not found', async () => {
+      await expect(keyManager.wrapKey({
+        keyRef         : 'non-existent-key',
+        wrapAlgorithm  : { name: 'AES-KW' },
+        wrappingKeyRef : wrappingKey.id
+      })).to.eventually.be.rejectedWith(Error, 'Key not found');
+    });
+  });
+
   describe('getKms()', () => {
     it(`if 'kms' is not specified and there is only one, use it automatically`, async () => {
       const key = await keyManager.generateKey({
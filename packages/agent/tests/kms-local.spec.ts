@@ -225,6 +225,26 @@ describe('LocalKms', () => {
       expect(sharedSecret.byteLength).to.equal(32);
     });
 
+    it('derives HKDF key material from secret keys', async () => {
+      const baseKey = await kms.importKey({
+        algorithm   : { name: 'HKDF' },
+        extractable : false,
+        kms         : 'memory',
+        material    : new Uint8Array(32),
+        type        : 'secret',
+        usages      : ['deriveBits'],
+      });
+
+      const derivedBits = await kms.deriveBits({
+        algorithm  : { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(32), info: new Uint8Array([1, 2, 3]) },
+        baseKeyRef : baseKey.id,
+        length     : 256
+      });
+
+      expect(derivedBits).to.be.an('Uint8Array');
+      expect(derivedBits.byteLength).to.equal(32);
+    });
+
     it('throws an error when baseKey reference is not found', async () => {
       await expect(kms.deriveBits({
         algorithm  : { name: 'ECDH', publicKey: otherPartyPublicCryptoKey },
@@ -569,7 +589,22 @@ describe('LocalKms', () => {
       expect(storedSecretKey.usages).to.deep.equal(['encrypt', 'decrypt']);
     });
 
-    xit('imports HMAC keys');
+    it('imports HMAC keys', async () => {
+      const importedSecretKey = await kms.importKey({
+        algorithm   : { name: 'HMAC', hash: { name: 'SHA-256' } },
+        extractable : false,
+        kms         : 'memory',
+        material    : new Uint8Array(32),
+        type        : 'secret',
+        usages      : ['sign', 'verify'],
+      });
+
+      const storedSecretKey = await kms.getKey({ keyRef: importedSecretKey.id }) as ManagedKey;
+      expect(storedSecretKey.algorithm).to.deep.equal({ name: 'HMAC', hash: { name: 'SHA-256' } });
+      expect(storedSecretKey.material).to.be.undefined;
+      expect(storedSecretKey.type).to.equal('secret');
+      expect(storedSecretKey.usages).to.deep.equal(['sign', 'verify']);
+    });
 
     it(`ignores the 'kms' property and overwrites with configured value`, async () => {
       // Test importing the key and validate the result.
@@ -798,6 +833,23 @@ describe('LocalKms', () => {
       expect(signature.byteLength).to.equal(64);
     });
 
+    it('generates HMAC signatures', async () => {
+      const key = await kms.generateKey({
+        algorithm   : { name: 'HMAC', hash: { name: 'SHA-256' } },
+        extractable : false,
+        keyUsages   : ['sign', 'verify']
+      });
+
+      const signature = await kms.sign({
+        algorithm : { name: 'HMAC' },
+        keyRef    : key.id,
+        data      : new Uint8Array([51, 52, 53]),
+      });
+
+      expect(signature).to.be.instanceOf(Uint8Array);
+      expect(signature.byteLength).to.equal(32);
+    });
+
     it('throws an error when key reference is not found', async () => {
       await expect(kms.sign({
         algorithm : { name: 'ECDSA', hash: 'SHA-256' },
@@ -807,6 +859,92 @@ describe('LocalKms', () => {
     });
   });
 
+  describe('unwrapKey()', () => {
+    let wrappingKey: ManagedKey;
+
+    beforeEach(async () => {
+      wrappingKey = await kms.generateKey({
+        algorithm   : { name: 'AES-KW', length: 256 },
+        extractable : false,
+        keyUsages   : ['wrapKey', 'unwrapKey']
+      });
+    });
+
+    it('unwraps keys into the KMS without exposing the key material', async () => {
+      const dataEncryptionKey = await kms.generateKey({
+        algorithm   : { name: 'AES-GCM', length: 256 },
+        extractable : true,
+        keyUsages   : ['encrypt', 'decrypt']
+      });
+
+      const wrappedKey = await kms.wrapKey({
+        keyRef         : dataEncryptionKey.id,
+        wrapAlgorithm  : { name: 'AES-KW' },
+        wrappingKeyRef : wrappingKey.id
+      });
+
+      const unwrappedKey = await kms.unwrapKey({
+        alias                 : 'unwrapped-key',
+        keyUsages             : ['encrypt', 'decrypt'],
+        unwrapAlgorithm       : { name: 'AES-KW' },
+        unwrappedKeyAlgorithm : { name: 'AES-GCM', length: 256 },
+        unwrappingKeyRef      : wrappingKey.id,
+        wrappedKey
+      });
+
+      expect(unwrappedKey.id).to.not.equal(dataEncryptionKey.id);
+      expect(unwrappedKey.alias).to.equal('unwrapped-key');
+      expect(unwrappedKey.algorithm).to.deep.equal({ name: 'AES-GCM', length: 256 });
+      expect(unwrappedKey.material).to.be.undefined;
+      expect(unwrappedKey.type).to.equal('secret');
+
+      // Data encrypted with the original key can be decrypted with the unwrapped key.
+      const algorithm = { name: 'AES-GCM', iv: new Uint8Array(12) };
+      const ciphertext = await kms.encrypt({ algorithm, keyRef: dataEncryptionKey.id, data: new Uint8Array([1, 2, 3, 4]) });
+      const plaintext = await kms.decrypt({ algorithm, keyRef: unwrappedKey.id, data: ciphertext });
+      expect(plaintext).to.deep.equal(new Uint8Array([1, 2, 3, 4]));
+    });
+
+    it('unwraps keys as non-extractable, by default', async () => {
+      const dataEncryptionKey = await kms.generateKey({
+        algorithm   : { name: 'AES-GCM', length: 256 },
+        extractable : true,
+        keyUsages   : ['encrypt', 'decrypt']
+      });
+
+      const wrappedKey = await kms.wrapKey({
+        keyRef         : dataEncryptionKey.id,
+        wrapAlgorithm  : { name: 'AES-KW' },
+        wrappingKeyRef : wrappingKey.id
+      });
+
+      const unwrappedKey = await kms.unwrapKey({
+        keyUsages             : ['encrypt', 'decrypt'],
+        unwrapAlgorithm       : { name: 'AES-KW' },
+        unwrappedKeyAlgorithm : { name: 'AES-GCM', length: 256 },
+        unwrappingKeyRef      : wrappingKey.id,
+        wrappedKey
+      });
+
+      expect(unwrappedKey.extractable).to.be.false;
+      await expect(kms.wrapKey({
+        keyRef         : unwrappedKey.id,
+        wrapAlgorithm  : { name: 'AES-KW' },
+        wrappingKeyRef : wrappingKey.id
+      })).to.eventually.be.rejectedWith(Error, 'non-extractable');
+    });
+
+    it('throws an error when key reference is not found', async () => {
+      await expect(kms.unwrapKey({
+        keyUsages             : ['encrypt', 'decrypt'],
+        unwrapAlgorithm       : { name: 'AES-KW' },
+        unwrappedKeyAlgorithm : { name: 'AES-GCM', length: 256 },
+        unwrappingKeyRef      : 'non-existent-key',
+        wrappedKey            : new Uint8Array(40)
+      })).to.eventually.be.rejectedWith(Error, 'Key not found');
+    });
+  });
+
   describe('updateKey()', () => {
     let testKey: ManagedKey;
     let testKeyPair: ManagedKeyPair;
@@ -951,6 +1089,24 @@ describe('LocalKms', () => {
       expect(isValid).to.be.true;
     });
 
+    it('verifies HMAC signatures', async () => {
+      const key = await kms.generateKey({
+        algorithm   : { name: 'HMAC', hash: { name: 'SHA-512' } },
+        extractable : false,
+        keyUsages   : ['sign', 'verify']
+      });
+
+      const algorithm = { name: 'HMAC' };
+      const dataU8A = new Uint8Array([51, 52, 53]);
+
+      const signature = await kms.sign({ algorithm, keyRef: key.id, data: dataU8A });
+      let isValid = await kms.verify({ algorithm, keyRef: key.id, signature, data: dataU8A });
+      expect(isValid).to.be.true;
+
+      isValid = await kms.verify({ algorithm, keyRef: key.id, signature, data: new Uint8Array([51, 52, 54]) });
+      expect(isValid).to.be.false;
+    });
+
     it('throws an error when key reference is not found', async () => {
       await expect(kms.verify({
         algorithm : { name: 'ECDSA', hash: 'SHA-256' },
@@ -989,6 +1145,57 @@ describe('LocalKms', () => {
     });
   });
 
+  describe('wrapKey()', () => {
+    let wrappingKey: ManagedKey;
+
+    beforeEach(async () => {
+      wrappingKey = await kms.generateKey({
+        algorithm   : { name: 'AES-KW', length: 128 },
+        extractable : false,
+        keyUsages   : ['wrapKey', 'unwrapKey']
+      });
+    });
+
+    it('wraps secret keys', async () => {
+      const dataEncryptionKey = await kms.generateKey({
+        algorithm   : { name: 'AES-GCM', length: 256 },
+        extractable : true,
+        keyUsages   : ['encrypt', 'decrypt']
+      });
+
+      const wrappedKey = await kms.wrapKey({
+        keyRef         : dataEncryptionKey.id,
+        wrapAlgorithm  : { name: 'AES-KW' },
+        wrappingKeyRef : wrappingKey.id
+      });
+
+      expect(wrappedKey).to.be.instanceOf(Uint8Array);
+      expect(wrappedKey.byteLength).to.equal(32 + 8);
+    });
+
+    it('throws an error if the key to wrap is not extractable', async () => {
+      const dataEncryptionKey = await kms.generateKey({
+        algorithm   : { name: 'AES-GCM', length: 256 },
+        extractable : false,
+        keyUsages   : ['encrypt', 'decrypt']
+      });
+
+      await expect(kms.wrapKey({
+        keyRef         : dataEncryptionKey.id,
+        wrapAlgorithm  : { name: 'AES-KW' },
+        wrappingKeyRef : wrappingKey.id
+      })).to.eventually.be.rejectedWith(Error, 'non-extractable');
+    });
+
+    it('throws an error when key reference is not found', async () => {
+      await expect(kms.wrapKey({
+        keyRef         : 'non-existent-key',
+        wrapAlgorithm  : { name: 'AES-KW' },
+        wrappingKeyRef : wrappingKey.id
+      })).to.eventually.be.rejectedWith(Error, 'Key not found');
+    });
+  });
+
   describe('getAlgorithm', function() {
     /**
        * We can't directly test private methods, but we can indirectly
@@ -1,5 +1,5 @@
 import { Level } from 'level';
-import { DidIonMethod, DidKeyMethod, DidResolver } from '@web5/dids';
+import { DhtGatewayMemory, DidIonMethod, DidKeyMethod, DidResolver } from '@web5/dids';
 import { Dwn, DataStoreLevel, EventLogLevel, MessageStoreLevel } from '@tbd54566975/dwn-sdk-js';
 
 import type { Web5Rpc } from '../../src/rpc-client.js';
@@ -25,6 +25,7 @@ import { AppDataVault } from '../../src/app-data-store.js';
 import { IdentityManager } from '../../src/identity-manager.js';
 import { DidManager, DidMessage } from '../../src/did-manager.js';
 import { SyncManager, SyncManagerLevel } from '../../src/sync-manager.js';
+import { DidDhtRepublisher, DidDhtRepublisherLevel } from '../../src/did-dht-republisher.js';
 
 type CreateMethodOptions = {
   testDataLocation?: string;
@@ -33,6 +34,7 @@ type CreateMethodOptions = {
 type TestAgentOptions = {
   appData: AppDataStore;
   didManager: DidManager;
+  didRepublisher: DidDhtRepublisher;
   didResolver: DidResolver;
   dwnManager: DwnManager;
   identityManager: IdentityManager;
@@ -45,12 +47,14 @@ type TestAgentOptions = {
   dwnEventLog: EventLogLevel;
   dwnMessageStore: MessageStoreLevel;
   syncStore: Level;
+  didRepublisherStore: Level;
 }
 
 export class TestAgent implements Web5ManagedAgent {
   agentDid: string | undefined;
   appData: AppDataStore;
   didManager: DidManager;
+  didRepublisher: DidDhtRepublisher;
   didResolver: DidResolver;
   dwnManager: DwnManager;
   identityManager: IdentityManager;
@@ -66,10 +70,12 @@ export class TestAgent implements Web5ManagedAgent {
   dwnEventLog: EventLogLevel;
   dwnMessageStore: MessageStoreLevel;
   syncStore: Level;
+  didRepublisherStore: Level;
 
   constructor(options: TestAgentOptions) {
     this.appData = options.appData;
     this.didManager = options.didManager;
+    this.didRepublisher = options.didRepublisher;
     this.didResolver = options.didResolver;
     this.dwnManager = options.dwnManager;
     this.identityManager = options.identityManager;
@@ -79,6 +85,7 @@ export class TestAgent implements Web5ManagedAgent {
 
     // Set this agent to be the default agent for each component.
     this.didManager.agent = this;
+    this.didRepublisher.agent = this;
     this.dwnManager.agent = this;
     this.identityManager.agent = this;
     this.keyManager.agent = this;
@@ -90,6 +97,7 @@ export class TestAgent implements Web5ManagedAgent {
     this.dwnEventLog = options.dwnEventLog;
     this.dwnMessageStore = options.dwnMessageStore;
     this.syncStore = options.syncStore;
+    this.didRepublisherStore = options.didRepublisherStore;
   }
 
   async clearStorage(): Promise<void> {
@@ -98,6 +106,7 @@ export class TestAgent implements Web5ManagedAgent {
     await this.dwnEventLog.clear();
     await this.dwnMessageStore.clear();
     await this.syncStore.clear();
+    await this.didRepublisherStore.clear();
   }
 
   async closeStorage(): Promise<void> {
@@ -105,6 +114,7 @@ export class TestAgent implements Web5ManagedAgent {
     await this.dwnEventLog.close();
     await this.dwnMessageStore.close();
     await this.syncStore.close();
+    await this.didRepublisherStore.close();
   }
 
   static async create(options: CreateMethodOptions = {}): Promise<TestAgent> {
@@ -151,9 +161,15 @@ export class TestAgent implements Web5ManagedAgent {
     const syncStore = new Level(testDataPath('SYNC_STORE'));
     const syncManager = new SyncManagerLevel({ db: syncStore });
 
+    // Instantiate a DidDhtRepublisher that publishes to an in-memory DHT gateway.
+    const didRepublisherStore = new Level(testDataPath('DHT_REPUBLISH_STORE'));
+    const didRepublisher = new DidDhtRepublisherLevel({ db: didRepublisherStore, gateway: new DhtGatewayMemory() });
+
     return new TestAgent({
       appData,
       didManager,
+      didRepublisher,
+      didRepublisherStore,
       didResolver,
       dwn,
       dwnDataStore,
@@ -213,4 +229,8 @@ export class TestAgent implements Web5ManagedAgent {
   async start(_options: { passphrase: string; }): Promise<void> {
     throw new Error('Not implemented');
   }
+
+  async stop(): Promise<void> {
+    throw new Error('Not implemented');
+  }
 }
\ No newline at end of file
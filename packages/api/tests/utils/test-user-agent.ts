@@ -11,6 +11,7 @@ import type {
   Web5ManagedAgent,
   ProcessDwnRequest,
   SyncManager,
+  DidDhtRepublisher,
 } from '@web5/agent';
 
 import { Dwn, EventLogLevel,
@@ -19,6 +20,7 @@ import { Dwn, EventLogLevel,
 import {
   DidResolver,
   DidKeyMethod,
+  DhtGatewayMemory,
 } from '@web5/dids';
 import {
   LocalKms,
@@ -30,6 +32,7 @@ import {
   Web5RpcClient,
   IdentityManager,
   SyncManagerLevel,
+  DidDhtRepublisherLevel,
 } from '@web5/agent';
 
 type CreateMethodOptions = {
@@ -39,6 +42,7 @@ type CreateMethodOptions = {
 type TestUserAgentOptions = {
   appData: AppDataStore;
   didManager: DidManager;
+  didRepublisher: DidDhtRepublisher;
   didResolver: DidResolver;
   dwnManager: DwnManager;
   identityManager: IdentityManager;
@@ -56,6 +60,7 @@ export class TestUserAgent implements Web5ManagedAgent {
   agentDid: string | undefined;
   appData: AppDataStore;
   didManager: DidManager;
+  didRepublisher: DidDhtRepublisher;
   didResolver: DidResolver;
   dwnManager: DwnManager;
   identityManager: IdentityManager;
@@ -74,6 +79,7 @@ export class TestUserAgent implements Web5ManagedAgent {
   constructor(options: TestUserAgentOptions) {
     this.appData = options.appData;
     this.didManager = options.didManager;
+    this.didRepublisher = options.didRepublisher;
     this.didResolver = options.didResolver;
     this.dwnManager = options.dwnManager;
     this.identityManager = options.identityManager;
@@ -83,6 +89,7 @@ export class TestUserAgent implements Web5ManagedAgent {
 
     // Set this agent to be the default agent for each component.
     this.didManager.agent = this;
+    this.didRepublisher.agent = this;
     this.dwnManager.agent = this;
     this.identityManager.agent = this;
     this.keyManager.agent = this;
@@ -149,9 +156,16 @@ export class TestUserAgent implements Web5ManagedAgent {
     // Instantiate a SyncManager.
     const syncManager = new SyncManagerLevel({ dataPath: testDataPath('SYNC_STORE')});
 
+    // Instantiate a DidDhtRepublisher that publishes to an in-memory DHT gateway.
+    const didRepublisher = new DidDhtRepublisherLevel({
+      dataPath : testDataPath('DHT_REPUBLISH_STORE'),
+      gateway  : new DhtGatewayMemory()
+    });
+
     return new TestUserAgent({
       appData,
       didManager,
+      didRepublisher,
       didResolver,
       dwn,
       dwnDataStore,
@@ -210,4 +224,8 @@ export class TestUserAgent implements Web5ManagedAgent {
   async start(_options: { passphrase: string; }): Promise<void> {
     throw new Error('Not implemented');
   }
+
+  async stop(): Promise<void> {
+    throw new Error('Not implemented');
+  }
 }
\ No newline at end of file
@@ -173,4 +173,8 @@ Multicodec.registerCodec({ code: 0x1300, name: 'ed25519-priv' });
 Multicodec.registerCodec({ code: 0xec, name: 'x25519-pub' });
 Multicodec.registerCodec({ code: 0x1302, name: 'x25519-priv' });
 Multicodec.registerCodec({ code: 0xe7, name: 'secp256k1-pub' });
-Multicodec.registerCodec({ code: 0x1301, name: 'secp256k1-priv' });
\ No newline at end of file
+Multicodec.registerCodec({ code: 0x1301, name: 'secp256k1-priv' });
+Multicodec.registerCodec({ code: 0x1200, name: 'p256-pub' });
+Multicodec.registerCodec({ code: 0x1306, name: 'p256-priv' });
+Multicodec.registerCodec({ code: 0x1201, name: 'p384-pub' });
+Multicodec.registerCodec({ code: 0x1307, name: 'p384-priv' });
\ No newline at end of file
@@ -1,3 +1,4 @@
+export * from './jwt.js';
 export * from './verifiable-credential.js';
 export * from './presentation-exchange.js';
 export * as utils from './utils.js';
\ No newline at end of file
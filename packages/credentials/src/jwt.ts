@@ -0,0 +1,326 @@
+import type { DidDocument, DidResolver, VerificationMethod, VerificationRelationship } from '@web5/dids';
+import type { JwsCryptoManager, JwsHeaderParams, Web5Crypto } from '@web5/crypto';
+
+import { Convert } from '@web5/common';
+import { Jose, Jws } from '@web5/crypto';
+import { utils as didUtils } from '@web5/dids';
+
+/**
+ * The registered claims of a JWT, as defined in
+ * {@link https://datatracker.ietf.org/doc/html/rfc7519#section-4.1 | RFC 7519, Section 4.1},
+ * along with any public or private claims.
+ */
+export type JwtPayload = {
+  // Issuer
+  iss?: string;
+  // Subject
+  sub?: string;
+  // Audience
+  aud?: string | string[];
+  // Expiration Time, in seconds since the Unix epoch
+  exp?: number;
+  // Not Before, in seconds since the Unix epoch
+  nbf?: number;
+  // Issued At, in seconds since the Unix epoch
+  iat?: number;
+  // JWT ID
+  jti?: string;
+  // Additional public or private claims.
+  [key: string]: unknown;
+};
+
+/**
+ * A JWT decoded into its header, payload and base64url-encoded signature.
+ */
+export type DecodedJwt<T extends JwtPayload = JwtPayload> = {
+  header: JwsHeaderParams;
+  payload: T;
+  signature: string;
+};
+
+/**
+ * A JWT whose signature and claims have been verified, along with the
+ * DID Document verification method that its signature was verified with.
+ */
+export type VerifiedJwt<T extends JwtPayload = JwtPayload> = DecodedJwt<T> & {
+  verificationMethod: VerificationMethod;
+};
+
+/**
+ * Any key manager that holds DID keys, such as the `KeyManager` of
+ * `@web5/agent`, which can look up a key and sign with it.
+ */
+export interface JwtKeyManager extends JwsCryptoManager {
+  getKey(options: {
+    keyRef: string
+  }): Promise<{ algorithm: Web5Crypto.Algorithm } | { privateKey: { algorithm: Web5Crypto.Algorithm } } | undefined>;
+}
+
+export type JwtErrorCode =
+  // The JWT is not a well-formed compact JWS with a JSON payload.
+  | 'invalidJwt'
+  // The `kid` header parameter is missing or is not a DID URL.
+  | 'invalidKid'
+  // The `kid` could not be dereferenced to a verification method.
+  | 'keyNotFound'
+  // The verification method is not referenced from the required verification relationship.
+  | 'invalidVerificationRelationship'
+  // The signature does not verify against the verification method.
+  | 'invalidSignature'
+  // The current time is at or after the `exp` claim.
+  | 'expired'
+  // The current time is before the `nbf` claim.
+  | 'notYetValid'
+  // The `iat` claim is in the future.
+  | 'issuedInFuture'
+  // The `aud` claim does not contain the expected audience.
+  | 'invalidAudience'
+  // The `iss` claim does not match the expected issuer or the DID of the `kid`.
+  | 'invalidIssuer'
+  // The `sub` claim does not match the expected subject.
+  | 'invalidSubject';
+
+export class JwtError extends Error {
+  constructor(public code: JwtErrorCode, message: string) {
+    super(message);
+  }
+}
+
+export class Jwt {
+  /**
+   * Decodes a JWT without verifying its signature or claims.
+   *
+   * @param jwt - The JWT to decode.
+   * @returns The decoded header, payload and signature.
+   * @throws {JwtError} With code `invalidJwt` if the JWT is malformed.
+   */
+  public static decode<T extends JwtPayload = JwtPayload>(jwt: string): DecodedJwt<T> {
+    const parts = jwt.split('.');
+    if (parts.length !== 3 || parts.some(part => part === '')) {
+      throw new JwtError('invalidJwt', 'Jwt: A JWT must consist of a header, payload and signature.');
+    }
+
+    const [encodedHeader, encodedPayload, signature] = parts;
+
+    let header: JwsHeaderParams;
+    let payload: T;
+    try {
+      header = Convert.base64Url(encodedHeader).toObject() as JwsHeaderParams;
+      payload = Convert.base64Url(encodedPayload).toObject() as T;
+    } catch {
+      throw new JwtError('invalidJwt', 'Jwt: The JWT header and payload must be base64url-encoded JSON objects.');
+    }
+
+    // JSON values such as `null`, arrays, strings and numbers are not JOSE headers or claim sets.
+    if (!Jwt.isJsonObject(header) || !Jwt.isJsonObject(payload)) {
+      throw new JwtError('invalidJwt', 'Jwt: The JWT header and payload must be base64url-encoded JSON objects.');
+    }
+
+    for (const claim of ['exp', 'nbf', 'iat'] as const) {
+      if (payload[claim] !== undefined && typeof payload[claim] !== 'number') {
+        throw new JwtError('invalidJwt', `Jwt: The '${claim}' claim must be a number.`);
+      }
+    }
+
+    return { header, payload, signature };
+  }
+
+  /**
+   * Signs a JWT with a DID key held by a key manager.
+   *
+   * The signature algorithm is selected by the key's algorithm, and the
+   * `kid` header parameter is set to the DID URL of the key's verification
+   * method. The `iss` claim is set to the DID of the `kid`, which `verify()`
+   * requires, and unless the payload specifies otherwise, the `iat` claim is
+   * set to the current time.
+   *
+   * @param options.keyManager - The key manager that holds the signing key.
+   * @param options.keyRef - The key manager's ID or alias of the key. Defaults to `kid`.
+   * @param options.kid - The DID URL of the verification method of the signing key.
+   * @param options.payload - The claims of the JWT.
+   * @returns A Promise that resolves to the JWT.
+   * @throws {JwtError} With code `invalidKid` or `invalidIssuer` if the `kid` is not a DID URL or is not of the DID in `iss`.
+   */
+  public static async sign(options: {
+    keyManager: JwtKeyManager,
+    keyRef?: string,
+    kid: string,
+    payload: JwtPayload
+  }): Promise<string> {
+    const { keyManager, kid, keyRef = kid } = options;
+
+    const parsedKid = didUtils.parseDid({ didUrl: kid });
+    if (!parsedKid?.fragment) {
+      throw new JwtError('invalidKid', `Jwt: Key ID must be a DID URL with a fragment: '${kid}'`);
+    }
+
+    if (options.payload.iss !== undefined && options.payload.iss !== parsedKid.did) {
+      throw new JwtError('invalidIssuer', `Jwt: Issuer '${options.payload.iss}' does not match the DID of key ID '${kid}'.`);
+    }
+
+    const key = await keyManager.getKey({ keyRef });
+    if (key === undefined) {
+      throw new Error(`Jwt: Signing key not found: '${keyRef}'`);
+    }
+
+    const algorithm = ('privateKey' in key) ? key.privateKey.algorithm : key.algorithm;
+    const { alg } = Jose.webCryptoToJose(algorithm);
+    if (alg === undefined) {
+      throw new Error(`Jwt: Unable to determine the JWS algorithm of key: '${keyRef}'`);
+    }
+
+    const payload: JwtPayload = {
+      iss : parsedKid.did,
+      iat : Math.floor(Date.now() / 1000),
+      ...options.payload
+    };
+
+    return await Jws.createCompact({
+      payload : Convert.object(payload).toUint8Array(),
+      signer  : {
+        cryptoManager   : keyManager,
+        keyRef,
+        protectedHeader : { alg: alg as JwsHeaderParams['alg'], typ: 'JWT', kid }
+      }
+    });
+  }
+
+  /**
+   * Verifies the signature and claims of a JWT.
+   *
+   * The `kid` header parameter is dereferenced to a verification method
+   * with the DID resolver, and its DID must match the `iss` claim, if any.
+   * If `verificationRelationship` is specified, the verification method must
+   * also be referenced from that relationship in the DID document.
+   * The `exp`, `nbf` and `iat` claims are checked against the current time,
+   * allowing for `clockSkew`. If the JWT has an `aud` claim, `audience` must
+   * be specified and be one of its values.
+   *
+   * @param options.audience - The audience that the JWT must be intended for.
+   * @param options.clockSkew - The tolerated clock skew, in seconds. Defaults to 60.
+   * @param options.currentTime - The time to check time claims against, in seconds since the Unix epoch. Defaults to now.
+   * @param options.didResolver - The DID resolver to dereference the `kid` with.
+   * @param options.issuer - The expected value of the `iss` claim.
+   * @param options.jwt - The JWT to verify.
+   * @param options.subject - The expected value of the `sub` claim.
+   * @param options.verificationRelationship - The verification relationship, such as `assertionMethod`, that the key must be authorized for.
+   * @returns A Promise that resolves to the decoded JWT and its verification method.
+   * @throws {JwtError} If the JWT is malformed or fails verification.
+   */
+  public static async verify<T extends JwtPayload = JwtPayload>(options: {
+    audience?: string,
+    clockSkew?: number,
+    currentTime?: number,
+    didResolver: DidResolver,
+    issuer?: string,
+    jwt: string,
+    subject?: string,
+    verificationRelationship?: VerificationRelationship
+  }): Promise<VerifiedJwt<T>> {
+    const { audience, clockSkew = 60, didResolver, issuer, jwt, subject, verificationRelationship } = options;
+    const { currentTime = Math.floor(Date.now() / 1000) } = options;
+
+    const { header, payload, signature } = Jwt.decode<T>(jwt);
+
+    if (!header.alg || !header.kid) {
+      throw new JwtError('invalidJwt', 'Jwt: The JWT header must contain alg and kid.');
+    }
+
+    const parsedKid = didUtils.parseDid({ didUrl: header.kid });
+    if (!parsedKid?.fragment) {
+      throw new JwtError('invalidKid', `Jwt: Key ID must be a DID URL with a fragment: '${header.kid}'`);
+    }
+
+    if (payload.iss !== undefined && payload.iss !== parsedKid.did) {
+      throw new JwtError('invalidIssuer', `Jwt: Issuer '${payload.iss}' does not match the DID of key ID '${header.kid}'.`);
+    }
+
+    const { contentStream: verificationMethod, dereferencingMetadata } = await didResolver.dereference(header.kid);
+    if (dereferencingMetadata.error || !Jwt.isVerificationMethod(verificationMethod)) {
+      throw new JwtError('keyNotFound', dereferencingMetadata.errorMessage ?? `Jwt: Key ID is not a verification method: '${header.kid}'`);
+    }
+
+    if (verificationRelationship !== undefined) {
+      const { didDocument } = await didResolver.resolve(parsedKid.did);
+      if (!didDocument || !Jwt.isReferencedFrom({ didDocument, fragment: parsedKid.fragment, verificationRelationship })) {
+        throw new JwtError('invalidVerificationRelationship', `Jwt: Key ID is not authorized for '${verificationRelationship}': '${header.kid}'`);
+      }
+    }
+
+    let isValid: boolean;
+    try {
+      isValid = await Jws.verify({ jws: jwt, verificationMethod });
+    } catch (error: any) {
+      throw new JwtError('invalidSignature', error.message);
+    }
+    if (!isValid) {
+      throw new JwtError('invalidSignature', 'Jwt: Signature verification failed.');
+    }
+
+    if (payload.exp !== undefined && currentTime - clockSkew >= payload.exp) {
+      throw new JwtError('expired', `Jwt: The JWT expired at ${payload.exp}.`);
+    }
+
+    if (payload.nbf !== undefined && currentTime + clockSkew < payload.nbf) {
+      throw new JwtError('notYetValid', `Jwt: The JWT is not valid before ${payload.nbf}.`);
+    }
+
+    if (payload.iat !== undefined && currentTime + clockSkew < payload.iat) {
+      throw new JwtError('issuedInFuture', `Jwt: The JWT was issued in the future at ${payload.iat}.`);
+    }
+
+    if (payload.aud !== undefined && audience === undefined) {
+      throw new JwtError('invalidAudience', 'Jwt: The JWT has an audience, but no audience was specified to verify against.');
+    }
+
+    if (audience !== undefined && ![payload.aud ?? []].flat().includes(audience)) {
+      throw new JwtError('invalidAudience', `Jwt: The JWT audience does not include '${audience}'.`);
+    }
+
+    if (issuer !== undefined && payload.iss !== issuer) {
+      throw new JwtError('invalidIssuer', `Jwt: Expected issuer '${issuer}' but found '${payload.iss}'.`);
+    }
+
+    if (subject !== undefined && payload.sub !== subject) {
+      throw new JwtError('invalidSubject', `Jwt: Expected subject '${subject}' but found '${payload.sub}'.`);
+    }
+
+    return { header, payload, signature, verificationMethod };
+  }
+
+  /**
+   * A private method to check whether a decoded JSON value is an object,
+   * as JOSE headers and JWT claim sets must be.
+   */
+  private static isJsonObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  /**
+   * A private method to check whether the verification method with the given
+   * fragment is referenced, or embedded, in a verification relationship of a
+   * DID document.
+   */
+  private static isReferencedFrom(options: {
+    didDocument: DidDocument,
+    fragment: string,
+    verificationRelationship: VerificationRelationship
+  }): boolean {
+    const { didDocument, fragment, verificationRelationship } = options;
+
+    const ids = [fragment, `#${fragment}`, `${didDocument.id}#${fragment}`];
+    const entries: (VerificationMethod | string)[] = didDocument[verificationRelationship] ?? [];
+
+    return entries.some(entry => ids.includes(typeof entry === 'string' ? entry : entry.id));
+  }
+
+  /**
+   * A private method to check whether a dereferenced DID resource is a
+   * verification method.
+   */
+  private static isVerificationMethod(resource: unknown): resource is VerificationMethod {
+    return typeof resource === 'object' && resource !== null
+      && 'controller' in resource && 'type' in resource
+      && ('publicKeyJwk' in resource || 'publicKeyMultibase' in resource);
+  }
+}
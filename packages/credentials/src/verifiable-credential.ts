@@ -1,15 +1,15 @@
-import type { Resolvable, DIDResolutionResult} from 'did-resolver';
 import type {
   ICredential,
   ICredentialSubject,
   JwtDecodedVerifiableCredential } from '@sphereon/ssi-types';
+import type { JwtKeyManager } from './jwt.js';
 
 import { v4 as uuidv4 } from 'uuid';
 import { getCurrentXmlSchema112Timestamp } from './utils.js';
 import { Convert } from '@web5/common';
-import { verifyJWT } from 'did-jwt';
 import { DidIonMethod, DidKeyMethod, DidResolver } from '@web5/dids';
 import { SsiValidator } from './validators.js';
+import { Jwt } from './jwt.js';
 
 export const DEFAULT_CONTEXT = 'https://www.w3.org/2018/credentials/v1';
 export const DEFAULT_VC_TYPE = 'VerifiableCredential';
@@ -21,15 +21,20 @@ export const DEFAULT_VC_TYPE = 'VerifiableCredential';
  */
 export type VcDataModel = ICredential;
 
+/**
+ * Options to sign a credential with a DID key held by a key manager. The
+ * signature algorithm is selected by the key's algorithm.
+ */
 export type SignOptions = {
   kid: string;
+  /** The DID of the issuer, which must be the DID of `kid`. */
   issuerDid: string;
   subjectDid: string;
-  signer: Signer,
+  keyManager: JwtKeyManager;
+  /** The key manager's ID or alias of the signing key. Defaults to `kid`. */
+  keyRef?: string;
 }
 
-type Signer = (data: Uint8Array) => Promise<Uint8Array>;
-
 type CredentialSubject = ICredentialSubject;
 
 type JwtHeaderParams = {
@@ -46,14 +51,6 @@ type DecodedVcJwt = {
 
 const didResolver = new DidResolver({ didResolvers: [DidIonMethod, DidKeyMethod] });
 
-class TbdResolver implements Resolvable {
-  async resolve(didUrl: string): Promise<DIDResolutionResult> {
-    return await didResolver.resolve(didUrl) as DIDResolutionResult;
-  }
-}
-
-const tbdResolver = new TbdResolver();
-
 /**
  * `VerifiableCredential` represents a digitally verifiable credential according to the
  * [W3C Verifiable Credentials Data Model](https://www.w3.org/TR/vc-data-model/).
@@ -97,7 +94,15 @@ export class VerifiableCredential {
    */
   // TODO: Refactor to look like: sign(did: Did, assertionMethodId?: string)
   public async sign(signOptions: SignOptions): Promise<string> {
-    const vcJwt: string = await createJwt({ vc: this.vcDataModel }, signOptions);
+    const { issuerDid, subjectDid, keyManager, keyRef, kid } = signOptions;
+
+    const vcJwt: string = await Jwt.sign({
+      keyManager,
+      keyRef,
+      kid,
+      payload: { iss: issuerDid, sub: subjectDid, vc: this.vcDataModel }
+    });
+
     return vcJwt;
   }
 
@@ -166,10 +171,11 @@ export class VerifiableCredential {
      * This function performs several crucial validation steps to ensure the trustworthiness of the provided VC:
      * - Parses and validates the structure of the JWT.
      * - Ensures the presence of critical header elements `alg` and `kid` in the JWT header.
-     * - Resolves the Decentralized Identifier (DID) and retrieves the associated DID Document.
-     * - Validates the DID and establishes a set of valid verification method IDs.
-     * - Identifies the correct Verification Method from the DID Document based on the `kid` parameter.
+     * - Ensures that the DID of the `kid` matches the `iss` claim.
+     * - Dereferences the `kid` DID URL to a Verification Method in the issuer's DID Document,
+     *   which must be referenced from its `assertionMethod` verification relationship.
      * - Verifies the JWT's signature using the public key associated with the Verification Method.
+     * - Validates the `exp`, `nbf` and `iat` time claims, if present.
      *
      * If any of these steps fail, the function will throw a [Error] with a message indicating the nature of the failure.
      *
@@ -195,13 +201,7 @@ export class VerifiableCredential {
       throw new Error('Signature verification failed: Expected JWS header to contain alg and kid');
     }
 
-    const verificationResponse = await verifyJWT(vcJwt, {
-      resolver: tbdResolver
-    });
-
-    if (!verificationResponse.verified) {
-      throw new Error('VC JWT could not be verified. Reason: ' + JSON.stringify(verificationResponse));
-    }
+    await Jwt.verify({ didResolver, jwt: vcJwt, verificationRelationship: 'assertionMethod' });
   }
 
   /**
@@ -260,27 +260,3 @@ function decode(jwt: string): DecodedVcJwt {
     signature : encodedSignature
   };
 }
-
-async function createJwt(payload: any, signOptions: SignOptions) {
-  const { issuerDid, subjectDid, signer, kid } = signOptions;
-
-  const header: JwtHeaderParams = { alg: 'EdDSA', typ: 'JWT', kid: kid };
-
-  const jwtPayload = {
-    iss : issuerDid,
-    sub : subjectDid,
-    ...payload,
-  };
-
-  const encodedHeader = Convert.object(header).toBase64Url();
-  const encodedPayload = Convert.object(jwtPayload).toBase64Url();
-  const message = encodedHeader + '.' + encodedPayload;
-  const messageBytes = Convert.string(message).toUint8Array();
-
-  const signature = await signer(messageBytes);
-
-  const encodedSignature = Convert.uint8Array(signature).toBase64Url();
-  const jwt = message + '.' + encodedSignature;
-
-  return jwt;
-}
\ No newline at end of file
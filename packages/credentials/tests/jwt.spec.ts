@@ -0,0 +1,246 @@
+import type { PortableDid } from '@web5/dids';
+
+import { expect } from 'chai';
+import { Convert } from '@web5/common';
+import { DidJwkMethod, DidKeyMethod, DidResolver } from '@web5/dids';
+import { Ed25519, Jose, Secp256k1 } from '@web5/crypto';
+
+import type { JwtKeyManager } from '../src/jwt.js';
+
+import { Jwt, JwtError } from '../src/jwt.js';
+
+/**
+ * A minimal key manager that holds the signing key of a single did:key.
+ */
+async function createKeyManager(did: PortableDid): Promise<JwtKeyManager> {
+  const [{ privateKeyJwk }] = did.keySet.verificationMethodKeys!;
+  const { keyMaterial: privateKey } = await Jose.jwkToKey({ key: privateKeyJwk! });
+  const algorithm = ('crv' in privateKeyJwk! && privateKeyJwk.crv === 'Ed25519')
+    ? { name: 'EdDSA', namedCurve: 'Ed25519' }
+    : { name: 'ECDSA', namedCurve: 'secp256k1' };
+
+  return {
+    getKey : async () => ({ privateKey: { algorithm } }),
+    sign   : async ({ algorithm, data }) => (algorithm.name === 'EdDSA')
+      ? Ed25519.sign({ data, key: privateKey })
+      : Secp256k1.sign({ data, hash: (algorithm as { hash: string }).hash, key: privateKey })
+  };
+}
+
+describe('Jwt', () => {
+  const didResolver = new DidResolver({ didResolvers: [DidKeyMethod] });
+
+  let alice: PortableDid;
+  let kid: string;
+  let keyManager: JwtKeyManager;
+
+  before(async () => {
+    alice = await DidKeyMethod.create();
+    kid = alice.document.verificationMethod![0].id;
+    keyManager = await createKeyManager(alice);
+  });
+
+  describe('decode()', () => {
+    it('returns the header, payload and signature', async () => {
+      const jwt = await Jwt.sign({ keyManager, kid, payload: { sub: 'did:example:bob' } });
+
+      const decodedJwt = Jwt.decode(jwt);
+
+      expect(decodedJwt.header).to.deep.equal({ alg: 'EdDSA', typ: 'JWT', kid });
+      expect(decodedJwt.payload).to.include({ iss: alice.did, sub: 'did:example:bob' });
+      expect(decodedJwt.signature).to.equal(jwt.split('.')[2]);
+    });
+
+    it('throws an error if the JWT is malformed', () => {
+      for (const jwt of ['invalid-jwt', 'a.b', 'a..c', 'a.b.c']) {
+        expect(() => Jwt.decode(jwt)).to.throw(JwtError).with.property('code', 'invalidJwt');
+      }
+    });
+
+    it('throws an error if a time claim is not a number', () => {
+      const encodedHeader = Convert.object({ alg: 'EdDSA', kid }).toBase64Url();
+      const encodedPayload = Convert.object({ exp: '2030-01-01' }).toBase64Url();
+
+      expect(() => Jwt.decode(`${encodedHeader}.${encodedPayload}.AA`)).to.throw(JwtError, `'exp' claim must be a number`);
+    });
+
+    it('throws an error if the header or payload is not a JSON object', () => {
+      const encodedHeader = Convert.object({ alg: 'EdDSA', kid }).toBase64Url();
+      const encodedPayload = Convert.object({ sub: 'did:example:bob' }).toBase64Url();
+
+      for (const value of ['null', '[]', '"claims"', '42']) {
+        const encodedValue = Convert.string(value).toBase64Url();
+
+        expect(() => Jwt.decode(`${encodedValue}.${encodedPayload}.AA`)).to.throw(JwtError).with.property('code', 'invalidJwt');
+        expect(() => Jwt.decode(`${encodedHeader}.${encodedValue}.AA`)).to.throw(JwtError).with.property('code', 'invalidJwt');
+      }
+    });
+  });
+
+  describe('sign()', () => {
+    it('sets the iss and iat claims unless given', async () => {
+      const before = Math.floor(Date.now() / 1000);
+      const jwt = await Jwt.sign({ keyManager, kid, payload: {} });
+
+      const { payload } = Jwt.decode(jwt);
+      expect(payload.iss).to.equal(alice.did);
+      expect(payload.iat).to.be.at.least(before);
+
+      const { payload: payloadWithClaims } = Jwt.decode(await Jwt.sign({ keyManager, kid, payload: { iat: 1 } }));
+      expect(payloadWithClaims.iat).to.equal(1);
+    });
+
+    it('signs with secp256k1 keys', async () => {
+      const bob = await DidKeyMethod.create({ keyAlgorithm: 'secp256k1' });
+      const bobKid = bob.document.verificationMethod![0].id;
+
+      const jwt = await Jwt.sign({ keyManager: await createKeyManager(bob), kid: bobKid, payload: {} });
+
+      expect(Jwt.decode(jwt).header.alg).to.equal('ES256K');
+      const { verificationMethod } = await Jwt.verify({ didResolver, jwt });
+      expect(verificationMethod.id).to.equal(bobKid);
+    });
+
+    it('throws an error if the key ID is not a DID URL', async () => {
+      try {
+        await Jwt.sign({ keyManager, kid: alice.did, payload: {} });
+        expect.fail('Expected an error to be thrown.');
+      } catch (error: any) {
+        expect(error).to.be.instanceOf(JwtError);
+        expect(error.code).to.equal('invalidKid');
+      }
+    });
+
+    it('throws an error if the iss claim is not the DID of the key ID', async () => {
+      try {
+        await Jwt.sign({ keyManager, kid, payload: { iss: 'did:example:mallory' } });
+        expect.fail('Expected an error to be thrown.');
+      } catch (error: any) {
+        expect(error).to.be.instanceOf(JwtError);
+        expect(error.code).to.equal('invalidIssuer');
+      }
+    });
+
+    it('throws an error if the key manager does not hold the key', async () => {
+      const emptyKeyManager: JwtKeyManager = { ...keyManager, getKey: async () => undefined };
+
+      try {
+        await Jwt.sign({ keyManager: emptyKeyManager, kid, payload: {} });
+        expect.fail('Expected an error to be thrown.');
+      } catch (error: any) {
+        expect(error.message).to.include('Signing key not found');
+      }
+    });
+  });
+
+  describe('verify()', () => {
+    const now = 1700000000;
+
+    async function expectVerifyError(options: Partial<Parameters<typeof Jwt.verify>[0]> & { jwt: string }, code: string): Promise<void> {
+      try {
+        await Jwt.verify({ didResolver, ...options });
+        expect.fail('Expected an error to be thrown.');
+      } catch (error: any) {
+        expect(error).to.be.instanceOf(JwtError);
+        expect(error.code).to.equal(code);
+      }
+    }
+
+    it('returns the decoded JWT and verification method', async () => {
+      const jwt = await Jwt.sign({ keyManager, kid, payload: { aud: 'did:example:bob', sub: 'did:example:carol' } });
+
+      const verifiedJwt = await Jwt.verify({ audience: 'did:example:bob', didResolver, issuer: alice.did, jwt, subject: 'did:example:carol' });
+
+      expect(verifiedJwt.payload.sub).to.equal('did:example:carol');
+      expect(verifiedJwt.verificationMethod.id).to.equal(kid);
+    });
+
+    it('throws an error if the signature is invalid', async () => {
+      const jwt = await Jwt.sign({ keyManager, kid, payload: {} });
+      const [encodedHeader, , signature] = jwt.split('.');
+      const tamperedPayload = Convert.object({ iss: alice.did, admin: true }).toBase64Url();
+
+      await expectVerifyError({ jwt: `${encodedHeader}.${tamperedPayload}.${signature}` }, 'invalidSignature');
+    });
+
+    it('throws an error if the iss claim does not match the DID of the key ID', async () => {
+      const jwt = await Jwt.sign({ keyManager, kid, payload: {} });
+      const [encodedHeader, , signature] = jwt.split('.');
+      const forgedPayload = Convert.object({ iss: 'did:example:mallory' }).toBase64Url();
+
+      await expectVerifyError({ jwt: `${encodedHeader}.${forgedPayload}.${signature}` }, 'invalidIssuer');
+    });
+
+    it('checks that the key is authorized for the verification relationship, if specified', async () => {
+      const jwt = await Jwt.sign({ keyManager, kid, payload: {} });
+
+      await Jwt.verify({ didResolver, jwt, verificationRelationship: 'assertionMethod' });
+      await expectVerifyError({ jwt, verificationRelationship: 'keyAgreement' }, 'invalidVerificationRelationship');
+    });
+
+    it('rejects keys intended only for encryption as assertion methods', async () => {
+      const keySet = await DidJwkMethod.generateKeySet({ keyAlgorithm: 'Ed25519' });
+      const [{ privateKeyJwk, publicKeyJwk }] = keySet.verificationMethodKeys!;
+      privateKeyJwk!.use = 'enc';
+      publicKeyJwk!.use = 'enc';
+      const bob = await DidJwkMethod.create({ keySet });
+      const bobKid = bob.document.verificationMethod![0].id;
+
+      const jwt = await Jwt.sign({ keyManager: await createKeyManager(bob), kid: bobKid, payload: {} });
+
+      await expectVerifyError({
+        didResolver              : new DidResolver({ didResolvers: [DidJwkMethod] }),
+        jwt,
+        verificationRelationship : 'assertionMethod'
+      }, 'invalidVerificationRelationship');
+    });
+
+    it('throws an error if the key ID cannot be dereferenced', async () => {
+      const jwt = await Jwt.sign({ keyManager, kid: `${alice.did}#missing-key`, payload: {} });
+
+      await expectVerifyError({ jwt }, 'keyNotFound');
+    });
+
+    it('validates the exp claim allowing for clock skew', async () => {
+      const jwt = await Jwt.sign({ keyManager, kid, payload: { exp: now - 30, iat: now - 3600 } });
+
+      await Jwt.verify({ currentTime: now, didResolver, jwt });
+      await expectVerifyError({ clockSkew: 0, currentTime: now, jwt }, 'expired');
+      await expectVerifyError({ currentTime: now + 30, jwt }, 'expired');
+    });
+
+    it('validates the nbf and iat claims allowing for clock skew', async () => {
+      const notYetValidJwt = await Jwt.sign({ keyManager, kid, payload: { iat: now, nbf: now + 120 } });
+      await expectVerifyError({ currentTime: now, jwt: notYetValidJwt }, 'notYetValid');
+      await Jwt.verify({ clockSkew: 120, currentTime: now, didResolver, jwt: notYetValidJwt });
+
+      const issuedInFutureJwt = await Jwt.sign({ keyManager, kid, payload: { iat: now + 120 } });
+      await expectVerifyError({ currentTime: now, jwt: issuedInFutureJwt }, 'issuedInFuture');
+    });
+
+    it('validates the aud claim', async () => {
+      const jwt = await Jwt.sign({ keyManager, kid, payload: { aud: ['did:example:bob', 'did:example:carol'] } });
+
+      await Jwt.verify({ audience: 'did:example:carol', didResolver, jwt });
+      await expectVerifyError({ audience: 'did:example:mallory', jwt }, 'invalidAudience');
+      await expectVerifyError({ jwt }, 'invalidAudience');
+
+      const jwtWithoutAudience = await Jwt.sign({ keyManager, kid, payload: {} });
+      await expectVerifyError({ audience: 'did:example:bob', jwt: jwtWithoutAudience }, 'invalidAudience');
+    });
+
+    it('validates the iss and sub claims', async () => {
+      const jwt = await Jwt.sign({ keyManager, kid, payload: { sub: 'did:example:bob' } });
+
+      await expectVerifyError({ issuer: 'did:example:mallory', jwt }, 'invalidIssuer');
+      await expectVerifyError({ jwt, subject: 'did:example:mallory' }, 'invalidSubject');
+    });
+
+    it('throws an error if the header does not contain alg and kid', async () => {
+      const encodedHeader = Convert.object({ alg: 'EdDSA' }).toBase64Url();
+      const encodedPayload = Convert.object({ iss: alice.did }).toBase64Url();
+
+      await expectVerifyError({ jwt: `${encodedHeader}.${encodedPayload}.AA` }, 'invalidJwt');
+    });
+  });
+});
@@ -1,11 +1,10 @@
 import { expect } from 'chai';
 import { DidKeyMethod } from '@web5/dids';
 import { Ed25519, Jose } from '@web5/crypto';
+import type { JwtKeyManager } from '../src/jwt.js';
 import { PresentationExchange, Validated, PresentationDefinitionV2 } from '../src/presentation-exchange.js';
 import { VerifiableCredential, SignOptions } from '../src/verifiable-credential.js';
 
-type Signer = (data: Uint8Array) => Promise<Uint8Array>;
-
 class BitcoinCredential {
   constructor(
     public btcAddress: string
@@ -28,12 +27,12 @@ describe('PresentationExchange', () => {
       const alice = await DidKeyMethod.create();
       const [signingKeyPair] = alice.keySet.verificationMethodKeys!;
       const privateKey = (await Jose.jwkToKey({ key: signingKeyPair.privateKeyJwk!})).keyMaterial;
-      const signer = EdDsaSigner(privateKey);
+      const keyManager = EdDsaKeyManager(privateKey);
       signOptions = {
         issuerDid  : alice.did,
         subjectDid : alice.did,
         kid        : alice.did + '#' + alice.did.split(':')[2],
-        signer     : signer
+        keyManager : keyManager
       };
 
       const vc = VerifiableCredential.create(
@@ -200,10 +199,10 @@ function createPresentationDefinition(): PresentationDefinitionV2 {
   };
 }
 
-function EdDsaSigner(privateKey: Uint8Array): Signer {
-  return async (data: Uint8Array): Promise<Uint8Array> => {
-    const signature = await Ed25519.sign({ data, key: privateKey});
-    return signature;
+function EdDsaKeyManager(privateKey: Uint8Array): JwtKeyManager {
+  return {
+    getKey : async () => ({ privateKey: { algorithm: { name: 'EdDSA', namedCurve: 'Ed25519' } } }),
+    sign   : async ({ data }) => Ed25519.sign({ data, key: privateKey })
   };
 }
 
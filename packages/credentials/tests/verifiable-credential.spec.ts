@@ -1,12 +1,12 @@
 import { expect } from 'chai';
 import { VerifiableCredential, SignOptions } from '../src/verifiable-credential.js';
-import { Ed25519, Jose } from '@web5/crypto';
+import { Ed25519, Jose, Secp256k1 } from '@web5/crypto';
 import { DidKeyMethod } from '@web5/dids';
-
-type Signer = (data: Uint8Array) => Promise<Uint8Array>;
+import type { JwtKeyManager } from '../src/jwt.js';
+import { Jwt } from '../src/jwt.js';
 
 describe('Verifiable Credential Tests', () => {
-  let signer: Signer;
+  let keyManager: JwtKeyManager;
   let signOptions: SignOptions;
 
   class StreetCredibility {
@@ -21,12 +21,12 @@ describe('Verifiable Credential Tests', () => {
     const alice = await DidKeyMethod.create();
     const [signingKeyPair] = alice.keySet.verificationMethodKeys!;
     const privateKey = (await Jose.jwkToKey({ key: signingKeyPair.privateKeyJwk!})).keyMaterial;
-    signer = EdDsaSigner(privateKey);
+    keyManager = EdDsaKeyManager(privateKey);
     signOptions = {
       issuerDid  : alice.did,
       subjectDid : alice.did,
       kid        : alice.did + '#' + alice.did.split(':')[2],
-      signer     : signer
+      keyManager : keyManager
     };
   });
 
@@ -116,7 +116,7 @@ describe('Verifiable Credential Tests', () => {
       }).to.throw('Not a valid jwt');
     });
 
-    it('verify fails with bad issuer did', async () => {
+    it('sign fails with bad issuer did', async () => {
       const vc = VerifiableCredential.create(
         'StreetCred',
         'bad:did: invalidDid',
@@ -128,12 +128,10 @@ describe('Verifiable Credential Tests', () => {
         issuerDid  : 'bad:did: invalidDid',
         subjectDid : signOptions.subjectDid,
         kid        : signOptions.issuerDid + '#' + signOptions.issuerDid.split(':')[2],
-        signer     : signer
+        keyManager : keyManager
       };
 
-      const vcJwt = await vc.sign(badSignOptions);
-
-      await expectThrowsAsync(() =>  VerifiableCredential.verify(vcJwt), 'Unable to resolve DID');
+      await expectThrowsAsync(() => vc.sign(badSignOptions), 'does not match the DID of key ID');
     });
 
     it('parseJwt checks if missing vc property', async () => {
@@ -181,13 +179,43 @@ describe('Verifiable Credential Tests', () => {
 
       await VerifiableCredential.verify(vcJwt);
     });
+
+    it('signs with the algorithm of the signing key', async () => {
+      const bob = await DidKeyMethod.create({ keyAlgorithm: 'secp256k1' });
+      const [signingKeyPair] = bob.keySet.verificationMethodKeys!;
+      const privateKey = (await Jose.jwkToKey({ key: signingKeyPair.privateKeyJwk!})).keyMaterial;
+
+      const vc = VerifiableCredential.create(
+        'StreetCred',
+        bob.did,
+        bob.did,
+        new StreetCredibility('high', true)
+      );
+
+      const vcJwt = await vc.sign({
+        issuerDid  : bob.did,
+        subjectDid : bob.did,
+        kid        : bob.document.verificationMethod![0].id,
+        keyManager : EcdsaKeyManager(privateKey)
+      });
+
+      expect(Jwt.decode(vcJwt).header.alg).to.equal('ES256K');
+      await VerifiableCredential.verify(vcJwt);
+    });
   });
 });
 
-function EdDsaSigner(privateKey: Uint8Array): Signer {
-  return async (data: Uint8Array): Promise<Uint8Array> => {
-    const signature = await Ed25519.sign({ data, key: privateKey});
-    return signature;
+function EdDsaKeyManager(privateKey: Uint8Array): JwtKeyManager {
+  return {
+    getKey : async () => ({ privateKey: { algorithm: { name: 'EdDSA', namedCurve: 'Ed25519' } } }),
+    sign   : async ({ data }) => Ed25519.sign({ data, key: privateKey })
+  };
+}
+
+function EcdsaKeyManager(privateKey: Uint8Array): JwtKeyManager {
+  return {
+    getKey : async () => ({ privateKey: { algorithm: { name: 'ECDSA', namedCurve: 'secp256k1' } } }),
+    sign   : async ({ algorithm, data }) => Secp256k1.sign({ data, hash: (algorithm as { hash: string }).hash, key: privateKey })
   };
 }
 
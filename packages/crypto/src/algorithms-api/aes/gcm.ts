@@ -0,0 +1,54 @@
+import { universalTypeOf } from '@web5/common';
+
+import type { Web5Crypto } from '../../types/web5-crypto.js';
+
+import { BaseAesAlgorithm } from './base.js';
+import { OperationError } from '../errors.js';
+import { checkRequiredProperty } from '../../utils.js';
+
+export abstract class BaseAesGcmAlgorithm extends BaseAesAlgorithm {
+
+  public readonly name = 'AES-GCM';
+
+  public readonly keyUsages: Web5Crypto.KeyUsage[] = ['encrypt', 'decrypt', 'wrapKey', 'unwrapKey'];
+
+  public checkAlgorithmOptions(options: {
+    algorithm: Web5Crypto.AesGcmOptions,
+    key: Web5Crypto.CryptoKey
+  }): void {
+    const { algorithm, key } = options;
+    // Algorithm specified in the operation must match the algorithm implementation processing the operation.
+    this.checkAlgorithmName({ algorithmName: algorithm.name });
+    // The algorithm object must contain an iv property.
+    checkRequiredProperty({ property: 'iv', inObject: algorithm });
+    // The iv must a Uint8Array.
+    if (!(universalTypeOf(algorithm.iv) === 'Uint8Array')) {
+      throw new TypeError(`Algorithm 'iv' is not of type: Uint8Array.`);
+    }
+    // The iv must not be empty.
+    if (algorithm.iv.byteLength === 0) {
+      throw new OperationError(`Algorithm 'iv' must not be empty.`);
+    }
+    // If specified, the additional data must be a Uint8Array.
+    if (algorithm.additionalData !== undefined && universalTypeOf(algorithm.additionalData) !== 'Uint8Array') {
+      throw new TypeError(`Algorithm 'additionalData' is not of type: Uint8Array.`);
+    }
+    // If specified, the tag length must be one of the allowed bit lengths for AES-GCM.
+    if (algorithm.tagLength !== undefined) {
+      if (universalTypeOf(algorithm.tagLength) !== 'Number') {
+        throw new TypeError(`Algorithm 'tagLength' is not of type: Number.`);
+      }
+      if (![32, 64, 96, 104, 112, 120, 128].includes(algorithm.tagLength)) {
+        throw new OperationError(`Algorithm 'tagLength' must be 32, 64, 96, 104, 112, 120, or 128.`);
+      }
+    }
+    // The options object must contain a key property.
+    checkRequiredProperty({ property: 'key', inObject: options });
+    // The key object must be a CryptoKey.
+    this.checkCryptoKey({ key });
+    // The key algorithm must match the algorithm implementation processing the operation.
+    this.checkKeyAlgorithm({ keyAlgorithmName: key.algorithm.name });
+    // The CryptoKey object must be a secret key.
+    this.checkKeyType({ keyType: key.type, allowedKeyType: 'secret' });
+  }
+}
@@ -1,2 +1,4 @@
 export * from './ctr.js';
+export * from './gcm.js';
+export * from './kw.js';
 export * from './base.js';
\ No newline at end of file
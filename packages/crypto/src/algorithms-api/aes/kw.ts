@@ -0,0 +1,70 @@
+import type { Web5Crypto } from '../../types/web5-crypto.js';
+
+import { BaseAesAlgorithm } from './base.js';
+import { checkRequiredProperty } from '../../utils.js';
+import { InvalidAccessError, OperationError } from '../errors.js';
+
+export abstract class BaseAesKwAlgorithm extends BaseAesAlgorithm {
+
+  public readonly name = 'AES-KW';
+
+  public readonly keyUsages: Web5Crypto.KeyUsage[] = ['wrapKey', 'unwrapKey'];
+
+  public checkAlgorithmOptions(options: {
+    algorithm: Web5Crypto.Algorithm,
+    key: Web5Crypto.CryptoKey
+  }): void {
+    const { algorithm, key } = options;
+    // Algorithm specified in the operation must match the algorithm implementation processing the operation.
+    this.checkAlgorithmName({ algorithmName: algorithm.name });
+    // The options object must contain a key property.
+    checkRequiredProperty({ property: 'key', inObject: options });
+    // The key object must be a CryptoKey.
+    this.checkCryptoKey({ key });
+    // The key algorithm must match the algorithm implementation processing the operation.
+    this.checkKeyAlgorithm({ keyAlgorithmName: key.algorithm.name });
+    // The CryptoKey object must be a secret key.
+    this.checkKeyType({ keyType: key.type, allowedKeyType: 'secret' });
+  }
+
+  public checkWrapKey(options: {
+    key: Web5Crypto.CryptoKey
+  }): void {
+    const { key } = options;
+    // The key to wrap must be a CryptoKey.
+    this.checkCryptoKey({ key });
+    // Only symmetric keys can be wrapped.
+    this.checkKeyType({ keyType: key.type, allowedKeyType: 'secret' });
+    // The key to wrap must be extractable.
+    if (!key.extractable) {
+      throw new InvalidAccessError(`Requested operation 'wrapKey' is not valid for non-extractable keys.`);
+    }
+    // The key material must be at least 16 bytes and a multiple of 8 bytes.
+    if (key.material.byteLength < 16 || key.material.byteLength % 8 !== 0) {
+      throw new OperationError(`Key material to wrap must be at least 16 bytes and a multiple of 8 bytes.`);
+    }
+  }
+
+  public override async decrypt(): Promise<Uint8Array> {
+    throw new InvalidAccessError(`Requested operation 'decrypt' is not valid for ${this.name} keys.`);
+  }
+
+  public override async encrypt(): Promise<Uint8Array> {
+    throw new InvalidAccessError(`Requested operation 'encrypt' is not valid for ${this.name} keys.`);
+  }
+
+  public abstract override unwrapKey(options: {
+    algorithm: Web5Crypto.Algorithm,
+    extractable: boolean,
+    keyUsages: Web5Crypto.KeyUsage[],
+    unwrappedKeyAlgorithm: Web5Crypto.Algorithm | Web5Crypto.GenerateKeyOptions,
+    unwrappingKey: Web5Crypto.CryptoKey,
+    wrappedKey: Uint8Array
+  }): Promise<Web5Crypto.CryptoKey>;
+
+  public abstract override wrapKey(options: {
+    algorithm: Web5Crypto.Algorithm,
+    key: Web5Crypto.CryptoKey,
+    wrappingKey: Web5Crypto.CryptoKey
+  }): Promise<Uint8Array>;
+}
@@ -118,10 +118,29 @@ export abstract class CryptoAlgorithm {
     data: Uint8Array
   }): Promise<Uint8Array>;
 
+  public async unwrapKey(_options: {
+    algorithm: Web5Crypto.AlgorithmIdentifier,
+    extractable: boolean,
+    keyUsages: Web5Crypto.KeyUsage[],
+    unwrappedKeyAlgorithm: Web5Crypto.AlgorithmIdentifier | Web5Crypto.GenerateKeyOptions,
+    unwrappingKey: Web5Crypto.CryptoKey,
+    wrappedKey: Uint8Array
+  }): Promise<Web5Crypto.CryptoKey> {
+    throw new InvalidAccessError(`Requested operation 'unwrapKey' is not valid for ${this.name} keys.`);
+  }
+
   public abstract verify(options: {
     algorithm: Web5Crypto.AlgorithmIdentifier | Web5Crypto.EcdsaOptions | Web5Crypto.EdDsaOptions,
     key: Web5Crypto.CryptoKey,
     signature: Uint8Array,
     data: Uint8Array
   }): Promise<boolean>;
+
+  public async wrapKey(_options: {
+    algorithm: Web5Crypto.AlgorithmIdentifier,
+    key: Web5Crypto.CryptoKey,
+    wrappingKey: Web5Crypto.CryptoKey
+  }): Promise<Uint8Array> {
+    throw new InvalidAccessError(`Requested operation 'wrapKey' is not valid for ${this.name} keys.`);
+  }
 }
\ No newline at end of file
@@ -0,0 +1 @@
+export * from './hkdf.js';
\ No newline at end of file
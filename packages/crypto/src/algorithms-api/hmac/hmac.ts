@@ -0,0 +1,87 @@
+import { universalTypeOf } from '@web5/common';
+
+import type { Web5Crypto } from '../../types/web5-crypto.js';
+
+import { CryptoAlgorithm } from '../crypto-algorithm.js';
+import { InvalidAccessError, OperationError } from '../errors.js';
+import { checkRequiredProperty, checkValidProperty } from '../../utils.js';
+
+export abstract class BaseHmacAlgorithm extends CryptoAlgorithm {
+
+  public readonly name: string = 'HMAC';
+
+  public readonly abstract hashAlgorithms: string[];
+
+  public readonly keyUsages: Web5Crypto.KeyUsage[] = ['sign', 'verify'];
+
+  public checkAlgorithmOptions(options: {
+    algorithm: Web5Crypto.Algorithm,
+    key: Web5Crypto.CryptoKey
+  }): void {
+    const { algorithm, key } = options;
+    // Algorithm specified in the operation must match the algorithm implementation processing the operation.
+    this.checkAlgorithmName({ algorithmName: algorithm.name });
+    // The options object must contain a key property.
+    checkRequiredProperty({ property: 'key', inObject: options });
+    // The key object must be a CryptoKey.
+    this.checkCryptoKey({ key });
+    // The key algorithm must match the algorithm implementation processing the operation.
+    this.checkKeyAlgorithm({ keyAlgorithmName: key.algorithm.name });
+    // The CryptoKey object must be a secret key.
+    this.checkKeyType({ keyType: key.type, allowedKeyType: 'secret' });
+    // If specified, the hash algorithm must match the hash algorithm of the key.
+    const { hash } = algorithm as Web5Crypto.HmacOptions;
+    const keyAlgorithm = key.algorithm as Web5Crypto.HmacGenerateKeyOptions;
+    if (hash !== undefined && hash !== keyAlgorithm.hash.name) {
+      throw new InvalidAccessError(`Algorithm hash '${hash}' does not match the provided '${keyAlgorithm.hash.name}' key.`);
+    }
+  }
+
+  public checkGenerateKey(options: {
+    algorithm: Web5Crypto.HmacGenerateKeyOptions,
+    keyUsages: Web5Crypto.KeyUsage[]
+  }): void {
+    const { algorithm, keyUsages } = options;
+    // Algorithm specified in the operation must match the algorithm implementation processing the operation.
+    this.checkAlgorithmName({ algorithmName: algorithm.name });
+    // The algorithm object must contain a hash property.
+    checkRequiredProperty({ property: 'hash', inObject: algorithm });
+    // The hash object must contain a name property.
+    checkRequiredProperty({ property: 'name', inObject: algorithm.hash });
+    // The hash algorithm specified must be supported by the algorithm implementation processing the operation.
+    checkValidProperty({ property: algorithm.hash.name, allowedProperties: this.hashAlgorithms });
+    // If specified, the length must be a positive number of bits that is a multiple of 8.
+    if (algorithm.length !== undefined) {
+      if (universalTypeOf(algorithm.length) !== 'Number') {
+        throw new TypeError(`Algorithm 'length' is not of type: Number.`);
+      }
+      if (algorithm.length < 8 || algorithm.length % 8 !== 0) {
+        throw new OperationError(`Algorithm 'length' must be a positive multiple of 8.`);
+      }
+    }
+    // The key usages specified must be permitted by the algorithm implementation processing the operation.
+    this.checkKeyUsages({ keyUsages, allowedKeyUsages: this.keyUsages });
+  }
+
+  public override async decrypt(): Promise<Uint8Array> {
+    throw new InvalidAccessError(`Requested operation 'decrypt' is not valid for ${this.name} keys.`);
+  }
+
+  public override async deriveBits(): Promise<Uint8Array> {
+    throw new InvalidAccessError(`Requested operation 'deriveBits' is not valid for ${this.name} keys.`);
+  }
+
+  public override async encrypt(): Promise<Uint8Array> {
+    throw new InvalidAccessError(`Requested operation 'encrypt' is not valid for ${this.name} keys.`);
+  }
+
+  public abstract generateKey(options: {
+    algorithm: Web5Crypto.HmacGenerateKeyOptions,
+    extractable: boolean,
+    keyUsages: Web5Crypto.KeyUsage[]
+  }): Promise<Web5Crypto.CryptoKey>;
+
+  public abstract sign(options: { algorithm: Web5Crypto.Algorithm; key: Web5Crypto.CryptoKey; data: Uint8Array; }): Promise<Uint8Array>;
+
+  public abstract verify(options: { algorithm: Web5Crypto.Algorithm; key: Web5Crypto.CryptoKey; signature: Uint8Array; data: Uint8Array; }): Promise<boolean>;
+}
@@ -0,0 +1 @@
+export * from './hmac.js';
\ No newline at end of file
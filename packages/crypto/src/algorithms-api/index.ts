@@ -2,5 +2,7 @@ export * from './errors.js';
 export * from './ec/index.js';
 export * from './aes/index.js';
 export * from './crypto-key.js';
+export * from './hkdf/index.js';
+export * from './hmac/index.js';
 export * from './pbkdf/index.js';
 export * from './crypto-algorithm.js';
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { universalTypeOf } from '@web5/common';
+
+import type { Web5Crypto } from '../types/web5-crypto.js';
+
+import { AesGcm } from '../crypto-primitives/index.js';
+import { BaseAesGcmAlgorithm, CryptoKey } from '../algorithms-api/index.js';
+
+export class AesGcmAlgorithm extends BaseAesGcmAlgorithm {
+  public async decrypt(options: {
+    algorithm: Web5Crypto.AesGcmOptions,
+    key: Web5Crypto.CryptoKey,
+    data: Uint8Array
+  }): Promise<Uint8Array> {
+    const { algorithm, key, data } = options;
+
+    this.checkAlgorithmOptions({ algorithm, key });
+    // The secret key must be allowed to be used for 'decrypt' operations.
+    this.checkKeyUsages({ keyUsages: ['decrypt'], allowedKeyUsages: key.usages });
+
+    const plaintext = await AesGcm.decrypt({
+      additionalData : algorithm.additionalData,
+      data           : data,
+      iv             : algorithm.iv,
+      key            : key.material,
+      tagLength      : algorithm.tagLength
+    });
+
+    return plaintext;
+  }
+
+  public async encrypt(options: {
+    algorithm: Web5Crypto.AesGcmOptions,
+    key: Web5Crypto.CryptoKey,
+    data: Uint8Array
+  }): Promise<Uint8Array> {
+    const { algorithm, key, data } = options;
+
+    this.checkAlgorithmOptions({ algorithm, key });
+    // The secret key must be allowed to be used for 'encrypt' operations.
+    this.checkKeyUsages({ keyUsages: ['encrypt'], allowedKeyUsages: key.usages });
+
+    const ciphertext = await AesGcm.encrypt({
+      additionalData : algorithm.additionalData,
+      data           : data,
+      iv             : algorithm.iv,
+      key            : key.material,
+      tagLength      : algorithm.tagLength
+    });
+
+    return ciphertext;
+  }
+
+  public async generateKey(options: {
+    algorithm: Web5Crypto.AesGenerateKeyOptions,
+    extractable: boolean,
+    keyUsages: Web5Crypto.KeyUsage[]
+  }): Promise<Web5Crypto.CryptoKey> {
+    const { algorithm, extractable, keyUsages } = options;
+
+    this.checkGenerateKey({ algorithm, keyUsages });
+
+    const secretKey = await AesGcm.generateKey({ length: algorithm.length });
+
+    if (universalTypeOf(secretKey) !== 'Uint8Array') {
+      throw new Error('Operation failed to generate key.');
+    }
+
+    const secretCryptoKey = new CryptoKey(algorithm, extractable, secretKey, 'secret', this.keyUsages);
+
+    return secretCryptoKey;
+  }
+}
\ No newline at end of file
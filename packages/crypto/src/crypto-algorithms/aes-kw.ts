@@ -0,0 +1,67 @@
+import { universalTypeOf } from '@web5/common';
+
+import type { Web5Crypto } from '../types/web5-crypto.js';
+
+import { AesKw } from '../crypto-primitives/index.js';
+import { BaseAesKwAlgorithm, CryptoKey } from '../algorithms-api/index.js';
+
+export class AesKwAlgorithm extends BaseAesKwAlgorithm {
+  public async generateKey(options: {
+    algorithm: Web5Crypto.AesGenerateKeyOptions,
+    extractable: boolean,
+    keyUsages: Web5Crypto.KeyUsage[]
+  }): Promise<Web5Crypto.CryptoKey> {
+    const { algorithm, extractable, keyUsages } = options;
+
+    this.checkGenerateKey({ algorithm, keyUsages });
+
+    const secretKey = await AesKw.generateKey({ length: algorithm.length });
+
+    if (universalTypeOf(secretKey) !== 'Uint8Array') {
+      throw new Error('Operation failed to generate key.');
+    }
+
+    const secretCryptoKey = new CryptoKey(algorithm, extractable, secretKey, 'secret', this.keyUsages);
+
+    return secretCryptoKey;
+  }
+
+  public async unwrapKey(options: {
+    algorithm: Web5Crypto.Algorithm,
+    extractable: boolean,
+    keyUsages: Web5Crypto.KeyUsage[],
+    unwrappedKeyAlgorithm: Web5Crypto.Algorithm | Web5Crypto.GenerateKeyOptions,
+    unwrappingKey: Web5Crypto.CryptoKey,
+    wrappedKey: Uint8Array
+  }): Promise<Web5Crypto.CryptoKey> {
+    const { algorithm, extractable, keyUsages, unwrappedKeyAlgorithm, unwrappingKey, wrappedKey } = options;
+
+    this.checkAlgorithmOptions({ algorithm, key: unwrappingKey });
+    // The secret key must be allowed to be used for 'unwrapKey' operations.
+    this.checkKeyUsages({ keyUsages: ['unwrapKey'], allowedKeyUsages: unwrappingKey.usages });
+
+    const secretKey = await AesKw.unwrapKey({ unwrappingKey: unwrappingKey.material, wrappedKey });
+
+    const secretCryptoKey = new CryptoKey(unwrappedKeyAlgorithm, extractable, secretKey, 'secret', keyUsages);
+
+    return secretCryptoKey;
+  }
+
+  public async wrapKey(options: {
+    algorithm: Web5Crypto.Algorithm,
+    key: Web5Crypto.CryptoKey,
+    wrappingKey: Web5Crypto.CryptoKey
+  }): Promise<Uint8Array> {
+    const { algorithm, key, wrappingKey } = options;
+
+    this.checkAlgorithmOptions({ algorithm, key: wrappingKey });
+    // The secret key must be allowed to be used for 'wrapKey' operations.
+    this.checkKeyUsages({ keyUsages: ['wrapKey'], allowedKeyUsages: wrappingKey.usages });
+    // The key to wrap must be an extractable secret key of a size AES-KW can wrap.
+    this.checkWrapKey({ key });
+
+    const wrappedKey = await AesKw.wrapKey({ key: key.material, wrappingKey: wrappingKey.material });
+
+    return wrappedKey;
+  }
+}
\ No newline at end of file
@@ -2,11 +2,11 @@ import type { Web5Crypto } from '../types/web5-crypto.js';
 import type { BytesKeyPair } from '../types/crypto-key.js';
 
 import { isBytesKeyPair } from '../utils.js';
-import { Secp256k1, X25519 } from '../crypto-primitives/index.js';
+import { Secp256k1, Secp256r1, Secp384r1, X25519 } from '../crypto-primitives/index.js';
 import { CryptoKey, BaseEcdhAlgorithm, OperationError } from '../algorithms-api/index.js';
 
 export class EcdhAlgorithm extends BaseEcdhAlgorithm {
-  public readonly namedCurves = ['secp256k1', 'X25519'];
+  public readonly namedCurves = ['secp256k1', 'P-256', 'P-384', 'X25519'];
 
   public async deriveBits(options: {
     algorithm: Web5Crypto.EcdhDeriveKeyOptions,
@@ -37,6 +37,26 @@ export class EcdhAlgorithm extends BaseEcdhAlgorithm {
         break;
       }
 
+      case 'P-256': {
+        const ownPrivateKey = baseKey.material;
+        const otherPartyPublicKey = algorithm.publicKey.material;
+        sharedSecret = await Secp256r1.sharedSecret({
+          privateKey : ownPrivateKey,
+          publicKey  : otherPartyPublicKey
+        });
+        break;
+      }
+
+      case 'P-384': {
+        const ownPrivateKey = baseKey.material;
+        const otherPartyPublicKey = algorithm.publicKey.material;
+        sharedSecret = await Secp384r1.sharedSecret({
+          privateKey : ownPrivateKey,
+          publicKey  : otherPartyPublicKey
+        });
+        break;
+      }
+
       case 'X25519': {
         const ownPrivateKey = baseKey.material;
         const otherPartyPublicKey = algorithm.publicKey.material;
@@ -94,6 +114,22 @@ export class EcdhAlgorithm extends BaseEcdhAlgorithm {
         break;
       }
 
+      case 'P-256': {
+        (algorithm as Web5Crypto.EcdsaGenerateKeyOptions).compressedPublicKey ??= true;
+        keyPair = await Secp256r1.generateKeyPair({
+          compressedPublicKey: (algorithm as Web5Crypto.EcdsaGenerateKeyOptions).compressedPublicKey
+        });
+        break;
+      }
+
+      case 'P-384': {
+        (algorithm as Web5Crypto.EcdsaGenerateKeyOptions).compressedPublicKey ??= true;
+        keyPair = await Secp384r1.generateKeyPair({
+          compressedPublicKey: (algorithm as Web5Crypto.EcdsaGenerateKeyOptions).compressedPublicKey
+        });
+        break;
+      }
+
       case 'X25519': {
         keyPair = await X25519.generateKeyPair();
         break;
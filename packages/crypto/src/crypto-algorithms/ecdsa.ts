@@ -2,11 +2,11 @@ import type { Web5Crypto } from '../types/web5-crypto.js';
 import type { BytesKeyPair } from '../types/crypto-key.js';
 
 import { isBytesKeyPair } from '../utils.js';
-import { Secp256k1 } from '../crypto-primitives/index.js';
+import { Secp256k1, Secp256r1, Secp384r1 } from '../crypto-primitives/index.js';
 import { CryptoKey, BaseEcdsaAlgorithm } from '../algorithms-api/index.js';
 export class EcdsaAlgorithm extends BaseEcdsaAlgorithm {
-  public readonly hashAlgorithms = ['SHA-256'];
-  public readonly namedCurves = ['secp256k1'];
+  public readonly hashAlgorithms = ['SHA-256', 'SHA-384'];
+  public readonly namedCurves = ['secp256k1', 'P-256', 'P-384'];
 
   public async generateKey(options: {
     algorithm: Web5Crypto.EcdsaGenerateKeyOptions,
@@ -27,6 +27,18 @@ export class EcdsaAlgorithm extends BaseEcdsaAlgorithm {
         keyPair = await Secp256k1.generateKeyPair({ compressedPublicKey: algorithm.compressedPublicKey });
         break;
       }
+
+      case 'P-256': {
+        algorithm.compressedPublicKey ??= true;
+        keyPair = await Secp256r1.generateKeyPair({ compressedPublicKey: algorithm.compressedPublicKey });
+        break;
+      }
+
+      case 'P-384': {
+        algorithm.compressedPublicKey ??= true;
+        keyPair = await Secp384r1.generateKeyPair({ compressedPublicKey: algorithm.compressedPublicKey });
+        break;
+      }
       // Default case not needed because checkGenerateKey() already validates the specified namedCurve is supported.
     }
 
@@ -68,6 +80,16 @@ export class EcdsaAlgorithm extends BaseEcdsaAlgorithm {
         break;
       }
 
+      case 'P-256': {
+        signature = await Secp256r1.sign({ hash: algorithm.hash, key: key.material, data });
+        break;
+      }
+
+      case 'P-384': {
+        signature = await Secp384r1.sign({ hash: algorithm.hash, key: key.material, data });
+        break;
+      }
+
       default:
         throw new TypeError(`Out of range: '${keyAlgorithm.namedCurve}'. Must be one of '${this.namedCurves.join(', ')}'`);
     }
@@ -102,6 +124,16 @@ export class EcdsaAlgorithm extends BaseEcdsaAlgorithm {
         break;
       }
 
+      case 'P-256': {
+        isValid = await Secp256r1.verify({ hash: algorithm.hash, key: key.material, signature, data });
+        break;
+      }
+
+      case 'P-384': {
+        isValid = await Secp384r1.verify({ hash: algorithm.hash, key: key.material, signature, data });
+        break;
+      }
+
       default:
         throw new TypeError(`Out of range: '${keyAlgorithm.namedCurve}'. Must be one of '${this.namedCurves.join(', ')}'`);
     }
@@ -0,0 +1,68 @@
+import type { Web5Crypto } from '../types/web5-crypto.js';
+
+import { Hkdf } from '../crypto-primitives/index.js';
+import { BaseHkdfAlgorithm, CryptoKey, OperationError } from '../algorithms-api/index.js';
+
+export class HkdfAlgorithm extends BaseHkdfAlgorithm {
+  public readonly hashAlgorithms = ['SHA-256', 'SHA-384', 'SHA-512'];
+
+  /**
+   * The output length in bits of each hash algorithm. HKDF can derive at
+   * most 255 times this many bits.
+   */
+  private readonly hashLengths: Record<string, number> = {
+    'SHA-256' : 256,
+    'SHA-384' : 384,
+    'SHA-512' : 512
+  };
+
+  public async deriveBits(options: {
+    algorithm: Web5Crypto.HkdfOptions,
+    baseKey: Web5Crypto.CryptoKey,
+    length: number | null
+  }): Promise<Uint8Array> {
+    const { algorithm, baseKey, length } = options;
+
+    this.checkAlgorithmOptions({ algorithm, baseKey });
+    // The base key must be allowed to be used for deriveBits operations.
+    this.checkKeyUsages({ keyUsages: ['deriveBits'], allowedKeyUsages: baseKey.usages });
+    // If the length is null or 0, throw.
+    if (length === null || length === 0) {
+      throw new OperationError(`The value of 'length' cannot be null or zero.`);
+    }
+    // If the length is not a multiple of 8, throw.
+    if (length % 8 !== 0) {
+      throw new OperationError(`To be compatible with all browsers, 'length' must be a multiple of 8.`);
+    }
+    // If the length exceeds the maximum output of HKDF with the given hash algorithm, throw.
+    if (length > 255 * this.hashLengths[algorithm.hash]) {
+      throw new OperationError(`Requested 'length' exceeds the maximum HKDF output length for '${algorithm.hash}'.`);
+    }
+
+    const derivedBits = await Hkdf.deriveKey({
+      baseKeyBytes : baseKey.material,
+      hash         : algorithm.hash,
+      info         : algorithm.info,
+      length       : length,
+      salt         : algorithm.salt
+    });
+
+    return derivedBits;
+  }
+
+  public async importKey(options: {
+    format: Web5Crypto.KeyFormat,
+    keyData: Uint8Array,
+    algorithm: Web5Crypto.Algorithm,
+    extractable: boolean,
+    keyUsages: Web5Crypto.KeyUsage[]
+  }): Promise<Web5Crypto.CryptoKey> {
+    const { format, keyData, algorithm, extractable, keyUsages } = options;
+
+    this.checkImportKey({ algorithm, format, extractable, keyUsages });
+
+    const cryptoKey = new CryptoKey(algorithm, extractable, keyData, 'secret', keyUsages);
+
+    return cryptoKey;
+  }
+}
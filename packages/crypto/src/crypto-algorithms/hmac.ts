@@ -0,0 +1,82 @@
+import { universalTypeOf } from '@web5/common';
+
+import type { Web5Crypto } from '../types/web5-crypto.js';
+
+import { Hmac } from '../crypto-primitives/index.js';
+import { BaseHmacAlgorithm, CryptoKey } from '../algorithms-api/index.js';
+
+export class HmacAlgorithm extends BaseHmacAlgorithm {
+  public readonly hashAlgorithms = ['SHA-256', 'SHA-384', 'SHA-512'];
+
+  /**
+   * The default key length in bits for each hash algorithm, which is the
+   * block size of the hash function, as in the Web Crypto API.
+   */
+  private readonly defaultKeyLengths: Record<string, number> = {
+    'SHA-256' : 512,
+    'SHA-384' : 1024,
+    'SHA-512' : 1024
+  };
+
+  public async generateKey(options: {
+    algorithm: Web5Crypto.HmacGenerateKeyOptions,
+    extractable: boolean,
+    keyUsages: Web5Crypto.KeyUsage[]
+  }): Promise<Web5Crypto.CryptoKey> {
+    const { algorithm, extractable, keyUsages } = options;
+
+    this.checkGenerateKey({ algorithm, keyUsages });
+
+    const length = algorithm.length ?? this.defaultKeyLengths[algorithm.hash.name];
+
+    // Copy the algorithm so that the caller's object is not modified.
+    const keyAlgorithm: Web5Crypto.HmacGenerateKeyOptions = { ...algorithm, length };
+
+    const secretKey = await Hmac.generateKey({ length });
+
+    if (universalTypeOf(secretKey) !== 'Uint8Array') {
+      throw new Error('Operation failed to generate key.');
+    }
+
+    const secretCryptoKey = new CryptoKey(keyAlgorithm, extractable, secretKey, 'secret', this.keyUsages);
+
+    return secretCryptoKey;
+  }
+
+  public async sign(options: {
+    algorithm: Web5Crypto.Algorithm,
+    key: Web5Crypto.CryptoKey,
+    data: Uint8Array
+  }): Promise<Uint8Array> {
+    const { algorithm, key, data } = options;
+
+    this.checkAlgorithmOptions({ algorithm, key });
+    // The secret key must be allowed to be used for 'sign' operations.
+    this.checkKeyUsages({ keyUsages: ['sign'], allowedKeyUsages: key.usages });
+
+    const keyAlgorithm = key.algorithm as Web5Crypto.HmacGenerateKeyOptions; // Type guard.
+
+    const signature = await Hmac.sign({ hash: keyAlgorithm.hash.name, key: key.material, data });
+
+    return signature;
+  }
+
+  public async verify(options: {
+    algorithm: Web5Crypto.Algorithm,
+    key: Web5Crypto.CryptoKey,
+    signature: Uint8Array,
+    data: Uint8Array
+  }): Promise<boolean> {
+    const { algorithm, key, signature, data } = options;
+
+    this.checkAlgorithmOptions({ algorithm, key });
+    // The secret key must be allowed to be used for 'verify' operations.
+    this.checkKeyUsages({ keyUsages: ['verify'], allowedKeyUsages: key.usages });
+
+    const keyAlgorithm = key.algorithm as Web5Crypto.HmacGenerateKeyOptions; // Type guard.
+
+    const isValid = await Hmac.verify({ hash: keyAlgorithm.hash.name, key: key.material, signature, data });
+
+    return isValid;
+  }
+}
@@ -1,5 +1,9 @@
 export * from './ecdh.js';
 export * from './ecdsa.js';
 export * from './eddsa.js';
+export * from './hkdf.js';
+export * from './hmac.js';
 export * from './pbkdf2.js';
-export * from './aes-ctr.js';
\ No newline at end of file
+export * from './aes-ctr.js';
+export * from './aes-gcm.js';
+export * from './aes-kw.js';
\ No newline at end of file
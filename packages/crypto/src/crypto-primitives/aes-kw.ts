@@ -0,0 +1,134 @@
+import { crypto } from '@noble/hashes/crypto';
+
+/**
+ * The `AesKw` class provides an interface for AES Key Wrap (AES-KW) as
+ * specified in RFC 3394, which encrypts key material under a key encryption
+ * key (KEK) with built-in integrity protection. The class uses the Web
+ * Crypto API for cryptographic operations.
+ *
+ * All methods of this class are asynchronous and return Promises. They all
+ * use the Uint8Array type for keys and data, providing a consistent
+ * interface for working with binary data.
+ *
+ * Example usage:
+ *
+ * ```ts
+ * const wrappingKey = await AesKw.generateKey({ length: 256 });
+ * const dataEncryptionKey = await AesGcm.generateKey({ length: 256 });
+ * const wrappedKey = await AesKw.wrapKey({
+ *   key: dataEncryptionKey,
+ *   wrappingKey
+ * });
+ * const unwrappedKey = await AesKw.unwrapKey({
+ *   wrappedKey,
+ *   unwrappingKey: wrappingKey
+ * });
+ * ```
+ */
+export class AesKw {
+  /**
+   * Generates an AES key of a given length.
+   *
+   * @param length - The length of the key in bits.
+   * @returns A Promise that resolves to the generated key as a Uint8Array.
+   */
+  public static async generateKey(options: {
+    length: number
+  }): Promise<Uint8Array> {
+    const { length } = options;
+
+    // Generate the secret key.
+    const lengthInBytes = length / 8;
+    const secretKey = crypto.getRandomValues(new Uint8Array(lengthInBytes));
+
+    return secretKey;
+  }
+
+  /**
+   * Unwraps a key that was wrapped using AES-KW.
+   *
+   * @param options - The options for the unwrap operation.
+   * @param options.unwrappingKey - The key encryption key to use for unwrapping.
+   * @param options.wrappedKey - The wrapped key material.
+   * @returns A Promise that resolves to the unwrapped key material as a Uint8Array.
+   * @throws {Error} If the wrapped key fails the RFC 3394 integrity check.
+   */
+  public static async unwrapKey(options: {
+    unwrappingKey: Uint8Array,
+    wrappedKey: Uint8Array
+  }): Promise<Uint8Array> {
+    const { unwrappingKey, wrappedKey } = options;
+
+    const webCryptoUnwrappingKey = await this.importKey(unwrappingKey, ['unwrapKey']);
+
+    // The Web Crypto API only unwraps to a CryptoKey, so an HMAC key, which
+    // accepts raw material of any length, is used as the container.
+    const webCryptoKey = await crypto.subtle.unwrapKey(
+      'raw',
+      wrappedKey,
+      webCryptoUnwrappingKey,
+      { name: 'AES-KW' },
+      { name: 'HMAC', hash: 'SHA-256' },
+      true,
+      ['sign']
+    );
+
+    const keyBuffer = await crypto.subtle.exportKey('raw', webCryptoKey);
+
+    // Convert from ArrayBuffer to Uint8Array.
+    const key = new Uint8Array(keyBuffer);
+
+    return key;
+  }
+
+  /**
+   * Wraps key material using AES-KW.
+   *
+   * @param options - The options for the wrap operation.
+   * @param options.key - The key material to wrap, which must be a multiple of 8 bytes and at least 16 bytes.
+   * @param options.wrappingKey - The key encryption key to use for wrapping.
+   * @returns A Promise that resolves to the wrapped key as a Uint8Array, 8 bytes longer than the key.
+   */
+  public static async wrapKey(options: {
+    key: Uint8Array,
+    wrappingKey: Uint8Array
+  }): Promise<Uint8Array> {
+    const { key, wrappingKey } = options;
+
+    const webCryptoWrappingKey = await this.importKey(wrappingKey, ['wrapKey']);
+
+    // The Web Crypto API only wraps a CryptoKey, so an HMAC key, which
+    // accepts raw material of any length, is used as the container.
+    const webCryptoKey = await crypto.subtle.importKey(
+      'raw',
+      key,
+      { name: 'HMAC', hash: 'SHA-256' },
+      true,
+      ['sign']
+    );
+
+    const wrappedKeyBuffer = await crypto.subtle.wrapKey('raw', webCryptoKey, webCryptoWrappingKey, { name: 'AES-KW' });
+
+    // Convert from ArrayBuffer to Uint8Array.
+    const wrappedKey = new Uint8Array(wrappedKeyBuffer);
+
+    return wrappedKey;
+  }
+
+  /**
+   * A private method to import a raw key for use with the Web Crypto API.
+   *
+   * @param key - The raw key material.
+   * @param keyUsages - The operations the key will be used for.
+   * @returns A Promise that resolves to a CryptoKey.
+   */
+  private static async importKey(key: Uint8Array, keyUsages: KeyUsage[]): Promise<CryptoKey> {
+    return crypto.subtle.importKey(
+      'raw',
+      key,
+      { name: 'AES-KW', length: key.byteLength * 8 },
+      false,
+      keyUsages
+    );
+  }
+}
\ No newline at end of file
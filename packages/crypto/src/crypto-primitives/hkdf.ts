@@ -0,0 +1,83 @@
+import type { CHash } from '@noble/hashes/utils';
+
+import { sha256 } from '@noble/hashes/sha256';
+import { sha384, sha512 } from '@noble/hashes/sha512';
+import { extract, expand } from '@noble/hashes/hkdf';
+
+/**
+ * An implementation of the HMAC-based Extract-and-Expand Key Derivation
+ * Function (HKDF) as specified in RFC 5869. HKDF produces derived key
+ * material from input key material that is not necessarily uniformly
+ * random, such as the shared secret from an ECDH key agreement.
+ *
+ * HKDF operates in two stages:
+ *   Extract: PRK = HMAC-Hash(salt, IKM) concentrates the entropy of the
+ *     input key material (IKM) into a fixed-length pseudorandom key (PRK).
+ *   Expand: OKM = T(1) || T(2) || ..., where T(i) = HMAC-Hash(PRK, T(i-1) || info || i),
+ *     expands the pseudorandom key into output key material (OKM) of the
+ *     requested length, bound to the context given by `info`.
+ *
+ * The class uses the '@noble/hashes' package for the cryptographic operations.
+ *
+ * @see {@link https://datatracker.ietf.org/doc/html/rfc5869 | RFC 5869}
+ *
+ * Example usage:
+ *
+ * ```ts
+ * const derivedKey = await Hkdf.deriveKey({
+ *   hash: 'SHA-256',
+ *   baseKeyBytes: sharedSecret,
+ *   salt: new Uint8Array(32),
+ *   info: new TextEncoder().encode('record-content-key'),
+ *   length: 256
+ * });
+ * ```
+ */
+export class Hkdf {
+  /**
+   * A private static field containing a map of hash algorithm names to their
+   * corresponding hash functions.
+   */
+  private static hashAlgorithms: Record<string, CHash> = {
+    'SHA-256' : sha256,
+    'SHA-384' : sha384,
+    'SHA-512' : sha512
+  };
+
+  /**
+   * Derives a key of a specified length from input key material by
+   * performing the HKDF extract and expand steps.
+   *
+   * @param options - Input parameters for key derivation.
+   * @param options.baseKeyBytes - The input key material to derive from.
+   * @param options.hash - The hash algorithm to use, one of 'SHA-256', 'SHA-384', or 'SHA-512'.
+   * @param options.info - Context and application specific information.
+   * @param options.length - The desired length of the derived key in bits.
+   * @param options.salt - A non-secret random value. If empty, a string of zeros is used.
+   * @returns A Promise that resolves to the derived key as a Uint8Array.
+   * @throws {TypeError} If the hash algorithm is not supported.
+   */
+  public static async deriveKey(options: {
+    baseKeyBytes: Uint8Array,
+    hash: string,
+    info: Uint8Array,
+    length: number,
+    salt: Uint8Array
+  }): Promise<Uint8Array> {
+    const { baseKeyBytes, info, length, salt } = options;
+
+    const hashFunction = this.hashAlgorithms[options.hash];
+
+    if (hashFunction === undefined) {
+      throw new TypeError(`Out of range: '${options.hash}'. Must be one of '${Object.keys(this.hashAlgorithms).join(', ')}'`);
+    }
+
+    // Extract a pseudorandom key from the input key material.
+    const pseudorandomKey = extract(hashFunction, baseKeyBytes, salt);
+
+    // Expand the pseudorandom key to the requested length, converted from bits to bytes.
+    const derivedKey = expand(hashFunction, pseudorandomKey, info, length / 8);
+
+    return derivedKey;
+  }
+}
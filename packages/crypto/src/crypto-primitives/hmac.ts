@@ -0,0 +1,142 @@
+import type { CHash } from '@noble/hashes/utils';
+
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha256';
+import { crypto } from '@noble/hashes/crypto';
+import { equalBytes } from '@noble/ciphers/utils';
+import { sha384, sha512 } from '@noble/hashes/sha512';
+
+/**
+ * The `Hmac` class provides an interface for generating HMAC
+ * (Hash-based Message Authentication Code) keys, and for signing and
+ * verifying messages using HMAC with SHA-256, SHA-384, or SHA-512.
+ *
+ * The class uses the '@noble/hashes' package for the cryptographic operations.
+ *
+ * All methods of this class are asynchronous and return Promises. They all
+ * use the Uint8Array type for keys, signatures, and data, providing a
+ * consistent interface for working with binary data.
+ *
+ * Example usage:
+ *
+ * ```ts
+ * const key = await Hmac.generateKey({ length: 256 });
+ * const message = new TextEncoder().encode('Hello, world!');
+ * const signature = await Hmac.sign({
+ *   hash: 'SHA-256',
+ *   key,
+ *   data: message
+ * });
+ * const isValid = await Hmac.verify({
+ *   hash: 'SHA-256',
+ *   key,
+ *   signature,
+ *   data: message
+ * });
+ * console.log(isValid); // true
+ * ```
+ */
+export class Hmac {
+  /**
+   * A private static field containing a map of hash algorithm names to their
+   * corresponding hash functions.  The map is used in the 'sign' and 'verify'
+   * methods to get the specified hash function.
+   */
+  private static hashAlgorithms: Record<string, CHash> = {
+    'SHA-256' : sha256,
+    'SHA-384' : sha384,
+    'SHA-512' : sha512
+  };
+
+  /**
+   * Generates an HMAC key of a given length.
+   *
+   * @param options - The options for the key generation.
+   * @param options.length - The length of the key in bits.
+   * @returns A Promise that resolves to the generated key as a Uint8Array.
+   */
+  public static async generateKey(options: {
+    length: number
+  }): Promise<Uint8Array> {
+    const { length } = options;
+
+    // Generate the secret key.
+    const lengthInBytes = length / 8;
+    const secretKey = crypto.getRandomValues(new Uint8Array(lengthInBytes));
+
+    return secretKey;
+  }
+
+  /**
+   * Computes the HMAC of given data with a given key and hash algorithm.
+   *
+   * @param options - The options for the signing operation.
+   * @param options.data - The data to sign.
+   * @param options.hash - The hash algorithm to use, one of 'SHA-256', 'SHA-384', or 'SHA-512'.
+   * @param options.key - The secret key to use for signing.
+   * @returns A Promise that resolves to the signature as a Uint8Array.
+   */
+  public static async sign(options: {
+    data: Uint8Array,
+    hash: string,
+    key: Uint8Array
+  }): Promise<Uint8Array> {
+    const { data, hash, key } = options;
+
+    const hashFunction = this.getHashFunction(hash);
+
+    const signature = hmac(hashFunction, key, data);
+
+    return signature;
+  }
+
+  /**
+   * Verifies the HMAC of given data with a given key and hash algorithm.
+   *
+   * The signature is compared in constant time to the HMAC computed from the
+   * data and key.
+   *
+   * @param options - The options for the verification operation.
+   * @param options.data - The data that was signed.
+   * @param options.hash - The hash algorithm to use, one of 'SHA-256', 'SHA-384', or 'SHA-512'.
+   * @param options.key - The secret key to use for verification.
+   * @param options.signature - The signature to verify.
+   * @returns A Promise that resolves to a boolean indicating whether the signature is valid.
+   */
+  public static async verify(options: {
+    data: Uint8Array,
+    hash: string,
+    key: Uint8Array,
+    signature: Uint8Array
+  }): Promise<boolean> {
+    const { data, hash, key, signature } = options;
+
+    const hashFunction = this.getHashFunction(hash);
+
+    const expectedSignature = hmac(hashFunction, key, data);
+
+    // The signature length is not secret, so a mismatch can be returned early.
+    if (signature.byteLength !== expectedSignature.byteLength) {
+      return false;
+    }
+
+    return equalBytes(signature, expectedSignature);
+  }
+
+  /**
+   * A private method to look up the hash function for a given hash algorithm name.
+   *
+   * @param hash - The name of the hash algorithm.
+   * @returns The hash function.
+   * @throws {TypeError} If the hash algorithm is not supported.
+   */
+  private static getHashFunction(hash: string): CHash {
+    const hashFunction = this.hashAlgorithms[hash];
+
+    if (hashFunction === undefined) {
+      throw new TypeError(`Out of range: '${hash}'. Must be one of '${Object.keys(this.hashAlgorithms).join(', ')}'`);
+    }
+
+    return hashFunction;
+  }
+}
@@ -1,9 +1,14 @@
+export * from './hkdf.js';
+export * from './hmac.js';
 export * from './pbkdf2.js';
 export * from './x25519.js';
 export * from './aes-ctr.js';
 export * from './aes-gcm.js';
+export * from './aes-kw.js';
 export * from './ed25519.js';
 export * from './concat-kdf.js';
 export * from './secp256k1.js';
+export * from './secp256r1.js';
+export * from './secp384r1.js';
 export * from './xchacha20.js';
 export * from './xchacha20-poly1305.js';
\ No newline at end of file
@@ -218,7 +218,7 @@ export class Secp256k1 {
     const { data, hash, key } = options;
 
     // Generate a digest of the data using the specified hash function.
-    const hashFunction = this.hashAlgorithms[hash];
+    const hashFunction = this.getHashFunction(hash);
     const digest = hashFunction(data);
 
     // Signature operation returns a Signature instance with { r, s, recovery } properties.
@@ -308,7 +308,7 @@ export class Secp256k1 {
     const { data, hash, key, signature } = options;
 
     // Generate a digest of the data using the specified hash function.
-    const hashFunction = this.hashAlgorithms[hash];
+    const hashFunction = this.getHashFunction(hash);
     const digest = hashFunction(data);
 
     // Verify operation with malleability check disabled. Guaranteed support for low-s
@@ -319,4 +319,21 @@ export class Secp256k1 {
 
     return isValid;
   }
+
+  /**
+   * A private method to look up the hash function for a given hash algorithm name.
+   *
+   * @param hash - The name of the hash algorithm.
+   * @returns The hash function.
+   * @throws {TypeError} If the hash algorithm is not supported with this curve.
+   */
+  private static getHashFunction(hash: string): HashFunction {
+    const hashFunction = this.hashAlgorithms[hash];
+
+    if (hashFunction === undefined) {
+      throw new TypeError(`Out of range: '${hash}'. Must be one of '${Object.keys(this.hashAlgorithms).join(', ')}'`);
+    }
+
+    return hashFunction;
+  }
 }
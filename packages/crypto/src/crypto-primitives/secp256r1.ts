@@ -0,0 +1,52 @@
+import type { HashFunction } from './secp256k1.js';
+
+import { sha256 } from '@noble/hashes/sha256';
+import { p256 } from '@noble/curves/p256';
+
+import { BaseWeierstrassCurve } from './weierstrass.js';
+
+/**
+ * The `Secp256r1` class provides an interface for generating NIST P-256
+ * (secp256r1) key pairs, computing public keys from private keys, converting
+ * public keys between compressed and uncompressed forms, generating shared
+ * secrets, signing and verifying messages, and validating keys.
+ *
+ * Private keys and each curve coordinate are 32 bytes long. A compressed
+ * public key is 33 bytes long and an uncompressed public key 65 bytes.
+ *
+ * The class uses the '@noble/curves' package for the cryptographic operations,
+ * and the '@noble/hashes' package for generating the hash digests needed
+ * for the signing and verification operations.
+ *
+ * The methods of this class are all asynchronous and return Promises. They all use
+ * the Uint8Array type for keys, signatures, and data, providing a consistent
+ * interface for working with binary data.
+ *
+ * Example usage:
+ *
+ * ```ts
+ * const keyPair = await Secp256r1.generateKeyPair();
+ * const message = new TextEncoder().encode('Hello, world!');
+ * const signature = await Secp256r1.sign({
+ *   hash: 'SHA-256',
+ *   key: keyPair.privateKey,
+ *   data: message
+ * });
+ * const isValid = await Secp256r1.verify({
+ *   hash: 'SHA-256',
+ *   key: keyPair.publicKey,
+ *   signature,
+ *   data: message
+ * });
+ * console.log(isValid); // true
+ * ```
+ */
+export class Secp256r1 extends BaseWeierstrassCurve {
+  protected static override curve = p256;
+
+  protected static override coordinateLength = 32;
+
+  protected static override hashAlgorithms: Record<string, HashFunction> = {
+    'SHA-256': sha256
+  };
+}
@@ -0,0 +1,52 @@
+import type { HashFunction } from './secp256k1.js';
+
+import { sha384 } from '@noble/hashes/sha512';
+import { p384 } from '@noble/curves/p384';
+
+import { BaseWeierstrassCurve } from './weierstrass.js';
+
+/**
+ * The `Secp384r1` class provides an interface for generating NIST P-384
+ * (secp384r1) key pairs, computing public keys from private keys, converting
+ * public keys between compressed and uncompressed forms, generating shared
+ * secrets, signing and verifying messages, and validating keys.
+ *
+ * Private keys and each curve coordinate are 48 bytes long. A compressed
+ * public key is 49 bytes long and an uncompressed public key 97 bytes.
+ *
+ * The class uses the '@noble/curves' package for the cryptographic operations,
+ * and the '@noble/hashes' package for generating the hash digests needed
+ * for the signing and verification operations.
+ *
+ * The methods of this class are all asynchronous and return Promises. They all use
+ * the Uint8Array type for keys, signatures, and data, providing a consistent
+ * interface for working with binary data.
+ *
+ * Example usage:
+ *
+ * ```ts
+ * const keyPair = await Secp384r1.generateKeyPair();
+ * const message = new TextEncoder().encode('Hello, world!');
+ * const signature = await Secp384r1.sign({
+ *   hash: 'SHA-384',
+ *   key: keyPair.privateKey,
+ *   data: message
+ * });
+ * const isValid = await Secp384r1.verify({
+ *   hash: 'SHA-384',
+ *   key: keyPair.publicKey,
+ *   signature,
+ *   data: message
+ * });
+ * console.log(isValid); // true
+ * ```
+ */
+export class Secp384r1 extends BaseWeierstrassCurve {
+  protected static override curve = p384;
+
+  protected static override coordinateLength = 48;
+
+  protected static override hashAlgorithms: Record<string, HashFunction> = {
+    'SHA-384': sha384
+  };
+}
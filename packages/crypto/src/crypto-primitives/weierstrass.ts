@@ -0,0 +1,287 @@
+import type { CurveFn } from '@noble/curves/abstract/weierstrass';
+
+import type { BytesKeyPair } from '../types/crypto-key.js';
+import type { HashFunction } from './secp256k1.js';
+
+import { numberToBytesBE } from '@noble/curves/abstract/utils';
+
+/**
+ * The `BaseWeierstrassCurve` class implements the operations that are shared
+ * by the NIST curves in short Weierstrass form, such as `Secp256r1` and
+ * `Secp384r1`, which each provide the '@noble/curves' implementation of the
+ * curve, its coordinate length and the hash functions it supports.
+ */
+export abstract class BaseWeierstrassCurve {
+  /**
+   * The '@noble/curves' implementation of the curve.
+   */
+  protected static curve: CurveFn;
+
+  /**
+   * The length, in bytes, of a private key and of each curve coordinate.
+   */
+  protected static coordinateLength: number;
+
+  /**
+   * A protected static field containing a map of hash algorithm names to their
+   * corresponding hash functions.  The map is used in the 'sign' and 'verify'
+   * methods to get the specified hash function.
+   */
+  protected static hashAlgorithms: Record<string, HashFunction>;
+
+  /**
+   * Converts a public key between its compressed and uncompressed forms.
+   *
+   * @param options - The options for the public key conversion.
+   * @param options.publicKey - The original public key, represented as a Uint8Array.
+   * @param options.compressedPublicKey - A boolean indicating whether the output
+   *                                      should be in compressed or uncompressed form.
+   *
+   * @returns A Promise that resolves to the converted public key as a Uint8Array.
+   */
+  public static async convertPublicKey(options: {
+    publicKey: Uint8Array,
+    compressedPublicKey: boolean
+  }): Promise<Uint8Array> {
+    let { publicKey, compressedPublicKey } = options;
+
+    // Decode Weierstrass points from key bytes.
+    const point = this.curve.ProjectivePoint.fromHex(publicKey);
+
+    // Return either the compressed or uncompressed form of the public key.
+    return point.toRawBytes(compressedPublicKey);
+  }
+
+  /**
+   * Generates a key pair on the curve.
+   *
+   * @param options - Optional parameters for the key generation.
+   * @param options.compressedPublicKey - If true, generates a compressed public key. Defaults to true.
+   * @returns A Promise that resolves to an object containing the private and public keys as Uint8Array.
+   */
+  public static async generateKeyPair(options?: {
+    compressedPublicKey?: boolean
+  }): Promise<BytesKeyPair> {
+    let { compressedPublicKey } = options ?? { };
+
+    compressedPublicKey ??= true; // Default to compressed public key, matching Secp256k1.
+
+    // Generate the private key and compute its public key.
+    const privateKey = this.curve.utils.randomPrivateKey();
+    const publicKey  = this.curve.getPublicKey(privateKey, compressedPublicKey);
+
+    const keyPair = {
+      privateKey : privateKey,
+      publicKey  : publicKey
+    };
+
+    return keyPair;
+  }
+
+  /**
+   * Returns the elliptic curve points (x and y coordinates) for a given key.
+   *
+   * In the case of a private key, the public key is first computed from the private key.
+   *
+   * @param options - The options for the operation.
+   * @param options.key - The private or public key for which to get the elliptic curve points.
+   * @returns A Promise that resolves to an object with properties 'x' and 'y',
+   *          each being a Uint8Array of the curve's coordinate length.
+   */
+  public static async getCurvePoints(options: {
+    key: Uint8Array
+  }): Promise<{ x: Uint8Array, y: Uint8Array }> {
+    let { key } = options;
+
+    // If key is a private key, first compute the public key.
+    if (key.byteLength === this.coordinateLength) {
+      key = await this.getPublicKey({ privateKey: key });
+    }
+
+    // Decode Weierstrass points from key bytes.
+    const point = this.curve.ProjectivePoint.fromHex(key);
+
+    // Get x- and y-coordinate values and convert to Uint8Array.
+    const x = numberToBytesBE(point.x, this.coordinateLength);
+    const y = numberToBytesBE(point.y, this.coordinateLength);
+
+    return { x, y };
+  }
+
+  /**
+   * Computes the public key from a given private key.
+   * If compressedPublicKey=true then the output is a compressed public key.
+   * If compressedPublicKey=false then the output is an uncompressed public key.
+   *
+   * @param options - The options for the public key computation.
+   * @param options.privateKey - The private key from which to compute the public key.
+   * @param options.compressedPublicKey - If true, returns a compressed public key. Defaults to true.
+   * @returns A Promise that resolves to the computed public key as a Uint8Array.
+   */
+  public static async getPublicKey(options: {
+    privateKey: Uint8Array,
+    compressedPublicKey?: boolean
+  }): Promise<Uint8Array> {
+    let { privateKey, compressedPublicKey } = options;
+
+    compressedPublicKey ??= true; // Default to compressed public key, matching Secp256k1.
+
+    // Compute public key.
+    const publicKey = this.curve.getPublicKey(privateKey, compressedPublicKey);
+
+    return publicKey;
+  }
+
+  /**
+   * Generates a RFC6090 ECDH shared secret given the private key of one party
+   * and the public key another party.
+   *
+   * As with `Secp256k1`, only the x-coordinate of the shared
+   * secret point is returned.
+   *
+   * @param options - The options for the shared secret computation.
+   * @param options.privateKey - The private key of one party.
+   * @param options.publicKey - The public key of the other party.
+   * @returns A Promise that resolves to the shared secret as a Uint8Array.
+   */
+  public static async sharedSecret(options: {
+    privateKey: Uint8Array,
+    publicKey: Uint8Array
+  }): Promise<Uint8Array> {
+    let { privateKey, publicKey } = options;
+
+    // Compute the shared secret between the public and private keys.
+    const sharedSecret = this.curve.getSharedSecret(privateKey, publicKey);
+
+    // Remove the leading byte that indicates the sign of the y-coordinate
+    // of the point on the elliptic curve.
+    return sharedSecret.slice(1);
+  }
+
+  /**
+   * Generates a RFC6979 ECDSA signature of given data with a given private key and hash algorithm.
+   *
+   * The signature is returned in compact form: the `r` value followed by
+   * the `s` value, each of the curve's coordinate length, as used by JWS.
+   *
+   * @param options - The options for the signing operation.
+   * @param options.data - The data to sign.
+   * @param options.hash - The hash algorithm to use to generate a digest of the data.
+   * @param options.key - The private key to use for signing.
+   * @returns A Promise that resolves to the signature as a Uint8Array.
+   */
+  public static async sign(options: {
+    data: Uint8Array,
+    hash: string,
+    key: Uint8Array
+  }): Promise<Uint8Array> {
+    const { data, hash, key } = options;
+
+    // Generate a digest of the data using the specified hash function.
+    const hashFunction = this.getHashFunction(hash);
+    const digest = hashFunction(data);
+
+    // Signature operation returns a Signature instance with { r, s, recovery } properties.
+    const signatureObject = this.curve.sign(digest, key);
+
+    // Convert Signature object to Uint8Array.
+    const signature = signatureObject.toCompactRawBytes();
+
+    return signature;
+  }
+
+  /**
+   * Validates a given private key to ensure that it's a valid number that
+   * is less than the curve's order.
+   *
+   * @param options - The options for the key validation.
+   * @param options.key - The private key to validate, represented as a Uint8Array.
+   * @returns A Promise that resolves to a boolean indicating whether the private
+   *          key is valid.
+   */
+  public static async validatePrivateKey(options: {
+    key: Uint8Array
+  }): Promise<boolean> {
+    const { key } = options;
+
+    return this.curve.utils.isValidPrivateKey(key);
+  }
+
+  /**
+   * Validates a given public key to ensure that it corresponds to a
+   * valid point on the elliptic curve.
+   *
+   * Note: This method does not check whether the key corresponds to a
+   * known or authorized entity, or whether it has been compromised.
+   * It only checks the mathematical validity of the key.
+   *
+   * @param options - The options for the key validation.
+   * @param options.key - The key to validate, represented as a Uint8Array.
+   * @returns A Promise that resolves to a boolean indicating whether the key
+   *          corresponds to a valid point on the elliptic curve.
+   */
+  public static async validatePublicKey(options: {
+    key: Uint8Array
+  }): Promise<boolean> {
+    const { key } = options;
+
+    try {
+      // Decode Weierstrass points from key bytes.
+      const point = this.curve.ProjectivePoint.fromHex(key);
+
+      // Check if points are on the Short Weierstrass curve.
+      point.assertValidity();
+
+    } catch(error: any) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Verifies a RFC6979 ECDSA signature of given data with a given public key and hash algorithm.
+   *
+   * @param options - The options for the verification operation.
+   * @param options.data - The data that was signed.
+   * @param options.hash - The hash algorithm to use to generate a digest of the data.
+   * @param options.key - The public key to use for verification.
+   * @param options.signature - The signature to verify, in compact form.
+   * @returns A Promise that resolves to a boolean indicating whether the signature is valid.
+   */
+  public static async verify(options: {
+    data: Uint8Array,
+    hash: string,
+    key: Uint8Array,
+    signature: Uint8Array
+  }): Promise<boolean> {
+    const { data, hash, key, signature } = options;
+
+    // Generate a digest of the data using the specified hash function.
+    const hashFunction = this.getHashFunction(hash);
+    const digest = hashFunction(data);
+
+    // Verify operation with malleability check disabled, since signatures
+    // produced by other implementations are not guaranteed to be low-s.
+    const isValid = this.curve.verify(signature, digest, key, { lowS: false });
+
+    return isValid;
+  }
+
+  /**
+   * A private method to look up the hash function for a given hash algorithm name.
+   *
+   * @param hash - The name of the hash algorithm.
+   * @returns The hash function.
+   * @throws {TypeError} If the hash algorithm is not supported with this curve.
+   */
+  private static getHashFunction(hash: string): HashFunction {
+    const hashFunction = this.hashAlgorithms[hash];
+
+    if (hashFunction === undefined) {
+      throw new TypeError(`Out of range: '${hash}'. Must be one of '${Object.keys(this.hashAlgorithms).join(', ')}'`);
+    }
+
+    return hashFunction;
+  }
+}
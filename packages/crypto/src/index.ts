@@ -5,4 +5,6 @@ export * from './algorithms-api/index.js';
 export * from './crypto-algorithms/index.js';
 export * from './crypto-primitives/index.js';
 export * from './jose.js';
+export * from './jwe.js';
+export * from './jws.js';
 export * as utils from './utils.js';
\ No newline at end of file
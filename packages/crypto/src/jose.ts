@@ -5,7 +5,7 @@ import type { Web5Crypto } from './types/web5-crypto.js';
 
 import { keyToMultibaseId } from './utils.js';
 import { CryptoKey } from './algorithms-api/index.js';
-import { Ed25519, Secp256k1, X25519 } from './crypto-primitives/index.js';
+import { Ed25519, Secp256k1, Secp256r1, Secp384r1, X25519 } from './crypto-primitives/index.js';
 
 /**
  * JSON Web Key Operations
@@ -218,6 +218,12 @@ export type JwkParamsOctPrivate = Omit<JwkParamsAnyKeyType, 'alg' | 'kty'> & {
     | 'A192GCM'
     // AES GCM using a 256-bit key
     | 'A256GCM'
+    // AES Key Wrap using a 128-bit key
+    | 'A128KW'
+    // AES Key Wrap using a 192-bit key
+    | 'A192KW'
+    // AES Key Wrap using a 256-bit key
+    | 'A256KW'
     // HMAC using SHA-256
     | 'HS256'
     // HMAC using SHA-384
@@ -367,9 +373,11 @@ export interface JweHeaderParams extends JoseHeaderParams {
     // PBES2 with HMAC SHA-512 and "XC20PKW" wrapping
     | 'PBES2-HS512+XC20PKW';
 
-  apu?: Uint8Array;
+  // Agreement PartyUInfo, base64url-encoded
+  apu?: string;
 
-  apv?: Uint8Array;
+  // Agreement PartyVInfo, base64url-encoded
+  apv?: string;
 
   // Indicates that extensions to JOSE RFCs are being used
   // that MUST be understood and processed.
@@ -399,7 +407,8 @@ export interface JweHeaderParams extends JoseHeaderParams {
     // XChaCha20-Poly1305 authenticated encryption algorithm
     | 'XC20P';
 
-  epk?: Uint8Array;
+  // Ephemeral Public Key
+  epk?: PublicKeyJwk;
 
   iv?: Uint8Array;
 
@@ -418,7 +427,9 @@ const joseToWebCryptoMapping: { [key: string]: Web5Crypto.GenerateKeyOptions } =
   'secp256k1:ES256K' : { name: 'ECDSA', namedCurve: 'secp256k1' },
   'secp256k1'        : { name: 'ECDH', namedCurve: 'secp256k1' },
   'P-256'            : { name: 'ECDSA', namedCurve: 'P-256' },
+  'P-256:ES256'      : { name: 'ECDSA', namedCurve: 'P-256' },
   'P-384'            : { name: 'ECDSA', namedCurve: 'P-384' },
+  'P-384:ES384'      : { name: 'ECDSA', namedCurve: 'P-384' },
   'P-521'            : { name: 'ECDSA', namedCurve: 'P-521' },
   'A128CBC'          : { name: 'AES-CBC', length: 128 },
   'A192CBC'          : { name: 'AES-CBC', length: 192 },
@@ -429,6 +440,9 @@ const joseToWebCryptoMapping: { [key: string]: Web5Crypto.GenerateKeyOptions } =
   'A128GCM'          : { name: 'AES-GCM', length: 128 },
   'A192GCM'          : { name: 'AES-GCM', length: 192 },
   'A256GCM'          : { name: 'AES-GCM', length: 256 },
+  'A128KW'           : { name: 'AES-KW', length: 128 },
+  'A192KW'           : { name: 'AES-KW', length: 192 },
+  'A256KW'           : { name: 'AES-KW', length: 256 },
   'HS256'            : { name: 'HMAC', hash: { name: 'SHA-256' } },
   'HS384'            : { name: 'HMAC', hash: { name: 'SHA-384' } },
   'HS512'            : { name: 'HMAC', hash: { name: 'SHA-512' } },
@@ -441,7 +455,9 @@ const webCryptoToJoseMapping: { [key: string]: Partial<JsonWebKey> } = {
   'ECDSA:secp256k1' : { alg: 'ES256K',  crv: 'secp256k1', kty: 'EC' },
   'ECDH:secp256k1'  : {                 crv: 'secp256k1', kty: 'EC' },
   'ECDSA:P-256'     : { alg: 'ES256',   crv: 'P-256',     kty: 'EC' },
+  'ECDH:P-256'      : {                 crv: 'P-256',     kty: 'EC' },
   'ECDSA:P-384'     : { alg: 'ES384',   crv: 'P-384',     kty: 'EC' },
+  'ECDH:P-384'      : {                 crv: 'P-384',     kty: 'EC' },
   'ECDSA:P-521'     : { alg: 'ES512',   crv: 'P-521',     kty: 'EC' },
   'AES-CBC:128'     : { alg: 'A128CBC',                   kty: 'oct' },
   'AES-CBC:192'     : { alg: 'A192CBC',                   kty: 'oct' },
@@ -452,6 +468,9 @@ const webCryptoToJoseMapping: { [key: string]: Partial<JsonWebKey> } = {
   'AES-GCM:128'     : { alg: 'A128GCM',                   kty: 'oct' },
   'AES-GCM:192'     : { alg: 'A192GCM',                   kty: 'oct' },
   'AES-GCM:256'     : { alg: 'A256GCM',                   kty: 'oct' },
+  'AES-KW:128'      : { alg: 'A128KW',                    kty: 'oct' },
+  'AES-KW:192'      : { alg: 'A192KW',                    kty: 'oct' },
+  'AES-KW:256'      : { alg: 'A256KW',                    kty: 'oct' },
   'HMAC:SHA-256'    : { alg: 'HS256',                     kty: 'oct' },
   'HMAC:SHA-384'    : { alg: 'HS384',                     kty: 'oct' },
   'HMAC:SHA-512'    : { alg: 'HS512',                     kty: 'oct' },
@@ -462,6 +481,10 @@ const multicodecToJoseMapping: { [key: string]: JsonWebKey } = {
   'ed25519-priv'   : { alg: 'EdDSA',  crv: 'Ed25519',   kty: 'OKP', x: '',        d: '' },
   'secp256k1-pub'  : { alg: 'ES256K', crv: 'secp256k1', kty: 'EC',  x: '', y: ''},
   'secp256k1-priv' : { alg: 'ES256K', crv: 'secp256k1', kty: 'EC',  x: '', y: '', d: '' },
+  'p256-pub'       : { alg: 'ES256',  crv: 'P-256',     kty: 'EC',  x: '', y: ''},
+  'p256-priv'      : { alg: 'ES256',  crv: 'P-256',     kty: 'EC',  x: '', y: '', d: '' },
+  'p384-pub'       : { alg: 'ES384',  crv: 'P-384',     kty: 'EC',  x: '', y: ''},
+  'p384-priv'      : { alg: 'ES384',  crv: 'P-384',     kty: 'EC',  x: '', y: '', d: '' },
   'x25519-pub'     : {                crv: 'X25519',    kty: 'OKP', x: '' },
   'x25519-priv'    : {                crv: 'X25519',    kty: 'OKP', x: '',        d: '' },
 };
@@ -471,6 +494,10 @@ const joseToMulticodecMapping: { [key: string]: string } = {
   'Ed25519:private'   : 'ed25519-priv',
   'secp256k1:public'  : 'secp256k1-pub',
   'secp256k1:private' : 'secp256k1-priv',
+  'P-256:public'      : 'p256-pub',
+  'P-256:private'     : 'p256-priv',
+  'P-384:public'      : 'p384-pub',
+  'P-384:private'     : 'p384-priv',
   'X25519:public'     : 'x25519-pub',
   'X25519:private'    : 'x25519-priv',
 };
@@ -558,6 +585,10 @@ export class Jose {
       if (options.crv === 'secp256k1' && options.alg === 'ES256K') {
         params.push(options.alg);
       }
+      // P-256 and P-384 keys are ECDSA keys. If alg is specified, it must match the curve.
+      if ((options.crv === 'P-256' || options.crv === 'P-384') && options.alg !== undefined) {
+        params.push(options.alg);
+      }
 
     /**
      * All Octet Sequence (oct) JSON Web Keys omit "crv" and
@@ -770,7 +801,7 @@ export class Jose {
     // Decode the key as a raw binary data from the JWK.
     let { keyMaterial } = await Jose.jwkToKey({ key: jsonWebKey });
 
-    // Convert secp256k1 public keys to compressed format.
+    // Convert secp256k1, P-256, and P-384 public keys to compressed format.
     if ('crv' in jsonWebKey && !('d' in jsonWebKey)) {
       switch (jsonWebKey.crv) {
         case 'secp256k1': {
@@ -780,6 +811,22 @@ export class Jose {
           });
           break;
         }
+
+        case 'P-256': {
+          keyMaterial = await Secp256r1.convertPublicKey({
+            publicKey           : keyMaterial,
+            compressedPublicKey : true
+          });
+          break;
+        }
+
+        case 'P-384': {
+          keyMaterial = await Secp384r1.convertPublicKey({
+            publicKey           : keyMaterial,
+            compressedPublicKey : true
+          });
+          break;
+        }
       }
     }
 
@@ -831,6 +878,22 @@ export class Jose {
           break;
         }
 
+        case 'P-256': {
+          const points = await Secp256r1.getCurvePoints({ key: keyMaterial });
+          jsonWebKey.x = Convert.uint8Array(points.x).toBase64Url();
+          jsonWebKey.y = Convert.uint8Array(points.y).toBase64Url();
+          jsonWebKey.kty ??= 'EC';
+          break;
+        }
+
+        case 'P-384': {
+          const points = await Secp384r1.getCurvePoints({ key: keyMaterial });
+          jsonWebKey.x = Convert.uint8Array(points.x).toBase64Url();
+          jsonWebKey.y = Convert.uint8Array(points.y).toBase64Url();
+          jsonWebKey.kty ??= 'EC';
+          break;
+        }
+
         default: {
           throw new Error(`Unsupported key to JWK conversion: ${jsonWebKey.crv}`);
         }
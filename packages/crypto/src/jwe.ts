@@ -0,0 +1,654 @@
+import { Convert } from '@web5/common';
+
+import type { JwsVerificationMethod } from './jws.js';
+import type { JsonWebKey, JweHeaderParams, JwkParamsOctPrivate, PrivateKeyJwk, PublicKeyJwk } from './jose.js';
+
+import { Jose } from './jose.js';
+import { multibaseIdToKey, randomBytes } from './utils.js';
+import { AesGcm, AesKw, ConcatKdf, Secp256k1, Secp256r1, X25519, XChaCha20Poly1305 } from './crypto-primitives/index.js';
+
+/**
+ * A JWE in the JWE Compact Serialization, as defined in
+ * {@link https://datatracker.ietf.org/doc/html/rfc7516#section-7.1 | RFC 7516, Section 7.1}.
+ */
+export type CompactJwe = string;
+
+/**
+ * A single entry of the `recipients` array of a general JWE.
+ */
+export type GeneralJweRecipient = {
+  encrypted_key?: string;
+  header?: Partial<JweHeaderParams>;
+};
+
+/**
+ * A JWE in the general JWE JSON Serialization, as defined in
+ * {@link https://datatracker.ietf.org/doc/html/rfc7516#section-7.2.1 | RFC 7516, Section 7.2.1}.
+ */
+export type GeneralJwe = {
+  aad?: string;
+  ciphertext: string;
+  iv: string;
+  protected?: string;
+  recipients: GeneralJweRecipient[];
+  tag: string;
+  unprotected?: Partial<JweHeaderParams>;
+};
+
+/**
+ * A recipient of a JWE. The key that the content encryption key is
+ * encrypted to is given either as a JWK or as a DID Document verification
+ * method, in which case the `kid` of the recipient defaults to the
+ * verification method `id`.
+ *
+ * The `alg` of the `header` selects the key management algorithm:
+ * - `dir` and `A128KW`, `A192KW` or `A256KW` take an `oct` JWK.
+ * - `ECDH-ES` and `ECDH-ES+A128KW`, `ECDH-ES+A192KW` or `ECDH-ES+A256KW`
+ *   take an X25519, secp256k1 or P-256 public key.
+ */
+export type JweRecipient = {
+  header: Partial<JweHeaderParams> & Pick<JweHeaderParams, 'alg'>;
+  key?: PublicKeyJwk | JwkParamsOctPrivate;
+  verificationMethod?: JwsVerificationMethod;
+};
+
+/**
+ * The result of decrypting a JWE.
+ */
+export type JweDecryptResult = {
+  /**
+   * The JOSE Header of the recipient whose key decrypted the JWE, which is
+   * the union of the protected, shared unprotected and per-recipient
+   * unprotected header parameters.
+   */
+  header: JweHeaderParams;
+
+  /**
+   * The additional authenticated data, if any was included in the JWE.
+   */
+  aad?: Uint8Array;
+
+  /**
+   * The decrypted plaintext.
+   */
+  plaintext: Uint8Array;
+};
+
+/**
+ * The content encryption algorithms this implementation supports, mapped to
+ * their key length and the length of their initialization vector, in bits.
+ */
+const contentEncryptionAlgorithms: { [key: string]: { keyLength: number, ivLength: number } } = {
+  'A128GCM' : { keyLength: 128, ivLength: 96 },
+  'A192GCM' : { keyLength: 192, ivLength: 96 },
+  'A256GCM' : { keyLength: 256, ivLength: 96 },
+  'XC20P'   : { keyLength: 256, ivLength: 192 },
+};
+
+/**
+ * The AES Key Wrap key length, in bits, of the key management algorithms
+ * this implementation supports that wrap the content encryption key.
+ */
+const keyWrappingAlgorithms: { [key: string]: number } = {
+  'A128KW'         : 128,
+  'A192KW'         : 192,
+  'A256KW'         : 256,
+  'ECDH-ES+A128KW' : 128,
+  'ECDH-ES+A192KW' : 192,
+  'ECDH-ES+A256KW' : 256,
+};
+
+/**
+ * The curves this implementation supports for ECDH-ES key agreement.
+ */
+const keyAgreementCurves = ['P-256', 'secp256k1', 'X25519'];
+
+export class Jwe {
+  /**
+   * Decrypts a JWE in either the compact or the general JSON serialization.
+   *
+   * Each recipient is tried in turn, or only those whose `kid` matches, if
+   * `kid` is specified, until one can be decrypted with the given key.
+   *
+   * @param options.jwe - The JWE to decrypt.
+   * @param options.key - The private key, or the `oct` key for `dir` and AES Key Wrap.
+   * @param options.kid - The key ID of the recipient to decrypt as.
+   * @returns A Promise that resolves to the plaintext and JOSE Header.
+   * @throws {Error} If the JWE is malformed or no recipient can be decrypted.
+   */
+  public static async decrypt(options: {
+    jwe: CompactJwe | GeneralJwe,
+    key: PrivateKeyJwk,
+    kid?: string
+  }): Promise<JweDecryptResult> {
+    const { key, kid } = options;
+
+    const jwe = Jwe.toGeneral({ jwe: options.jwe });
+
+    const protectedHeader = (jwe.protected === undefined)
+      ? {}
+      : Convert.base64Url(jwe.protected).toObject() as Partial<JweHeaderParams>;
+
+    const recipients = jwe.recipients.filter(recipient => {
+      return kid === undefined || { ...protectedHeader, ...jwe.unprotected, ...recipient.header }.kid === kid;
+    });
+
+    let lastError: unknown;
+    for (const recipient of recipients) {
+      const header = { ...protectedHeader, ...jwe.unprotected, ...recipient.header } as JweHeaderParams;
+
+      let plaintext: Uint8Array;
+      try {
+        Jwe.checkHeader({ header });
+
+        const cek = await Jwe.decryptKey({ encryptedKey: recipient.encrypted_key, header, key });
+
+        plaintext = await Jwe.decryptContent({
+          additionalData : Jwe.additionalData({ aad: jwe.aad, encodedProtectedHeader: jwe.protected }),
+          ciphertext     : Convert.base64Url(jwe.ciphertext).toUint8Array(),
+          enc            : header.enc,
+          iv             : Convert.base64Url(jwe.iv).toUint8Array(),
+          key            : cek,
+          tag            : Convert.base64Url(jwe.tag).toUint8Array()
+        });
+      } catch (error) {
+        lastError = error;
+        continue;
+      }
+
+      const result: JweDecryptResult = { header, plaintext };
+      if (jwe.aad !== undefined) result.aad = Convert.base64Url(jwe.aad).toUint8Array();
+
+      return result;
+    }
+
+    const reason = (lastError instanceof Error) ? ` Last error: ${lastError.message}` : '';
+    throw new Error(`Jwe: Decryption failed for every recipient.${reason}`);
+  }
+
+  /**
+   * Encrypts a plaintext to a single recipient as a JWE in the JWE Compact
+   * Serialization. All header parameters, including the `epk` of ECDH-ES key
+   * agreement, are integrity protected.
+   *
+   * @param options.plaintext - The plaintext to encrypt.
+   * @param options.protectedHeader - The JOSE Header, which must specify `alg` and `enc`.
+   * @param options.key - The recipient's public key, or `oct` key for `dir` and AES Key Wrap.
+   * @param options.verificationMethod - The recipient's verification method, as an alternative to `key`.
+   * @returns A Promise that resolves to the compact JWE.
+   */
+  public static async encryptCompact(options: {
+    key?: PublicKeyJwk | JwkParamsOctPrivate,
+    plaintext: Uint8Array,
+    protectedHeader: JweHeaderParams,
+    verificationMethod?: JwsVerificationMethod
+  }): Promise<CompactJwe> {
+    const { key, plaintext, protectedHeader, verificationMethod } = options;
+
+    const { alg, ...sharedHeader } = protectedHeader;
+
+    const jwe = await Jwe.encrypt({
+      plaintext,
+      protectedHeader : sharedHeader,
+      recipients      : [{ header: { alg }, key, verificationMethod }],
+      toCompact       : true
+    });
+
+    const [recipient] = jwe.recipients;
+
+    return [
+      jwe.protected,
+      recipient.encrypted_key ?? '',
+      jwe.iv,
+      jwe.ciphertext,
+      jwe.tag
+    ].join('.');
+  }
+
+  /**
+   * Encrypts a plaintext to one or more recipients as a JWE in the general
+   * JWE JSON Serialization.
+   *
+   * The content encryption key is encrypted to each recipient separately, so
+   * `dir` and `ECDH-ES` without key wrapping, which determine the content
+   * encryption key, are only valid with a single recipient.
+   *
+   * @param options.aad - Additional authenticated data that is integrity protected, but not encrypted.
+   * @param options.plaintext - The plaintext to encrypt.
+   * @param options.protectedHeader - The header parameters shared by all recipients, which must specify `enc`.
+   * @param options.recipients - The recipients to encrypt to.
+   * @returns A Promise that resolves to the general JWE.
+   */
+  public static async encryptGeneral(options: {
+    aad?: Uint8Array,
+    plaintext: Uint8Array,
+    protectedHeader: Partial<JweHeaderParams> & Pick<JweHeaderParams, 'enc'>,
+    recipients: JweRecipient[]
+  }): Promise<GeneralJwe> {
+    return await Jwe.encrypt({ ...options, toCompact: false });
+  }
+
+  /**
+   * A private method to compute the additional authenticated data of the
+   * content encryption, which is ASCII(BASE64URL(protected header)), followed
+   * by '.' and BASE64URL(aad) if the JWE has additional authenticated data.
+   */
+  private static additionalData(options: {
+    aad?: string,
+    encodedProtectedHeader?: string
+  }): Uint8Array {
+    const { aad, encodedProtectedHeader = '' } = options;
+
+    const additionalData = (aad === undefined)
+      ? encodedProtectedHeader
+      : `${encodedProtectedHeader}.${aad}`;
+
+    return Convert.string(additionalData).toUint8Array();
+  }
+
+  /**
+   * A private method to check that the key management and content
+   * encryption algorithms of a JOSE Header are supported.
+   */
+  private static checkHeader(options: {
+    header: Partial<JweHeaderParams>
+  }): void {
+    const { header: { alg, crit, enc } } = options;
+
+    // Check own properties only, so that names such as 'constructor' are not mistaken for algorithms.
+    const hasOwn = (object: object, key: string) => Object.prototype.hasOwnProperty.call(object, key);
+
+    if (alg === undefined || !(alg === 'dir' || alg === 'ECDH-ES' || hasOwn(keyWrappingAlgorithms, alg))) {
+      throw new Error(`Jwe: Unsupported key management algorithm: '${alg}'`);
+    }
+
+    if (enc === undefined || !hasOwn(contentEncryptionAlgorithms, enc)) {
+      throw new Error(`Jwe: Unsupported content encryption algorithm: '${enc}'`);
+    }
+
+    if (crit !== undefined && crit.length > 0) {
+      throw new Error(`Jwe: Unsupported critical header parameters: ${crit.join(', ')}`);
+    }
+  }
+
+  /**
+   * A private method to decrypt the ciphertext with the content encryption
+   * algorithm named by `enc`.
+   */
+  private static async decryptContent(options: {
+    additionalData: Uint8Array,
+    ciphertext: Uint8Array,
+    enc: string,
+    iv: Uint8Array,
+    key: Uint8Array,
+    tag: Uint8Array
+  }): Promise<Uint8Array> {
+    const { additionalData, ciphertext, enc, iv, key, tag } = options;
+
+    // Both AES-GCM and XChaCha20-Poly1305 use a 128-bit authentication tag.
+    // Per RFC 7518, Section 5.3, a truncated tag must be rejected.
+    if (tag.byteLength !== 16) {
+      throw new Error(`Jwe: Authentication tag must be 128 bits.`);
+    }
+
+    if (enc === 'XC20P') {
+      return await XChaCha20Poly1305.decrypt({ additionalData, data: ciphertext, key, nonce: iv, tag });
+    }
+
+    return await AesGcm.decrypt({
+      additionalData,
+      data      : new Uint8Array([...ciphertext, ...tag]),
+      iv,
+      key,
+      tagLength : 128
+    });
+  }
+
+  /**
+   * A private method to recover the content encryption key of a recipient
+   * with the key management algorithm named by `alg`.
+   */
+  private static async decryptKey(options: {
+    encryptedKey?: string,
+    header: JweHeaderParams,
+    key: PrivateKeyJwk
+  }): Promise<Uint8Array> {
+    const { encryptedKey, header, key } = options;
+    const { alg, enc } = header;
+
+    const { keyLength } = contentEncryptionAlgorithms[enc];
+
+    // With direct encryption, the shared symmetric key is the CEK.
+    if (alg === 'dir') {
+      return Jwe.getSecretKey({ key, length: keyLength });
+    }
+
+    // With direct key agreement, the agreed upon key is the CEK.
+    if (alg === 'ECDH-ES') {
+      return await Jwe.deriveKeyAgreementKey({ header, keyDataLen: keyLength, privateKey: key, publicKey: header.epk });
+    }
+
+    if (encryptedKey === undefined) {
+      throw new Error(`Jwe: Key management algorithm '${alg}' requires an encrypted key.`);
+    }
+
+    const wrappingKeyLength = keyWrappingAlgorithms[alg];
+    const unwrappingKey = (alg.startsWith('ECDH-ES'))
+      ? await Jwe.deriveKeyAgreementKey({ header, keyDataLen: wrappingKeyLength, privateKey: key, publicKey: header.epk })
+      : Jwe.getSecretKey({ key, length: wrappingKeyLength });
+
+    return await AesKw.unwrapKey({ unwrappingKey, wrappedKey: Convert.base64Url(encryptedKey).toUint8Array() });
+  }
+
+  /**
+   * A private method to derive a key with ECDH-ES, as defined in
+   * {@link https://datatracker.ietf.org/doc/html/rfc7518#section-4.6 | RFC 7518, Section 4.6}.
+   *
+   * The sender uses its ephemeral private key and the recipient's public
+   * key, while the recipient uses its private key and the public key of the
+   * `epk` header parameter. The AlgorithmID of the Concat KDF is `enc` for direct key
+   * agreement and `alg` otherwise.
+   */
+  private static async deriveKeyAgreementKey(options: {
+    header: Partial<JweHeaderParams>,
+    keyDataLen: number,
+    privateKey: JsonWebKey,
+    publicKey?: JsonWebKey
+  }): Promise<Uint8Array> {
+    const { header: { alg, apu, apv, enc }, keyDataLen, privateKey, publicKey } = options;
+
+    if (publicKey === undefined) {
+      throw new Error(`Jwe: Key management algorithm '${alg}' requires the 'epk' header parameter.`);
+    }
+
+    if (!('crv' in publicKey && 'crv' in privateKey && 'd' in privateKey) || publicKey.crv !== privateKey.crv) {
+      throw new Error(`Jwe: Key management algorithm '${alg}' requires a key pair on the same curve.`);
+    }
+
+    const { keyMaterial: publicKeyMaterial } = await Jose.jwkToKey({ key: publicKey });
+    const { keyMaterial: privateKeyMaterial } = await Jose.jwkToKey({ key: privateKey });
+
+    let sharedSecret: Uint8Array;
+    switch (privateKey.crv) {
+      case 'P-256': {
+        sharedSecret = await Secp256r1.sharedSecret({ privateKey: privateKeyMaterial, publicKey: publicKeyMaterial });
+        break;
+      }
+      case 'secp256k1': {
+        sharedSecret = await Secp256k1.sharedSecret({ privateKey: privateKeyMaterial, publicKey: publicKeyMaterial });
+        break;
+      }
+      case 'X25519': {
+        sharedSecret = await X25519.sharedSecret({ privateKey: privateKeyMaterial, publicKey: publicKeyMaterial });
+        break;
+      }
+      default: {
+        throw new Error(`Jwe: Unsupported curve for key agreement: '${privateKey.crv}'`);
+      }
+    }
+
+    return await ConcatKdf.deriveKey({
+      keyDataLen,
+      otherInfo: {
+        algorithmId : (alg === 'ECDH-ES') ? enc! : alg!,
+        partyUInfo  : (apu === undefined) ? new Uint8Array(0) : Convert.base64Url(apu).toUint8Array(),
+        partyVInfo  : (apv === undefined) ? new Uint8Array(0) : Convert.base64Url(apv).toUint8Array(),
+        suppPubInfo : keyDataLen
+      },
+      sharedSecret
+    });
+  }
+
+  /**
+   * A private method that implements both the compact and the general JSON
+   * serializations. With `toCompact`, the header parameters that key
+   * management produces, such as `epk`, are added to the protected header
+   * rather than to the recipient's header.
+   */
+  private static async encrypt(options: {
+    aad?: Uint8Array,
+    plaintext: Uint8Array,
+    protectedHeader: Partial<JweHeaderParams> & Pick<JweHeaderParams, 'enc'>,
+    recipients: JweRecipient[],
+    toCompact: boolean
+  }): Promise<GeneralJwe> {
+    const { aad, plaintext, recipients, toCompact } = options;
+    const { enc } = options.protectedHeader;
+
+    if (recipients.length === 0) {
+      throw new Error('Jwe: At least one recipient must be specified.');
+    }
+
+    for (const { header } of recipients) {
+      Jwe.checkHeader({ header: { ...options.protectedHeader, ...header } });
+
+      // Per RFC 7516, Section 7.2.1, header parameter names must be disjoint.
+      const duplicateHeaderParams = Object.keys(header).filter(name => name in options.protectedHeader);
+      if (duplicateHeaderParams.length > 0) {
+        throw new Error(`Jwe: Header parameters must not be both protected and unprotected: ${duplicateHeaderParams.join(', ')}`);
+      }
+
+      if ((header.alg === 'dir' || header.alg === 'ECDH-ES') && recipients.length > 1) {
+        throw new Error(`Jwe: Key management algorithm '${header.alg}' is only valid with a single recipient.`);
+      }
+    }
+
+    const { keyLength, ivLength } = contentEncryptionAlgorithms[enc];
+
+    // Unless the key management algorithm determines the CEK, generate a random one.
+    let cek = randomBytes(keyLength / 8);
+
+    const generalJweRecipients: GeneralJweRecipient[] = [];
+    let protectedHeader: Partial<JweHeaderParams> = { ...options.protectedHeader };
+
+    for (const recipient of recipients) {
+      const key = await Jwe.getRecipientKey({ recipient });
+      const header = { ...options.protectedHeader, ...recipient.header };
+
+      // Per-recipient header parameters that key management produces.
+      const keyManagementHeader: Partial<JweHeaderParams> = {};
+      const generalJweRecipient: GeneralJweRecipient = {};
+
+      if (header.alg === 'dir') {
+        cek = Jwe.getSecretKey({ key, length: keyLength });
+
+      } else if (header.alg.startsWith('ECDH-ES')) {
+        const ephemeralPrivateKey = await Jwe.generateEphemeralKey({ key });
+        const { d, ...ephemeralPublicKey } = ephemeralPrivateKey as PrivateKeyJwk & { d: string };
+        keyManagementHeader.epk = ephemeralPublicKey as PublicKeyJwk;
+
+        const keyDataLen = (header.alg === 'ECDH-ES') ? keyLength : keyWrappingAlgorithms[header.alg];
+        const derivedKey = await Jwe.deriveKeyAgreementKey({
+          header,
+          keyDataLen,
+          privateKey : ephemeralPrivateKey,
+          publicKey  : key
+        });
+
+        if (header.alg === 'ECDH-ES') {
+          cek = derivedKey;
+        } else {
+          const encryptedKey = await AesKw.wrapKey({ key: cek, wrappingKey: derivedKey });
+          generalJweRecipient.encrypted_key = Convert.uint8Array(encryptedKey).toBase64Url();
+        }
+
+      } else {
+        const wrappingKey = Jwe.getSecretKey({ key, length: keyWrappingAlgorithms[header.alg] });
+        const encryptedKey = await AesKw.wrapKey({ key: cek, wrappingKey });
+        generalJweRecipient.encrypted_key = Convert.uint8Array(encryptedKey).toBase64Url();
+      }
+
+      const recipientHeader = { ...recipient.header, ...keyManagementHeader };
+      if (recipient.verificationMethod !== undefined) recipientHeader.kid ??= recipient.verificationMethod.id;
+
+      if (toCompact) {
+        protectedHeader = { ...recipientHeader, ...protectedHeader };
+      } else {
+        generalJweRecipient.header = recipientHeader;
+      }
+
+      generalJweRecipients.push(generalJweRecipient);
+    }
+
+    const encodedProtectedHeader = Convert.object(protectedHeader).toBase64Url();
+    const encodedAad = (aad === undefined) ? undefined : Convert.uint8Array(aad).toBase64Url();
+
+    const iv = randomBytes(ivLength / 8);
+    const { ciphertext, tag } = await Jwe.encryptContent({
+      additionalData : Jwe.additionalData({ aad: encodedAad, encodedProtectedHeader }),
+      enc,
+      iv,
+      key            : cek,
+      plaintext
+    });
+
+    const generalJwe: GeneralJwe = {
+      ciphertext : Convert.uint8Array(ciphertext).toBase64Url(),
+      iv         : Convert.uint8Array(iv).toBase64Url(),
+      protected  : encodedProtectedHeader,
+      recipients : generalJweRecipients,
+      tag        : Convert.uint8Array(tag).toBase64Url()
+    };
+    if (encodedAad !== undefined) generalJwe.aad = encodedAad;
+
+    return generalJwe;
+  }
+
+  /**
+   * A private method to encrypt the plaintext with the content encryption
+   * algorithm named by `enc`.
+   */
+  private static async encryptContent(options: {
+    additionalData: Uint8Array,
+    enc: string,
+    iv: Uint8Array,
+    key: Uint8Array,
+    plaintext: Uint8Array
+  }): Promise<{ ciphertext: Uint8Array, tag: Uint8Array }> {
+    const { additionalData, enc, iv, key, plaintext } = options;
+
+    if (enc === 'XC20P') {
+      return await XChaCha20Poly1305.encrypt({ additionalData, data: plaintext, key, nonce: iv });
+    }
+
+    // AES-GCM appends the 128-bit authentication tag to the ciphertext.
+    const ciphertextAndTag = await AesGcm.encrypt({ additionalData, data: plaintext, iv, key, tagLength: 128 });
+
+    return {
+      ciphertext : ciphertextAndTag.subarray(0, -16),
+      tag        : ciphertextAndTag.subarray(-16)
+    };
+  }
+
+  /**
+   * A private method to generate an ephemeral private key on the same curve
+   * as the recipient's public key.
+   */
+  private static async generateEphemeralKey(options: {
+    key: JsonWebKey
+  }): Promise<JsonWebKey> {
+    const { key } = options;
+
+    if (!('crv' in key) || !keyAgreementCurves.includes(key.crv)) {
+      throw new Error(`Jwe: ECDH-ES key agreement requires a ${keyAgreementCurves.join(', ')} public key.`);
+    }
+
+    let privateKey: Uint8Array;
+    switch (key.crv) {
+      case 'P-256': {
+        ({ privateKey } = await Secp256r1.generateKeyPair());
+        break;
+      }
+      case 'secp256k1': {
+        ({ privateKey } = await Secp256k1.generateKeyPair());
+        break;
+      }
+      default: {
+        ({ privateKey } = await X25519.generateKeyPair());
+      }
+    }
+
+    return await Jose.keyToJwk({ crv: key.crv, keyMaterial: privateKey, keyType: 'private' });
+  }
+
+  /**
+   * A private method to obtain a recipient's key as a JWK, converting a
+   * verification method with a `publicKeyMultibase` if necessary.
+   */
+  private static async getRecipientKey(options: {
+    recipient: JweRecipient
+  }): Promise<JsonWebKey> {
+    const { recipient: { key, verificationMethod } } = options;
+
+    // Either key or verificationMethod must be specified, but not both.
+    if (!(key ? !verificationMethod : verificationMethod)) {
+      throw new Error(`Jwe: Either 'key' or 'verificationMethod' must be defined, but not both.`);
+    }
+
+    if (key) return key;
+
+    if (verificationMethod!.publicKeyJwk) return verificationMethod!.publicKeyJwk;
+
+    if (verificationMethod!.publicKeyMultibase) {
+      const { key: keyMaterial, multicodecName } = multibaseIdToKey({ multibaseKeyId: verificationMethod!.publicKeyMultibase });
+      const jwkParams = await Jose.multicodecToJose({ name: multicodecName });
+      return await Jose.keyToJwk({ keyMaterial, keyType: 'public', ...jwkParams });
+    }
+
+    throw new Error(`Jwe: Verification method '${verificationMethod!.id}' has neither a 'publicKeyJwk' nor a 'publicKeyMultibase'.`);
+  }
+
+  /**
+   * A private method to obtain the key material of an `oct` JWK, checking
+   * that it has the length that the algorithm requires.
+   */
+  private static getSecretKey(options: {
+    key: JsonWebKey,
+    length: number
+  }): Uint8Array {
+    const { key, length } = options;
+
+    if (!('k' in key)) {
+      throw new Error(`Jwe: Key management algorithm requires an 'oct' key.`);
+    }
+
+    const secretKey = Convert.base64Url(key.k).toUint8Array();
+    if (secretKey.byteLength * 8 !== length) {
+      throw new Error(`Jwe: Key length must be ${length} bits.`);
+    }
+
+    return secretKey;
+  }
+
+  /**
+   * A private method to convert a JWE in either serialization to the general
+   * JWE JSON Serialization.
+   */
+  private static toGeneral(options: {
+    jwe: CompactJwe | GeneralJwe
+  }): GeneralJwe {
+    const { jwe } = options;
+
+    if (typeof jwe !== 'string') {
+      if (!Array.isArray(jwe.recipients) || jwe.recipients.length === 0) {
+        throw new Error('Jwe: A general JWE must contain at least one recipient.');
+      }
+      return jwe;
+    }
+
+    const parts = jwe.split('.');
+    if (parts.length !== 5) {
+      throw new Error('Jwe: A compact JWE must consist of exactly five parts.');
+    }
+
+    const [encodedProtectedHeader, encryptedKey, iv, ciphertext, tag] = parts;
+
+    return {
+      ciphertext,
+      iv,
+      protected  : encodedProtectedHeader,
+      recipients : [(encryptedKey === '') ? {} : { encrypted_key: encryptedKey }],
+      tag
+    };
+  }
+}
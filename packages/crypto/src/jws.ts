@@ -0,0 +1,516 @@
+import { Convert } from '@web5/common';
+
+import type { Web5Crypto } from './types/web5-crypto.js';
+import type { JoseHeaderParams, JwkParamsOctPrivate, JwsHeaderParams, PublicKeyJwk } from './jose.js';
+
+import { Jose } from './jose.js';
+import { multibaseIdToKey } from './utils.js';
+import { Ed25519, Hmac, Secp256k1, Secp256r1, Secp384r1 } from './crypto-primitives/index.js';
+
+/**
+ * A JWS in the JWS Compact Serialization, as defined in
+ * {@link https://datatracker.ietf.org/doc/html/rfc7515#section-7.1 | RFC 7515, Section 7.1}.
+ */
+export type CompactJws = string;
+
+/**
+ * A JWS in the flattened JWS JSON Serialization, as defined in
+ * {@link https://datatracker.ietf.org/doc/html/rfc7515#section-7.2.2 | RFC 7515, Section 7.2.2}.
+ *
+ * The `payload` member is absent when the payload is detached.
+ */
+export type FlattenedJws = {
+  header?: JoseHeaderParams;
+  payload?: string;
+  protected: string;
+  signature: string;
+};
+
+/**
+ * A single entry of the `signatures` array of a general JWS.
+ */
+export type GeneralJwsSignature = {
+  header?: JoseHeaderParams;
+  protected: string;
+  signature: string;
+};
+
+/**
+ * A JWS in the general JWS JSON Serialization, as defined in
+ * {@link https://datatracker.ietf.org/doc/html/rfc7515#section-7.2.1 | RFC 7515, Section 7.2.1}.
+ *
+ * The `payload` member is absent when the payload is detached.
+ */
+export type GeneralJws = {
+  payload?: string;
+  signatures: GeneralJwsSignature[];
+};
+
+/**
+ * Any key manager that can sign with a key it holds, such as the
+ * `KeyManager` or `LocalKms` of `@web5/agent`.
+ */
+export interface JwsCryptoManager {
+  sign(options: {
+    algorithm: Web5Crypto.AlgorithmIdentifier | Web5Crypto.EcdsaOptions | Web5Crypto.EdDsaOptions | Web5Crypto.HmacOptions,
+    keyRef: string,
+    data: Uint8Array
+  }): Promise<Uint8Array>;
+}
+
+/**
+ * Produces one signature of a JWS. The private key is either referenced by
+ * `keyRef` and held by a `cryptoManager`, or is hidden behind a `sign`
+ * function that returns the signature over the JWS Signing Input.
+ *
+ * The `alg` of the `protectedHeader` selects the signature algorithm.
+ */
+export type JwsSigner = {
+  protectedHeader: JwsHeaderParams;
+  unprotectedHeader?: JoseHeaderParams;
+} & (
+  | { cryptoManager: JwsCryptoManager, keyRef: string }
+  | { sign: (data: Uint8Array) => Promise<Uint8Array> }
+);
+
+/**
+ * The subset of a DID Document verification method needed to verify a JWS.
+ */
+export type JwsVerificationMethod = {
+  id: string;
+  type: string;
+  controller: string;
+  publicKeyJwk?: PublicKeyJwk;
+  publicKeyMultibase?: string;
+};
+
+/**
+ * Maps the JWS `alg` header parameter values to the Web Crypto algorithm
+ * identifiers accepted by a `JwsCryptoManager`. Only the algorithms that
+ * `Jws.verify()` can also verify are included.
+ *
+ * The `hash` of the HMAC algorithms ensures that a key manager refuses to
+ * sign with a key whose hash function does not match `alg`.
+ */
+const joseToWebCryptoSignatureMapping: {
+  [key in JwsHeaderParams['alg']]?: Web5Crypto.AlgorithmIdentifier | Web5Crypto.EcdsaOptions | Web5Crypto.HmacOptions
+} = {
+  'EdDSA'  : { name: 'EdDSA' },
+  'ES256'  : { name: 'ECDSA', hash: 'SHA-256' },
+  'ES256K' : { name: 'ECDSA', hash: 'SHA-256' },
+  'ES384'  : { name: 'ECDSA', hash: 'SHA-384' },
+  'HS256'  : { name: 'HMAC', hash: 'SHA-256' },
+  'HS384'  : { name: 'HMAC', hash: 'SHA-384' },
+  'HS512'  : { name: 'HMAC', hash: 'SHA-512' },
+};
+
+/**
+ * A key to verify a JWS with, where `type` is the curve of a public key or
+ * `oct` for a secret key.
+ */
+type JwsVerificationKey = {
+  alg?: string;
+  keyMaterial: Uint8Array;
+  type: string;
+};
+
+/**
+ * Verifies a signature over the JWS Signing Input with a key that is already bound.
+ */
+type SignatureVerifier = (options: { data: Uint8Array, signature: Uint8Array }) => Promise<boolean>;
+
+/**
+ * Header parameters this implementation understands when they are listed
+ * in the `crit` header parameter.
+ */
+const supportedCriticalHeaderParams = ['b64'];
+
+export class Jws {
+  /**
+   * Creates a JWS in the JWS Compact Serialization.
+   *
+   * When the protected header sets `b64` to `false`, as defined in
+   * {@link https://datatracker.ietf.org/doc/html/rfc7797 | RFC 7797}, the
+   * payload is included unencoded and therefore must not contain a period.
+   *
+   * @param options.detached - If true, the payload is omitted from the JWS.
+   * @param options.payload - The payload to sign.
+   * @param options.signer - The signer that produces the signature.
+   * @returns A Promise that resolves to the compact JWS.
+   */
+  public static async createCompact(options: {
+    detached?: boolean,
+    payload: Uint8Array,
+    signer: JwsSigner
+  }): Promise<CompactJws> {
+    const { detached = false, payload, signer } = options;
+
+    if (signer.unprotectedHeader !== undefined) {
+      throw new Error('Jws: The JWS Compact Serialization does not support unprotected headers.');
+    }
+
+    const { payloadSegment, signature } = await Jws.signPayload({ payload, signer });
+
+    if (!detached && payloadSegment.includes('.')) {
+      throw new Error(`Jws: An unencoded payload must not contain '.' characters when using the JWS Compact Serialization.`);
+    }
+
+    return `${signature.protected}.${detached ? '' : payloadSegment}.${signature.signature}`;
+  }
+
+  /**
+   * Creates a JWS in the flattened JWS JSON Serialization.
+   *
+   * @param options.detached - If true, the payload is omitted from the JWS.
+   * @param options.payload - The payload to sign.
+   * @param options.signer - The signer that produces the signature.
+   * @returns A Promise that resolves to the flattened JWS.
+   */
+  public static async createFlattened(options: {
+    detached?: boolean,
+    payload: Uint8Array,
+    signer: JwsSigner
+  }): Promise<FlattenedJws> {
+    const { detached = false, payload, signer } = options;
+
+    const { payloadSegment, signature } = await Jws.signPayload({ payload, signer });
+
+    const flattenedJws: FlattenedJws = { ...signature };
+    if (!detached) flattenedJws.payload = payloadSegment;
+
+    return flattenedJws;
+  }
+
+  /**
+   * Creates a JWS in the general JWS JSON Serialization, with one signature
+   * per signer.
+   *
+   * Per {@link https://datatracker.ietf.org/doc/html/rfc7797#section-6 | RFC 7797, Section 6},
+   * all signers must agree on the value of the `b64` header parameter.
+   *
+   * @param options.detached - If true, the payload is omitted from the JWS.
+   * @param options.payload - The payload to sign.
+   * @param options.signers - The signers that each produce one signature.
+   * @returns A Promise that resolves to the general JWS.
+   */
+  public static async createGeneral(options: {
+    detached?: boolean,
+    payload: Uint8Array,
+    signers: JwsSigner[]
+  }): Promise<GeneralJws> {
+    const { detached = false, payload, signers } = options;
+
+    if (signers.length === 0) {
+      throw new Error('Jws: At least one signer must be specified.');
+    }
+
+    const b64Values = new Set(signers.map(signer => signer.protectedHeader.b64 !== false));
+    if (b64Values.size > 1) {
+      throw new Error(`Jws: All signers must use the same value for the 'b64' header parameter.`);
+    }
+
+    const generalJws: GeneralJws = { signatures: [] };
+
+    for (const signer of signers) {
+      const { payloadSegment, signature } = await Jws.signPayload({ payload, signer });
+      if (!detached) generalJws.payload = payloadSegment;
+      generalJws.signatures.push(signature);
+    }
+
+    return generalJws;
+  }
+
+  /**
+   * Verifies a JWS in any of the compact, flattened or general
+   * serializations against a public key or, for the HMAC algorithms, a
+   * secret key.
+   *
+   * The public key is given either as a JWK or as a DID Document
+   * verification method with a `publicKeyJwk` or `publicKeyMultibase`.
+   * A general JWS is valid if at least one of its signatures verifies.
+   * Signatures whose algorithm does not apply to the key, such as those made
+   * by other signers with keys of another type, are skipped.
+   *
+   * @param options.detachedPayload - The payload, if it was detached from the JWS.
+   * @param options.jws - The JWS to verify.
+   * @param options.publicKeyJwk - The public key to verify with, as a JWK.
+   * @param options.secretKeyJwk - The `oct` key to verify an HMAC with.
+   * @param options.verificationMethod - The verification method to verify with.
+   * @returns A Promise that resolves to true if the signature is valid, false otherwise.
+   * @throws {Error} If the JWS is malformed or none of its signatures apply to the key.
+   */
+  public static async verify(options: {
+    detachedPayload?: Uint8Array,
+    jws: CompactJws | FlattenedJws | GeneralJws,
+    publicKeyJwk?: PublicKeyJwk,
+    secretKeyJwk?: JwkParamsOctPrivate,
+    verificationMethod?: JwsVerificationMethod
+  }): Promise<boolean> {
+    const { detachedPayload, jws, publicKeyJwk, secretKeyJwk, verificationMethod } = options;
+
+    // Exactly one of publicKeyJwk, secretKeyJwk or verificationMethod must be specified.
+    if ([publicKeyJwk, secretKeyJwk, verificationMethod].filter(key => key !== undefined).length !== 1) {
+      throw new Error(`Jws: Exactly one of 'publicKeyJwk', 'secretKeyJwk' or 'verificationMethod' must be defined.`);
+    }
+
+    const verificationKey = await Jws.getVerificationKey({ publicKeyJwk, secretKeyJwk, verificationMethod });
+
+    const generalJws = Jws.toGeneral({ jws });
+
+    if (generalJws.payload === undefined && detachedPayload === undefined) {
+      throw new Error(`Jws: The JWS payload is detached but 'detachedPayload' was not specified.`);
+    }
+
+    let inapplicableError: Error | undefined;
+    let isAnyApplicable = false;
+
+    for (const { protected: encodedProtectedHeader, signature } of generalJws.signatures) {
+      const protectedHeader = Convert.base64Url(encodedProtectedHeader).toObject() as JwsHeaderParams;
+
+      Jws.checkCriticalHeaderParams({ protectedHeader });
+
+      let verifySignature: SignatureVerifier;
+      try {
+        verifySignature = Jws.getSignatureVerifier({ alg: protectedHeader.alg, key: verificationKey });
+      } catch (error: any) {
+        inapplicableError ??= error;
+        continue;
+      }
+      isAnyApplicable = true;
+
+      const isEncoded = protectedHeader.b64 !== false;
+      const payloadSegment = generalJws.payload ?? Jws.encodePayload({ isEncoded, payload: detachedPayload! });
+
+      const isValid = await verifySignature({
+        data      : Jws.signingInput({ encodedProtectedHeader, payloadSegment }),
+        signature : Convert.base64Url(signature).toUint8Array()
+      });
+
+      if (isValid) return true;
+    }
+
+    if (!isAnyApplicable && inapplicableError) {
+      throw inapplicableError;
+    }
+
+    return false;
+  }
+
+  /**
+   * A private method to check that every header parameter listed in `crit`
+   * is understood and present in the protected header, and that `b64` is
+   * listed in `crit` whenever it is used.
+   */
+  private static checkCriticalHeaderParams(options: {
+    protectedHeader: JwsHeaderParams
+  }): void {
+    const { protectedHeader } = options;
+
+    if (typeof protectedHeader.alg !== 'string') {
+      throw new Error(`Jws: The protected header must contain the 'alg' header parameter.`);
+    }
+
+    const { crit = [] } = protectedHeader;
+
+    for (const headerParam of crit) {
+      if (!supportedCriticalHeaderParams.includes(headerParam)) {
+        throw new Error(`Jws: Unsupported critical header parameter: '${headerParam}'`);
+      }
+      if (!(headerParam in protectedHeader)) {
+        throw new Error(`Jws: Critical header parameter '${headerParam}' is missing from the protected header.`);
+      }
+    }
+
+    if ('b64' in protectedHeader && !crit.includes('b64')) {
+      throw new Error(`Jws: The 'b64' header parameter must be listed in the 'crit' header parameter.`);
+    }
+  }
+
+  /**
+   * A private method to encode a payload as it appears in a JWS, which is
+   * either BASE64URL(payload) or, if `b64` is `false`, the payload decoded
+   * as UTF-8. Unencoded payloads must therefore be valid UTF-8.
+   */
+  private static encodePayload(options: {
+    isEncoded: boolean,
+    payload: Uint8Array
+  }): string {
+    const { isEncoded, payload } = options;
+
+    return isEncoded
+      ? Convert.uint8Array(payload).toBase64Url()
+      : Convert.uint8Array(payload).toString();
+  }
+
+  /**
+   * A private method to obtain the raw key and its type, which is the curve
+   * of a public key or `oct` for a secret key, from either a public key JWK,
+   * an `oct` JWK or a verification method.
+   */
+  private static async getVerificationKey(options: {
+    publicKeyJwk?: PublicKeyJwk,
+    secretKeyJwk?: JwkParamsOctPrivate,
+    verificationMethod?: JwsVerificationMethod
+  }): Promise<JwsVerificationKey> {
+    const { secretKeyJwk, verificationMethod } = options;
+
+    if (secretKeyJwk) {
+      if (secretKeyJwk.kty !== 'oct' || typeof secretKeyJwk.k !== 'string') {
+        throw new Error(`Jws: Verification with 'secretKeyJwk' requires an 'oct' key.`);
+      }
+      return { alg: secretKeyJwk.alg, keyMaterial: Convert.base64Url(secretKeyJwk.k).toUint8Array(), type: 'oct' };
+    }
+
+    const publicKeyJwk = options.publicKeyJwk ?? verificationMethod?.publicKeyJwk;
+
+    if (publicKeyJwk) {
+      const { keyMaterial, keyType } = await Jose.jwkToKey({ key: publicKeyJwk });
+      if (keyType !== 'public' || !('crv' in publicKeyJwk)) {
+        throw new Error('Jws: Verification requires an elliptic curve public key.');
+      }
+      return { keyMaterial, type: publicKeyJwk.crv };
+    }
+
+    if (verificationMethod?.publicKeyMultibase) {
+      const { key: keyMaterial, multicodecName } = multibaseIdToKey({ multibaseKeyId: verificationMethod.publicKeyMultibase });
+      const jwkParams = await Jose.multicodecToJose({ name: multicodecName });
+      if (!('crv' in jwkParams) || 'd' in jwkParams) {
+        throw new Error('Jws: Verification requires an elliptic curve public key.');
+      }
+      return { keyMaterial, type: jwkParams.crv };
+    }
+
+    throw new Error(`Jws: Verification method '${verificationMethod?.id}' has neither a 'publicKeyJwk' nor a 'publicKeyMultibase'.`);
+  }
+
+  /**
+   * A private method to sign a payload, returning the payload as it appears
+   * in the JWS along with the protected header, unprotected header and
+   * signature.
+   */
+  private static async signPayload(options: {
+    payload: Uint8Array,
+    signer: JwsSigner
+  }): Promise<{ payloadSegment: string, signature: GeneralJwsSignature }> {
+    const { payload, signer } = options;
+    const { protectedHeader, unprotectedHeader } = signer;
+
+    Jws.checkCriticalHeaderParams({ protectedHeader });
+
+    // Per RFC 7515, Section 7.2.1, header parameter names must be disjoint.
+    const duplicateHeaderParams = Object.keys(unprotectedHeader ?? {}).filter(name => name in protectedHeader);
+    if (duplicateHeaderParams.length > 0) {
+      throw new Error(`Jws: Header parameters must not be both protected and unprotected: ${duplicateHeaderParams.join(', ')}`);
+    }
+
+    const algorithm = joseToWebCryptoSignatureMapping[protectedHeader.alg];
+    if (algorithm === undefined) {
+      throw new Error(`Jws: Unsupported signature algorithm: '${protectedHeader.alg}'`);
+    }
+
+    const isEncoded = protectedHeader.b64 !== false;
+    const encodedProtectedHeader = Convert.object(protectedHeader).toBase64Url();
+    const payloadSegment = Jws.encodePayload({ isEncoded, payload });
+    const data = Jws.signingInput({ encodedProtectedHeader, payloadSegment });
+
+    const signatureBytes = ('cryptoManager' in signer)
+      ? await signer.cryptoManager.sign({ algorithm, keyRef: signer.keyRef, data })
+      : await signer.sign(data);
+
+    const signature: GeneralJwsSignature = {
+      protected : encodedProtectedHeader,
+      signature : Convert.uint8Array(signatureBytes).toBase64Url()
+    };
+    if (unprotectedHeader !== undefined) signature.header = unprotectedHeader;
+
+    return { payloadSegment, signature };
+  }
+
+  /**
+   * A private method to compute the JWS Signing Input, which is
+   * ASCII(BASE64URL(protected header) || '.' || payload segment).
+   *
+   * With `b64` set to `false`, the payload segment is the UTF-8 payload
+   * itself, as specified in RFC 7797, Section 3.
+   */
+  private static signingInput(options: {
+    encodedProtectedHeader: string,
+    payloadSegment: string
+  }): Uint8Array {
+    const { encodedProtectedHeader, payloadSegment } = options;
+
+    return Convert.string(`${encodedProtectedHeader}.${payloadSegment}`).toUint8Array();
+  }
+
+  /**
+   * A private method to convert a JWS in any serialization to the general
+   * JWS JSON Serialization.
+   */
+  private static toGeneral(options: {
+    jws: CompactJws | FlattenedJws | GeneralJws
+  }): GeneralJws {
+    const { jws } = options;
+
+    if (typeof jws === 'string') {
+      const parts = jws.split('.');
+      if (parts.length !== 3) {
+        throw new Error('Jws: A compact JWS must consist of exactly three parts.');
+      }
+      const [encodedProtectedHeader, payload, signature] = parts;
+      return {
+        ...(payload === '' ? {} : { payload }),
+        signatures: [{ protected: encodedProtectedHeader, signature }]
+      };
+    }
+
+    if ('signatures' in jws) {
+      if (!Array.isArray(jws.signatures) || jws.signatures.length === 0) {
+        throw new Error('Jws: A general JWS must contain at least one signature.');
+      }
+      return jws;
+    }
+
+    const { payload, ...signature } = jws;
+    return { payload, signatures: [signature] };
+  }
+
+  /**
+   * A private method to get the primitive that verifies signatures made with
+   * the `alg` header parameter, after checking that the key is of the type
+   * that the algorithm requires and, for an `oct` key that names its `alg`,
+   * that the algorithms match.
+   *
+   * @throws {Error} If the algorithm is unsupported or does not apply to the key.
+   */
+  private static getSignatureVerifier(options: {
+    alg: string,
+    key: JwsVerificationKey
+  }): SignatureVerifier {
+    const { alg, key: { alg: keyAlg, keyMaterial: key, type } } = options;
+
+    const verifiers: Record<string, { type: string, verify: SignatureVerifier }> = {
+      'EdDSA'  : { type: 'Ed25519', verify: ({ data, signature }) => Ed25519.verify({ data, key, signature }) },
+      'ES256'  : { type: 'P-256', verify: ({ data, signature }) => Secp256r1.verify({ data, hash: 'SHA-256', key, signature }) },
+      'ES256K' : { type: 'secp256k1', verify: ({ data, signature }) => Secp256k1.verify({ data, hash: 'SHA-256', key, signature }) },
+      'ES384'  : { type: 'P-384', verify: ({ data, signature }) => Secp384r1.verify({ data, hash: 'SHA-384', key, signature }) },
+      'HS256'  : { type: 'oct', verify: ({ data, signature }) => Hmac.verify({ data, hash: 'SHA-256', key, signature }) },
+      'HS384'  : { type: 'oct', verify: ({ data, signature }) => Hmac.verify({ data, hash: 'SHA-384', key, signature }) },
+      'HS512'  : { type: 'oct', verify: ({ data, signature }) => Hmac.verify({ data, hash: 'SHA-512', key, signature }) },
+    };
+
+    const verifier = Object.prototype.hasOwnProperty.call(verifiers, alg) ? verifiers[alg] : undefined;
+    if (verifier === undefined) {
+      throw new Error(`Jws: Unsupported signature algorithm: '${alg}'`);
+    }
+
+    if (verifier.type !== type) {
+      throw new Error(`Jws: Algorithm '${alg}' is not valid for '${type}' keys.`);
+    }
+
+    if (keyAlg !== undefined && keyAlg !== alg) {
+      throw new Error(`Jws: Algorithm '${alg}' does not match the '${keyAlg}' key.`);
+    }
+
+    return verifier.verify;
+  }
+}
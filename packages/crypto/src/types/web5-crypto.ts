@@ -55,11 +55,21 @@ export namespace Web5Crypto {
 
   export type GenerateKeyOptions = AesGenerateKeyOptions | EcGenerateKeyOptions | HmacGenerateKeyOptions;
 
+  export interface HkdfOptions extends Algorithm {
+    hash: string;
+    info: Uint8Array;
+    salt: Uint8Array;
+  }
+
   export interface HmacGenerateKeyOptions extends Algorithm {
     hash: AlgorithmIdentifier;
     length?: number;
   }
 
+  export interface HmacOptions extends Algorithm {
+    hash?: string;
+  }
+
   export interface KeyAlgorithm {
     name: string;
   }
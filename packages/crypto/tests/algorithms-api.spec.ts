@@ -9,11 +9,15 @@ import {
   CryptoAlgorithm,
   BaseAesAlgorithm,
   BaseEcdhAlgorithm,
+  BaseHkdfAlgorithm,
+  BaseHmacAlgorithm,
   NotSupportedError,
   BaseEcdsaAlgorithm,
   BaseEdDsaAlgorithm,
   InvalidAccessError,
   BaseAesCtrAlgorithm,
+  BaseAesGcmAlgorithm,
+  BaseAesKwAlgorithm,
   BasePbkdf2Algorithm,
   BaseEllipticCurveAlgorithm,
 } from '../src/algorithms-api/index.js';
@@ -157,6 +161,29 @@ describe('Algorithms API', () => {
         expect(() => alg.checkKeyUsages({ keyUsages, allowedKeyUsages: keyPairUsages })).to.not.throw();
       });
     });
+
+    describe('unwrapKey()', () => {
+      it(`throws an error unless overridden by the algorithm`, async () => {
+        await expect(alg.unwrapKey({
+          algorithm             : { name: 'TestAlgorithm' },
+          extractable           : false,
+          keyUsages             : ['encrypt'],
+          unwrappedKeyAlgorithm : { name: 'AES-GCM' },
+          unwrappingKey         : new CryptoKey({ name: 'TestAlgorithm' }, false, new Uint8Array(16), 'secret', ['unwrapKey']),
+          wrappedKey            : new Uint8Array(24)
+        })).to.eventually.be.rejectedWith(InvalidAccessError, `'unwrapKey' is not valid for TestAlgorithm keys`);
+      });
+    });
+
+    describe('wrapKey()', () => {
+      it(`throws an error unless overridden by the algorithm`, async () => {
+        await expect(alg.wrapKey({
+          algorithm   : { name: 'TestAlgorithm' },
+          key         : new CryptoKey({ name: 'AES-GCM' }, true, new Uint8Array(16), 'secret', ['encrypt']),
+          wrappingKey : new CryptoKey({ name: 'TestAlgorithm' }, false, new Uint8Array(16), 'secret', ['wrapKey'])
+        })).to.eventually.be.rejectedWith(InvalidAccessError, `'wrapKey' is not valid for TestAlgorithm keys`);
+      });
+    });
   });
 
   describe('BaseAesAlgorithm', () => {
@@ -412,6 +439,170 @@ describe('Algorithms API', () => {
         });
       });
     });
+
+    describe('BaseAesGcmAlgorithm', () => {
+      let alg: BaseAesGcmAlgorithm;
+
+      before(() => {
+        alg = Reflect.construct(BaseAesGcmAlgorithm, []) as BaseAesGcmAlgorithm;
+      });
+
+      let dataEncryptionKey: Web5Crypto.CryptoKey;
+
+      beforeEach(() => {
+        dataEncryptionKey = new CryptoKey({ name: 'AES-GCM', length: 128 }, false, new Uint8Array(16), 'secret', ['encrypt', 'decrypt']);
+      });
+
+      describe('checkAlgorithmOptions()', () => {
+        it('does not throw with matching algorithm name and valid iv, additional data, and tag length', () => {
+          expect(() => alg.checkAlgorithmOptions({
+            algorithm: {
+              name           : 'AES-GCM',
+              additionalData : new Uint8Array([1, 2, 3]),
+              iv             : new Uint8Array(12),
+              tagLength      : 128
+            },
+            key: dataEncryptionKey
+          })).to.not.throw();
+        });
+
+        it('does not throw if additional data and tag length are omitted', () => {
+          expect(() => alg.checkAlgorithmOptions({
+            algorithm : { name: 'AES-GCM', iv: new Uint8Array(12) },
+            key       : dataEncryptionKey
+          })).to.not.throw();
+        });
+
+        it('throws an error when unsupported algorithm specified', () => {
+          expect(() => alg.checkAlgorithmOptions({
+            algorithm : { name: 'AES-CTR', iv: new Uint8Array(12) },
+            key       : dataEncryptionKey
+          })).to.throw(NotSupportedError, 'Algorithm not supported');
+        });
+
+        it('throws an error if the iv property is missing', () => {
+          // @ts-expect-error because `iv` property is intentionally omitted.
+          expect(() => alg.checkAlgorithmOptions({ algorithm: {
+            name: 'AES-GCM'
+          }})).to.throw(TypeError, `Required parameter missing: 'iv'`);
+        });
+
+        it('throws an error if iv is not a Uint8Array or is empty', () => {
+          expect(() => alg.checkAlgorithmOptions({
+            // @ts-expect-error because iv is being intentionally set to the wrong data type to trigger an error.
+            algorithm : { name: 'AES-GCM', iv: [1, 2, 3] },
+            key       : dataEncryptionKey
+          })).to.throw(TypeError, 'is not of type');
+
+          expect(() => alg.checkAlgorithmOptions({
+            algorithm : { name: 'AES-GCM', iv: new Uint8Array(0) },
+            key       : dataEncryptionKey
+          })).to.throw(OperationError, 'must not be empty');
+        });
+
+        it('throws an error if additional data is not a Uint8Array', () => {
+          expect(() => alg.checkAlgorithmOptions({
+            // @ts-expect-error because additional data is being intentionally set to the wrong data type to trigger an error.
+            algorithm : { name: 'AES-GCM', additionalData: 'abc', iv: new Uint8Array(12) },
+            key       : dataEncryptionKey
+          })).to.throw(TypeError, 'is not of type');
+        });
+
+        it('throws an error if tag length is not a valid AES-GCM tag length', () => {
+          expect(() => alg.checkAlgorithmOptions({
+            // @ts-expect-error because tag length is being intentionally specified as a string instead of a number.
+            algorithm : { name: 'AES-GCM', iv: new Uint8Array(12), tagLength: '128' },
+            key       : dataEncryptionKey
+          })).to.throw(TypeError, 'is not of type');
+
+          for (const tagLength of [0, 8, 100, 256]) {
+            expect(() => alg.checkAlgorithmOptions({
+              algorithm : { name: 'AES-GCM', iv: new Uint8Array(12), tagLength },
+              key       : dataEncryptionKey
+            })).to.throw(OperationError, `'tagLength' must be`);
+          }
+        });
+
+        it('throws an error if the key property is missing', () => {
+          // @ts-expect-error because key property was intentionally omitted.
+          expect(() => alg.checkAlgorithmOptions({ algorithm: {
+            name : 'AES-GCM',
+            iv   : new Uint8Array(12)
+          }})).to.throw(TypeError, `Required parameter missing: 'key'`);
+        });
+
+        it('throws an error if the algorithm of the key does not match', () => {
+          const dataEncryptionKey = new CryptoKey({ name: 'AES-CTR', length: 128 }, false, new Uint8Array(16), 'secret', ['encrypt', 'decrypt']);
+          expect(() => alg.checkAlgorithmOptions({
+            algorithm : { name: 'AES-GCM', iv: new Uint8Array(12) },
+            key       : dataEncryptionKey
+          })).to.throw(InvalidAccessError, 'does not match');
+        });
+
+        it('throws an error if a private or public key is specified as the key', () => {
+          for (const keyType of ['private', 'public'] as const) {
+            const dataEncryptionKey = new CryptoKey({ name: 'AES-GCM', length: 128 }, false, new Uint8Array(16), keyType, ['encrypt', 'decrypt']);
+            expect(() => alg.checkAlgorithmOptions({
+              algorithm : { name: 'AES-GCM', iv: new Uint8Array(12) },
+              key       : dataEncryptionKey
+            })).to.throw(InvalidAccessError, 'Requested operation is not valid');
+          }
+        });
+      });
+    });
+
+    describe('BaseAesKwAlgorithm', () => {
+      let alg: BaseAesKwAlgorithm;
+
+      before(() => {
+        alg = Reflect.construct(BaseAesKwAlgorithm, []) as BaseAesKwAlgorithm;
+      });
+
+      describe('checkAlgorithmOptions()', () => {
+        let keyEncryptionKey: Web5Crypto.CryptoKey;
+
+        beforeEach(() => {
+          keyEncryptionKey = new CryptoKey({ name: 'AES-KW', length: 128 }, false, new Uint8Array(16), 'secret', ['wrapKey', 'unwrapKey']);
+        });
+
+        it('does not throw with matching algorithm name and valid key', () => {
+          expect(() => alg.checkAlgorithmOptions({ algorithm: { name: 'AES-KW' }, key: keyEncryptionKey })).to.not.throw();
+        });
+
+        it('throws an error if the key algorithm does not match', () => {
+          keyEncryptionKey = new CryptoKey({ name: 'AES-GCM', length: 128 }, false, new Uint8Array(16), 'secret', ['wrapKey']);
+
+          expect(
+            () => alg.checkAlgorithmOptions({ algorithm: { name: 'AES-KW' }, key: keyEncryptionKey })
+          ).to.throw(InvalidAccessError, 'does not match');
+        });
+      });
+
+      describe('checkWrapKey()', () => {
+        it('does not throw for an extractable secret key of a valid size', () => {
+          const key = new CryptoKey({ name: 'AES-GCM', length: 128 }, true, new Uint8Array(16), 'secret', ['encrypt']);
+          expect(() => alg.checkWrapKey({ key })).to.not.throw();
+        });
+
+        it('throws an error if the key is not extractable', () => {
+          const key = new CryptoKey({ name: 'AES-GCM', length: 128 }, false, new Uint8Array(16), 'secret', ['encrypt']);
+          expect(() => alg.checkWrapKey({ key })).to.throw(InvalidAccessError, 'non-extractable');
+        });
+
+        it('throws an error if the key material is too short or not a multiple of 8 bytes', () => {
+          for (const byteLength of [8, 20]) {
+            const key = new CryptoKey({ name: 'HMAC' }, true, new Uint8Array(byteLength), 'secret', ['sign']);
+            expect(() => alg.checkWrapKey({ key })).to.throw(OperationError, 'at least 16 bytes and a multiple of 8 bytes');
+          }
+        });
+      });
+
+      describe('encrypt()', () => {
+        it(`throws an error because 'encrypt' operation is valid for AES-KW keys`, async () => {
+          await expect(alg.encrypt()).to.eventually.be.rejectedWith(InvalidAccessError, 'is not valid for');
+        });
+      });
+    });
   });
 
   describe('BaseEllipticCurveAlgorithm', () => {
@@ -683,6 +874,236 @@ describe('Algorithms API', () => {
     });
   });
 
+  describe('BaseHkdfAlgorithm', () => {
+    let alg: BaseHkdfAlgorithm;
+
+    before(() => {
+      alg = Reflect.construct(BaseHkdfAlgorithm, []) as BaseHkdfAlgorithm;
+      // @ts-expect-error because `hashAlgorithms` is a read-only property.
+      alg.hashAlgorithms = ['SHA-256'];
+    });
+
+    describe('checkAlgorithmOptions()', () => {
+
+      let baseKey: Web5Crypto.CryptoKey;
+
+      beforeEach(() => {
+        baseKey = new CryptoKey({ name: 'HKDF' }, false, new Uint8Array(32), 'secret', ['deriveBits', 'deriveKey']);
+      });
+
+      it('does not throw with matching algorithm name and valid hash, info, and salt', () => {
+        expect(() => alg.checkAlgorithmOptions({
+          algorithm: {
+            name : 'HKDF',
+            hash : 'SHA-256',
+            info : new Uint8Array(),
+            salt : new Uint8Array(16)
+          },
+          baseKey
+        })).to.not.throw();
+      });
+
+      it('throws an error when unsupported algorithm specified', () => {
+        expect(() => alg.checkAlgorithmOptions({
+          algorithm: {
+            name : 'invalid-name',
+            hash : 'SHA-256',
+            info : new Uint8Array(),
+            salt : new Uint8Array(16)
+          },
+          baseKey
+        })).to.throw(NotSupportedError, 'Algorithm not supported');
+      });
+
+      it('throws an error if the hash algorithm is missing or not supported', () => {
+        expect(() => alg.checkAlgorithmOptions({
+          // @ts-expect-error because `hash` property is intentionally omitted.
+          algorithm: {
+            name : 'HKDF',
+            info : new Uint8Array(),
+            salt : new Uint8Array(16)
+          },
+          baseKey
+        })).to.throw(TypeError, 'Required parameter missing');
+
+        expect(() => alg.checkAlgorithmOptions({
+          algorithm: {
+            name : 'HKDF',
+            hash : 'SHA-1',
+            info : new Uint8Array(),
+            salt : new Uint8Array(16)
+          },
+          baseKey
+        })).to.throw(TypeError, 'Out of range');
+      });
+
+      it('throws an error if the salt or info is missing', () => {
+        expect(() => alg.checkAlgorithmOptions({
+          // @ts-expect-error because `salt` property is intentionally omitted.
+          algorithm: {
+            name : 'HKDF',
+            hash : 'SHA-256',
+            info : new Uint8Array()
+          },
+          baseKey
+        })).to.throw(TypeError, 'Required parameter missing');
+
+        expect(() => alg.checkAlgorithmOptions({
+          // @ts-expect-error because `info` property is intentionally omitted.
+          algorithm: {
+            name : 'HKDF',
+            hash : 'SHA-256',
+            salt : new Uint8Array(16)
+          },
+          baseKey
+        })).to.throw(TypeError, 'Required parameter missing');
+      });
+
+      it('throws an error if the salt or info is not a Uint8Array', () => {
+        expect(() => alg.checkAlgorithmOptions({
+          algorithm: {
+            name : 'HKDF',
+            hash : 'SHA-256',
+            info : new Uint8Array(),
+            // @ts-expect-error because `salt` is intentionally set to an invalid type.
+            salt : 'invalid'
+          },
+          baseKey
+        })).to.throw(TypeError, `'salt' is not of type: Uint8Array`);
+
+        expect(() => alg.checkAlgorithmOptions({
+          algorithm: {
+            name : 'HKDF',
+            hash : 'SHA-256',
+            // @ts-expect-error because `info` is intentionally set to an invalid type.
+            info : 'invalid',
+            salt : new Uint8Array(16)
+          },
+          baseKey
+        })).to.throw(TypeError, `'info' is not of type: Uint8Array`);
+      });
+
+      it('throws an error if the base key algorithm does not match', () => {
+        const mockEcdsaBaseKey = new CryptoKey({ name: 'ECDSA' }, false, new Uint8Array(32), 'secret', ['deriveBits', 'deriveKey']);
+
+        expect(() => alg.checkAlgorithmOptions({
+          algorithm: {
+            name : 'HKDF',
+            hash : 'SHA-256',
+            info : new Uint8Array(),
+            salt : new Uint8Array(16)
+          },
+          baseKey: mockEcdsaBaseKey
+        })).to.throw(InvalidAccessError, 'does not match');
+      });
+    });
+
+    describe('generateKey()', () => {
+      it(`throws an error because 'generateKey' operation is valid for HKDF keys`, async () => {
+        await expect(alg.generateKey()).to.eventually.be.rejectedWith(InvalidAccessError, 'is not valid for');
+      });
+    });
+
+    describe('sign()', () => {
+      it(`throws an error because 'sign' operation is valid for HKDF keys`, async () => {
+        await expect(alg.sign()).to.eventually.be.rejectedWith(InvalidAccessError, 'is not valid for');
+      });
+    });
+  });
+
+  describe('BaseHmacAlgorithm', () => {
+    let alg: BaseHmacAlgorithm;
+
+    before(() => {
+      alg = Reflect.construct(BaseHmacAlgorithm, []) as BaseHmacAlgorithm;
+      // @ts-expect-error because `hashAlgorithms` is a read-only property.
+      alg.hashAlgorithms = ['SHA-256'];
+    });
+
+    describe('checkAlgorithmOptions()', () => {
+
+      let key: Web5Crypto.CryptoKey;
+
+      beforeEach(() => {
+        key = new CryptoKey({ name: 'HMAC', hash: { name: 'SHA-256' } }, false, new Uint8Array(32), 'secret', ['sign', 'verify']);
+      });
+
+      it('does not throw with matching algorithm name and valid key', () => {
+        expect(() => alg.checkAlgorithmOptions({ algorithm: { name: 'HMAC' }, key })).to.not.throw();
+      });
+
+      it('throws an error when unsupported algorithm specified', () => {
+        expect(() => alg.checkAlgorithmOptions({
+          algorithm: { name: 'invalid-name' }, key
+        })).to.throw(NotSupportedError, 'Algorithm not supported');
+      });
+
+      it('throws an error if the key is not a secret key', () => {
+        key = new CryptoKey({ name: 'HMAC' }, false, new Uint8Array(32), 'public', ['verify']);
+
+        expect(() => alg.checkAlgorithmOptions({
+          algorithm: { name: 'HMAC' }, key
+        })).to.throw(InvalidAccessError, 'Requested operation is not valid');
+      });
+    });
+
+    describe('checkGenerateKey()', () => {
+      it('does not throw with supported algorithm, hash, length, and key usages', () => {
+        expect(() => alg.checkGenerateKey({
+          algorithm : { name: 'HMAC', hash: { name: 'SHA-256' }, length: 256 },
+          keyUsages : ['sign', 'verify']
+        })).to.not.throw();
+      });
+
+      it('throws an error if the hash algorithm is missing or not supported', () => {
+        expect(() => alg.checkGenerateKey({
+          // @ts-expect-error because `hash` property is intentionally omitted.
+          algorithm : { name: 'HMAC' },
+          keyUsages : ['sign']
+        })).to.throw(TypeError, 'Required parameter missing');
+
+        expect(() => alg.checkGenerateKey({
+          algorithm : { name: 'HMAC', hash: { name: 'SHA-1' } },
+          keyUsages : ['sign']
+        })).to.throw(TypeError, 'Out of range');
+      });
+
+      it('throws an error if the length is not a positive multiple of 8', () => {
+        expect(() => alg.checkGenerateKey({
+          // @ts-expect-error because `length` is intentionally set to an invalid type.
+          algorithm : { name: 'HMAC', hash: { name: 'SHA-256' }, length: '256' },
+          keyUsages : ['sign']
+        })).to.throw(TypeError, `'length' is not of type: Number`);
+
+        for (const length of [0, 12]) {
+          expect(() => alg.checkGenerateKey({
+            algorithm : { name: 'HMAC', hash: { name: 'SHA-256' }, length },
+            keyUsages : ['sign']
+          })).to.throw(OperationError, 'must be a positive multiple of 8');
+        }
+      });
+
+      it('throws an error if the requested key usages are not valid', () => {
+        expect(() => alg.checkGenerateKey({
+          algorithm : { name: 'HMAC', hash: { name: 'SHA-256' } },
+          keyUsages : ['encrypt']
+        })).to.throw(InvalidAccessError, 'Requested operation');
+      });
+    });
+
+    describe('deriveBits()', () => {
+      it(`throws an error because 'deriveBits' operation is valid for HMAC keys`, async () => {
+        await expect(alg.deriveBits()).to.eventually.be.rejectedWith(InvalidAccessError, 'is not valid for');
+      });
+    });
+
+    describe('encrypt()', () => {
+      it(`throws an error because 'encrypt' operation is valid for HMAC keys`, async () => {
+        await expect(alg.encrypt()).to.eventually.be.rejectedWith(InvalidAccessError, 'is not valid for');
+      });
+    });
+  });
+
   describe('BasePbkdf2Algorithm', () => {
     let alg: BasePbkdf2Algorithm;
 
@@ -5,14 +5,19 @@ import chai, { expect } from 'chai';
 import { Convert } from '@web5/common';
 import chaiAsPromised from 'chai-as-promised';
 
-import { aesCtrTestVectors } from './fixtures/test-vectors/aes.js';
+import { aesCtrTestVectors, aesGcmTestVectors, aesKwTestVectors } from './fixtures/test-vectors/aes.js';
+import { hkdfTestVectors, hmacTestVectors } from './fixtures/test-vectors/hmac.js';
 import { AesCtr, Ed25519, Secp256k1, X25519 } from '../src/crypto-primitives/index.js';
 import { CryptoKey, InvalidAccessError, NotSupportedError, OperationError } from '../src/algorithms-api/index.js';
 import {
   EcdhAlgorithm,
   EcdsaAlgorithm,
   EdDsaAlgorithm,
+  HkdfAlgorithm,
+  HmacAlgorithm,
   AesCtrAlgorithm,
+  AesGcmAlgorithm,
+  AesKwAlgorithm,
   Pbkdf2Algorithm,
 } from '../src/crypto-algorithms/index.js';
 
@@ -299,6 +304,329 @@ describe('Default Crypto Algorithm Implementations', () => {
     });
   });
 
+  describe('AesGcmAlgorithm', () => {
+    let aesGcm: AesGcmAlgorithm;
+
+    before(() => {
+      aesGcm = AesGcmAlgorithm.create();
+    });
+
+    describe('decrypt()', () => {
+      let secretCryptoKey: Web5Crypto.CryptoKey;
+
+      beforeEach(async () => {
+        secretCryptoKey = await aesGcm.generateKey({
+          algorithm   : { name: 'AES-GCM', length: 128 },
+          extractable : false,
+          keyUsages   : ['encrypt', 'decrypt']
+        });
+      });
+
+      it('returns plaintext given ciphertext', async () => {
+        let secretCryptoKey: Web5Crypto.CryptoKey;
+
+        for (const vector of aesGcmTestVectors) {
+          secretCryptoKey = new CryptoKey(
+            { name: 'AES-GCM', length: vector.keyLength },
+            false,
+            Convert.hex(vector.key).toUint8Array(),
+            'secret',
+            ['encrypt', 'decrypt']
+          );
+          const plaintext = await aesGcm.decrypt({
+            algorithm: {
+              name           : 'AES-GCM',
+              additionalData : Convert.hex(vector.aad).toUint8Array(),
+              iv             : Convert.hex(vector.iv).toUint8Array(),
+              tagLength      : vector.tagLength
+            },
+            key  : secretCryptoKey,
+            data : Convert.hex(vector.ciphertext + vector.tag).toUint8Array()
+          });
+          expect(Convert.uint8Array(plaintext).toHex()).to.deep.equal(vector.data);
+        }
+      });
+
+      it('fails to decrypt if the additional data does not match', async () => {
+        const ciphertext = await aesGcm.encrypt({
+          algorithm : { name: 'AES-GCM', additionalData: new Uint8Array([1]), iv: new Uint8Array(12) },
+          key       : secretCryptoKey,
+          data      : new Uint8Array([1, 2, 3, 4])
+        });
+
+        await expect(aesGcm.decrypt({
+          algorithm : { name: 'AES-GCM', additionalData: new Uint8Array([2]), iv: new Uint8Array(12) },
+          key       : secretCryptoKey,
+          data      : ciphertext
+        })).to.eventually.be.rejected;
+      });
+
+      it('validates algorithm, iv, and tag length', async () => {
+        // Invalid (algorithm name, iv, tag length) result in algorithm name check failing first.
+        await expect(aesGcm.decrypt({
+          algorithm : { name: 'foo', iv: new Uint8Array(0), tagLength: 512 },
+          key       : secretCryptoKey,
+          data      : new Uint8Array([1, 2, 3, 4])
+        })).to.eventually.be.rejectedWith(NotSupportedError, 'Algorithm not supported');
+
+        // Valid (algorithm name) + Invalid (iv, tag length) result iv check failing first.
+        await expect(aesGcm.decrypt({
+          algorithm : { name: 'AES-GCM', iv: new Uint8Array(0), tagLength: 512 },
+          key       : secretCryptoKey,
+          data      : new Uint8Array([1, 2, 3, 4])
+        })).to.eventually.be.rejectedWith(OperationError, `'iv' must not be empty`);
+
+        // Valid (algorithm name, iv) + Invalid (tag length) result tag length check failing first.
+        await expect(aesGcm.decrypt({
+          algorithm : { name: 'AES-GCM', iv: new Uint8Array(12), tagLength: 512 },
+          key       : secretCryptoKey,
+          data      : new Uint8Array([1, 2, 3, 4])
+        })).to.eventually.be.rejectedWith(OperationError, `'tagLength' must be`);
+      });
+
+      it(`validates that key usage is 'decrypt'`, async () => {
+        // Manually specify the secret key usages to exclude the 'decrypt' operation.
+        secretCryptoKey.usages = ['encrypt'];
+
+        await expect(aesGcm.decrypt({
+          algorithm : { name: 'AES-GCM', iv: new Uint8Array(12) },
+          key       : secretCryptoKey,
+          data      : new Uint8Array([1, 2, 3, 4])
+        })).to.eventually.be.rejectedWith(InvalidAccessError, 'is not valid for the provided key');
+      });
+    });
+
+    describe('encrypt()', () => {
+      let secretCryptoKey: Web5Crypto.CryptoKey;
+
+      beforeEach(async () => {
+        secretCryptoKey = await aesGcm.generateKey({
+          algorithm   : { name: 'AES-GCM', length: 128 },
+          extractable : false,
+          keyUsages   : ['encrypt', 'decrypt']
+        });
+      });
+
+      it('returns ciphertext with an authentication tag of the given length', async () => {
+        let ciphertext = await aesGcm.encrypt({
+          algorithm : { name: 'AES-GCM', iv: new Uint8Array(12) },
+          key       : secretCryptoKey,
+          data      : new Uint8Array([1, 2, 3, 4])
+        });
+
+        // The default tag length is 128 bits.
+        expect(ciphertext).to.be.instanceOf(Uint8Array);
+        expect(ciphertext.byteLength).to.equal(4 + 16);
+
+        ciphertext = await aesGcm.encrypt({
+          algorithm : { name: 'AES-GCM', iv: new Uint8Array(12), tagLength: 96 },
+          key       : secretCryptoKey,
+          data      : new Uint8Array([1, 2, 3, 4])
+        });
+
+        expect(ciphertext.byteLength).to.equal(4 + 12);
+      });
+
+      it('returns ciphertext given plaintext', async () => {
+        let secretCryptoKey: Web5Crypto.CryptoKey;
+
+        for (const vector of aesGcmTestVectors) {
+          secretCryptoKey = new CryptoKey(
+            { name: 'AES-GCM', length: vector.keyLength },
+            false,
+            Convert.hex(vector.key).toUint8Array(),
+            'secret',
+            ['encrypt', 'decrypt']
+          );
+          const ciphertext = await aesGcm.encrypt({
+            algorithm: {
+              name           : 'AES-GCM',
+              additionalData : Convert.hex(vector.aad).toUint8Array(),
+              iv             : Convert.hex(vector.iv).toUint8Array(),
+              tagLength      : vector.tagLength
+            },
+            key  : secretCryptoKey,
+            data : Convert.hex(vector.data).toUint8Array()
+          });
+          expect(Convert.uint8Array(ciphertext).toHex()).to.deep.equal(vector.ciphertext + vector.tag);
+        }
+      });
+
+      it(`validates that key usage is 'encrypt'`, async () => {
+        // Manually specify the secret key usages to exclude the 'encrypt' operation.
+        secretCryptoKey.usages = ['decrypt'];
+
+        await expect(aesGcm.encrypt({
+          algorithm : { name: 'AES-GCM', iv: new Uint8Array(12) },
+          key       : secretCryptoKey,
+          data      : new Uint8Array([1, 2, 3, 4])
+        })).to.eventually.be.rejectedWith(InvalidAccessError, 'is not valid for the provided key');
+      });
+    });
+
+    describe('generateKey()', () => {
+      it('returns a secret key', async () => {
+        const key = await aesGcm.generateKey({
+          algorithm   : { name: 'AES-GCM', length: 256 },
+          extractable : false,
+          keyUsages   : ['encrypt', 'decrypt']
+        });
+
+        expect(key.algorithm.name).to.equal('AES-GCM');
+        expect(key.type).to.equal('secret');
+        expect(key.usages).to.deep.equal(['encrypt', 'decrypt', 'wrapKey', 'unwrapKey']);
+        expect(key.material.byteLength).to.equal(256 / 8);
+      });
+
+      it('validates algorithm, length, and key usages', async () => {
+        await expect(aesGcm.generateKey({
+          algorithm   : { name: 'AES-CTR', length: 128 },
+          extractable : false,
+          keyUsages   : ['encrypt']
+        })).to.eventually.be.rejectedWith(NotSupportedError, 'Algorithm not supported');
+
+        await expect(aesGcm.generateKey({
+          algorithm   : { name: 'AES-GCM', length: 512 },
+          extractable : false,
+          keyUsages   : ['encrypt']
+        })).to.eventually.be.rejectedWith(OperationError, `'length' must be 128, 192, or 256`);
+
+        await expect(aesGcm.generateKey({
+          algorithm   : { name: 'AES-GCM', length: 256 },
+          extractable : false,
+          keyUsages   : ['sign']
+        })).to.eventually.be.rejectedWith(InvalidAccessError, 'Requested operation');
+      });
+    });
+  });
+
+  describe('AesKwAlgorithm', () => {
+    let aesKw: AesKwAlgorithm;
+    let wrappingKey: Web5Crypto.CryptoKey;
+
+    before(() => {
+      aesKw = AesKwAlgorithm.create();
+    });
+
+    beforeEach(async () => {
+      wrappingKey = await aesKw.generateKey({
+        algorithm   : { name: 'AES-KW', length: 256 },
+        extractable : false,
+        keyUsages   : ['wrapKey', 'unwrapKey']
+      });
+    });
+
+    describe('generateKey()', () => {
+      it('returns a secret key', async () => {
+        expect(wrappingKey.algorithm.name).to.equal('AES-KW');
+        expect(wrappingKey.type).to.equal('secret');
+        expect(wrappingKey.usages).to.deep.equal(['wrapKey', 'unwrapKey']);
+        expect(wrappingKey.material.byteLength).to.equal(256 / 8);
+      });
+
+      it('validates algorithm, length, and key usages', async () => {
+        await expect(aesKw.generateKey({
+          algorithm   : { name: 'AES-KW', length: 512 },
+          extractable : false,
+          keyUsages   : ['wrapKey']
+        })).to.eventually.be.rejectedWith(OperationError, `'length' must be 128, 192, or 256`);
+
+        await expect(aesKw.generateKey({
+          algorithm   : { name: 'AES-KW', length: 256 },
+          extractable : false,
+          keyUsages   : ['encrypt']
+        })).to.eventually.be.rejectedWith(InvalidAccessError, 'Requested operation');
+      });
+    });
+
+    describe('unwrapKey()', () => {
+      for (const vector of aesKwTestVectors) {
+        it(`passes test vector ${vector.id}`, async () => {
+          const unwrappingKey = new CryptoKey({ name: 'AES-KW' }, false, Convert.hex(vector.wrappingKey).toUint8Array(), 'secret', ['unwrapKey']);
+
+          const key = await aesKw.unwrapKey({
+            algorithm             : { name: 'AES-KW' },
+            extractable           : true,
+            keyUsages             : ['encrypt', 'decrypt'],
+            unwrappedKeyAlgorithm : { name: 'AES-GCM', length: 128 },
+            unwrappingKey,
+            wrappedKey            : Convert.hex(vector.wrappedKey).toUint8Array()
+          });
+
+          expect(key.algorithm).to.deep.equal({ name: 'AES-GCM', length: 128 });
+          expect(key.extractable).to.be.true;
+          expect(key.type).to.equal('secret');
+          expect(key.usages).to.deep.equal(['encrypt', 'decrypt']);
+          expect(Convert.uint8Array(key.material).toHex()).to.equal(vector.key);
+        });
+      }
+
+      it(`throws an error if the key is not allowed to be used for 'unwrapKey'`, async () => {
+        wrappingKey.usages = ['wrapKey'];
+
+        await expect(aesKw.unwrapKey({
+          algorithm             : { name: 'AES-KW' },
+          extractable           : true,
+          keyUsages             : ['encrypt'],
+          unwrappedKeyAlgorithm : { name: 'AES-GCM' },
+          unwrappingKey         : wrappingKey,
+          wrappedKey            : new Uint8Array(24)
+        })).to.eventually.be.rejectedWith(InvalidAccessError, 'Requested operation');
+      });
+    });
+
+    describe('wrapKey()', () => {
+      let key: Web5Crypto.CryptoKey;
+
+      beforeEach(async () => {
+        key = await AesGcmAlgorithm.create().generateKey({
+          algorithm   : { name: 'AES-GCM', length: 256 },
+          extractable : true,
+          keyUsages   : ['encrypt', 'decrypt']
+        });
+      });
+
+      it('wraps keys that can be unwrapped', async () => {
+        const wrappedKey = await aesKw.wrapKey({ algorithm: { name: 'AES-KW' }, key, wrappingKey });
+        expect(wrappedKey.byteLength).to.equal(key.material.byteLength + 8);
+
+        const unwrappedKey = await aesKw.unwrapKey({
+          algorithm             : { name: 'AES-KW' },
+          extractable           : false,
+          keyUsages             : key.usages,
+          unwrappedKeyAlgorithm : key.algorithm,
+          unwrappingKey         : wrappingKey,
+          wrappedKey
+        });
+        expect(unwrappedKey.material).to.deep.equal(key.material);
+      });
+
+      it('throws an error if the key to wrap is not extractable', async () => {
+        key.extractable = false;
+
+        await expect(
+          aesKw.wrapKey({ algorithm: { name: 'AES-KW' }, key, wrappingKey })
+        ).to.eventually.be.rejectedWith(InvalidAccessError, 'non-extractable');
+      });
+
+      it('throws an error if the key to wrap is not a secret key', async () => {
+        key = new CryptoKey(key.algorithm, true, key.material, 'private', key.usages);
+
+        await expect(
+          aesKw.wrapKey({ algorithm: { name: 'AES-KW' }, key, wrappingKey })
+        ).to.eventually.be.rejectedWith(InvalidAccessError, `'private' key`);
+      });
+
+      it(`throws an error if the key is not allowed to be used for 'wrapKey'`, async () => {
+        wrappingKey.usages = ['unwrapKey'];
+
+        await expect(
+          aesKw.wrapKey({ algorithm: { name: 'AES-KW' }, key, wrappingKey })
+        ).to.eventually.be.rejectedWith(InvalidAccessError, 'Requested operation');
+      });
+    });
+  });
+
   describe('EcdhAlgorithm', () => {
     let ecdh: EcdhAlgorithm;
 
@@ -327,6 +655,35 @@ describe('Default Crypto Algorithm Implementations', () => {
         ownPrivateKey = ownKeyPair.privateKey;
       });
 
+      it(`derives identical shared secrets for 'P-256' and 'P-384' keys`, async () => {
+        for (const [namedCurve, secretLength] of [['P-256', 32], ['P-384', 48]] as const) {
+          const ownKeyPair = await ecdh.generateKey({
+            algorithm   : { name: 'ECDH', namedCurve },
+            extractable : false,
+            keyUsages   : ['deriveBits']
+          });
+          const otherPartyKeyPair = await ecdh.generateKey({
+            algorithm   : { name: 'ECDH', namedCurve },
+            extractable : false,
+            keyUsages   : ['deriveBits']
+          });
+
+          const sharedSecretOwnOther = await ecdh.deriveBits({
+            algorithm : { name: 'ECDH', publicKey: otherPartyKeyPair.publicKey },
+            baseKey   : ownKeyPair.privateKey,
+            length    : null
+          });
+          const sharedSecretOtherOwn = await ecdh.deriveBits({
+            algorithm : { name: 'ECDH', publicKey: ownKeyPair.publicKey },
+            baseKey   : otherPartyKeyPair.privateKey,
+            length    : null
+          });
+
+          expect(sharedSecretOwnOther.byteLength).to.equal(secretLength);
+          expect(sharedSecretOwnOther).to.deep.equal(sharedSecretOtherOwn);
+        }
+      });
+
       it('returns shared secrets with maximum bit length when length is null', async () => {
         const sharedSecretSecp256k1 = await ecdh.deriveBits({
           algorithm : { name: 'ECDH', publicKey: otherPartyPublicKey },
@@ -861,6 +1218,39 @@ describe('Default Crypto Algorithm Implementations', () => {
         expect(signature.byteLength).to.equal(64);
       });
 
+      it(`returns signatures for 'P-256' and 'P-384' keys that verify`, async () => {
+        for (const [namedCurve, hash, signatureLength] of [['P-256', 'SHA-256', 64], ['P-384', 'SHA-384', 96]] as const) {
+          const nistKeyPair = await ecdsa.generateKey({
+            algorithm   : { name: 'ECDSA', namedCurve },
+            extractable : false,
+            keyUsages   : ['sign', 'verify']
+          });
+
+          const signature = await ecdsa.sign({
+            algorithm : { name: 'ECDSA', hash },
+            key       : nistKeyPair.privateKey,
+            data      : data
+          });
+          expect(signature.byteLength).to.equal(signatureLength);
+
+          const isValid = await ecdsa.verify({
+            algorithm : { name: 'ECDSA', hash },
+            key       : nistKeyPair.publicKey,
+            signature : signature,
+            data      : data
+          });
+          expect(isValid).to.be.true;
+        }
+      });
+
+      it('throws an error when the hash algorithm is not supported with the key curve', async () => {
+        await expect(ecdsa.sign({
+          algorithm : { name: 'ECDSA', hash: 'SHA-384' },
+          key       : keyPair.privateKey,
+          data      : data
+        })).to.eventually.be.rejectedWith(TypeError, 'Out of range');
+      });
+
       it('validates algorithm name and key algorithm name', async () => {
         // Invalid (algorithm name, hash algorithm, private key, and data) result in algorithm name check failing first.
         await expect(ecdsa.sign({
@@ -1333,6 +1723,287 @@ describe('Default Crypto Algorithm Implementations', () => {
     });
   });
 
+  describe('HkdfAlgorithm', () => {
+    let hkdf: HkdfAlgorithm;
+
+    before(() => {
+      hkdf = HkdfAlgorithm.create();
+    });
+
+    describe('deriveBits()', () => {
+      let inputKey: Web5Crypto.CryptoKey;
+
+      beforeEach(async () => {
+        inputKey = await hkdf.importKey({
+          format      : 'raw',
+          keyData     : new Uint8Array([51, 52, 53]),
+          algorithm   : { name: 'HKDF' },
+          extractable : false,
+          keyUsages   : ['deriveBits']
+        });
+      });
+
+      it('returns derived key as a Uint8Array', async () => {
+        const derivedKey = await hkdf.deriveBits({
+          algorithm : { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array([54, 55, 56]), info: new Uint8Array() },
+          baseKey   : inputKey,
+          length    : 256
+        });
+
+        expect(derivedKey).to.be.instanceOf(Uint8Array);
+        expect(derivedKey.byteLength).to.equal(256 / 8);
+      });
+
+      for (const vector of hkdfTestVectors) {
+        it(`passes test vector ${vector.id}`, async () => {
+          const baseKey = await hkdf.importKey({
+            format      : 'raw',
+            keyData     : Convert.hex(vector.baseKey).toUint8Array(),
+            algorithm   : { name: 'HKDF' },
+            extractable : false,
+            keyUsages   : ['deriveBits']
+          });
+
+          const derivedKey = await hkdf.deriveBits({
+            algorithm: {
+              name : 'HKDF',
+              hash : vector.hash,
+              info : Convert.hex(vector.info).toUint8Array(),
+              salt : Convert.hex(vector.salt).toUint8Array()
+            },
+            baseKey,
+            length: vector.length
+          });
+
+          expect(Convert.uint8Array(derivedKey).toHex()).to.deep.equal(vector.derivedKey);
+        });
+      }
+
+      it(`supports 'SHA-384' and 'SHA-512' hash functions`, async () => {
+        for (const hash of ['SHA-384', 'SHA-512']) {
+          const derivedKey = await hkdf.deriveBits({
+            algorithm : { name: 'HKDF', hash, salt: new Uint8Array([54, 55, 56]), info: new Uint8Array() },
+            baseKey   : inputKey,
+            length    : 256
+          });
+          expect(derivedKey.byteLength).to.equal(32);
+        }
+      });
+
+      it('throws error if requested length is 0', async () => {
+        await expect(hkdf.deriveBits({
+          algorithm : { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array([54, 55, 56]), info: new Uint8Array() },
+          baseKey   : inputKey,
+          length    : 0
+        })).to.eventually.be.rejectedWith(OperationError, `cannot be null or zero`);
+      });
+
+      it('throws an error if the given length is not a multiple of 8', async () => {
+        await expect(hkdf.deriveBits({
+          algorithm : { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array([54, 55, 56]), info: new Uint8Array() },
+          baseKey   : inputKey,
+          length    : 12
+        })).to.eventually.be.rejectedWith(OperationError, `'length' must be a multiple of 8`);
+      });
+
+      it('throws an error if the given length exceeds the maximum HKDF output length', async () => {
+        await expect(hkdf.deriveBits({
+          algorithm : { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array([54, 55, 56]), info: new Uint8Array() },
+          baseKey   : inputKey,
+          length    : 255 * 256 + 8
+        })).to.eventually.be.rejectedWith(OperationError, `exceeds the maximum HKDF output length`);
+      });
+
+      it(`throws an error for 'SHA-1' hash function`, async () => {
+        await expect(hkdf.deriveBits({
+          algorithm : { name: 'HKDF', hash: 'SHA-1', salt: new Uint8Array([54, 55, 56]), info: new Uint8Array() },
+          baseKey   : inputKey,
+          length    : 256
+        })).to.eventually.be.rejectedWith(TypeError, 'Out of range');
+      });
+
+      it(`throws an error if the base key is not allowed to be used for 'deriveBits'`, async () => {
+        inputKey.usages = ['deriveKey'];
+
+        await expect(hkdf.deriveBits({
+          algorithm : { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array([54, 55, 56]), info: new Uint8Array() },
+          baseKey   : inputKey,
+          length    : 256
+        })).to.eventually.be.rejectedWith(InvalidAccessError, 'Requested operation');
+      });
+    });
+
+    describe('importKey()', () => {
+      it('should return a Web5Crypto.CryptoKey object', async () => {
+        const key = await hkdf.importKey({
+          format      : 'raw',
+          keyData     : new Uint8Array(16),
+          algorithm   : { name: 'HKDF' },
+          extractable : false,
+          keyUsages   : ['deriveBits']
+        });
+
+        expect(key).to.be.an('object');
+        expect(key.algorithm).to.have.property('name', 'HKDF');
+        expect(key).to.have.property('extractable', false);
+        expect(key).to.have.property('type', 'secret');
+        expect(key).to.have.property('usages').that.includes.members(['deriveBits']);
+        expect(key).to.have.property('material').that.is.instanceOf(Uint8Array);
+      });
+    });
+  });
+
+  describe('HmacAlgorithm', () => {
+    let hmac: HmacAlgorithm;
+
+    before(() => {
+      hmac = HmacAlgorithm.create();
+    });
+
+    describe('generateKey()', () => {
+      it('returns a secret key', async () => {
+        const key = await hmac.generateKey({
+          algorithm   : { name: 'HMAC', hash: { name: 'SHA-256' } },
+          extractable : true,
+          keyUsages   : ['sign', 'verify']
+        });
+
+        expect(key).to.be.an('object');
+        expect(key.algorithm).to.have.property('name', 'HMAC');
+        expect(key).to.have.property('extractable', true);
+        expect(key).to.have.property('type', 'secret');
+        expect(key).to.have.property('usages').that.includes.members(['sign', 'verify']);
+        expect(key).to.have.property('material').that.is.instanceOf(Uint8Array);
+      });
+
+      it('defaults the key length to the block size of the hash function', async () => {
+        let key = await hmac.generateKey({
+          algorithm   : { name: 'HMAC', hash: { name: 'SHA-256' } },
+          extractable : true,
+          keyUsages   : ['sign', 'verify']
+        });
+        expect(key.material.byteLength).to.equal(64);
+        expect(key.algorithm).to.have.property('length', 512);
+
+        key = await hmac.generateKey({
+          algorithm   : { name: 'HMAC', hash: { name: 'SHA-512' } },
+          extractable : true,
+          keyUsages   : ['sign', 'verify']
+        });
+        expect(key.material.byteLength).to.equal(128);
+      });
+
+      it('does not modify the algorithm object', async () => {
+        const algorithm: Web5Crypto.HmacGenerateKeyOptions = { name: 'HMAC', hash: { name: 'SHA-256' } };
+
+        await hmac.generateKey({ algorithm, extractable: true, keyUsages: ['sign', 'verify'] });
+
+        expect(algorithm).to.not.have.property('length');
+      });
+
+      it('returns a secret key of the specified length', async () => {
+        const key = await hmac.generateKey({
+          algorithm   : { name: 'HMAC', hash: { name: 'SHA-384' }, length: 256 },
+          extractable : true,
+          keyUsages   : ['sign', 'verify']
+        });
+
+        expect(key.material.byteLength).to.equal(32);
+      });
+
+      it(`throws an error for 'SHA-1' hash function`, async () => {
+        await expect(hmac.generateKey({
+          algorithm   : { name: 'HMAC', hash: { name: 'SHA-1' } },
+          extractable : true,
+          keyUsages   : ['sign', 'verify']
+        })).to.eventually.be.rejectedWith(TypeError, 'Out of range');
+      });
+    });
+
+    describe('sign()', () => {
+      for (const vector of hmacTestVectors) {
+        it(`passes test vector ${vector.id}`, async () => {
+          const key = new CryptoKey({ name: 'HMAC', hash: { name: vector.hash } }, false, Convert.hex(vector.key).toUint8Array(), 'secret', ['sign', 'verify']);
+
+          const signature = await hmac.sign({
+            algorithm : { name: 'HMAC' },
+            key,
+            data      : Convert.hex(vector.data).toUint8Array()
+          });
+
+          expect(Convert.uint8Array(signature).toHex()).to.deep.equal(vector.signature);
+        });
+      }
+
+      it(`throws an error if the key is not allowed to be used for 'sign'`, async () => {
+        const key = await hmac.generateKey({
+          algorithm   : { name: 'HMAC', hash: { name: 'SHA-256' } },
+          extractable : true,
+          keyUsages   : ['sign', 'verify']
+        });
+        key.usages = ['verify'];
+
+        await expect(hmac.sign({
+          algorithm : { name: 'HMAC' },
+          key,
+          data      : new Uint8Array([51, 52, 53])
+        })).to.eventually.be.rejectedWith(InvalidAccessError, 'Requested operation');
+      });
+
+      it('throws an error if the algorithm hash does not match the key', async () => {
+        const key = await hmac.generateKey({
+          algorithm   : { name: 'HMAC', hash: { name: 'SHA-512' } },
+          extractable : true,
+          keyUsages   : ['sign', 'verify']
+        });
+
+        await expect(hmac.sign({
+          algorithm : { name: 'HMAC', hash: 'SHA-256' } as Web5Crypto.HmacOptions,
+          key,
+          data      : new Uint8Array([51, 52, 53])
+        })).to.eventually.be.rejectedWith(InvalidAccessError, `Algorithm hash 'SHA-256' does not match the provided 'SHA-512' key`);
+      });
+    });
+
+    describe('verify()', () => {
+      let key: Web5Crypto.CryptoKey;
+      const data = new Uint8Array([51, 52, 53]);
+
+      beforeEach(async () => {
+        key = await hmac.generateKey({
+          algorithm   : { name: 'HMAC', hash: { name: 'SHA-256' } },
+          extractable : true,
+          keyUsages   : ['sign', 'verify']
+        });
+      });
+
+      it('returns true for a valid signature', async () => {
+        const signature = await hmac.sign({ algorithm: { name: 'HMAC' }, key, data });
+
+        const isValid = await hmac.verify({ algorithm: { name: 'HMAC' }, key, signature, data });
+
+        expect(isValid).to.be.true;
+      });
+
+      it('returns false for an invalid signature', async () => {
+        const signature = await hmac.sign({ algorithm: { name: 'HMAC' }, key, data });
+
+        const isValid = await hmac.verify({ algorithm: { name: 'HMAC' }, key, signature, data: new Uint8Array([51, 52, 54]) });
+
+        expect(isValid).to.be.false;
+      });
+
+      it(`throws an error if the key is not allowed to be used for 'verify'`, async () => {
+        const signature = await hmac.sign({ algorithm: { name: 'HMAC' }, key, data });
+        key.usages = ['sign'];
+
+        await expect(hmac.verify({
+          algorithm: { name: 'HMAC' }, key, signature, data
+        })).to.eventually.be.rejectedWith(InvalidAccessError, 'Requested operation');
+      });
+    });
+  });
+
   describe('Pbkdf2Algorithm', () => {
     let pbkdf2: Pbkdf2Algorithm;
 
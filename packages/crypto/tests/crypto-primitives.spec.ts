@@ -8,14 +8,20 @@ import chaiAsPromised from 'chai-as-promised';
 import { NotSupportedError } from '../src/algorithms-api/errors.js';
 import { ed25519TestVectors } from './fixtures/test-vectors/ed25519.js';
 import { secp256k1TestVectors } from './fixtures/test-vectors/secp256k1.js';
-import { aesCtrTestVectors, aesGcmTestVectors } from './fixtures/test-vectors/aes.js';
+import { hkdfTestVectors, hmacTestVectors } from './fixtures/test-vectors/hmac.js';
+import { aesCtrTestVectors, aesGcmTestVectors, aesKwTestVectors } from './fixtures/test-vectors/aes.js';
 import {
   AesCtr,
   AesGcm,
+  AesKw,
   ConcatKdf,
   Ed25519,
+  Hkdf,
+  Hmac,
   Pbkdf2,
   Secp256k1,
+  Secp256r1,
+  Secp384r1,
   X25519,
   XChaCha20,
   XChaCha20Poly1305
@@ -179,6 +185,58 @@ describe('Cryptographic Primitive Implementations', () => {
     });
   });
 
+  describe('AesKw', () => {
+    describe('generateKey()', () => {
+      it('returns a secret key of the specified length', async () => {
+        const secretKey = await AesKw.generateKey({ length: 256 });
+        expect(secretKey).to.be.instanceOf(Uint8Array);
+        expect(secretKey.byteLength).to.equal(32);
+      });
+    });
+
+    describe('unwrapKey()', () => {
+      for (const vector of aesKwTestVectors) {
+        it(`passes test vector ${vector.id}`, async () => {
+          const key = await AesKw.unwrapKey({
+            unwrappingKey : Convert.hex(vector.wrappingKey).toUint8Array(),
+            wrappedKey    : Convert.hex(vector.wrappedKey).toUint8Array()
+          });
+          expect(Convert.uint8Array(key).toHex()).to.deep.equal(vector.key);
+        });
+      }
+
+      it('throws an error if the wrapped key fails the integrity check', async () => {
+        const [ vector ] = aesKwTestVectors;
+        const wrappedKey = Convert.hex(vector.wrappedKey).toUint8Array();
+        wrappedKey[0] ^= 1;
+
+        await expect(AesKw.unwrapKey({
+          unwrappingKey: Convert.hex(vector.wrappingKey).toUint8Array(),
+          wrappedKey
+        })).to.eventually.be.rejected;
+      });
+    });
+
+    describe('wrapKey()', () => {
+      for (const vector of aesKwTestVectors) {
+        it(`passes test vector ${vector.id}`, async () => {
+          const wrappedKey = await AesKw.wrapKey({
+            key         : Convert.hex(vector.key).toUint8Array(),
+            wrappingKey : Convert.hex(vector.wrappingKey).toUint8Array()
+          });
+          expect(Convert.uint8Array(wrappedKey).toHex()).to.deep.equal(vector.wrappedKey);
+        });
+      }
+
+      it('throws an error if the key is not a multiple of 8 bytes', async () => {
+        await expect(AesKw.wrapKey({
+          key         : new Uint8Array(20),
+          wrappingKey : new Uint8Array(16)
+        })).to.eventually.be.rejected;
+      });
+    });
+  });
+
   describe('ConcatKdf', () => {
     describe('deriveKey()', () => {
       it('matches RFC 7518 ECDH-ES key agreement computation example', async () => {
@@ -527,6 +585,106 @@ describe('Cryptographic Primitive Implementations', () => {
     });
   });
 
+  describe('Hkdf', () => {
+    describe('deriveKey()', () => {
+      for (const vector of hkdfTestVectors) {
+        it(`passes test vector ${vector.id}`, async () => {
+          const derivedKey = await Hkdf.deriveKey({
+            baseKeyBytes : Convert.hex(vector.baseKey).toUint8Array(),
+            hash         : vector.hash,
+            info         : Convert.hex(vector.info).toUint8Array(),
+            length       : vector.length,
+            salt         : Convert.hex(vector.salt).toUint8Array()
+          });
+          expect(Convert.uint8Array(derivedKey).toHex()).to.deep.equal(vector.derivedKey);
+        });
+      }
+
+      it('returns a derived key of the requested length', async () => {
+        const options = { baseKeyBytes: new Uint8Array(32), info: new Uint8Array(), salt: new Uint8Array() };
+
+        for (const hash of ['SHA-256', 'SHA-384', 'SHA-512']) {
+          const derivedKey = await Hkdf.deriveKey({ ...options, hash, length: 512 });
+          expect(derivedKey).to.be.instanceOf(Uint8Array);
+          expect(derivedKey.byteLength).to.equal(64);
+        }
+      });
+
+      it('throws an error if an unsupported hash algorithm is specified', async () => {
+        await expect(Hkdf.deriveKey({
+          baseKeyBytes : new Uint8Array(32),
+          hash         : 'SHA-1',
+          info         : new Uint8Array(),
+          length       : 256,
+          salt         : new Uint8Array()
+        })).to.eventually.be.rejectedWith(TypeError, 'Out of range');
+      });
+    });
+  });
+
+  describe('Hmac', () => {
+    describe('generateKey()', () => {
+      it('returns a secret key of the requested length', async () => {
+        const secretKey = await Hmac.generateKey({ length: 512 });
+        expect(secretKey).to.be.instanceOf(Uint8Array);
+        expect(secretKey.byteLength).to.equal(64);
+      });
+    });
+
+    describe('sign()', () => {
+      for (const vector of hmacTestVectors) {
+        it(`passes test vector ${vector.id}`, async () => {
+          const signature = await Hmac.sign({
+            data : Convert.hex(vector.data).toUint8Array(),
+            hash : vector.hash,
+            key  : Convert.hex(vector.key).toUint8Array()
+          });
+          expect(Convert.uint8Array(signature).toHex()).to.deep.equal(vector.signature);
+        });
+      }
+
+      it('throws an error if an unsupported hash algorithm is specified', async () => {
+        await expect(Hmac.sign({
+          data : new Uint8Array([1, 2, 3]),
+          hash : 'SHA-1',
+          key  : new Uint8Array(32)
+        })).to.eventually.be.rejectedWith(TypeError, 'Out of range');
+      });
+    });
+
+    describe('verify()', () => {
+      for (const vector of hmacTestVectors) {
+        it(`passes test vector ${vector.id}`, async () => {
+          const isValid = await Hmac.verify({
+            data      : Convert.hex(vector.data).toUint8Array(),
+            hash      : vector.hash,
+            key       : Convert.hex(vector.key).toUint8Array(),
+            signature : Convert.hex(vector.signature).toUint8Array()
+          });
+          expect(isValid).to.be.true;
+        });
+      }
+
+      it('returns false if the signature was computed over different data', async () => {
+        const key = await Hmac.generateKey({ length: 256 });
+        const signature = await Hmac.sign({ data: new Uint8Array([1, 2, 3]), hash: 'SHA-256', key });
+
+        const isValid = await Hmac.verify({ data: new Uint8Array([1, 2, 4]), hash: 'SHA-256', key, signature });
+
+        expect(isValid).to.be.false;
+      });
+
+      it('returns false if the signature has the wrong length', async () => {
+        const key = await Hmac.generateKey({ length: 256 });
+        const signature = await Hmac.sign({ data: new Uint8Array([1, 2, 3]), hash: 'SHA-256', key });
+
+        const isValid = await Hmac.verify({ data: new Uint8Array([1, 2, 3]), hash: 'SHA-256', key, signature: signature.slice(1) });
+
+        expect(isValid).to.be.false;
+      });
+    });
+  });
+
   describe('Pbkdf2', () => {
     const password = Convert.string('password').toUint8Array();
     const salt = Convert.string('salt').toUint8Array();
@@ -1016,6 +1174,147 @@ describe('Cryptographic Primitive Implementations', () => {
     });
   });
 
+  const nistCurves = [
+    { Curve: Secp256r1, name: 'Secp256r1', namedCurve: 'P-256', hash: 'SHA-256', privateKeyLength: 32, compressedLength: 33, uncompressedLength: 65 },
+    { Curve: Secp384r1, name: 'Secp384r1', namedCurve: 'P-384', hash: 'SHA-384', privateKeyLength: 48, compressedLength: 49, uncompressedLength: 97 }
+  ];
+
+  for (const { Curve, name, namedCurve, hash, privateKeyLength, compressedLength, uncompressedLength } of nistCurves) {
+    describe(name, () => {
+      describe('convertPublicKey()', () => {
+        it('converts between compressed and uncompressed public keys', async () => {
+          const keyPair = await Curve.generateKeyPair({ compressedPublicKey: false });
+
+          const compressedKey = await Curve.convertPublicKey({ publicKey: keyPair.publicKey, compressedPublicKey: true });
+          expect(compressedKey.byteLength).to.equal(compressedLength);
+
+          const uncompressedKey = await Curve.convertPublicKey({ publicKey: compressedKey, compressedPublicKey: false });
+          expect(uncompressedKey).to.deep.equal(keyPair.publicKey);
+        });
+      });
+
+      describe('generateKeyPair()', () => {
+        it(`returns a ${privateKeyLength}-byte private key and ${compressedLength}-byte compressed public key, by default`, async () => {
+          const keyPair = await Curve.generateKeyPair();
+          expect(keyPair.privateKey.byteLength).to.equal(privateKeyLength);
+          expect(keyPair.publicKey.byteLength).to.equal(compressedLength);
+        });
+
+        it(`returns a ${uncompressedLength}-byte uncompressed public key, if specified`, async () => {
+          const keyPair = await Curve.generateKeyPair({ compressedPublicKey: false });
+          expect(keyPair.publicKey.byteLength).to.equal(uncompressedLength);
+        });
+      });
+
+      describe('getCurvePoints()', () => {
+        it('returns the same x and y coordinates given a private key or its public key', async () => {
+          const keyPair = await Curve.generateKeyPair();
+
+          const privateKeyPoints = await Curve.getCurvePoints({ key: keyPair.privateKey });
+          const publicKeyPoints = await Curve.getCurvePoints({ key: keyPair.publicKey });
+
+          expect(privateKeyPoints).to.deep.equal(publicKeyPoints);
+          expect(publicKeyPoints.x.byteLength).to.equal(privateKeyLength);
+          expect(publicKeyPoints.y.byteLength).to.equal(privateKeyLength);
+        });
+      });
+
+      describe('getPublicKey()', () => {
+        it('computes the public key of a private key', async () => {
+          const keyPair = await Curve.generateKeyPair();
+          const publicKey = await Curve.getPublicKey({ privateKey: keyPair.privateKey });
+          expect(publicKey).to.deep.equal(keyPair.publicKey);
+        });
+      });
+
+      describe('sharedSecret()', () => {
+        it(`generates identical ${privateKeyLength}-byte secrets if key pairs are swapped`, async () => {
+          const ownKeyPair = await Curve.generateKeyPair();
+          const otherPartyKeyPair = await Curve.generateKeyPair({ compressedPublicKey: false });
+
+          const sharedSecretOwnOther = await Curve.sharedSecret({
+            privateKey : ownKeyPair.privateKey,
+            publicKey  : otherPartyKeyPair.publicKey
+          });
+
+          const sharedSecretOtherOwn = await Curve.sharedSecret({
+            privateKey : otherPartyKeyPair.privateKey,
+            publicKey  : ownKeyPair.publicKey
+          });
+
+          expect(sharedSecretOwnOther.byteLength).to.equal(privateKeyLength);
+          expect(sharedSecretOwnOther).to.deep.equal(sharedSecretOtherOwn);
+        });
+      });
+
+      describe('sign() and verify()', () => {
+        let keyPair: BytesKeyPair;
+        const data = new Uint8Array([51, 52, 53]);
+
+        before(async () => {
+          keyPair = await Curve.generateKeyPair();
+        });
+
+        it(`returns a ${privateKeyLength * 2}-byte signature that verifies`, async () => {
+          const signature = await Curve.sign({ hash, key: keyPair.privateKey, data });
+          expect(signature.byteLength).to.equal(privateKeyLength * 2);
+
+          const isValid = await Curve.verify({ hash, key: keyPair.publicKey, signature, data });
+          expect(isValid).to.be.true;
+        });
+
+        it('returns false if the signature or data were modified', async () => {
+          const signature = await Curve.sign({ hash, key: keyPair.privateKey, data });
+
+          let isValid = await Curve.verify({ hash, key: keyPair.publicKey, signature, data: new Uint8Array([51, 52, 54]) });
+          expect(isValid).to.be.false;
+
+          signature[0] ^= 1;
+          isValid = await Curve.verify({ hash, key: keyPair.publicKey, signature, data });
+          expect(isValid).to.be.false;
+        });
+
+        it('produces signatures that the Web Crypto API verifies', async () => {
+          const { x, y } = await Curve.getCurvePoints({ key: keyPair.publicKey });
+          const webCryptoKey = await crypto.subtle.importKey(
+            'jwk',
+            { kty: 'EC', crv: namedCurve, x: Convert.uint8Array(x).toBase64Url(), y: Convert.uint8Array(y).toBase64Url() },
+            { name: 'ECDSA', namedCurve },
+            false,
+            ['verify']
+          );
+
+          const signature = await Curve.sign({ hash, key: keyPair.privateKey, data });
+
+          const isValid = await crypto.subtle.verify({ name: 'ECDSA', hash }, webCryptoKey, signature, data);
+          expect(isValid).to.be.true;
+        });
+
+        it('throws an error if the hash algorithm is not supported', async () => {
+          await expect(
+            Curve.sign({ hash: 'SHA-1', key: keyPair.privateKey, data })
+          ).to.eventually.be.rejectedWith(TypeError, 'Out of range');
+        });
+      });
+
+      describe('validatePrivateKey()', () => {
+        it('returns true for valid private keys and false otherwise', async () => {
+          const keyPair = await Curve.generateKeyPair();
+          expect(await Curve.validatePrivateKey({ key: keyPair.privateKey })).to.be.true;
+          expect(await Curve.validatePrivateKey({ key: new Uint8Array(privateKeyLength).fill(0xff) })).to.be.false;
+        });
+      });
+
+      describe('validatePublicKey()', () => {
+        it('returns true for valid public keys and false otherwise', async () => {
+          const keyPair = await Curve.generateKeyPair();
+          expect(await Curve.validatePublicKey({ key: keyPair.publicKey })).to.be.true;
+          expect(await Curve.validatePublicKey({ key: keyPair.privateKey })).to.be.false;
+        });
+      });
+    });
+  }
+
   describe('X25519', () => {
     describe('generateKeyPair()', () => {
       it('returns a pair of keys of type Uint8Array', async () => {
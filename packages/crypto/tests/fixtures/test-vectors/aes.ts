@@ -67,4 +67,26 @@ export const aesGcmTestVectors = [
     tagLength  : 128,
     ciphertext : '49d8b9783e911913d87094d1f63cc765'
   },
-];
\ No newline at end of file
+];
+
+// Test vector source: https://datatracker.ietf.org/doc/html/rfc3394#section-4
+export const aesKwTestVectors = [
+  {
+    id          : 'RFC 3394 4.1',
+    key         : '00112233445566778899aabbccddeeff',
+    wrappingKey : '000102030405060708090a0b0c0d0e0f',
+    wrappedKey  : '1fa68b0a8112b447aef34bd8fb5a7b829d3e862371d2cfe5'
+  },
+  {
+    id          : 'RFC 3394 4.3',
+    key         : '00112233445566778899aabbccddeeff',
+    wrappingKey : '000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f',
+    wrappedKey  : '64e8c3f9ce0f5ba263e9777905818a2a93c8191e7d6e8ae7'
+  },
+  {
+    id          : 'RFC 3394 4.6',
+    key         : '00112233445566778899aabbccddeeff000102030405060708090a0b0c0d0e0f',
+    wrappingKey : '000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f',
+    wrappedKey  : '28c9f404c4b810f4cbccb35cfb87f8263f5786e2d80ed326cbc7f0e71a99f43bfb988b9b7a02dd21'
+  },
+];
@@ -0,0 +1,67 @@
+// Test vector source: https://datatracker.ietf.org/doc/html/rfc4231#section-4
+export const hmacTestVectors = [
+  {
+    id        : 'RFC 4231 4.2 HMAC-SHA-256',
+    hash      : 'SHA-256',
+    key       : '0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b',
+    data      : '4869205468657265',
+    signature : 'b0344c61d8db38535ca8afceaf0bf12b881dc200c9833da726e9376c2e32cff7'
+  },
+  {
+    id        : 'RFC 4231 4.2 HMAC-SHA-384',
+    hash      : 'SHA-384',
+    key       : '0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b',
+    data      : '4869205468657265',
+    signature : 'afd03944d84895626b0825f4ab46907f15f9dadbe4101ec682aa034c7cebc59cfaea9ea9076ede7f4af152e8b2fa9cb6'
+  },
+  {
+    id        : 'RFC 4231 4.2 HMAC-SHA-512',
+    hash      : 'SHA-512',
+    key       : '0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b',
+    data      : '4869205468657265',
+    signature : '87aa7cdea5ef619d4ff0b4241a1d6cb02379f4e2ce4ec2787ad0b30545e17cdedaa833b7d6b8a702038b274eaea3f4e4be9d914eeb61f1702e696c203a126854'
+  },
+  {
+    id        : 'RFC 4231 4.3 HMAC-SHA-256',
+    hash      : 'SHA-256',
+    key       : '4a656665',
+    data      : '7768617420646f2079612077616e7420666f72206e6f7468696e673f',
+    signature : '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843'
+  },
+  {
+    id        : 'RFC 4231 4.3 HMAC-SHA-384',
+    hash      : 'SHA-384',
+    key       : '4a656665',
+    data      : '7768617420646f2079612077616e7420666f72206e6f7468696e673f',
+    signature : 'af45d2e376484031617f78d2b58a6b1b9c7ef464f5a01b47e42ec3736322445e8e2240ca5e69e2c78b3239ecfab21649'
+  },
+  {
+    id        : 'RFC 4231 4.3 HMAC-SHA-512',
+    hash      : 'SHA-512',
+    key       : '4a656665',
+    data      : '7768617420646f2079612077616e7420666f72206e6f7468696e673f',
+    signature : '164b7a7bfcf819e2e395fbe73b56e0a387bd64222e831fd610270cd7ea2505549758bf75c05a994a6d034f65f8f0e6fdcaeab1a34d4a6b4b636e070a38bce737'
+  }
+];
+
+// Test vector source: https://datatracker.ietf.org/doc/html/rfc5869#appendix-A
+export const hkdfTestVectors = [
+  {
+    id         : 'RFC 5869 A.1',
+    hash       : 'SHA-256',
+    baseKey    : '0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b',
+    salt       : '000102030405060708090a0b0c',
+    info       : 'f0f1f2f3f4f5f6f7f8f9',
+    length     : 336,
+    derivedKey : '3cb25f25faacd57a90434f64d0362f2a2d2d0a90cf1a5a4c5db02d56ecc4c5bf34007208d5b887185865'
+  },
+  {
+    id         : 'RFC 5869 A.3',
+    hash       : 'SHA-256',
+    baseKey    : '0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b',
+    salt       : '',
+    info       : '',
+    length     : 336,
+    derivedKey : '8da4e775a563c18f715f802a063c5a31b8a11f5c5ee1879ec3454e5f3c738d2d9d201395faa4b61a96c8'
+  }
+];
@@ -110,7 +110,7 @@ describe('CryptoKeyWithJwk()', () => {
 
   it('throws an error with unsupported algorithms', async () => {
     const cryptoKey = new CryptoKeyWithJwk(
-      { name: 'ECDSA', namedCurve: 'P-256' }, // algorithm identifier
+      { name: 'ECDSA', namedCurve: 'P-521' }, // algorithm identifier
       false, // extractable
       new Uint8Array(32), // material aka key material
       'private', // key type
@@ -119,7 +119,7 @@ describe('CryptoKeyWithJwk()', () => {
 
     await expect(
       cryptoKey.toJwk()
-    ).to.eventually.be.rejectedWith(Error, 'Unsupported key to JWK conversion: P-256');
+    ).to.eventually.be.rejectedWith(Error, 'Unsupported key to JWK conversion: P-521');
   });
 });
 
@@ -133,6 +133,17 @@ describe('Jose', () => {
       }
     });
 
+    it('translates P-256 and P-384 keys without an algorithm to ECDSA', () => {
+      expect(Jose.joseToWebCrypto({ crv: 'P-256', kty: 'EC' })).to.deep.equal({ name: 'ECDSA', namedCurve: 'P-256' });
+      expect(Jose.joseToWebCrypto({ crv: 'P-384', kty: 'EC' })).to.deep.equal({ name: 'ECDSA', namedCurve: 'P-384' });
+    });
+
+    it('throws an error if the algorithm of a P-256 or P-384 key does not match the curve', () => {
+      expect(
+        () => Jose.joseToWebCrypto({ crv: 'P-256', alg: 'ES384', kty: 'EC' })
+      ).to.throw(Error, `Unsupported JOSE to WebCrypto conversion: 'P-256:ES384'`);
+    });
+
     it('throws an error if required parameters are missing', () => {
       expect(
         () => Jose.joseToWebCrypto({})
@@ -320,8 +331,6 @@ describe('Jose', () => {
       let jwkParams: Partial<JsonWebKey>;
       const testVectors = [
         { namedCurve: 'Ed448', name: 'EdDSA' },
-        { namedCurve: 'P-256', name: 'ECDSA' },
-        { namedCurve: 'P-384', name: 'ECDSA' },
         { namedCurve: 'P-521', name: 'ECDSA' }
       ];
       const keyMaterial = new Uint8Array(32);
@@ -343,6 +352,11 @@ describe('Jose', () => {
       }
     });
 
+    it('translates ECDH P-256 and P-384 algorithms to JOSE', () => {
+      expect(Jose.webCryptoToJose({ name: 'ECDH', namedCurve: 'P-256' })).to.deep.equal({ crv: 'P-256', kty: 'EC' });
+      expect(Jose.webCryptoToJose({ name: 'ECDH', namedCurve: 'P-384' })).to.deep.equal({ crv: 'P-384', kty: 'EC' });
+    });
+
     it('throws an error if required parameters are missing', () => {
       expect(
         // @ts-expect-error because parameters are intentionally omitted to trigger an error.
@@ -0,0 +1,298 @@
+import chai, { expect } from 'chai';
+import { Convert } from '@web5/common';
+import chaiAsPromised from 'chai-as-promised';
+
+import type { JweHeaderParams, JwkParamsOctPrivate, PrivateKeyJwk, PublicKeyJwk } from '../src/jose.js';
+
+import { Jwe } from '../src/jwe.js';
+import { Jose } from '../src/jose.js';
+import { AesGcm, Secp256k1, Secp256r1, X25519 } from '../src/crypto-primitives/index.js';
+
+chai.use(chaiAsPromised);
+
+async function generateKeyPair(crv: 'P-256' | 'secp256k1' | 'X25519'): Promise<{ privateKeyJwk: PrivateKeyJwk, publicKeyJwk: PublicKeyJwk }> {
+  const { privateKey } = (crv === 'X25519') ? await X25519.generateKeyPair()
+    : (crv === 'secp256k1') ? await Secp256k1.generateKeyPair()
+      : await Secp256r1.generateKeyPair();
+
+  const privateKeyJwk = await Jose.keyToJwk({ crv, keyMaterial: privateKey, keyType: 'private' }) as PrivateKeyJwk;
+  const { d, ...publicKeyJwk } = privateKeyJwk as PrivateKeyJwk & { d: string };
+
+  return { privateKeyJwk, publicKeyJwk: publicKeyJwk as PublicKeyJwk };
+}
+
+describe('Jwe', () => {
+  const plaintext = Convert.string('Live long and prosper.').toUint8Array();
+
+  let secretKeyJwk: JwkParamsOctPrivate;
+  let p256KeyPair: { privateKeyJwk: PrivateKeyJwk, publicKeyJwk: PublicKeyJwk };
+  let secp256k1KeyPair: { privateKeyJwk: PrivateKeyJwk, publicKeyJwk: PublicKeyJwk };
+  let x25519KeyPair: { privateKeyJwk: PrivateKeyJwk, publicKeyJwk: PublicKeyJwk };
+
+  before(async () => {
+    secretKeyJwk = { kty: 'oct', k: Convert.uint8Array(new Uint8Array(32).fill(7)).toBase64Url() };
+    p256KeyPair = await generateKeyPair('P-256');
+    secp256k1KeyPair = await generateKeyPair('secp256k1');
+    x25519KeyPair = await generateKeyPair('X25519');
+  });
+
+  describe('decrypt()', () => {
+    it('passes RFC 7518 ECDH-ES key agreement test vector', async () => {
+      // RFC 7518, Appendix C: the key that Alice and Bob agree on is the CEK.
+      const bobPrivateKeyJwk: PrivateKeyJwk = {
+        kty : 'EC',
+        crv : 'P-256',
+        x   : 'weNJy2HscCSM6AEDTDg04biOvhFhyyWvOHQfeF_PxMQ',
+        y   : 'e8lnCO-AlStT-NJVX-crhB7QRYhiix03illJOVAOyck',
+        d   : 'VEmDZpDXXK8p8N0Cndsxs924q6nS1RXFASRl6BfUqdw'
+      };
+      const protectedHeader: JweHeaderParams = {
+        alg : 'ECDH-ES',
+        enc : 'A128GCM',
+        apu : 'QWxpY2U',
+        apv : 'Qm9i',
+        epk : {
+          kty : 'EC',
+          crv : 'P-256',
+          x   : 'gI0GAILBdu7T53akrFmMyGcsF3n5dO7MmwNBHKW5SV0',
+          y   : 'SLW_xSffzlPWrHEVI30DHM_4egVwt3NQqeUD7nMFpps'
+        }
+      };
+      const encodedProtectedHeader = Convert.object(protectedHeader).toBase64Url();
+      const iv = new Uint8Array(12);
+      const ciphertextAndTag = await AesGcm.encrypt({
+        additionalData : Convert.string(encodedProtectedHeader).toUint8Array(),
+        data           : plaintext,
+        iv,
+        key            : Convert.base64Url('VqqN6vgjbSBcIijNcacQGg').toUint8Array(),
+        tagLength      : 128
+      });
+      const jwe = [
+        encodedProtectedHeader,
+        '',
+        Convert.uint8Array(iv).toBase64Url(),
+        Convert.uint8Array(ciphertextAndTag.subarray(0, -16)).toBase64Url(),
+        Convert.uint8Array(ciphertextAndTag.subarray(-16)).toBase64Url()
+      ].join('.');
+
+      const result = await Jwe.decrypt({ jwe, key: bobPrivateKeyJwk });
+
+      expect(result.plaintext).to.deep.equal(plaintext);
+      expect(result.header).to.deep.equal(protectedHeader);
+    });
+
+    it('throws an error if the JWE was tampered with', async () => {
+      const jwe = await Jwe.encryptCompact({
+        key             : x25519KeyPair.publicKeyJwk,
+        plaintext,
+        protectedHeader : { alg: 'ECDH-ES+A256KW', enc: 'A256GCM' }
+      });
+      const [encodedProtectedHeader, encryptedKey, iv, ciphertext, tag] = jwe.split('.');
+      const tamperedHeader = Convert.object({ ...Convert.base64Url(encodedProtectedHeader).toObject(), kid: 'key-1' }).toBase64Url();
+
+      await expect(
+        Jwe.decrypt({ jwe: [tamperedHeader, encryptedKey, iv, ciphertext, tag].join('.'), key: x25519KeyPair.privateKeyJwk })
+      ).to.eventually.be.rejectedWith(Error, 'Decryption failed for every recipient');
+    });
+
+    it('throws an error if the key is not a recipient key', async () => {
+      const jwe = await Jwe.encryptCompact({
+        key             : x25519KeyPair.publicKeyJwk,
+        plaintext,
+        protectedHeader : { alg: 'ECDH-ES+A256KW', enc: 'A256GCM' }
+      });
+      const { privateKeyJwk } = await generateKeyPair('X25519');
+
+      await expect(
+        Jwe.decrypt({ jwe, key: privateKeyJwk })
+      ).to.eventually.be.rejectedWith(Error, 'Decryption failed for every recipient');
+    });
+
+    it('throws an error if the authentication tag is truncated', async () => {
+      const jwe = await Jwe.encryptCompact({
+        key             : secretKeyJwk,
+        plaintext,
+        protectedHeader : { alg: 'dir', enc: 'A256GCM' }
+      });
+      const [encodedProtectedHeader, encryptedKey, iv, ciphertext, tag] = jwe.split('.');
+      const truncatedTag = Convert.uint8Array(Convert.base64Url(tag).toUint8Array().subarray(0, 4)).toBase64Url();
+
+      await expect(
+        Jwe.decrypt({ jwe: [encodedProtectedHeader, encryptedKey, iv, ciphertext, truncatedTag].join('.'), key: secretKeyJwk })
+      ).to.eventually.be.rejectedWith(Error, 'Authentication tag must be 128 bits');
+    });
+
+    it('throws an error if the header names an inherited property as algorithm', async () => {
+      for (const protectedHeader of [{ alg: 'constructor', enc: 'A256GCM' }, { alg: 'dir', enc: 'toString' }]) {
+        const jwe = [
+          Convert.object(protectedHeader).toBase64Url(),
+          '',
+          Convert.uint8Array(new Uint8Array(12)).toBase64Url(),
+          Convert.uint8Array(plaintext).toBase64Url(),
+          Convert.uint8Array(new Uint8Array(16)).toBase64Url()
+        ].join('.');
+
+        await expect(
+          Jwe.decrypt({ jwe, key: secretKeyJwk })
+        ).to.eventually.be.rejectedWith(Error, 'Unsupported');
+      }
+    });
+
+    it('throws an error for malformed compact JWE', async () => {
+      await expect(
+        Jwe.decrypt({ jwe: 'a.b.c', key: secretKeyJwk })
+      ).to.eventually.be.rejectedWith(Error, 'exactly five parts');
+    });
+  });
+
+  describe('encryptCompact()', () => {
+    for (const enc of ['A128GCM', 'A192GCM', 'A256GCM', 'XC20P'] as const) {
+      for (const alg of ['ECDH-ES', 'ECDH-ES+A128KW', 'ECDH-ES+A256KW'] as const) {
+        for (const crv of ['P-256', 'secp256k1', 'X25519'] as const) {
+          it(`encrypts and decrypts with ${alg}, ${enc} and ${crv} keys`, async () => {
+            const keyPair = { 'P-256': p256KeyPair, 'secp256k1': secp256k1KeyPair, 'X25519': x25519KeyPair }[crv];
+
+            const jwe = await Jwe.encryptCompact({ key: keyPair.publicKeyJwk, plaintext, protectedHeader: { alg, enc } });
+
+            const result = await Jwe.decrypt({ jwe, key: keyPair.privateKeyJwk });
+            expect(result.plaintext).to.deep.equal(plaintext);
+            expect(result.header).to.include({ alg, enc });
+            expect(result.header.epk).to.have.property('crv', crv);
+            expect(result.header.epk).to.not.have.property('d');
+          });
+        }
+      }
+    }
+
+    it('encrypts and decrypts with dir', async () => {
+      const jwe = await Jwe.encryptCompact({ key: secretKeyJwk, plaintext, protectedHeader: { alg: 'dir', enc: 'XC20P' } });
+
+      expect(jwe.split('.')[1]).to.equal('');
+      const result = await Jwe.decrypt({ jwe, key: secretKeyJwk });
+      expect(result.plaintext).to.deep.equal(plaintext);
+    });
+
+    it('encrypts and decrypts with A256KW', async () => {
+      const jwe = await Jwe.encryptCompact({ key: secretKeyJwk, plaintext, protectedHeader: { alg: 'A256KW', enc: 'A256GCM' } });
+
+      expect(jwe.split('.')[1]).to.have.length(54); // 40 bytes of wrapped 256-bit CEK.
+      const result = await Jwe.decrypt({ jwe, key: secretKeyJwk });
+      expect(result.plaintext).to.deep.equal(plaintext);
+    });
+
+    it('encrypts to a verification method with a publicKeyMultibase', async () => {
+      const verificationMethod = {
+        id                 : 'did:example:123#key-2',
+        type               : 'X25519KeyAgreementKey2020',
+        controller         : 'did:example:123',
+        publicKeyMultibase : await Jose.jwkToMultibaseId({ key: x25519KeyPair.publicKeyJwk })
+      };
+
+      const jwe = await Jwe.encryptCompact({ plaintext, protectedHeader: { alg: 'ECDH-ES+A256KW', enc: 'XC20P' }, verificationMethod });
+
+      const result = await Jwe.decrypt({ jwe, key: x25519KeyPair.privateKeyJwk });
+      expect(result.plaintext).to.deep.equal(plaintext);
+      expect(result.header.kid).to.equal('did:example:123#key-2');
+    });
+
+    it('throws an error if the key length does not match the algorithm', async () => {
+      await expect(
+        Jwe.encryptCompact({ key: secretKeyJwk, plaintext, protectedHeader: { alg: 'dir', enc: 'A128GCM' } })
+      ).to.eventually.be.rejectedWith(Error, 'Key length must be 128 bits');
+    });
+
+    it('throws an error for unsupported algorithms', async () => {
+      await expect(
+        Jwe.encryptCompact({ key: secretKeyJwk, plaintext, protectedHeader: { alg: 'PBES2-HS512+XC20PKW', enc: 'XC20P' } })
+      ).to.eventually.be.rejectedWith(Error, `Unsupported key management algorithm: 'PBES2-HS512+XC20PKW'`);
+
+      await expect(
+        Jwe.encryptCompact({ key: secretKeyJwk, plaintext, protectedHeader: { alg: 'dir', enc: 'A256CBC-HS512' } })
+      ).to.eventually.be.rejectedWith(Error, `Unsupported content encryption algorithm: 'A256CBC-HS512'`);
+    });
+
+    it('throws an error for unsupported curves', async () => {
+      const { publicKey } = await Secp256r1.generateKeyPair();
+      const ed25519PublicKeyJwk = await Jose.keyToJwk({ crv: 'Ed25519', keyMaterial: publicKey.subarray(1, 33), keyType: 'public' }) as PublicKeyJwk;
+
+      await expect(
+        Jwe.encryptCompact({ key: ed25519PublicKeyJwk, plaintext, protectedHeader: { alg: 'ECDH-ES', enc: 'A256GCM' } })
+      ).to.eventually.be.rejectedWith(Error, 'ECDH-ES key agreement requires');
+    });
+  });
+
+  describe('encryptGeneral()', () => {
+    it('encrypts to multiple recipients', async () => {
+      const jwe = await Jwe.encryptGeneral({
+        plaintext,
+        protectedHeader : { enc: 'A256GCM' },
+        recipients      : [
+          { header: { alg: 'ECDH-ES+A256KW', kid: 'x25519' }, key: x25519KeyPair.publicKeyJwk },
+          { header: { alg: 'ECDH-ES+A256KW', kid: 'secp256k1' }, key: secp256k1KeyPair.publicKeyJwk },
+          { header: { alg: 'A256KW', kid: 'secret' }, key: secretKeyJwk }
+        ]
+      });
+
+      expect(jwe.recipients).to.have.length(3);
+      expect(Convert.base64Url(jwe.protected!).toObject()).to.deep.equal({ enc: 'A256GCM' });
+
+      for (const key of [x25519KeyPair.privateKeyJwk, secp256k1KeyPair.privateKeyJwk, secretKeyJwk]) {
+        const result = await Jwe.decrypt({ jwe, key });
+        expect(result.plaintext).to.deep.equal(plaintext);
+      }
+
+      const result = await Jwe.decrypt({ jwe, key: secp256k1KeyPair.privateKeyJwk, kid: 'secp256k1' });
+      expect(result.header).to.include({ alg: 'ECDH-ES+A256KW', enc: 'A256GCM', kid: 'secp256k1' });
+    });
+
+    it('integrity protects additional authenticated data', async () => {
+      const aad = Convert.string('did:example:123').toUint8Array();
+
+      const jwe = await Jwe.encryptGeneral({
+        aad,
+        plaintext,
+        protectedHeader : { enc: 'XC20P' },
+        recipients      : [{ header: { alg: 'ECDH-ES+A256KW' }, key: x25519KeyPair.publicKeyJwk }]
+      });
+
+      const result = await Jwe.decrypt({ jwe, key: x25519KeyPair.privateKeyJwk });
+      expect(result.aad).to.deep.equal(aad);
+
+      const tamperedJwe = { ...jwe, aad: Convert.string('did:example:456').toBase64Url() };
+      await expect(
+        Jwe.decrypt({ jwe: tamperedJwe, key: x25519KeyPair.privateKeyJwk })
+      ).to.eventually.be.rejectedWith(Error, 'Decryption failed for every recipient');
+    });
+
+    it('throws an error if dir or ECDH-ES is used with multiple recipients', async () => {
+      for (const alg of ['dir', 'ECDH-ES'] as const) {
+        await expect(
+          Jwe.encryptGeneral({
+            plaintext,
+            protectedHeader : { enc: 'A256GCM' },
+            recipients      : [
+              { header: { alg }, key: alg === 'dir' ? secretKeyJwk : x25519KeyPair.publicKeyJwk },
+              { header: { alg: 'A256KW' }, key: secretKeyJwk }
+            ]
+          })
+        ).to.eventually.be.rejectedWith(Error, `'${alg}' is only valid with a single recipient`);
+      }
+    });
+
+    it('throws an error if a header parameter is both protected and unprotected', async () => {
+      await expect(
+        Jwe.encryptGeneral({
+          plaintext,
+          protectedHeader : { enc: 'A256GCM', kid: 'key-1' },
+          recipients      : [{ header: { alg: 'A256KW', kid: 'key-1' }, key: secretKeyJwk }]
+        })
+      ).to.eventually.be.rejectedWith(Error, 'must not be both protected and unprotected: kid');
+    });
+
+    it('throws an error if no recipients are given', async () => {
+      await expect(
+        Jwe.encryptGeneral({ plaintext, protectedHeader: { enc: 'A256GCM' }, recipients: [] })
+      ).to.eventually.be.rejectedWith(Error, 'At least one recipient');
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { SignedPacket, z32 } from 'pkarr';
+
+import type { DhtGateway } from './types.js';
+
+export type DhtGatewayHttpOptions = {
+  relays?: string[];
+}
+
+/**
+ * DHT gateway that stores and retrieves signed packets through pkarr HTTP
+ * relays. Relays are tried in the order given, failing over to the next relay
+ * if a relay is unreachable or responds with an error.
+ *
+ * @see {@link https://github.com/Nuhvi/pkarr/blob/main/design/relays.md | Pkarr Relays}
+ */
+export class DhtGatewayHttp implements DhtGateway {
+  private relays: string[];
+
+  private static defaultOptions: Required<DhtGatewayHttpOptions> = {
+    relays: ['https://diddht.tbddev.org']
+  };
+
+  constructor(options: DhtGatewayHttpOptions = {}) {
+    let { relays } = options;
+
+    relays ??= DhtGatewayHttp.defaultOptions.relays;
+
+    if (relays.length === 0) {
+      throw new Error('DhtGatewayHttp: At least one relay must be given.');
+    }
+
+    this.relays = relays;
+  }
+
+  async get({ publicKey }: { publicKey: Uint8Array }): Promise<Uint8Array | undefined> {
+    const id = z32.encode(publicKey);
+
+    let lastError: Error | undefined;
+    let isMissing = false;
+
+    for (const relay of this.relays) {
+      try {
+        const response = await fetch(DhtGatewayHttp.getRelayUrl({ relay, id }));
+
+        // The relay does not have a packet for the key, but another relay might.
+        if (response.status === 404) {
+          isMissing = true;
+          continue;
+        }
+
+        if (!response.ok) {
+          throw new Error(`Relay responded with status ${response.status}: ${relay}`);
+        }
+
+        const bytes = new Uint8Array(await response.arrayBuffer());
+
+        // Fail over to the next relay if the packet is malformed or its signature is invalid.
+        SignedPacket.fromBytes(publicKey, bytes);
+
+        return bytes;
+
+      } catch (error: any) {
+        lastError = error;
+      }
+    }
+
+    // Only fail if none of the relays could be queried.
+    if (!isMissing && lastError) {
+      throw new Error(`DhtGatewayHttp: Failed to get signed packet: ${lastError.message}`);
+    }
+
+    return undefined;
+  }
+
+  async put({ publicKey, signedPacket }: { publicKey: Uint8Array, signedPacket: Uint8Array }): Promise<boolean> {
+    const id = z32.encode(publicKey);
+
+    for (const relay of this.relays) {
+      try {
+        const response = await fetch(DhtGatewayHttp.getRelayUrl({ relay, id }), {
+          method : 'PUT',
+          body   : signedPacket
+        });
+
+        if (response.ok) {
+          return true;
+        }
+
+      } catch {
+        // Fail over to the next relay.
+      }
+    }
+
+    return false;
+  }
+
+  private static getRelayUrl({ relay, id }: { relay: string, id: string }): string {
+    return `${relay.replace(/\/+$/, '')}/${id}`;
+  }
+}
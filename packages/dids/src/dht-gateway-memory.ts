@@ -0,0 +1,48 @@
+import { SignedPacket, z32 } from 'pkarr';
+import { Convert } from '@web5/common';
+
+import type { DhtGateway } from './types.js';
+
+/**
+ * In-memory DHT gateway that stores signed packets in a `Map`. Like the DHT,
+ * it only accepts a packet if it is newer than the packet already stored for
+ * the same public key, or if it is the stored packet being republished.
+ *
+ * Useful for testing and for running did:dht without network access.
+ */
+export class DhtGatewayMemory implements DhtGateway {
+  private signedPackets: Map<string, SignedPacket> = new Map();
+
+  async get({ publicKey }: { publicKey: Uint8Array }): Promise<Uint8Array | undefined> {
+    return this.signedPackets.get(z32.encode(publicKey))?.bytes();
+  }
+
+  async put({ publicKey, signedPacket: bytes }: { publicKey: Uint8Array, signedPacket: Uint8Array }): Promise<boolean> {
+    const id = z32.encode(publicKey);
+
+    // Like the DHT, reject packets that are malformed or not signed by the public key.
+    let signedPacket: SignedPacket;
+    try {
+      signedPacket = SignedPacket.fromBytes(publicKey, bytes);
+    } catch {
+      return false;
+    }
+
+    // Reject packets that are not newer than the stored packet, unless republished unchanged.
+    const storedPacket = this.signedPackets.get(id);
+    if (storedPacket && storedPacket.timestamp() >= signedPacket.timestamp()) {
+      return Convert.uint8Array(storedPacket.bytes()).toHex() === Convert.uint8Array(signedPacket.bytes()).toHex();
+    }
+
+    this.signedPackets.set(id, signedPacket);
+
+    return true;
+  }
+
+  /**
+   * Removes all stored signed packets.
+   */
+  async clear(): Promise<void> {
+    this.signedPackets.clear();
+  }
+}
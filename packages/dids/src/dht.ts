@@ -1,15 +1,50 @@
 import type { Packet, TxtAnswer } from 'dns-packet';
-import type { PublicKeyJwk, Web5Crypto} from '@web5/crypto';
+import type { JwkParamsEcPublic, JwkParamsOkpPublic, PublicKeyJwk, Web5Crypto } from '@web5/crypto';
 
-import { Jose } from '@web5/crypto';
+import { Jose, Secp256r1 } from '@web5/crypto';
 import { Convert } from '@web5/common';
-import { Pkarr, SignedPacket, z32 } from 'pkarr';
+import { SignedPacket, z32 } from 'pkarr';
 import dns, { AUTHORITATIVE_ANSWER } from 'dns-packet';
 
-import type { DidDocument } from './types.js';
+import type { DhtGateway, DhtSignedPacket, DidDocument } from './types.js';
 
-const PKARR_RELAY = 'https://diddht.tbddev.org';
-const TTL = 7200;
+import { DhtGatewayHttp } from './dht-gateway-http.js';
+
+/**
+ * Time to live, in seconds, of the DNS resource records of a did:dht DID.
+ * Records must be republished before the TTL elapses to remain resolvable.
+ */
+export const DID_DHT_TTL = 7200;
+
+/**
+ * Key types registered by the did:dht spec, indexed by the value of the `t`
+ * attribute of a key record.
+ *
+ * @see {@link https://did-dht.com/registry/#key-type-index | did:dht Key Type Index}
+ */
+const KEY_TYPES: { [keyType: string]: Partial<JwkParamsEcPublic | JwkParamsOkpPublic> } = {
+  '0' : { crv: 'Ed25519',   kty: 'OKP', alg: 'EdDSA' },
+  '1' : { crv: 'secp256k1', kty: 'EC',  alg: 'ES256K' },
+  '2' : { crv: 'P-256',     kty: 'EC',  alg: 'ES256' },
+  '3' : { crv: 'X25519',    kty: 'OKP' }
+};
+
+/**
+ * Types of DID subjects registered by the did:dht spec. A DID may declare
+ * one or more types with a `_typ._did` record to aid discovery.
+ *
+ * @see {@link https://did-dht.com/registry/#indexed-types | did:dht Indexed Types}
+ */
+export enum DidDhtRegisteredDidType {
+  Discoverable = 0,
+  Organization = 1,
+  GovernmentOrganization = 2,
+  Corporation = 3,
+  LocalBusiness = 4,
+  SoftwarePackage = 5,
+  WebApp = 6,
+  FinancialInstitution = 7
+}
 
 /**
  * A class to handle operations related to DHT-based Decentralized Identifiers (DIDs).
@@ -25,6 +60,9 @@ export class DidDht {
 
   /**
    * Parses a DNS packet into a DID Document.
+   *
+   * Key records with a key type that is not supported are skipped, along with
+   * any verification relationships that reference them.
    * @param did The DID of the document.
    * @param packet A DNS packet to parse into a DID Document.
    * @returns A Promise that resolves to the parsed DidDocument.
@@ -43,36 +81,35 @@ export class DidDht {
       if (answer.type !== 'TXT') continue;
 
       const dataStr = answer.data?.toString();
+
+      // Extracts '_cnt' or '_aka' from "_cnt._did" or "_aka._did"
+      const recordName = answer.name?.split('.')[0];
+
+      if (recordName === '_cnt') {
+        const controllers = dataStr.split(',');
+        document.controller = (controllers.length === 1) ? controllers[0] : controllers;
+        continue;
+      }
+
+      if (recordName === '_aka') {
+        document.alsoKnownAs = dataStr.split(',');
+        continue;
+      }
+
       // Extracts 'k' or 's' from "_k0._did" or "_s0._did"
-      const recordType = answer.name?.split('.')[0].substring(1, 2);
+      const recordType = recordName?.substring(1, 2);
 
       /*eslint-disable no-case-declarations*/
       switch (recordType) {
         case 'k': {
           const { id, t, k } = DidDht.parseTxtData({ data: dataStr });
-          const keyConfigurations: { [keyType: string]: Partial<PublicKeyJwk> } = {
-            '0': {
-              crv : 'Ed25519',
-              kty : 'OKP',
-              alg : 'EdDSA'
-            },
-            '1': {
-              crv : 'secp256k1',
-              kty : 'EC',
-              alg : 'ES256K'
-            }
-          };
-          const keyConfig = keyConfigurations[t];
-          if (!keyConfig) {
-            throw new Error('Unsupported key type');
-          }
 
-          const publicKeyJwk = await Jose.keyToJwk({
-            ...keyConfig,
-            kid         : id,
+          const publicKeyJwk = await DidDht.keyToPublicJwk({
+            keyId       : id,
             keyMaterial : Convert.base64Url(k).toUint8Array(),
-            keyType     : 'public'
-          }) as PublicKeyJwk;
+            keyType     : t
+          });
+          if (!publicKeyJwk) continue;
 
           if (!document.verificationMethod) {
             document.verificationMethod = [];
@@ -130,7 +167,10 @@ export class DidDht {
     const rootRecord = singleRoot.data?.toString().split(';');
     rootRecord?.forEach(record => {
       const [type, ids] = record.split('=');
-      let idList = ids?.split(',').map(id => `#${keyLookup.get(`_${id}.${actualRootName}`)}`);
+      const idList = ids?.split(',')
+        .filter(id => keyLookup.has(`_${id}.${actualRootName}`))
+        .map(id => `#${keyLookup.get(`_${id}.${actualRootName}`)}`);
+      if (!idList?.length) return;
       switch (type) {
         case 'auth':
           document.authentication = idList;
@@ -157,20 +197,85 @@ export class DidDht {
    * Retrieves a DID Document from the DHT.
    *
    * @param did The DID of the document to retrieve.
-   * @param relay The relay to use to retrieve the document; defaults to `PKARR_RELAY`.
+   * @param gateway The gateway to use to retrieve the document; defaults to `DhtGatewayHttp`.
    * @returns A Promise that resolves to the retrieved DidDocument.
    */
-  public static async getDidDocument({ did, relay = PKARR_RELAY }: {
+  public static async getDidDocument({ did, gateway = new DhtGatewayHttp() }: {
       did: string,
-      relay?: string
+      gateway?: DhtGateway
     }): Promise<DidDocument> {
+    const signedPacket = await DidDht.getSignedPacket({ did, gateway });
+
+    return await DidDht.fromDnsPacket({ did, packet: signedPacket.packet });
+  }
+
+  /**
+   * Decodes the public key of the identity key, which signs the packets
+   * published for a DID, from the DID.
+   *
+   * @param did The DID to decode the identity key from.
+   * @returns The raw public key bytes.
+   */
+  public static getIdentityKey({ did }: { did: string }): Uint8Array {
     const didFragment = did.replace('did:dht:', '');
-    const publicKeyBytes = new Uint8Array(z32.decode(didFragment));
-    const resolved = await Pkarr.relayGet(relay, publicKeyBytes);
-    if (resolved) {
-      return await DidDht.fromDnsPacket({ did, packet: resolved.packet() });
+    return new Uint8Array(z32.decode(didFragment));
+  }
+
+  /**
+   * Retrieves the signed packet of a DID from the DHT. In addition to the DNS
+   * packet, the signed packet contains the timestamp it was published with,
+   * which is used as the sequence number of the DID Document version.
+   *
+   * @param did The DID of the packet to retrieve.
+   * @param gateway The gateway to use to retrieve the packet; defaults to `DhtGatewayHttp`.
+   * @returns A Promise that resolves to the retrieved signed packet.
+   * @throws Error if no packet is found or its signature is invalid.
+   */
+  public static async getSignedPacket({ did, gateway = new DhtGatewayHttp() }: {
+    did: string,
+    gateway?: DhtGateway
+  }): Promise<DhtSignedPacket> {
+    const publicKeyBytes = DidDht.getIdentityKey({ did });
+    const bytes = await gateway.get({ publicKey: publicKeyBytes });
+    if (!bytes) {
+      throw new Error('No packet found');
     }
-    throw new Error('No packet found');
+    const signedPacket = SignedPacket.fromBytes(publicKeyBytes, bytes);
+    return { bytes, packet: signedPacket.packet(), timestamp: signedPacket.timestamp() };
+  }
+
+  /**
+   * Checks whether a DNS packet is the tombstone of a deactivated DID.
+   *
+   * @param packet The DNS packet to check.
+   * @returns `true` if the packet contains no records; otherwise, `false`.
+   */
+  public static isDeactivated({ packet }: { packet: Packet }): boolean {
+    return (packet.answers ?? []).length === 0;
+  }
+
+  /**
+   * Deactivates a DID by publishing a tombstone, a DNS packet without any
+   * records, to the DHT.
+   *
+   * @param keyPair The key pair to sign the tombstone with.
+   * @param seq The sequence number of the tombstone; defaults to the current time.
+   * @param gateway The gateway to use to publish the tombstone; defaults to `DhtGatewayHttp`.
+   * @returns A boolean indicating the success of the publishing operation.
+   */
+  public static async deactivateDidDocument({ keyPair, seq, gateway = new DhtGatewayHttp() }: {
+    keyPair: Web5Crypto.CryptoKeyPair,
+    seq?: number,
+    gateway?: DhtGateway
+  }): Promise<boolean> {
+    const packet: Packet = {
+      id      : 0,
+      type    : 'response',
+      flags   : AUTHORITATIVE_ANSWER,
+      answers : []
+    };
+
+    return await DidDht.publishDnsPacket({ keyPair, packet, seq, gateway });
   }
 
   /**
@@ -178,32 +283,34 @@ export class DidDht {
    *
    * @param keyPair The key pair to sign the document with.
    * @param didDocument The DID Document to publish.
-   * @param relay The relay to use to retrieve the document; defaults to `PKARR_RELAY`.
+   * @param types The types of the DID subject, if any.
+   * @param seq The sequence number of the document version; defaults to the current time.
+   * @param gateway The gateway to use to publish the document; defaults to `DhtGatewayHttp`.
    * @returns A boolean indicating the success of the publishing operation.
    */
-  public static async publishDidDocument({ keyPair, didDocument, relay = PKARR_RELAY }: {
+  public static async publishDidDocument({ keyPair, didDocument, types, seq, gateway = new DhtGatewayHttp() }: {
     didDocument: DidDocument,
     keyPair: Web5Crypto.CryptoKeyPair,
-    relay?: string
+    types?: DidDhtRegisteredDidType[],
+    seq?: number,
+    gateway?: DhtGateway
   }): Promise<boolean> {
-    const packet = await DidDht.toDnsPacket({ didDocument });
-    const pkarrKeypair = {
-      publicKey : keyPair.publicKey.material,
-      secretKey : new Uint8Array([...keyPair.privateKey.material, ...keyPair.publicKey.material])
-    };
-    const signedPacket = SignedPacket.fromPacket(pkarrKeypair, packet);
-    const results = await Pkarr.relayPut(relay, signedPacket);
+    const packet = await DidDht.toDnsPacket({ didDocument, types });
 
-    return results.ok;
+    return await DidDht.publishDnsPacket({ keyPair, packet, seq, gateway });
   }
 
   /**
    * Converts a DID Document to a DNS packet according to the did:dht spec.
    *
    * @param didDocument The DID Document to convert.
+   * @param types The types of the DID subject to add as a type index record, if any.
    * @returns A DNS packet converted from the DID Document.
    */
-  public static async toDnsPacket({ didDocument }: { didDocument: DidDocument }): Promise<Packet> {
+  public static async toDnsPacket({ didDocument, types }: {
+    didDocument: DidDocument,
+    types?: DidDhtRegisteredDidType[]
+  }): Promise<Packet> {
     const packet: Partial<Packet> = {
       id      : 0,
       type    : 'response',
@@ -223,25 +330,13 @@ export class DidDht {
       let vmId = DidDht.identifierFragment({ identifier: vm.id });
       keyLookup.set(vmId, recordIdentifier);
 
-      let keyType: number;
-      switch (vm.publicKeyJwk.alg) {
-        case 'EdDSA':
-          keyType = 0;
-          break;
-        case 'ES256K':
-          keyType = 1;
-          break;
-        default:
-          keyType = 0; // Default value or throw an error if needed
-      }
-
-      const cryptoKey = await Jose.jwkToCryptoKey({ key: vm.publicKeyJwk });
-      const keyBase64Url = Convert.uint8Array(cryptoKey.material).toBase64Url();
+      const { keyType, keyMaterial } = await DidDht.publicJwkToKey({ key: vm.publicKeyJwk });
+      const keyBase64Url = Convert.uint8Array(keyMaterial).toBase64Url();
 
       const keyRecord: TxtAnswer = {
         type : 'TXT',
         name : `_${recordIdentifier}._did`,
-        ttl  : TTL,
+        ttl  : DID_DHT_TTL,
         data : `id=${vmId},t=${keyType},k=${keyBase64Url}`
       };
 
@@ -256,7 +351,7 @@ export class DidDht {
       const serviceRecord: TxtAnswer = {
         type : 'TXT',
         name : `_${recordIdentifier}._did`,
-        ttl  : TTL,
+        ttl  : DID_DHT_TTL,
         data : `id=${sId},t=${service.type},uri=${service.serviceEndpoint}`
       };
 
@@ -319,17 +414,92 @@ export class DidDht {
       }
     }
 
+    // Add controller record
+    if (didDocument.controller) {
+      const controllers = Array.isArray(didDocument.controller) ? didDocument.controller : [didDocument.controller];
+      packet.answers.push({
+        type : 'TXT',
+        name : '_cnt._did',
+        ttl  : DID_DHT_TTL,
+        data : controllers.join(',')
+      });
+    }
+
+    // Add alsoKnownAs record
+    if (didDocument.alsoKnownAs?.length) {
+      packet.answers.push({
+        type : 'TXT',
+        name : '_aka._did',
+        ttl  : DID_DHT_TTL,
+        data : didDocument.alsoKnownAs.join(',')
+      });
+    }
+
+    // Add type index record
+    if (types?.length) {
+      packet.answers.push({
+        type : 'TXT',
+        name : '_typ._did',
+        ttl  : DID_DHT_TTL,
+        data : `id=${types.join(',')}`
+      });
+    }
+
     // Add root record
     packet.answers.push({
       type : 'TXT',
       name : '_did',
-      ttl  : TTL,
+      ttl  : DID_DHT_TTL,
       data : rootRecord.join(';')
     });
 
     return packet as Packet;
   }
 
+  /**
+   * Parses the type index record of a DNS packet.
+   *
+   * @param packet A DNS packet to parse the types from.
+   * @returns The types of the DID subject or `undefined` if the packet has no type index record.
+   */
+  public static typesFromDnsPacket({ packet }: { packet: Packet }): DidDhtRegisteredDidType[] | undefined {
+    const typeRecord = packet.answers
+      .find(answer => answer.type === 'TXT' && answer.name?.split('.')[0] === '_typ') as TxtAnswer | undefined;
+
+    if (!typeRecord) {
+      return undefined;
+    }
+
+    // Type indexes are comma separated, so the record cannot be parsed with `parseTxtData()`.
+    const typeIndexes = typeRecord.data.toString().replace(/^id=/, '');
+
+    return typeIndexes.split(',').map(Number);
+  }
+
+  /**
+   * Signs a DNS packet and publishes it to the DHT.
+   *
+   * @param keyPair The key pair to sign the packet with.
+   * @param packet The DNS packet to publish.
+   * @param seq The sequence number of the packet, in microseconds; defaults to the current time.
+   * @param gateway The gateway to use to publish the packet.
+   * @returns A boolean indicating the success of the publishing operation.
+   */
+  private static async publishDnsPacket({ keyPair, packet, seq, gateway }: {
+    keyPair: Web5Crypto.CryptoKeyPair,
+    packet: Packet,
+    seq?: number,
+    gateway: DhtGateway
+  }): Promise<boolean> {
+    const pkarrKeypair = {
+      publicKey : keyPair.publicKey.material,
+      secretKey : new Uint8Array([...keyPair.privateKey.material, ...keyPair.publicKey.material])
+    };
+    // The pkarr types declare `timestamp` as an object, but it is a number of microseconds.
+    const signedPacket = SignedPacket.fromPacket(pkarrKeypair, packet, { timestamp: seq as unknown as object });
+    return await gateway.put({ publicKey: pkarrKeypair.publicKey, signedPacket: signedPacket.bytes() });
+  }
+
   /**
    * Extracts the fragment from a DID.
    *
@@ -340,6 +510,60 @@ export class DidDht {
     return identifier.includes('#') ? identifier.substring(identifier.indexOf('#') + 1) : identifier;
   }
 
+  /**
+   * Converts a key from a DNS key record to a public key JWK.
+   *
+   * @param keyId The ID of the key, which is set as the `kid` of the JWK.
+   * @param keyMaterial The raw public key bytes.
+   * @param keyType The did:dht key type index of the key.
+   * @returns A Promise that resolves to the public key JWK, or `undefined` if the key type is not supported.
+   */
+  private static async keyToPublicJwk({ keyId, keyMaterial, keyType }: {
+    keyId: string,
+    keyMaterial: Uint8Array,
+    keyType: string
+  }): Promise<PublicKeyJwk | undefined> {
+    const keyConfig = KEY_TYPES[keyType];
+    if (!keyConfig) {
+      return undefined;
+    }
+
+    return await Jose.keyToJwk({
+      ...keyConfig,
+      kid     : keyId,
+      keyMaterial,
+      keyType : 'public'
+    }) as PublicKeyJwk;
+  }
+
+  /**
+   * Converts a public key JWK to the raw key bytes and did:dht key type
+   * index that are stored in a DNS key record.
+   *
+   * @param key The public key JWK to convert.
+   * @returns A Promise that resolves to the key type index and raw public key bytes.
+   * @throws Error if the key type is not supported.
+   */
+  private static async publicJwkToKey({ key }: {
+    key: PublicKeyJwk
+  }): Promise<{ keyType: number, keyMaterial: Uint8Array }> {
+    const crv = ('crv' in key) ? key.crv : undefined;
+
+    const keyType = Object.keys(KEY_TYPES).find(keyType => KEY_TYPES[keyType].crv === crv);
+    if (keyType === undefined) {
+      throw new Error(`Unsupported key type: ${crv ?? key.kty}`);
+    }
+
+    let { keyMaterial } = await Jose.jwkToKey({ key });
+
+    // P-256 keys are stored using compressed point encoding.
+    if (crv === 'P-256') {
+      keyMaterial = await Secp256r1.convertPublicKey({ publicKey: keyMaterial, compressedPublicKey: true });
+    }
+
+    return { keyType: Number(keyType), keyMaterial };
+  }
+
   /**
    * Parses TXT data from a DNS answer to extract key or service information.
    *
@@ -353,4 +577,4 @@ export class DidDht {
       return acc;
     }, {} as { [key: string]: string });
   }
-}
\ No newline at end of file
+}
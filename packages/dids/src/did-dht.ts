@@ -1,31 +1,41 @@
 import type { JwkKeyPair, PublicKeyJwk, Web5Crypto } from '@web5/crypto';
 
 import z32 from 'z32';
-import { EcdsaAlgorithm, EdDsaAlgorithm, Jose } from '@web5/crypto';
+import { EcdhAlgorithm, EcdsaAlgorithm, EdDsaAlgorithm, Jose } from '@web5/crypto';
 
 import type {
   DidMethod,
+  DhtGateway,
   DidService,
+  DhtSignedPacket,
   DidDocument,
   PortableDid,
+  DidDocumentMetadata,
   DidResolutionResult,
   DidResolutionOptions,
   VerificationRelationship,
   DidKeySetVerificationMethodKey,
 } from './types.js';
 
-import { DidDht } from './dht.js';
+import { DidDht, DidDhtRegisteredDidType } from './dht.js';
 import { parseDid } from './utils.js';
 
 const SupportedCryptoKeyTypes = [
   'Ed25519',
-  'secp256k1'
+  'secp256k1',
+  'X25519'
 ] as const;
 
 export type DidDhtCreateOptions = {
+  gateway?: DhtGateway;
   publish?: boolean;
   keySet?: DidDhtKeySet;
   services?: DidService[];
+  types?: DidDhtRegisteredDidType[];
+}
+
+export type DidDhtResolutionOptions = DidResolutionOptions & {
+  gateway?: DhtGateway;
 }
 
 export type DidDhtKeySet = {
@@ -43,11 +53,35 @@ export class DidDhtMethod implements DidMethod {
    * @returns A promise that resolves to a PortableDid object.
    */
   public static async create(options?: DidDhtCreateOptions): Promise<PortableDid> {
-    const { publish, keySet: initialKeySet, services } = options ?? {};
+    const { gateway, publish, keySet: initialKeySet, services, types } = options ?? {};
 
     // Generate missing keys, if not provided in the options.
     const keySet = await this.generateKeySet({ keySet: initialKeySet });
 
+    const document = await this.createDocument({ keySet, services });
+
+    if (publish) {
+      await this.publish({ keySet, didDocument: document, types, gateway });
+    }
+    return {
+      did      : document.id,
+      document : document,
+      keySet   : keySet,
+      ...types && { metadata: { types } }
+    };
+  }
+
+  /**
+   * Creates a DID Document from the given key set and services.
+   * @param options The key set and services to include in the DID Document.
+   * @returns A promise that resolves to a DidDocument object.
+   */
+  public static async createDocument(options: {
+    keySet: DidDhtKeySet,
+    services?: DidService[]
+  }): Promise<DidDocument> {
+    const { keySet, services } = options;
+
     // Get the identifier and set it.
     const id = await this.getDidIdentifier({ key: keySet.identityKey.publicKeyJwk });
 
@@ -62,6 +96,11 @@ export class DidDhtMethod implements DidMethod {
         }
       }
 
+      /**
+       * The did:dht method specification represents every key as a JWK, so
+       * unlike did:key, the `Multikey` verification method format is not
+       * supported for did:dht DIDs.
+       */
       return {
         id           : `${id}#${key.publicKeyJwk.kid}`,
         type         : 'JsonWebKey2020',
@@ -70,25 +109,48 @@ export class DidDhtMethod implements DidMethod {
       };
     });
 
-    // Add DID identifier to the service IDs.
-    services?.map(service => {
-      service.id = `${id}#${service.id}`;
-    });
+    // Add DID identifier to the service IDs, unless already present.
+    const didServices = services?.map(service => ({
+      ...service,
+      id: service.id.startsWith(`${id}#`) ? service.id : `${id}#${service.id}`
+    }));
+
     const document: DidDocument = {
       id,
       verificationMethod: [...verificationMethods],
       ...relationshipsMap,
-      ...services && {service: services}
+      ...didServices && {service: didServices}
     };
 
-    if (publish) {
-      await this.publish({ keySet, didDocument: document });
+    return document;
+  }
+
+  /**
+   * Deactivates a DID by publishing a tombstone that replaces the DID Document on the DHT.
+   * A deactivated DID can no longer be updated.
+   * @param options The key set of the DID, which must include the identity key, and the gateway to publish to.
+   * @returns A promise that resolves to a boolean indicating the success of the operation.
+   */
+  public static async deactivate(options: {
+    keySet: DidDhtKeySet,
+    gateway?: DhtGateway
+  }): Promise<boolean> {
+    const { keySet, gateway } = options;
+
+    if (!keySet.identityKey) {
+      throw new Error('DidDhtMethod: Required parameter missing: identityKey');
     }
-    return {
-      did      : document.id,
-      document : document,
-      keySet   : keySet
-    };
+
+    const did = await this.getDidIdentifier({ key: keySet.identityKey.publicKeyJwk });
+    const seq = await this.getNextSequenceNumber({ did, gateway });
+
+    const isDeactivated = await DidDht.deactivateDidDocument({
+      keyPair: await this.getIdentityKeyPair({ keySet }),
+      seq,
+      gateway
+    });
+
+    return isDeactivated;
   }
 
 
@@ -124,6 +186,15 @@ export class DidDhtMethod implements DidMethod {
         break;
       }
 
+      case 'X25519': {
+        cryptoKeyPair = await new EcdhAlgorithm().generateKey({
+          algorithm   : {name: 'ECDH', namedCurve: 'X25519'},
+          extractable : true,
+          keyUsages   : ['deriveBits', 'deriveKey']
+        });
+        break;
+      }
+
       default: {
         throw new Error(`Unsupported crypto algorithm: '${keyAlgorithm}'`);
       }
@@ -190,6 +261,35 @@ export class DidDhtMethod implements DidMethod {
     return keySet;
   }
 
+  /**
+   * Given the W3C DID Document of a `did:dht` DID, return the identifier of
+   * the verification method key that will be used for signing messages and
+   * credentials, by default.
+   *
+   * @param document = DID Document to get the default signing key from.
+   * @returns Verification method identifier for the default signing key.
+   */
+  public static async getDefaultSigningKey(options: {
+    didDocument: DidDocument
+  }): Promise<string | undefined> {
+    const { didDocument } = options;
+
+    if (didDocument.authentication
+      && Array.isArray(didDocument.authentication)
+      && didDocument.authentication.length > 0
+      && typeof didDocument.authentication[0] === 'string') {
+
+      const [verificationMethodId] = didDocument.authentication;
+
+      // did:dht documents use relative verification relationship references.
+      const signingKeyId = verificationMethodId.startsWith('#')
+        ? `${didDocument.id}${verificationMethodId}`
+        : verificationMethodId;
+
+      return signingKeyId;
+    }
+  }
+
   /**
    * Gets the identifier fragment from a DID.
    * @param options The key to get the identifier fragment from.
@@ -222,21 +322,21 @@ export class DidDhtMethod implements DidMethod {
    * Publishes a DID Document to the DHT.
    * @param keySet The key set to use to sign the DHT payload.
    * @param didDocument The DID Document to publish.
+   * @param types The types of the DID subject, if any.
+   * @param gateway The gateway to publish to; defaults to `DhtGatewayHttp`.
    * @returns A boolean indicating the success of the publishing operation.
    */
-  public static async publish({ didDocument, keySet }: {
+  public static async publish({ didDocument, keySet, types, gateway }: {
     didDocument: DidDocument,
-    keySet: DidDhtKeySet
+    keySet: DidDhtKeySet,
+    types?: DidDhtRegisteredDidType[],
+    gateway?: DhtGateway
   }): Promise<boolean> {
-    const publicCryptoKey = await Jose.jwkToCryptoKey({key: keySet.identityKey.publicKeyJwk});
-    const privateCryptoKey = await Jose.jwkToCryptoKey({key: keySet.identityKey.privateKeyJwk});
-
     const isPublished = await DidDht.publishDidDocument({
-      keyPair: {
-        publicKey  : publicCryptoKey,
-        privateKey : privateCryptoKey
-      },
-      didDocument
+      keyPair: await this.getIdentityKeyPair({ keySet }),
+      didDocument,
+      types,
+      gateway
     });
 
     return isPublished;
@@ -248,13 +348,14 @@ export class DidDhtMethod implements DidMethod {
    * @param options - Configuration for resolving a DID Document.
    * @param options.didUrl - The DID URL to resolve.
    * @param options.resolutionOptions - Optional settings for the DID resolution process as defined in the DID Core specification.
+   * @param options.resolutionOptions.gateway - The gateway to resolve the DID from; defaults to `DhtGatewayHttp`.
    * @returns A Promise that resolves to a `DidResolutionResult`, containing the resolved DID Document and associated metadata.
    */
   public static async resolve(options: {
     didUrl: string,
-    resolutionOptions?: DidResolutionOptions
+    resolutionOptions?: DidDhtResolutionOptions
   }): Promise<DidResolutionResult> {
-    const { didUrl, resolutionOptions: _ } = options;
+    const { didUrl, resolutionOptions } = options;
     // TODO: Implement resolutionOptions as defined in https://www.w3.org/TR/did-core/#did-resolution
 
     const parsedDid = parseDid({ didUrl });
@@ -284,12 +385,61 @@ export class DidDhtMethod implements DidMethod {
       };
     }
 
-    const didDocument = await DidDht.getDidDocument({ did: parsedDid.did });
+    let signedPacket: DhtSignedPacket;
+    try {
+      signedPacket = await DidDht.getSignedPacket({ did: parsedDid.did, gateway: resolutionOptions?.gateway });
+    } catch (error: any) {
+      return {
+        '@context'            : 'https://w3id.org/did-resolution/v1',
+        didDocument           : undefined,
+        didDocumentMetadata   : {},
+        didResolutionMetadata : {
+          contentType  : 'application/did+ld+json',
+          error        : (error.message === 'No packet found') ? 'notFound' : 'internalError',
+          errorMessage : error.message
+        }
+      };
+    }
+
+    const { packet, timestamp } = signedPacket;
+    const deactivated = DidDht.isDeactivated({ packet });
+
+    // The document version is identified by the timestamp, in microseconds, of the signed packet.
+    const didDocumentMetadata: DidDocumentMetadata = {
+      updated   : new Date(Math.floor(timestamp / 1000)).toISOString(),
+      versionId : timestamp.toString()
+    };
+
+    let didDocument: DidDocument;
+    if (deactivated) {
+      didDocumentMetadata.deactivated = true;
+      didDocument = { id: parsedDid.did };
+    } else {
+      // Anyone can publish a packet for a DID they control, so a malformed packet must not reject.
+      try {
+        didDocument = await DidDht.fromDnsPacket({ did: parsedDid.did, packet });
+        const types = DidDht.typesFromDnsPacket({ packet });
+        if (types) {
+          didDocumentMetadata.types = types;
+        }
+      } catch (error: any) {
+        return {
+          '@context'            : 'https://w3id.org/did-resolution/v1',
+          didDocument           : undefined,
+          didDocumentMetadata   : {},
+          didResolutionMetadata : {
+            contentType  : 'application/did+ld+json',
+            error        : 'invalidDidDocument',
+            errorMessage : error.message
+          }
+        };
+      }
+    }
 
     return {
       '@context'            : 'https://w3id.org/did-resolution/v1',
       didDocument,
-      didDocumentMetadata   : {},
+      didDocumentMetadata,
       didResolutionMetadata : {
         contentType : 'application/did+ld+json',
         did         : {
@@ -300,4 +450,96 @@ export class DidDhtMethod implements DidMethod {
       }
     };
   }
-}
\ No newline at end of file
+
+  /**
+   * Updates a DID by publishing a new version of the DID Document to the DHT.
+   * Keys and services are replaced with those given, while the identity key,
+   * and therefore the DID, stays the same.
+   * @param options The key set and services of the new DID Document version, and the gateway to publish to.
+   * @returns A promise that resolves to a PortableDid object.
+   */
+  public static async update(options: {
+    keySet: DidDhtKeySet,
+    services?: DidService[],
+    types?: DidDhtRegisteredDidType[],
+    gateway?: DhtGateway
+  }): Promise<PortableDid> {
+    const { keySet: initialKeySet, services, types, gateway } = options;
+
+    if (!initialKeySet.identityKey) {
+      throw new Error('DidDhtMethod: Required parameter missing: identityKey');
+    }
+
+    // Add the identity key to the verification methods, if missing.
+    const keySet = await this.generateKeySet({ keySet: initialKeySet });
+
+    const document = await this.createDocument({ keySet, services });
+    const seq = await this.getNextSequenceNumber({ did: document.id, gateway });
+
+    const isPublished = await DidDht.publishDidDocument({
+      keyPair     : await this.getIdentityKeyPair({ keySet }),
+      didDocument : document,
+      types,
+      seq,
+      gateway
+    });
+
+    if (!isPublished) {
+      throw new Error(`DidDhtMethod: Failed to publish update: ${document.id}`);
+    }
+
+    return {
+      did      : document.id,
+      document : document,
+      keySet   : keySet,
+      ...types && { metadata: { types } }
+    };
+  }
+
+  /**
+   * Gets the identity key pair of a key set, which is used to sign DHT payloads.
+   * @param options The key set to get the identity key pair from.
+   * @returns A promise that resolves to a CryptoKeyPair object.
+   */
+  private static async getIdentityKeyPair(options: {
+    keySet: DidDhtKeySet
+  }): Promise<Web5Crypto.CryptoKeyPair> {
+    const { keySet } = options;
+
+    const publicCryptoKey = await Jose.jwkToCryptoKey({key: keySet.identityKey.publicKeyJwk});
+    const privateCryptoKey = await Jose.jwkToCryptoKey({key: keySet.identityKey.privateKeyJwk});
+
+    return { publicKey: publicCryptoKey, privateKey: privateCryptoKey };
+  }
+
+  /**
+   * Gets a sequence number for the next version of a DID Document that is
+   * greater than the sequence number of the currently published version.
+   * @param options The DID to get the next sequence number for and the gateway to query.
+   * @returns A promise that resolves to the sequence number, in microseconds.
+   * @throws Error if the DID has been deactivated.
+   */
+  private static async getNextSequenceNumber(options: {
+    did: string,
+    gateway?: DhtGateway
+  }): Promise<number> {
+    const { did, gateway } = options;
+
+    const seq = Date.now() * 1000;
+
+    let signedPacket: DhtSignedPacket;
+    try {
+      signedPacket = await DidDht.getSignedPacket({ did, gateway });
+    } catch (error: any) {
+      // The DID has not been published yet.
+      if (error.message === 'No packet found') return seq;
+      throw error;
+    }
+
+    if (DidDht.isDeactivated({ packet: signedPacket.packet })) {
+      throw new Error(`DidDhtMethod: DID has been deactivated: ${did}`);
+    }
+
+    return Math.max(seq, signedPacket.timestamp + 1);
+  }
+}
@@ -1,13 +1,14 @@
 import type { JwkKeyPair, PrivateKeyJwk, PublicKeyJwk, Web5Crypto } from '@web5/crypto';
-import type { IonDocumentModel, IonPublicKeyModel, JwkEd25519, JwkEs256k } from '@decentralized-identity/ion-sdk';
+import type { IonDocumentModel, IonPublicKeyModel, IonServiceModel, ISigner, JwkEd25519, JwkEs256k } from '@decentralized-identity/ion-sdk';
 
+import { sha256 } from '@noble/hashes/sha256';
 import { Convert, universalTypeOf } from '@web5/common';
 import IonProofOfWork from '@decentralized-identity/ion-pow-sdk';
 // import { IonProofOfWork } from '@decentralized-identity/ion-pow-sdk';
 import { EcdsaAlgorithm, EdDsaAlgorithm, Jose } from '@web5/crypto';
-import { IonDid, IonPublicKeyPurpose, IonRequest } from '@decentralized-identity/ion-sdk';
+import { IonDid, IonPublicKeyPurpose, IonRequest, LocalSigner } from '@decentralized-identity/ion-sdk';
 
-import type { DidDocument, DidKeySetVerificationMethodKey, DidMethod, DidResolutionOptions, DidResolutionResult, DidService, DwnServiceEndpoint, PortableDid } from './types.js';
+import type { DidDocument, DidKeySetVerificationMethodKey, DidMethod, VerificationRelationship, DidResolutionOptions, DidResolutionResult, DidService, DwnServiceEndpoint, PortableDid } from './types.js';
 
 import { getServices, isDwnServiceEndpoint, parseDid } from './utils.js';
 
@@ -15,8 +16,9 @@ export type DidIonAnchorOptions = {
   challengeEnabled?: boolean;
   challengeEndpoint?: string;
   operationsEndpoint?: string;
-  keySet: DidIonKeySet;
-  services: DidService[];
+  keySet?: DidIonKeySet;
+  request?: IonOperationRequestModel;
+  services?: DidService[];
 }
 
 export type DidIonCreateOptions = {
@@ -26,6 +28,15 @@ export type DidIonCreateOptions = {
   services?: DidService[];
 }
 
+export type DidIonResolutionOptions = DidResolutionOptions & {
+  /**
+   * Resolve long-form DIDs locally from the initial state embedded in the
+   * identifier, without contacting an ION node. Defaults to `false`.
+   */
+  offline?: boolean;
+  resolutionEndpoint?: string;
+}
+
 export type DidIonKeySet = {
   recoveryKey?: JwkKeyPair;
   updateKey?: JwkKeyPair;
@@ -57,6 +68,58 @@ export interface IonCreateRequestModel {
   }
 }
 
+/**
+ * Data model representing an ION update operation request.
+ */
+export interface IonUpdateRequestModel {
+  type: OperationType;
+  didSuffix: string;
+  revealValue: string;
+  delta: {
+    updateCommitment: string;
+    patches: {
+      action: string;
+      publicKeys?: IonPublicKeyModel[];
+      ids?: string[];
+      services?: IonServiceModel[];
+    }[];
+  };
+  signedData: string;
+}
+
+/**
+ * Data model representing an ION recover operation request.
+ */
+export interface IonRecoverRequestModel {
+  type: OperationType;
+  didSuffix: string;
+  revealValue: string;
+  delta: {
+    updateCommitment: string;
+    patches: {
+      action: string;
+      document: IonDocumentModel;
+    }[];
+  };
+  signedData: string;
+}
+
+/**
+ * Data model representing an ION deactivate operation request.
+ */
+export interface IonDeactivateRequestModel {
+  type: OperationType;
+  didSuffix: string;
+  revealValue: string;
+  signedData: string;
+}
+
+export type IonOperationRequestModel =
+  | IonCreateRequestModel
+  | IonUpdateRequestModel
+  | IonRecoverRequestModel
+  | IonDeactivateRequestModel;
+
 const SupportedCryptoAlgorithms = [
   'Ed25519',
   'secp256k1'
@@ -76,13 +139,19 @@ export class DidIonMethod implements DidMethod {
   */
   public static methodName = 'ion';
 
-  public static async anchor(options: {
-    services: DidService[],
-    keySet: DidIonKeySet,
-    challengeEnabled?: boolean,
-    challengeEndpoint?: string,
-    operationsEndpoint?: string
-  }): Promise<DidResolutionResult | undefined> {
+  /**
+   * Submits an ION operation request to an ION node. If an operation
+   * `request` is not given, a create request is generated from the given
+   * `keySet` and `services`.
+   *
+   * Update, recover, and deactivate requests can be generated with
+   * {@link DidIonMethod.getIonUpdateRequest}, {@link DidIonMethod.getIonRecoverRequest},
+   * and {@link DidIonMethod.getIonDeactivateRequest}, respectively.
+   *
+   * @param options - The operation request, or key set and services of the DID to create.
+   * @returns The response of the ION node, if the request was accepted.
+   */
+  public static async anchor(options: DidIonAnchorOptions): Promise<DidResolutionResult | undefined> {
     const {
       challengeEnabled = true,
       challengeEndpoint = 'https://beta.ion.msidentity.com/api/v1.0/proof-of-work-challenge',
@@ -91,17 +160,25 @@ export class DidIonMethod implements DidMethod {
       operationsEndpoint = 'https://beta.ion.msidentity.com/api/v1.0/operations'
     } = options;
 
-    // Create ION Document.
-    const ionDocument = await DidIonMethod.createIonDocument({
-      keySet: keySet,
-      services
-    });
+    let { request } = options;
 
-    const createRequest = await DidIonMethod.getIonCreateRequest({
-      ionDocument,
-      recoveryPublicKeyJwk : keySet.recoveryKey.publicKeyJwk,
-      updatePublicKeyJwk   : keySet.updateKey.publicKeyJwk
-    });
+    if (request === undefined) {
+      if (keySet === undefined) {
+        throw new Error(`DidIonMethod: Required parameter missing: 'keySet' or 'request'`);
+      }
+
+      // Create ION Document.
+      const ionDocument = await DidIonMethod.createIonDocument({
+        keySet: keySet,
+        services
+      });
+
+      request = await DidIonMethod.getIonCreateRequest({
+        ionDocument,
+        recoveryPublicKeyJwk : keySet.recoveryKey.publicKeyJwk,
+        updatePublicKeyJwk   : keySet.updateKey.publicKeyJwk
+      });
+    }
 
     let resolutionResult: DidResolutionResult;
 
@@ -109,7 +186,7 @@ export class DidIonMethod implements DidMethod {
       const response = await IonProofOfWork.submitIonRequest(
         challengeEndpoint,
         operationsEndpoint,
-        JSON.stringify(createRequest)
+        JSON.stringify(request)
       );
 
       if (response !== undefined && universalTypeOf(response) === 'String') {
@@ -120,7 +197,7 @@ export class DidIonMethod implements DidMethod {
       const response = await fetch(operationsEndpoint, {
         method  : 'POST',
         mode    : 'cors',
-        body    : JSON.stringify(createRequest),
+        body    : JSON.stringify(request),
         headers : {
           'Content-Type': 'application/json'
         }
@@ -384,6 +461,126 @@ export class DidIonMethod implements DidMethod {
     }
   }
 
+  /**
+   * Generates an ION deactivate operation request for a DID. The request
+   * reveals the current recovery key and is signed with its private key.
+   * Once anchored, the DID can no longer be updated or recovered.
+   *
+   * @param options - The DID to deactivate and its current key set.
+   * @returns The deactivate request, which can be submitted with {@link DidIonMethod.anchor}.
+   */
+  public static async getIonDeactivateRequest(options: {
+    did: string,
+    keySet: DidIonKeySet
+  }): Promise<IonDeactivateRequestModel> {
+    const { did, keySet } = options;
+
+    const deactivateRequest = await IonRequest.createDeactivateRequest({
+      didSuffix         : await DidIonMethod.getDidSuffix({ didUrl: did }),
+      recoveryPublicKey : DidIonMethod.jwkToIonJwk({ key: keySet.recoveryKey.publicKeyJwk }) as JwkEs256k,
+      signer            : DidIonMethod.getIonSigner({ keyPair: keySet.recoveryKey, keyName: 'recoveryKey' })
+    });
+
+    return deactivateRequest as IonDeactivateRequestModel;
+  }
+
+  /**
+   * Generates an ION recover operation request for a DID. The request
+   * replaces the DID document with one constructed from the given
+   * `nextKeySet` and `services`, reveals the current recovery key, and is
+   * signed with its private key.
+   *
+   * Any keys missing from `nextKeySet`, including the next recovery and
+   * update keys, are generated.
+   *
+   * @param options - The DID to recover, its current key set, and the key set and services of the recovered DID.
+   * @returns The recover request and the key set to use for subsequent operations.
+   */
+  public static async getIonRecoverRequest(options: {
+    did: string,
+    keyAlgorithm?: typeof SupportedCryptoAlgorithms[number],
+    keySet: DidIonKeySet,
+    nextKeySet?: DidIonKeySet,
+    services?: DidService[]
+  }): Promise<{ keySet: DidIonKeySet, request: IonRecoverRequestModel }> {
+    const { did, keyAlgorithm, keySet, services = [] } = options;
+
+    const nextKeySet = await DidIonMethod.generateKeySet({ keyAlgorithm, keySet: { ...options.nextKeySet } });
+
+    const ionDocument = await DidIonMethod.createIonDocument({ keySet: nextKeySet, services });
+
+    const recoverRequest = await IonRequest.createRecoverRequest({
+      didSuffix             : await DidIonMethod.getDidSuffix({ didUrl: did }),
+      document              : ionDocument,
+      nextRecoveryPublicKey : DidIonMethod.jwkToIonJwk({ key: nextKeySet.recoveryKey.publicKeyJwk }) as JwkEs256k,
+      nextUpdatePublicKey   : DidIonMethod.jwkToIonJwk({ key: nextKeySet.updateKey.publicKeyJwk }) as JwkEs256k,
+      recoveryPublicKey     : DidIonMethod.jwkToIonJwk({ key: keySet.recoveryKey.publicKeyJwk }) as JwkEs256k,
+      signer                : DidIonMethod.getIonSigner({ keyPair: keySet.recoveryKey, keyName: 'recoveryKey' })
+    });
+
+    return { keySet: nextKeySet, request: recoverRequest as IonRecoverRequestModel };
+  }
+
+  /**
+   * Generates an ION update operation request for a DID. The request
+   * patches the DID document by adding and removing public keys and
+   * services, reveals the current update key, is signed with its private
+   * key, and commits to `nextUpdateKey` for the following update.
+   *
+   * If `nextUpdateKey` is not given, a new secp256k1 key pair is generated.
+   *
+   * @param options - The DID to update, its current key set, and the keys and services to add or remove.
+   * @returns The update request and the key set, reflecting the update, to use for subsequent operations.
+   */
+  public static async getIonUpdateRequest(options: {
+    did: string,
+    idsOfPublicKeysToRemove?: string[],
+    idsOfServicesToRemove?: string[],
+    keySet: DidIonKeySet,
+    nextUpdateKey?: JwkKeyPair,
+    publicKeysToAdd?: DidKeySetVerificationMethodKey[],
+    servicesToAdd?: DidService[]
+  }): Promise<{ keySet: DidIonKeySet, request: IonUpdateRequestModel }> {
+    const {
+      did,
+      idsOfPublicKeysToRemove = [],
+      idsOfServicesToRemove = [],
+      keySet,
+      publicKeysToAdd = [],
+      servicesToAdd = []
+    } = options;
+
+    // Note: ION/Sidetree only supports secp256k1 update keys.
+    const nextUpdateKey = options.nextUpdateKey ?? await DidIonMethod.generateJwkKeyPair({
+      keyAlgorithm: 'secp256k1'
+    });
+
+    const updateRequest = await IonRequest.createUpdateRequest({
+      didSuffix               : await DidIonMethod.getDidSuffix({ didUrl: did }),
+      idsOfPublicKeysToRemove : idsOfPublicKeysToRemove.map(id => DidIonMethod.normalizeIonId({ id })),
+      idsOfServicesToRemove   : idsOfServicesToRemove.map(id => DidIonMethod.normalizeIonId({ id })),
+      nextUpdatePublicKey     : DidIonMethod.jwkToIonJwk({ key: nextUpdateKey.publicKeyJwk }) as JwkEs256k,
+      publicKeysToAdd         : publicKeysToAdd.map(key => DidIonMethod.toIonPublicKey({ key })),
+      servicesToAdd           : servicesToAdd.map(service => DidIonMethod.toIonService({ service })),
+      signer                  : DidIonMethod.getIonSigner({ keyPair: keySet.updateKey, keyName: 'updateKey' }),
+      updatePublicKey         : DidIonMethod.jwkToIonJwk({ key: keySet.updateKey.publicKeyJwk }) as JwkEs256k
+    });
+
+    // Reflect the rotated update key and the added and removed public keys in the key set.
+    const removedKeyIds = idsOfPublicKeysToRemove.map(id => DidIonMethod.normalizeIonId({ id }));
+    const verificationMethodKeys = (keySet.verificationMethodKeys ?? []).filter(key =>
+      !removedKeyIds.includes(DidIonMethod.normalizeIonId({ id: key.publicKeyJwk.kid }))
+    );
+
+    const nextKeySet: DidIonKeySet = {
+      ...keySet,
+      updateKey              : nextUpdateKey,
+      verificationMethodKeys : [...verificationMethodKeys, ...publicKeysToAdd]
+    };
+
+    return { keySet: nextKeySet, request: updateRequest as IonUpdateRequestModel };
+  }
+
   public static async getLongFormDid(options: {
     services: DidService[],
     keySet: DidIonKeySet
@@ -426,9 +623,24 @@ export class DidIonMethod implements DidMethod {
     return shortFormDid;
   }
 
+  /**
+   * Resolves a `did:ion` DID by querying an ION node.
+   *
+   * Long-form DIDs embed the initial state of the DID document, so they are
+   * resolved locally if `offline` resolution is requested or the ION node
+   * cannot be reached or fails. Locally resolved documents reflect the initial
+   * state of the DID and do not include any operations anchored since, so they
+   * are reported as unpublished. Short-form DIDs can only be resolved by an
+   * ION node.
+   *
+   * @param options - The DID to resolve and optional resolution options.
+   * @param options.resolutionOptions.offline - Whether to resolve long-form DIDs without contacting an ION node.
+   * @param options.resolutionOptions.resolutionEndpoint - The ION node to resolve the DID from.
+   * @returns A Promise that resolves to a `DidResolutionResult`.
+   */
   public static async resolve(options: {
     didUrl: string,
-    resolutionOptions?: DidResolutionOptions
+    resolutionOptions?: DidIonResolutionOptions
   }): Promise<DidResolutionResult> {
     // TODO: Implement resolutionOptions as defined in https://www.w3.org/TR/did-core/#did-resolution
     const { didUrl, resolutionOptions = {} } = options;
@@ -460,11 +672,45 @@ export class DidIonMethod implements DidMethod {
       };
     }
 
-    const { resolutionEndpoint = 'https://discover.did.msidentity.com/1.0/identifiers/' } = resolutionOptions;
+    const {
+      offline = false,
+      resolutionEndpoint = 'https://discover.did.msidentity.com/1.0/identifiers/'
+    } = resolutionOptions;
+
+    if (offline) {
+      return await DidIonMethod.resolveLongFormDid({ did: parsedDid.did });
+    }
+
     const normalizeUrl = (url: string): string => url.endsWith('/') ? url : url + '/';
     const resolutionUrl = `${normalizeUrl(resolutionEndpoint)}${parsedDid.did}`;
 
-    const response = await fetch(resolutionUrl);
+    const isLongFormDid = parsedDid.did !== await DidIonMethod.getShortFormDid({ didUrl: parsedDid.did });
+
+    let response: Response;
+    try {
+      response = await fetch(resolutionUrl);
+    } catch (error: any) {
+      // If the ION node cannot be reached, fall back to resolving long-form DIDs locally.
+      if (isLongFormDid) {
+        return await DidIonMethod.resolveLongFormDid({ did: parsedDid.did });
+      }
+
+      return {
+        '@context'            : 'https://w3id.org/did-resolution/v1',
+        didDocument           : undefined,
+        didDocumentMetadata   : {},
+        didResolutionMetadata : {
+          contentType  : 'application/did+ld+json',
+          error        : 'internalError',
+          errorMessage : `Unable to reach DID resolver: ${error.message}`
+        }
+      };
+    }
+
+    // If the ION node fails, also fall back to resolving long-form DIDs locally.
+    if (response.status >= 500 && isLongFormDid) {
+      return await DidIonMethod.resolveLongFormDid({ did: parsedDid.did });
+    }
 
     let resolutionResult: DidResolutionResult | object;
     try {
@@ -512,6 +758,103 @@ export class DidIonMethod implements DidMethod {
     };
   }
 
+  /**
+   * Applies the patches of an ION operation to an empty document, in order,
+   * to compute the resulting state of the DID document.
+   */
+  private static applyIonPatches(options: {
+    patches: {
+      action: string,
+      document?: IonDocumentModel,
+      ids?: string[],
+      publicKeys?: IonPublicKeyModel[],
+      services?: IonServiceModel[]
+    }[]
+  }): IonDocumentModel {
+    const { patches } = options;
+
+    let publicKeys: IonPublicKeyModel[] = [];
+    let services: IonServiceModel[] = [];
+
+    for (const patch of patches) {
+      switch (patch.action) {
+        case 'replace': {
+          publicKeys = patch.document.publicKeys ?? [];
+          services = patch.document.services ?? [];
+          break;
+        }
+
+        case 'add-public-keys': {
+          const ids = patch.publicKeys.map(key => key.id);
+          publicKeys = [...publicKeys.filter(key => !ids.includes(key.id)), ...patch.publicKeys];
+          break;
+        }
+
+        case 'remove-public-keys': {
+          publicKeys = publicKeys.filter(key => !patch.ids.includes(key.id));
+          break;
+        }
+
+        case 'add-services': {
+          const ids = patch.services.map(service => service.id);
+          services = [...services.filter(service => !ids.includes(service.id)), ...patch.services];
+          break;
+        }
+
+        case 'remove-services': {
+          services = services.filter(service => !patch.ids.includes(service.id));
+          break;
+        }
+
+        default: {
+          throw new Error(`Unsupported patch action: '${patch.action}'`);
+        }
+      }
+    }
+
+    return { publicKeys, services };
+  }
+
+  /**
+   * Converts an ION document to a W3C DID document in the same format
+   * returned by ION nodes, with key and service IDs as relative DID URLs.
+   */
+  private static createDidDocument(options: {
+    did: string,
+    ionDocument: IonDocumentModel
+  }): DidDocument {
+    const { did, ionDocument } = options;
+
+    const didDocument: DidDocument = {
+      '@context' : ['https://www.w3.org/ns/did/v1', { '@base': did }],
+      id         : did,
+      service    : (ionDocument.services ?? []).map(service => ({
+        ...service,
+        id: `#${service.id}`
+      } as DidService))
+    };
+
+    for (const publicKey of ionDocument.publicKeys ?? []) {
+      const methodId = `#${publicKey.id}`;
+
+      didDocument.verificationMethod ??= [];
+      didDocument.verificationMethod.push({
+        id           : methodId,
+        type         : publicKey.type,
+        controller   : did,
+        publicKeyJwk : publicKey.publicKeyJwk as PublicKeyJwk
+      });
+
+      // ION public key purposes share the names of W3C DID verification relationships.
+      for (const purpose of publicKey.purposes ?? []) {
+        const relationship = purpose as VerificationRelationship;
+        didDocument[relationship] = [...(didDocument[relationship] as string[] ?? []), methodId];
+      }
+    }
+
+    return didDocument;
+  }
+
   private static async createIonDocument(options: {
     keySet: DidIonKeySet,
     services?: DidService[]
@@ -522,46 +865,12 @@ export class DidIonMethod implements DidMethod {
      * STEP 1: Convert key set verification method keys to ION SDK format.
      */
 
-    const ionPublicKeys: IonPublicKeyModel[] = [];
-
-    for (const key of keySet.verificationMethodKeys) {
-      // Map W3C DID verification relationship names to ION public key purposes.
-      const ionPurposes: IonPublicKeyPurpose[] = [];
-      for (const relationship of key.relationships) {
-        ionPurposes.push(
-          VerificationRelationshipToIonPublicKeyPurpose[relationship]
-        );
-      }
-
-      /** During certain ION operations, JWK validation will throw an error
-       * if key IDs provided as input are prefixed with `#`. ION operation
-       * outputs and DID document resolution always include the `#` prefix
-       * for key IDs resulting in a confusing mismatch between inputs and
-       * outputs.  To improve the developer experience, this inconsistency
-       * is addressed by normalizing input key IDs before being passed
-       * to ION SDK methods. */
-      const publicKeyId = (key.publicKeyJwk.kid.startsWith('#'))
-        ? key.publicKeyJwk.kid.substring(1)
-        : key.publicKeyJwk.kid;
-
-      // Convert public key JWK to ION format.
-      const publicKey: IonPublicKeyModel = {
-        id           : publicKeyId,
-        publicKeyJwk : DidIonMethod.jwkToIonJwk({ key: key.publicKeyJwk }),
-        purposes     : ionPurposes,
-        type         : 'JsonWebKey2020'
-      };
-
-      ionPublicKeys.push(publicKey);
-    }
+    const ionPublicKeys = keySet.verificationMethodKeys.map(key => DidIonMethod.toIonPublicKey({ key }));
 
     /**
      * STEP 2: Convert service entries, if any, to ION SDK format.
      */
-    const ionServices = services.map(service => ({
-      ...service,
-      id: service.id.startsWith('#') ? service.id.substring(1) : service.id
-    }));
+    const ionServices = services.map(service => DidIonMethod.toIonService({ service }));
 
     /**
      * STEP 3: Format as ION document.
@@ -592,6 +901,33 @@ export class DidIonMethod implements DidMethod {
     return createRequest;
   }
 
+  private static async getDidSuffix(options: {
+    didUrl: string
+  }): Promise<string> {
+    const { didUrl } = options;
+
+    const shortFormDid = await DidIonMethod.getShortFormDid({ didUrl });
+
+    return shortFormDid.split(':').pop();
+  }
+
+  /**
+   * Returns a signer for ION operation requests that signs with the private
+   * key of the given update or recovery key pair.
+   */
+  private static getIonSigner(options: {
+    keyPair?: JwkKeyPair,
+    keyName: 'recoveryKey' | 'updateKey'
+  }): ISigner {
+    const { keyPair, keyName } = options;
+
+    if (keyPair?.privateKeyJwk === undefined) {
+      throw new Error(`DidIonMethod: Required parameter missing: '${keyName}' private key`);
+    }
+
+    return LocalSigner.create(DidIonMethod.jwkToIonJwk({ key: keyPair.privateKeyJwk }) as JwkEs256k);
+  }
+
   private static jwkToIonJwk({ key }: { key: PrivateKeyJwk | PublicKeyJwk }): JwkEd25519 | JwkEs256k {
     let ionJwk: Partial<JwkEd25519 | JwkEs256k> = { };
 
@@ -611,4 +947,156 @@ export class DidIonMethod implements DidMethod {
 
     throw new Error(`jwkToIonJwk: Unsupported key algorithm.`);
   }
-}
\ No newline at end of file
+
+  /**
+   * During certain ION operations, JWK validation will throw an error if
+   * key IDs provided as input are prefixed with `#`. ION operation outputs
+   * and DID document resolution always include the `#` prefix for key IDs
+   * resulting in a confusing mismatch between inputs and outputs.  To
+   * improve the developer experience, this inconsistency is addressed by
+   * normalizing input key and service IDs before being passed to ION SDK
+   * methods.
+   */
+  private static normalizeIonId({ id }: { id: string }): string {
+    return id.startsWith('#') ? id.substring(1) : id;
+  }
+
+  /**
+   * Resolves a long-form DID locally from the initial state embedded in the
+   * identifier, after verifying that the initial state matches the DID suffix.
+   */
+  private static async resolveLongFormDid(options: {
+    did: string
+  }): Promise<DidResolutionResult> {
+    const { did } = options;
+
+    const shortFormDid = await DidIonMethod.getShortFormDid({ didUrl: did });
+
+    if (did === shortFormDid) {
+      return {
+        '@context'            : 'https://w3id.org/did-resolution/v1',
+        didDocument           : undefined,
+        didDocumentMetadata   : {},
+        didResolutionMetadata : {
+          contentType  : 'application/did+ld+json',
+          error        : 'notFound',
+          errorMessage : `Short-form DIDs can only be resolved by an ION node, which requires network access: ${did}`
+        }
+      };
+    }
+
+    let createRequest: IonCreateRequestModel;
+    let ionDocument: IonDocumentModel;
+
+    try {
+      createRequest = await DidIonMethod.decodeLongFormDid({ didUrl: did });
+      const { delta, suffixData } = createRequest;
+
+      /** The DID suffix is the hash of the suffix data, which in turn
+       * includes the hash of the delta containing the initial document. */
+      const didSuffix = DidIonMethod.canonicalizeThenHashThenEncode({ content: suffixData });
+      const deltaHash = DidIonMethod.canonicalizeThenHashThenEncode({ content: delta });
+
+      if (didSuffix !== await DidIonMethod.getDidSuffix({ didUrl: did }) || deltaHash !== suffixData.deltaHash) {
+        throw new Error('Initial state does not match the DID suffix');
+      }
+
+      ionDocument = DidIonMethod.applyIonPatches({ patches: delta.patches });
+
+    } catch (error: any) {
+      return {
+        '@context'            : 'https://w3id.org/did-resolution/v1',
+        didDocument           : undefined,
+        didDocumentMetadata   : {},
+        didResolutionMetadata : {
+          contentType  : 'application/did+ld+json',
+          error        : 'invalidDid',
+          errorMessage : `Invalid long-form DID: ${error.message}`
+        }
+      };
+    }
+
+    return {
+      '@context'          : 'https://w3id.org/did-resolution/v1',
+      didDocument         : DidIonMethod.createDidDocument({ did, ionDocument }),
+      // The DID is not known to be published, so it has no canonical ID yet.
+      didDocumentMetadata : {
+        equivalentId : [shortFormDid],
+        method       : {
+          published          : false,
+          recoveryCommitment : createRequest.suffixData.recoveryCommitment,
+          updateCommitment   : createRequest.delta.updateCommitment
+        }
+      },
+      didResolutionMetadata: {
+        contentType: 'application/did+ld+json'
+      }
+    };
+  }
+
+  /**
+   * Serializes a JSON value as specified by the JSON Canonicalization Scheme
+   * (RFC 8785): object members are sorted by key, and strings and numbers are
+   * serialized as by `JSON.stringify()`.
+   */
+  private static canonicalize({ value }: { value: any }): string {
+    if (Array.isArray(value)) {
+      return `[${value.map(item => DidIonMethod.canonicalize({ value: item })).join(',')}]`;
+    }
+
+    if (value !== null && typeof value === 'object') {
+      const members = Object.keys(value)
+        .filter(key => value[key] !== undefined)
+        .sort()
+        .map(key => `${JSON.stringify(key)}:${DidIonMethod.canonicalize({ value: value[key] })}`);
+
+      return `{${members.join(',')}}`;
+    }
+
+    return JSON.stringify(value);
+  }
+
+  /**
+   * Hashes the JSON canonicalization (RFC 8785) of the given content with
+   * SHA-256 and returns the base64url encoding of the multihash, as ION does
+   * for DID suffixes and delta hashes.
+   */
+  private static canonicalizeThenHashThenEncode({ content }: { content: object }): string {
+    const canonicalBytes = Convert.string(DidIonMethod.canonicalize({ value: content })).toUint8Array();
+    const digest = sha256(canonicalBytes);
+
+    // Multihash prefix: the code of SHA-256 (0x12) and the length of the digest.
+    const multihash = new Uint8Array(2 + digest.length);
+    multihash.set([0x12, digest.length]);
+    multihash.set(digest, 2);
+
+    return Convert.uint8Array(multihash).toBase64Url();
+  }
+
+  private static toIonPublicKey({ key }: { key: DidKeySetVerificationMethodKey }): IonPublicKeyModel {
+    // Map W3C DID verification relationship names to ION public key purposes.
+    const ionPurposes: IonPublicKeyPurpose[] = [];
+    for (const relationship of key.relationships) {
+      ionPurposes.push(
+        VerificationRelationshipToIonPublicKeyPurpose[relationship]
+      );
+    }
+
+    // Convert public key JWK to ION format.
+    const publicKey: IonPublicKeyModel = {
+      id           : DidIonMethod.normalizeIonId({ id: key.publicKeyJwk.kid }),
+      publicKeyJwk : DidIonMethod.jwkToIonJwk({ key: key.publicKeyJwk }),
+      purposes     : ionPurposes,
+      type         : 'JsonWebKey2020'
+    };
+
+    return publicKey;
+  }
+
+  private static toIonService({ service }: { service: DidService }): IonServiceModel {
+    return {
+      ...service,
+      id: DidIonMethod.normalizeIonId({ id: service.id })
+    } as IonServiceModel;
+  }
+}
@@ -0,0 +1,334 @@
+import type { JwkKeyPair, PublicKeyJwk, Web5Crypto } from '@web5/crypto';
+
+import { Convert } from '@web5/common';
+import { EcdhAlgorithm, EcdsaAlgorithm, EdDsaAlgorithm, Jose } from '@web5/crypto';
+
+import type {
+  DidMethod,
+  DidDocument,
+  PortableDid,
+  DidResolutionResult,
+  DidResolutionOptions,
+  VerificationRelationship,
+  DidKeySetVerificationMethodKey,
+} from './types.js';
+
+import { parseDid } from './utils.js';
+
+const SupportedCryptoAlgorithms = [
+  'Ed25519',
+  'secp256k1',
+  'X25519'
+] as const;
+
+/**
+ * Public JWK members that are encoded in a did:jwk identifier. All other
+ * members (e.g., `ext`, `key_ops`, `kid`) are specific to the local key
+ * store and are omitted so that the identifier only depends on the key.
+ */
+const PUBLIC_KEY_JWK_MEMBERS = ['alg', 'crv', 'e', 'kty', 'n', 'use', 'x', 'y'] as const;
+
+const SIGNATURE_RELATIONSHIPS: VerificationRelationship[] = [
+  'assertionMethod',
+  'authentication',
+  'capabilityInvocation',
+  'capabilityDelegation'
+];
+
+export type DidJwkCreateOptions = {
+  keyAlgorithm?: typeof SupportedCryptoAlgorithms[number];
+  keySet?: DidJwkKeySet;
+}
+
+export type DidJwkKeySet = {
+  verificationMethodKeys?: DidKeySetVerificationMethodKey[];
+}
+
+export class DidJwkMethod implements DidMethod {
+  /**
+   * Name of the DID method
+  */
+  public static methodName = 'jwk';
+
+  /**
+   * Creates a new `did:jwk` DID by base64url encoding the public key of the
+   * first verification method key in the given or generated key set.
+   *
+   * @param options - The options to use when creating the DID.
+   * @returns A promise that resolves to a PortableDid object.
+   */
+  public static async create(options?: DidJwkCreateOptions): Promise<PortableDid> {
+    let { keyAlgorithm, keySet } = options ?? {};
+
+    // If keySet not given, generate a default key set.
+    if (keySet === undefined) {
+      keySet = await DidJwkMethod.generateKeySet({ keyAlgorithm });
+    }
+
+    const publicKeyJwk = keySet.verificationMethodKeys?.[0]?.publicKeyJwk;
+    if (!publicKeyJwk) {
+      throw new Error('DidJwkMethod: Failed to create DID with given input.');
+    }
+
+    // Encode the public key as the method specific identifier.
+    const methodSpecificId = Convert.object(DidJwkMethod.toPublicJwk({ key: publicKeyJwk })).toBase64Url();
+    const did = `did:jwk:${methodSpecificId}`;
+
+    // Expand the DID identifier to a DID document.
+    const document = await DidJwkMethod.createDocument({ did });
+
+    return { did, document, keySet };
+  }
+
+  /**
+   * Expands a did:jwk identifier to a DID Document.
+   *
+   * Reference: https://github.com/quartzjer/did-jwk/blob/main/spec.md#to-create-the-did-url
+   *
+   * @param options - The DID to expand.
+   * @returns - A DID document.
+   * @throws Error if the identifier does not encode a valid public JWK.
+   */
+  public static async createDocument(options: {
+    did: string
+  }): Promise<DidDocument> {
+    const { did } = options;
+
+    const parsedDid = parseDid({ didUrl: did });
+    if (!parsedDid || parsedDid.method !== 'jwk') {
+      throw new Error(`invalidDid: Unknown format: ${did}`);
+    }
+
+    let publicKeyJwk: PublicKeyJwk;
+    try {
+      publicKeyJwk = Convert.base64Url(parsedDid.id).toObject() as PublicKeyJwk;
+    } catch (error: any) {
+      throw new Error(`invalidDid: Identifier is not a base64url encoded JWK: ${did}`);
+    }
+
+    if (typeof publicKeyJwk !== 'object' || publicKeyJwk === null || !('kty' in publicKeyJwk)) {
+      throw new Error(`invalidDid: Identifier is not a base64url encoded JWK: ${did}`);
+    }
+
+    // A did:jwk identifier must never contain private key material.
+    if ('d' in publicKeyJwk) {
+      throw new Error(`invalidDid: Identifier must not contain a private key: ${did}`);
+    }
+
+    const verificationMethodId = `${parsedDid.did}#0`;
+
+    const document: DidDocument = {
+      '@context'         : ['https://www.w3.org/ns/did/v1', 'https://w3id.org/security/suites/jws-2020/v1'],
+      id                 : parsedDid.did,
+      verificationMethod : [{
+        id         : verificationMethodId,
+        type       : 'JsonWebKey2020',
+        controller : parsedDid.did,
+        publicKeyJwk
+      }]
+    };
+
+    /** The JWK `use` parameter determines the verification relationships.
+     * Keys intended only for encryption are limited to `keyAgreement`, keys
+     * intended only for signing exclude `keyAgreement`, and keys without a
+     * `use` parameter are included in all relationships. */
+    for (const relationship of DidJwkMethod.getVerificationRelationships({ key: publicKeyJwk })) {
+      document[relationship] = [verificationMethodId];
+    }
+
+    return document;
+  }
+
+  public static async generateJwkKeyPair(options: {
+    keyAlgorithm: typeof SupportedCryptoAlgorithms[number],
+    keyId?: string
+  }): Promise<JwkKeyPair> {
+    const { keyAlgorithm, keyId } = options;
+
+    let cryptoKeyPair: Web5Crypto.CryptoKeyPair;
+
+    switch (keyAlgorithm) {
+      case 'Ed25519': {
+        cryptoKeyPair = await new EdDsaAlgorithm().generateKey({
+          algorithm   : { name: 'EdDSA', namedCurve: 'Ed25519' },
+          extractable : true,
+          keyUsages   : ['sign', 'verify']
+        });
+        break;
+      }
+
+      case 'secp256k1': {
+        cryptoKeyPair = await new EcdsaAlgorithm().generateKey({
+          algorithm   : { name: 'ECDSA', namedCurve: 'secp256k1' },
+          extractable : true,
+          keyUsages   : ['sign', 'verify']
+        });
+        break;
+      }
+
+      case 'X25519': {
+        cryptoKeyPair = await new EcdhAlgorithm().generateKey({
+          algorithm   : { name: 'ECDH', namedCurve: 'X25519' },
+          extractable : true,
+          keyUsages   : ['deriveBits', 'deriveKey']
+        });
+        break;
+      }
+
+      default: {
+        throw new Error(`Unsupported crypto algorithm: '${keyAlgorithm}'`);
+      }
+    }
+
+    // Convert the CryptoKeyPair to JwkKeyPair.
+    const jwkKeyPair = await Jose.cryptoKeyToJwkPair({ keyPair: cryptoKeyPair });
+
+    // X25519 keys can only be used for key agreement.
+    if (keyAlgorithm === 'X25519') {
+      jwkKeyPair.privateKeyJwk.use = 'enc';
+      jwkKeyPair.publicKeyJwk.use = 'enc';
+    }
+
+    // Set kid values.
+    if (keyId) {
+      jwkKeyPair.privateKeyJwk.kid = keyId;
+      jwkKeyPair.publicKeyJwk.kid = keyId;
+    } else {
+      // If a key ID is not specified, generate RFC 7638 JWK thumbprint.
+      const jwkThumbprint = await Jose.jwkThumbprint({ key: jwkKeyPair.publicKeyJwk });
+      jwkKeyPair.privateKeyJwk.kid = jwkThumbprint;
+      jwkKeyPair.publicKeyJwk.kid = jwkThumbprint;
+    }
+
+    return jwkKeyPair;
+  }
+
+  public static async generateKeySet(options?: {
+    keyAlgorithm?: typeof SupportedCryptoAlgorithms[number]
+  }): Promise<DidJwkKeySet> {
+    // Generate Ed25519 keys, by default.
+    const { keyAlgorithm = 'Ed25519' } = options ?? {};
+
+    const keyPair = await DidJwkMethod.generateJwkKeyPair({ keyAlgorithm });
+
+    const keySet: DidJwkKeySet = {
+      verificationMethodKeys: [{
+        ...keyPair,
+        relationships: DidJwkMethod.getVerificationRelationships({ key: keyPair.publicKeyJwk })
+      }]
+    };
+
+    return keySet;
+  }
+
+  /**
+   * Given the W3C DID Document of a `did:jwk` DID, return the identifier of
+   * the verification method key that will be used for signing messages and
+   * credentials, by default.
+   *
+   * @param document = DID Document to get the default signing key from.
+   * @returns Verification method identifier for the default signing key.
+   */
+  public static async getDefaultSigningKey(options: {
+    didDocument: DidDocument
+  }): Promise<string | undefined> {
+    const { didDocument } = options;
+
+    if (didDocument.authentication
+      && Array.isArray(didDocument.authentication)
+      && didDocument.authentication.length > 0
+      && typeof didDocument.authentication[0] === 'string') {
+
+      const [verificationMethodId] = didDocument.authentication;
+      const signingKeyId = verificationMethodId;
+
+      return signingKeyId;
+    }
+  }
+
+  public static async resolve(options: {
+    didUrl: string,
+    resolutionOptions?: DidResolutionOptions
+  }): Promise<DidResolutionResult> {
+    const { didUrl, resolutionOptions: _ } = options;
+
+    const parsedDid = parseDid({ didUrl });
+    if (!parsedDid) {
+      return {
+        '@context'            : 'https://w3id.org/did-resolution/v1',
+        didDocument           : undefined,
+        didDocumentMetadata   : {},
+        didResolutionMetadata : {
+          contentType  : 'application/did+ld+json',
+          error        : 'invalidDid',
+          errorMessage : `Cannot parse DID: ${didUrl}`
+        }
+      };
+    }
+
+    if (parsedDid.method !== 'jwk') {
+      return {
+        '@context'            : 'https://w3id.org/did-resolution/v1',
+        didDocument           : undefined,
+        didDocumentMetadata   : {},
+        didResolutionMetadata : {
+          contentType  : 'application/did+ld+json',
+          error        : 'methodNotSupported',
+          errorMessage : `Method not supported: ${parsedDid.method}`
+        }
+      };
+    }
+
+    let didDocument: DidDocument;
+    try {
+      didDocument = await DidJwkMethod.createDocument({ did: parsedDid.did });
+    } catch (error: any) {
+      return {
+        '@context'            : 'https://w3id.org/did-resolution/v1',
+        didDocument           : undefined,
+        didDocumentMetadata   : {},
+        didResolutionMetadata : {
+          contentType  : 'application/did+ld+json',
+          error        : 'invalidDid',
+          errorMessage : error.message
+        }
+      };
+    }
+
+    return {
+      '@context'            : 'https://w3id.org/did-resolution/v1',
+      didDocument,
+      didDocumentMetadata   : {},
+      didResolutionMetadata : {
+        contentType : 'application/did+ld+json',
+        did         : {
+          didString        : parsedDid.did,
+          methodSpecificId : parsedDid.id,
+          method           : parsedDid.method
+        }
+      }
+    };
+  }
+
+  private static getVerificationRelationships({ key }: { key: PublicKeyJwk }): VerificationRelationship[] {
+    switch (key.use) {
+      case 'enc':
+        return ['keyAgreement'];
+      case 'sig':
+        return [...SIGNATURE_RELATIONSHIPS];
+      default:
+        return [...SIGNATURE_RELATIONSHIPS, 'keyAgreement'];
+    }
+  }
+
+  private static toPublicJwk({ key }: { key: PublicKeyJwk }): PublicKeyJwk {
+    const publicKeyJwk: Record<string, unknown> = {};
+    for (const member of PUBLIC_KEY_JWK_MEMBERS) {
+      if (member in key && (key as Record<string, unknown>)[member] !== undefined) {
+        publicKeyJwk[member] = (key as Record<string, unknown>)[member];
+      }
+    }
+
+    return publicKeyJwk as PublicKeyJwk;
+  }
+}
@@ -5,6 +5,8 @@ import {
   Jose,
   Ed25519,
   Secp256k1,
+  Secp256r1,
+  Secp384r1,
   EcdsaAlgorithm,
   EdDsaAlgorithm,
   utils as cryptoUtils,
@@ -24,18 +26,22 @@ import { getVerificationMethodTypes, parseDid } from './utils.js';
 
 const SupportedCryptoAlgorithms = [
   'Ed25519',
-  'secp256k1'
+  'secp256k1',
+  'P-256',
+  'P-384'
 ] as const;
 
 const SupportedPublicKeyFormats = [
   'Ed25519VerificationKey2020',
   'JsonWebKey2020',
+  'Multikey',
   'X25519KeyAgreementKey2020'
 ];
 
 const VERIFICATION_METHOD_TYPES: Record<string, string> = {
   'Ed25519VerificationKey2020' : 'https://w3id.org/security/suites/ed25519-2020/v1',
   'JsonWebKey2020'             : 'https://w3id.org/security/suites/jws-2020/v1',
+  'Multikey'                   : 'https://w3id.org/security/multikey/v1',
   'X25519KeyAgreementKey2020'  : 'https://w3id.org/security/suites/x25519-2020/v1',
 } as const;
 
@@ -49,7 +55,13 @@ const MULTICODEC_PUBLIC_KEY_LENGTH: Record<number, number> = {
   0xec: 32,
 
   // ed25519-pub - Ed25519 public key - 32 bytes
-  0xed: 32
+  0xed: 32,
+
+  // p256-pub - P-256 public key (compressed) - 33 bytes
+  0x1200: 33,
+
+  // p384-pub - P-384 public key (compressed) - 49 bytes
+  0x1201: 49
 };
 
 export type DidKeyCreateOptions = {
@@ -234,12 +246,13 @@ export class DidKeyMethod implements DidMethod {
        * Although not covered by the did:key method specification, a sensible
        * default will be taken to use the 'X25519KeyAgreementKey2020'
        * verification method type if the given publicKeyFormat is
-       * 'Ed25519VerificationKey2020' and 'JsonWebKey2020' otherwise.
+       * 'Ed25519VerificationKey2020', 'Multikey' if the given publicKeyFormat
+       * is 'Multikey', and 'JsonWebKey2020' otherwise.
        */
       const encryptionPublicKeyFormat =
-        (publicKeyFormat === 'Ed25519VerificationKey2020')
-          ? 'X25519KeyAgreementKey2020'
-          : 'JsonWebKey2020';
+        (publicKeyFormat === 'Ed25519VerificationKey2020') ? 'X25519KeyAgreementKey2020'
+          : (publicKeyFormat === 'Multikey') ? 'Multikey'
+            : 'JsonWebKey2020';
 
       /**
        * 8.1 Initialize the encryptionVerificationMethod to the result of
@@ -396,11 +409,8 @@ export class DidKeyMethod implements DidMethod {
     /**
      * 11. If publicKeyFormat is Multikey or X25519KeyAgreementKey2020,
      * set the verificationMethod.publicKeyMultibase value to multibaseValue.
-     *
-     * Note: This implementation does not currently support the Multikey
-     *       format.
      */
-    if (publicKeyFormat === 'X25519KeyAgreementKey2020') {
+    if (publicKeyFormat === 'Multikey' || publicKeyFormat === 'X25519KeyAgreementKey2020') {
       verificationMethod.publicKeyMultibase = kemMultibaseValue;
     }
 
@@ -547,6 +557,12 @@ export class DidKeyMethod implements DidMethod {
       case 'ed25519-pub':
         isValid = await Ed25519.validatePublicKey({ key: rawPublicKeyBytes });
         break;
+      case 'p256-pub':
+        isValid = await Secp256r1.validatePublicKey({ key: rawPublicKeyBytes });
+        break;
+      case 'p384-pub':
+        isValid = await Secp384r1.validatePublicKey({ key: rawPublicKeyBytes });
+        break;
       case 'x25519-pub':
         // TODO: Validate key once/if X25519.validatePublicKey() is implemented.
         // isValid = X25519.validatePublicKey({ key: rawPublicKeyBytes})
@@ -608,11 +624,8 @@ export class DidKeyMethod implements DidMethod {
     /**
      * 11. If publicKeyFormat is Multikey or Ed25519VerificationKey2020,
      * set the verificationMethod.publicKeyMultibase value to multibaseValue.
-     *
-     * Note: This implementation does not currently support the Multikey
-     *       format.
      */
-    if (publicKeyFormat === 'Ed25519VerificationKey2020') {
+    if (publicKeyFormat === 'Multikey' || publicKeyFormat === 'Ed25519VerificationKey2020') {
       verificationMethod.publicKeyMultibase = multibaseValue;
     }
 
@@ -667,6 +680,16 @@ export class DidKeyMethod implements DidMethod {
         break;
       }
 
+      case 'P-256':
+      case 'P-384': {
+        keyPair = await new EcdsaAlgorithm().generateKey({
+          algorithm   : { name: 'ECDSA', namedCurve: keyAlgorithm },
+          extractable : true,
+          keyUsages   : ['sign', 'verify']
+        });
+        break;
+      }
+
       default: {
         throw new Error(`Unsupported crypto algorithm: '${keyAlgorithm}'`);
       }
@@ -0,0 +1,547 @@
+import type { JwkKeyPair, PublicKeyJwk, Web5Crypto } from '@web5/crypto';
+
+import { Convert } from '@web5/common';
+import {
+  Jose,
+  EcdhAlgorithm,
+  EcdsaAlgorithm,
+  EdDsaAlgorithm,
+  utils as cryptoUtils,
+} from '@web5/crypto';
+
+import type {
+  DidMethod,
+  DidService,
+  DidDocument,
+  PortableDid,
+  VerificationMethod,
+  DidResolutionResult,
+  DidResolutionOptions,
+  VerificationRelationship,
+  DidKeySetVerificationMethodKey,
+} from './types.js';
+
+import { parseDid } from './utils.js';
+
+const SupportedCryptoAlgorithms = [
+  'Ed25519',
+  'secp256k1'
+] as const;
+
+const SupportedNumalgos = [0, 2] as const;
+
+const SIGNATURE_RELATIONSHIPS: VerificationRelationship[] = [
+  'authentication',
+  'assertionMethod',
+  'capabilityInvocation',
+  'capabilityDelegation'
+];
+
+/**
+ * Purpose codes used to prefix each element of a numalgo 2 identifier.
+ *
+ * @see {@link https://identity.foundation/peer-did-method-spec/#generation-method | Peer DID Method Specification}
+ */
+const PurposeCode: Record<VerificationRelationship, string> = {
+  assertionMethod      : 'A',
+  keyAgreement         : 'E',
+  authentication       : 'V',
+  capabilityInvocation : 'I',
+  capabilityDelegation : 'D'
+};
+
+const SERVICE_PURPOSE_CODE = 'S';
+
+/**
+ * Abbreviations applied to service member names and service type values
+ * before a service is encoded in a numalgo 2 identifier.
+ */
+const ServiceMemberAbbreviations: Record<string, string> = {
+  type            : 't',
+  serviceEndpoint : 's',
+  routingKeys     : 'r',
+  accept          : 'a'
+};
+
+const ServiceTypeAbbreviations: Record<string, string> = {
+  DIDCommMessaging: 'dm'
+};
+
+export type DidPeerCreateOptions = {
+  keyAlgorithm?: typeof SupportedCryptoAlgorithms[number];
+  keySet?: DidPeerKeySet;
+  numalgo?: typeof SupportedNumalgos[number];
+  services?: DidService[];
+}
+
+export type DidPeerKeySet = {
+  verificationMethodKeys?: DidKeySetVerificationMethodKey[];
+}
+
+export class DidPeerMethod implements DidMethod {
+  /**
+   * Name of the DID method
+  */
+  public static methodName = 'peer';
+
+  /**
+   * Creates a new `did:peer` DID from the given or generated key set.
+   *
+   * Numalgo 0 encodes a single inception key and is resolved the same way as
+   * `did:key`. Numalgo 2, the default, encodes every key in the key set once
+   * per verification relationship, followed by any services in abbreviated
+   * form.
+   *
+   * @param options - The options to use when creating the DID.
+   * @returns A promise that resolves to a PortableDid object.
+   */
+  public static async create(options?: DidPeerCreateOptions): Promise<PortableDid> {
+    let { keyAlgorithm, keySet, numalgo = 2, services } = options ?? {};
+
+    if (!SupportedNumalgos.includes(numalgo)) {
+      throw new Error(`DidPeerMethod: Unsupported numalgo: ${numalgo}`);
+    }
+
+    // If keySet not given, generate a default key set.
+    if (keySet === undefined) {
+      keySet = await DidPeerMethod.generateKeySet({ keyAlgorithm, numalgo });
+    }
+
+    const verificationMethodKeys = keySet.verificationMethodKeys ?? [];
+    if (verificationMethodKeys.length === 0 || verificationMethodKeys.some(key => !key.publicKeyJwk)) {
+      throw new Error('DidPeerMethod: Failed to create DID with given input.');
+    }
+
+    let did: string;
+
+    if (numalgo === 0) {
+      if (verificationMethodKeys.length !== 1 || services?.length) {
+        throw new Error('DidPeerMethod: Numalgo 0 supports a single inception key and no services.');
+      }
+
+      const multibaseId = await Jose.jwkToMultibaseId({ key: verificationMethodKeys[0].publicKeyJwk! });
+      did = `did:peer:0${multibaseId}`;
+
+    } else {
+      const elements: string[] = [];
+
+      for (const key of verificationMethodKeys) {
+        const multibaseId = await Jose.jwkToMultibaseId({ key: key.publicKeyJwk! });
+        for (const relationship of key.relationships) {
+          elements.push(`${PurposeCode[relationship]}${multibaseId}`);
+        }
+      }
+
+      for (const service of services ?? []) {
+        elements.push(`${SERVICE_PURPOSE_CODE}${DidPeerMethod.encodeService({ service })}`);
+      }
+
+      did = ['did:peer:2', ...elements].join('.');
+    }
+
+    // Expand the DID identifier to a DID document.
+    const document = await DidPeerMethod.createDocument({ did });
+
+    return { did, document, keySet };
+  }
+
+  /**
+   * Expands a did:peer identifier to a DID Document.
+   *
+   * Reference: https://identity.foundation/peer-did-method-spec/#resolving-a-didpeer
+   *
+   * @param options - The DID to expand.
+   * @returns - A DID document.
+   * @throws Error if the identifier is not a valid numalgo 0 or 2 did:peer DID.
+   */
+  public static async createDocument(options: {
+    did: string
+  }): Promise<DidDocument> {
+    const { did } = options;
+
+    const parsedDid = parseDid({ didUrl: did });
+    if (!parsedDid || parsedDid.method !== 'peer') {
+      throw new Error(`invalidDid: Unknown format: ${did}`);
+    }
+
+    const numalgo = parsedDid.id.charAt(0);
+
+    switch (numalgo) {
+      case '0':
+        return await DidPeerMethod.createNumalgo0Document({ did: parsedDid.did });
+
+      case '2':
+        return await DidPeerMethod.createNumalgo2Document({ did: parsedDid.did });
+
+      default:
+        throw new Error(`methodNotSupported: Unsupported numalgo: ${numalgo}`);
+    }
+  }
+
+  public static async generateJwkKeyPair(options: {
+    keyAlgorithm: typeof SupportedCryptoAlgorithms[number] | 'X25519',
+    keyId?: string
+  }): Promise<JwkKeyPair> {
+    const { keyAlgorithm, keyId } = options;
+
+    let cryptoKeyPair: Web5Crypto.CryptoKeyPair;
+
+    switch (keyAlgorithm) {
+      case 'Ed25519': {
+        cryptoKeyPair = await new EdDsaAlgorithm().generateKey({
+          algorithm   : { name: 'EdDSA', namedCurve: 'Ed25519' },
+          extractable : true,
+          keyUsages   : ['sign', 'verify']
+        });
+        break;
+      }
+
+      case 'secp256k1': {
+        cryptoKeyPair = await new EcdsaAlgorithm().generateKey({
+          algorithm   : { name: 'ECDSA', namedCurve: 'secp256k1' },
+          extractable : true,
+          keyUsages   : ['sign', 'verify']
+        });
+        break;
+      }
+
+      case 'X25519': {
+        cryptoKeyPair = await new EcdhAlgorithm().generateKey({
+          algorithm   : { name: 'ECDH', namedCurve: 'X25519' },
+          extractable : true,
+          keyUsages   : ['deriveBits', 'deriveKey']
+        });
+        break;
+      }
+
+      default: {
+        throw new Error(`Unsupported crypto algorithm: '${keyAlgorithm}'`);
+      }
+    }
+
+    // Convert the CryptoKeyPair to JwkKeyPair.
+    const jwkKeyPair = await Jose.cryptoKeyToJwkPair({ keyPair: cryptoKeyPair });
+
+    // Set kid values.
+    if (keyId) {
+      jwkKeyPair.privateKeyJwk.kid = keyId;
+      jwkKeyPair.publicKeyJwk.kid = keyId;
+    } else {
+      // If a key ID is not specified, generate RFC 7638 JWK thumbprint.
+      const jwkThumbprint = await Jose.jwkThumbprint({ key: jwkKeyPair.publicKeyJwk });
+      jwkKeyPair.privateKeyJwk.kid = jwkThumbprint;
+      jwkKeyPair.publicKeyJwk.kid = jwkThumbprint;
+    }
+
+    return jwkKeyPair;
+  }
+
+  /**
+   * Generates a key set for a `did:peer` DID. Numalgo 0 key sets contain a
+   * single signing key. Numalgo 2 key sets, the default, additionally
+   * contain an X25519 key for key agreement.
+   */
+  public static async generateKeySet(options?: {
+    keyAlgorithm?: typeof SupportedCryptoAlgorithms[number],
+    numalgo?: typeof SupportedNumalgos[number]
+  }): Promise<DidPeerKeySet> {
+    // Generate Ed25519 keys, by default.
+    const { keyAlgorithm = 'Ed25519', numalgo = 2 } = options ?? {};
+
+    const signingKeyPair = await DidPeerMethod.generateJwkKeyPair({ keyAlgorithm });
+
+    const keySet: DidPeerKeySet = {
+      verificationMethodKeys: [{
+        ...signingKeyPair,
+        relationships: [...SIGNATURE_RELATIONSHIPS]
+      }]
+    };
+
+    if (numalgo === 2) {
+      const keyAgreementKeyPair = await DidPeerMethod.generateJwkKeyPair({ keyAlgorithm: 'X25519' });
+      keySet.verificationMethodKeys!.push({
+        ...keyAgreementKeyPair,
+        relationships: ['keyAgreement']
+      });
+    }
+
+    return keySet;
+  }
+
+  /**
+   * Given the W3C DID Document of a `did:peer` DID, return the identifier of
+   * the verification method key that will be used for signing messages and
+   * credentials, by default.
+   *
+   * @param document = DID Document to get the default signing key from.
+   * @returns Verification method identifier for the default signing key.
+   */
+  public static async getDefaultSigningKey(options: {
+    didDocument: DidDocument
+  }): Promise<string | undefined> {
+    const { didDocument } = options;
+
+    if (didDocument.authentication
+      && Array.isArray(didDocument.authentication)
+      && didDocument.authentication.length > 0
+      && typeof didDocument.authentication[0] === 'string') {
+
+      const [verificationMethodId] = didDocument.authentication;
+
+      // Numalgo 2 documents use relative verification method IDs.
+      const signingKeyId = verificationMethodId.startsWith('#')
+        ? `${didDocument.id}${verificationMethodId}`
+        : verificationMethodId;
+
+      return signingKeyId;
+    }
+  }
+
+  public static async resolve(options: {
+    didUrl: string,
+    resolutionOptions?: DidResolutionOptions
+  }): Promise<DidResolutionResult> {
+    const { didUrl, resolutionOptions: _ } = options;
+
+    const parsedDid = parseDid({ didUrl });
+    if (!parsedDid) {
+      return {
+        '@context'            : 'https://w3id.org/did-resolution/v1',
+        didDocument           : undefined,
+        didDocumentMetadata   : {},
+        didResolutionMetadata : {
+          contentType  : 'application/did+ld+json',
+          error        : 'invalidDid',
+          errorMessage : `Cannot parse DID: ${didUrl}`
+        }
+      };
+    }
+
+    if (parsedDid.method !== 'peer') {
+      return {
+        '@context'            : 'https://w3id.org/did-resolution/v1',
+        didDocument           : undefined,
+        didDocumentMetadata   : {},
+        didResolutionMetadata : {
+          contentType  : 'application/did+ld+json',
+          error        : 'methodNotSupported',
+          errorMessage : `Method not supported: ${parsedDid.method}`
+        }
+      };
+    }
+
+    // did:peer DIDs are self-certifying, so the document is derived from the identifier.
+    let didDocument: DidDocument;
+    try {
+      didDocument = await DidPeerMethod.createDocument({ did: parsedDid.did });
+    } catch (error: any) {
+      const [errorCode] = error.message.split(':');
+      return {
+        '@context'            : 'https://w3id.org/did-resolution/v1',
+        didDocument           : undefined,
+        didDocumentMetadata   : {},
+        didResolutionMetadata : {
+          contentType  : 'application/did+ld+json',
+          error        : errorCode === 'methodNotSupported' ? errorCode : 'invalidDid',
+          errorMessage : error.message
+        }
+      };
+    }
+
+    return {
+      '@context'            : 'https://w3id.org/did-resolution/v1',
+      didDocument,
+      didDocumentMetadata   : {},
+      didResolutionMetadata : {
+        contentType : 'application/did+ld+json',
+        did         : {
+          didString        : parsedDid.did,
+          methodSpecificId : parsedDid.id,
+          method           : parsedDid.method
+        }
+      }
+    };
+  }
+
+  private static async createNumalgo0Document({ did }: { did: string }): Promise<DidDocument> {
+    const multibaseId = did.substring('did:peer:0'.length);
+
+    const { publicKeyJwk, multicodecName } = await DidPeerMethod.decodePublicKey({ did, multibaseId });
+
+    const verificationMethodId = `${did}#${multibaseId}`;
+
+    const document: DidDocument = {
+      '@context'         : ['https://www.w3.org/ns/did/v1', 'https://w3id.org/security/suites/jws-2020/v1'],
+      id                 : did,
+      verificationMethod : [{
+        id         : verificationMethodId,
+        type       : 'JsonWebKey2020',
+        controller : did,
+        publicKeyJwk
+      }]
+    };
+
+    // X25519 keys can only be used for key agreement.
+    const relationships = (multicodecName === 'x25519-pub') ? ['keyAgreement'] : SIGNATURE_RELATIONSHIPS;
+    for (const relationship of relationships as VerificationRelationship[]) {
+      document[relationship] = [verificationMethodId];
+    }
+
+    return document;
+  }
+
+  private static async createNumalgo2Document({ did }: { did: string }): Promise<DidDocument> {
+    const [, ...elements] = did.substring('did:peer:'.length).split('.');
+    if (elements.length === 0) {
+      throw new Error(`invalidDid: Numalgo 2 DID contains no keys or services: ${did}`);
+    }
+
+    const verificationMethods: VerificationMethod[] = [];
+    const services: DidService[] = [];
+    const relationships: Partial<Record<VerificationRelationship, string[]>> = {};
+
+    for (const element of elements) {
+      const purposeCode = element.charAt(0);
+      const value = element.substring(1);
+
+      if (purposeCode === SERVICE_PURPOSE_CODE) {
+        services.push(DidPeerMethod.decodeService({ did, encodedService: value, index: services.length }));
+        continue;
+      }
+
+      const relationship = (Object.keys(PurposeCode) as VerificationRelationship[])
+        .find(relationship => PurposeCode[relationship] === purposeCode);
+      if (relationship === undefined) {
+        throw new Error(`invalidDid: Unknown purpose code '${purposeCode}': ${did}`);
+      }
+
+      const { publicKeyJwk } = await DidPeerMethod.decodePublicKey({ did, multibaseId: value });
+
+      // Verification methods are numbered in the order their keys appear in the DID.
+      const verificationMethodId = `#key-${verificationMethods.length + 1}`;
+      verificationMethods.push({
+        id         : verificationMethodId,
+        type       : 'JsonWebKey2020',
+        controller : did,
+        publicKeyJwk
+      });
+
+      relationships[relationship] ??= [];
+      relationships[relationship]!.push(verificationMethodId);
+    }
+
+    const document: DidDocument = {
+      '@context' : ['https://www.w3.org/ns/did/v1', 'https://w3id.org/security/suites/jws-2020/v1'],
+      id         : did
+    };
+
+    if (verificationMethods.length > 0) {
+      document.verificationMethod = verificationMethods;
+    }
+
+    for (const relationship of Object.keys(PurposeCode) as VerificationRelationship[]) {
+      if (relationships[relationship]) {
+        document[relationship] = relationships[relationship];
+      }
+    }
+
+    if (services.length > 0) {
+      document.service = services;
+    }
+
+    return document;
+  }
+
+  private static async decodePublicKey({ did, multibaseId }: {
+    did: string,
+    multibaseId: string
+  }): Promise<{ publicKeyJwk: PublicKeyJwk, multicodecName: string }> {
+    let key: Uint8Array;
+    let multicodecCode: number;
+    let multicodecName: string;
+
+    try {
+      ({ key, multicodecCode, multicodecName } = cryptoUtils.multibaseIdToKey({ multibaseKeyId: multibaseId }));
+    } catch (error: any) {
+      throw new Error(`invalidDid: Unable to decode public key '${multibaseId}': ${did}`);
+    }
+
+    // Ensure that the identifier only contains public key material.
+    if (!multicodecName.endsWith('-pub')) {
+      throw new Error(`invalidDid: Identifier must only contain public keys: ${did}`);
+    }
+
+    let publicKeyJwk: PublicKeyJwk;
+    try {
+      const jwkParams = await Jose.multicodecToJose({ code: multicodecCode });
+      publicKeyJwk = await Jose.keyToJwk({ keyMaterial: key, keyType: 'public', ...jwkParams }) as PublicKeyJwk;
+    } catch (error: any) {
+      throw new Error(`invalidDid: Unable to decode public key '${multibaseId}': ${did}`);
+    }
+
+    return { publicKeyJwk, multicodecName };
+  }
+
+  private static decodeService({ did, encodedService, index }: {
+    did: string,
+    encodedService: string,
+    index: number
+  }): DidService {
+    let abbreviatedService: unknown;
+    try {
+      abbreviatedService = Convert.base64Url(encodedService).toObject();
+    } catch (error: any) {
+      throw new Error(`invalidDid: Service is not base64url encoded JSON: ${did}`);
+    }
+
+    if (typeof abbreviatedService !== 'object' || abbreviatedService === null || Array.isArray(abbreviatedService)) {
+      throw new Error(`invalidDid: Service is not a JSON object: ${did}`);
+    }
+
+    const service = DidPeerMethod.transformService({ value: abbreviatedService, expand: true }) as DidService;
+
+    // Services without an ID are assigned '#service', '#service-1', ... in order of appearance.
+    return {
+      id: service.id ?? ((index === 0) ? '#service' : `#service-${index}`),
+      ...service
+    };
+  }
+
+  private static encodeService({ service }: { service: DidService }): string {
+    const abbreviatedService = DidPeerMethod.transformService({ value: service, expand: false });
+
+    return Convert.object(abbreviatedService as object).toBase64Url();
+  }
+
+  /**
+   * Recursively abbreviates (or expands) service member names, including
+   * those of nested service endpoint objects, and the service type so that
+   * encoded services are as compact as possible.
+   */
+  private static transformService({ value, expand }: { value: unknown, expand: boolean }): unknown {
+    if (Array.isArray(value)) {
+      return value.map(item => DidPeerMethod.transformService({ value: item, expand }));
+    }
+
+    if (typeof value !== 'object' || value === null) {
+      return value;
+    }
+
+    const memberNames = expand ? invert(ServiceMemberAbbreviations) : ServiceMemberAbbreviations;
+    const typeValues = expand ? invert(ServiceTypeAbbreviations) : ServiceTypeAbbreviations;
+
+    return Object.fromEntries(Object.entries(value).map(([memberName, memberValue]) => {
+      const transformedName = memberNames[memberName] ?? memberName;
+
+      if (memberName === (expand ? 't' : 'type') && typeof memberValue === 'string') {
+        return [transformedName, typeValues[memberValue] ?? memberValue];
+      }
+
+      return [transformedName, DidPeerMethod.transformService({ value: memberValue, expand })];
+    }));
+  }
+}
+
+function invert(mapping: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(mapping).map(([key, value]) => [value, key]));
+}
@@ -1,16 +1,27 @@
 import type {
+  DidService,
+  DidResource,
+  DidDocument,
   DidResolverCache,
   DidMethodResolver,
+  DidFallbackResolver,
   DidResolutionResult,
   DidResolutionOptions,
+  DidResolutionRepresentationResult,
+  DidDereferencingResult,
+  DidDereferencingOptions,
 } from './types.js';
+import type { DidDocumentRepresentation } from './representations.js';
 
-import { parseDid } from './utils.js';
+import { parseDid, validateDidDocument } from './utils.js';
+import { isDidDocumentRepresentation, produceRepresentation, toRepresentationDataModel } from './representations.js';
 import { DidResolverCacheNoop } from './resolver-cache-noop.js';
 
 export type DidResolverOptions = {
   didResolvers: DidMethodResolver[];
   cache?: DidResolverCache;
+  fallbackResolver?: DidFallbackResolver;
+  validateDidDocuments?: boolean;
 }
 
 /**
@@ -29,15 +40,35 @@ export class DidResolver {
    */
   private didResolvers: Map<string, DidMethodResolver> = new Map();
 
+  /**
+   * A resolver for DIDs of methods without a registered method resolver.
+   */
+  private fallbackResolver?: DidFallbackResolver;
+
+  /**
+   * A map of in-flight resolutions against DIDs, so that concurrent
+   * resolutions of the same DID share a single method resolver call.
+   */
+  private inFlightResolutions: Map<string, Promise<DidResolutionResult>> = new Map();
+
+  /**
+   * Whether resolved DID documents that fail validation are rejected.
+   */
+  private validateDidDocuments: boolean;
+
   /**
    * Constructs a new `DidResolver`.
    *
    * @param options - The options for constructing the `DidResolver`.
    * @param options.didResolvers - An array of `DidMethodResolver` instances.
    * @param options.cache - Optional. A cache for storing resolved DID documents. If not provided, a no-operation cache is used.
+   * @param options.fallbackResolver - Optional. A resolver, such as `UniversalResolver`, for DIDs of methods without a registered method resolver.
+   * @param options.validateDidDocuments - Optional. If `true`, resolved DID documents that fail `validateDidDocument()` are rejected with an `invalidDidDocument` error. Defaults to `false`.
    */
   constructor(options: DidResolverOptions) {
     this.cache = options.cache || DidResolverCacheNoop;
+    this.fallbackResolver = options.fallbackResolver;
+    this.validateDidDocuments = options.validateDidDocuments ?? false;
 
     for (const resolver of options.didResolvers) {
       this.didResolvers.set(resolver.methodName, resolver);
@@ -49,7 +80,20 @@ export class DidResolver {
    * If the DID Resolution Result is present in the cache, it returns the cached
    * result. Otherwise, it uses the appropriate method resolver to resolve
    * the DID, stores the resolution result in the cache, and returns the
-   * resolultion result.
+   * resolultion result. Concurrent resolutions of the same DID share a single
+   * call to the method resolver, and results with errors other than
+   * `notFound` are not cached. If DID document validation is enabled, DID
+   * documents that fail validation are rejected with an `invalidDidDocument`
+   * error, and the validation findings are returned in the DID resolution
+   * metadata.
+   *
+   * If the `accept` resolution option is given, the DID document is returned
+   * in the data model of the requested representation and the `contentType`
+   * of the DID resolution metadata is set accordingly. Unsupported
+   * representations are rejected with a `representationNotSupported` error.
+   * Otherwise, the DID document is returned as the method resolver produced
+   * it, and the `contentType` is `application/did+ld+json` if the document
+   * has an `@context` or `application/did+json` if it does not.
    *
    * Note: The method signature for resolve() in this implementation must match
    * the `DidResolver` implementation in
@@ -58,6 +102,7 @@ export class DidResolver {
    * resolution cache.
    *
    * @param didUrl - The DID or DID URL to resolve.
+   * @param resolutionOptions - Optional. Options passed to the method resolver.
    * @returns A promise that resolves to the DID Resolution Result.
    */
   async resolve(didUrl: string, resolutionOptions?: DidResolutionOptions): Promise<DidResolutionResult> {
@@ -76,7 +121,7 @@ export class DidResolver {
       };
     }
 
-    const resolver = this.didResolvers.get(parsedDid.method);
+    const resolver = this.didResolvers.get(parsedDid.method) ?? this.fallbackResolver;
     if (!resolver) {
       return {
         '@context'            : 'https://w3id.org/did-resolution/v1',
@@ -90,18 +135,355 @@ export class DidResolver {
       };
     }
 
-    const cachedResolutionResult = await this.cache.get(parsedDid.did);
+    const { accept } = resolutionOptions ?? {};
+    if (accept !== undefined && !isDidDocumentRepresentation(accept)) {
+      return {
+        '@context'            : 'https://w3id.org/did-resolution/v1',
+        didDocument           : undefined,
+        didDocumentMetadata   : {},
+        didResolutionMetadata : {
+          contentType  : 'application/did+ld+json',
+          error        : 'representationNotSupported',
+          errorMessage : `Unsupported representation: ${accept}`
+        }
+      };
+    }
+
+    const resolutionResult = await this.resolveWithCache({ did: parsedDid.did, resolver, resolutionOptions });
 
-    if (cachedResolutionResult) {
-      return cachedResolutionResult;
-    } else {
-      const resolutionResult = await resolver.resolve({
-        didUrl: parsedDid.did,
-        resolutionOptions
+    if (!resolutionResult.didDocument) {
+      return resolutionResult;
+    }
+
+    if (accept === undefined) {
+      const contentType = ('@context' in resolutionResult.didDocument) ? 'application/did+ld+json' : 'application/did+json';
+      return { ...resolutionResult, didResolutionMetadata: { ...resolutionResult.didResolutionMetadata, contentType } };
+    }
+
+    // Convert the DID document to the data model of the requested representation.
+    return {
+      ...resolutionResult,
+      didDocument           : toRepresentationDataModel({ didDocument: resolutionResult.didDocument, contentType: accept as DidDocumentRepresentation }),
+      didResolutionMetadata : { ...resolutionResult.didResolutionMetadata, contentType: accept }
+    };
+  }
+
+  /**
+   * Resolves a DID to a DID Resolution Result that contains a representation
+   * of the DID document, as bytes, rather than the DID document data model.
+   *
+   * @see {@link https://www.w3.org/TR/did-core/#did-resolution | DID Resolution}
+   *
+   * @param didUrl - The DID or DID URL to resolve.
+   * @param resolutionOptions - Optional. The `accept` option selects the representation,
+   *                            which defaults to `application/did+ld+json`.
+   * @returns A promise that resolves to the DID Resolution Result.
+   */
+  async resolveRepresentation(didUrl: string, resolutionOptions?: DidResolutionOptions): Promise<DidResolutionRepresentationResult> {
+    const accept = resolutionOptions?.accept ?? 'application/did+ld+json';
+
+    const { didDocument, ...resolutionResult } = await this.resolve(didUrl, { ...resolutionOptions, accept });
+
+    return {
+      ...resolutionResult,
+      didDocumentStream: didDocument && produceRepresentation({ didDocument, contentType: accept })
+    };
+  }
+
+  /**
+   * Dereferences a DID URL to a resource, following the DID URL dereferencing
+   * algorithm defined in DID Core:
+   *
+   * - A DID without a path, query, or fragment dereferences to its DID document.
+   * - A fragment dereferences to the verification method or service in the
+   *   DID document with a matching ID.
+   * - A `service` query parameter selects the service with a matching ID and
+   *   dereferences to its service endpoint URL. If a `relativeRef` query
+   *   parameter is also given, it is resolved against the service endpoint
+   *   URL as defined in RFC 3986.
+   *
+   * As with `resolve()`, the `accept` option selects the data model of the
+   * DID document and its resources, which is reported as the `contentType`.
+   *
+   * @see {@link https://www.w3.org/TR/did-core/#did-url-dereferencing | DID URL Dereferencing}
+   *
+   * @param didUrl - The DID URL to dereference.
+   * @param dereferencingOptions - Optional. Options passed to DID resolution.
+   * @returns A promise that resolves to the DID URL Dereferencing Result.
+   */
+  async dereference(didUrl: string, dereferencingOptions?: DidDereferencingOptions): Promise<DidDereferencingResult> {
+    const parsedDidUrl = parseDid({ didUrl });
+    if (!parsedDidUrl) {
+      return {
+        dereferencingMetadata: {
+          error        : 'invalidDidUrl',
+          errorMessage : `Cannot parse DID URL: ${didUrl}`
+        },
+        contentStream   : null,
+        contentMetadata : {}
+      };
+    }
+
+    // The DID document, and any resource in it, is in the data model of the `accept` representation, if given.
+    const { didDocument, didDocumentMetadata, didResolutionMetadata } = await this.resolve(parsedDidUrl.did, dereferencingOptions);
+    const { contentType } = didResolutionMetadata;
+    if (didResolutionMetadata.error || !didDocument) {
+      return {
+        dereferencingMetadata: {
+          error        : didResolutionMetadata.error ?? 'notFound',
+          errorMessage : didResolutionMetadata.errorMessage ?? `Unable to resolve DID: ${parsedDidUrl.did}`
+        },
+        contentStream   : null,
+        contentMetadata : {}
+      };
+    }
+
+    // Dereferencing DID URL paths is method specific and not supported by any of the implemented methods.
+    if (parsedDidUrl.path) {
+      return {
+        dereferencingMetadata: {
+          error        : 'notFound',
+          errorMessage : `DID URL paths cannot be dereferenced: ${didUrl}`
+        },
+        contentStream   : null,
+        contentMetadata : {}
+      };
+    }
+
+    const queryParameters = new URLSearchParams(parsedDidUrl.query);
+    const serviceId = queryParameters.get('service');
+
+    if (serviceId !== null) {
+      return this.dereferenceService({
+        didDocument,
+        fragment    : parsedDidUrl.fragment,
+        relativeRef : queryParameters.get('relativeRef') ?? undefined,
+        serviceId
       });
-      await this.cache.set(parsedDid.did, resolutionResult);
+    }
+
+    if (parsedDidUrl.fragment) {
+      const resource = this.findResource({ didDocument, fragment: parsedDidUrl.fragment });
+      if (!resource) {
+        return {
+          dereferencingMetadata: {
+            error        : 'notFound',
+            errorMessage : `Resource not found in DID document: ${didUrl}`
+          },
+          contentStream   : null,
+          contentMetadata : {}
+        };
+      }
+
+      return {
+        dereferencingMetadata : { contentType },
+        contentStream         : resource,
+        contentMetadata       : didDocumentMetadata
+      };
+    }
 
+    return {
+      dereferencingMetadata : { contentType },
+      contentStream         : didDocument,
+      contentMetadata       : didDocumentMetadata
+    };
+  }
+
+  /**
+   * Selects a service by ID and returns its service endpoint URL, with the
+   * given relative reference resolved against it and the given fragment
+   * appended, if any.
+   */
+  private dereferenceService(options: {
+    didDocument: DidDocument,
+    fragment?: string,
+    relativeRef?: string,
+    serviceId: string
+  }): DidDereferencingResult {
+    const { didDocument, fragment, relativeRef, serviceId } = options;
+
+    const service = this.findResource({ didDocument, fragment: serviceId, resources: didDocument.service }) as DidService | undefined;
+    if (!service) {
+      return {
+        dereferencingMetadata: {
+          error        : 'notFound',
+          errorMessage : `Service not found in DID document: ${serviceId}`
+        },
+        contentStream   : null,
+        contentMetadata : {}
+      };
+    }
+
+    // Only services with URL endpoints can be dereferenced to a URL, so use the first one given.
+    const [serviceEndpoint] = [service.serviceEndpoint].flat();
+    if (typeof serviceEndpoint !== 'string') {
+      return {
+        dereferencingMetadata: {
+          error        : 'notFound',
+          errorMessage : `Service does not have a URL service endpoint: ${serviceId}`
+        },
+        contentStream   : null,
+        contentMetadata : {}
+      };
+    }
+
+    let url: URL;
+    try {
+      url = new URL(relativeRef ?? '', serviceEndpoint);
+    } catch {
+      return {
+        dereferencingMetadata: {
+          error        : 'invalidDidUrl',
+          errorMessage : `Cannot resolve relative reference against service endpoint: ${relativeRef}`
+        },
+        contentStream   : null,
+        contentMetadata : {}
+      };
+    }
+
+    if (fragment && !url.hash) {
+      url.hash = fragment;
+    }
+
+    return {
+      dereferencingMetadata : { contentType: 'text/uri-list' },
+      contentStream         : url.toString(),
+      contentMetadata       : {}
+    };
+  }
+
+  /**
+   * Finds the resource in a DID document identified by the given fragment,
+   * whether its ID is given as a relative or absolute DID URL.
+   */
+  private findResource(options: {
+    didDocument: DidDocument,
+    fragment: string,
+    resources?: (DidResource | string)[]
+  }): DidResource | undefined {
+    const { didDocument, fragment } = options;
+
+    // Verification methods may be embedded in verification relationships.
+    const resources = options.resources ?? [
+      ...didDocument.verificationMethod ?? [],
+      ...didDocument.assertionMethod ?? [],
+      ...didDocument.authentication ?? [],
+      ...didDocument.capabilityDelegation ?? [],
+      ...didDocument.capabilityInvocation ?? [],
+      ...didDocument.keyAgreement ?? [],
+      ...didDocument.service ?? []
+    ];
+
+    const ids = [fragment, `#${fragment}`, `${didDocument.id}#${fragment}`];
+
+    return resources.find((resource): resource is DidResource =>
+      typeof resource !== 'string' && 'id' in resource && ids.includes(resource.id)
+    );
+  }
+
+  /**
+   * Returns a DID resolution result with an `invalidDidDocument` error if the
+   * resolved DID document has validation findings, or the given resolution
+   * result otherwise.
+   */
+  private rejectInvalidDidDocument(options: {
+    did: string,
+    resolutionResult: DidResolutionResult
+  }): DidResolutionResult {
+    const { did, resolutionResult } = options;
+
+    const findings = validateDidDocument({ didDocument: resolutionResult.didDocument!, did });
+    if (findings.length === 0) {
       return resolutionResult;
     }
+
+    return {
+      '@context'            : 'https://w3id.org/did-resolution/v1',
+      didDocument           : undefined,
+      didDocumentMetadata   : {},
+      didResolutionMetadata : {
+        contentType  : 'application/did+ld+json',
+        error        : 'invalidDidDocument',
+        errorMessage : `Invalid DID document: ${findings.map(finding => finding.message).join('; ')}`,
+        findings
+      }
+    };
   }
-}
\ No newline at end of file
+
+  /**
+   * Returns the cached resolution result of a DID or, if not cached,
+   * resolves the DID with the given method resolver and caches the result.
+   * Concurrent resolutions of the same DID share a single method resolver call.
+   *
+   * The cache is keyed by DID only, so resolutions with options that can change
+   * the result bypass it. The `accept` option is not one of them, since the
+   * representation is produced from the resolution result by `resolve()`.
+   */
+  private async resolveWithCache(options: {
+    did: string,
+    resolver: DidMethodResolver | DidFallbackResolver,
+    resolutionOptions?: DidResolutionOptions
+  }): Promise<DidResolutionResult> {
+    const { did, resolver, resolutionOptions } = options;
+
+    const { accept, ...methodResolutionOptions } = resolutionOptions ?? {};
+    if (Object.keys(methodResolutionOptions).length > 0) {
+      return this.resolveWithResolver({ did, resolver, resolutionOptions });
+    }
+
+    const inFlightResolution = this.inFlightResolutions.get(did);
+    if (inFlightResolution) {
+      return inFlightResolution;
+    }
+
+    const cachedResolutionResult = await this.cache.get(did);
+
+    if (cachedResolutionResult) {
+      return cachedResolutionResult;
+    }
+
+    // Another resolution of the same DID may have started while the cache was read.
+    if (this.inFlightResolutions.has(did)) {
+      return this.inFlightResolutions.get(did)!;
+    }
+
+    const resolution = (async () => {
+      try {
+        const resolutionResult = await this.resolveWithResolver({ did, resolver, resolutionOptions });
+
+        const { error } = resolutionResult.didResolutionMetadata;
+        if (!error || error === 'notFound') {
+          await this.cache.set(did, resolutionResult);
+        }
+
+        return resolutionResult;
+      } finally {
+        this.inFlightResolutions.delete(did);
+      }
+    })();
+
+    this.inFlightResolutions.set(did, resolution);
+
+    return resolution;
+  }
+
+  /**
+   * Resolves a DID with the given method resolver, rejecting invalid DID
+   * documents if DID document validation is enabled.
+   */
+  private async resolveWithResolver(options: {
+    did: string,
+    resolver: DidMethodResolver | DidFallbackResolver,
+    resolutionOptions?: DidResolutionOptions
+  }): Promise<DidResolutionResult> {
+    const { did, resolver, resolutionOptions } = options;
+
+    const resolutionResult = await resolver.resolve({ didUrl: did, resolutionOptions });
+
+    if (this.validateDidDocuments && resolutionResult.didDocument) {
+      return this.rejectInvalidDidDocument({ did, resolutionResult });
+    }
+
+    return resolutionResult;
+  }
+}
@@ -0,0 +1,394 @@
+import type { JwkKeyPair, Web5Crypto } from '@web5/crypto';
+
+import { EcdsaAlgorithm, EdDsaAlgorithm, Jose } from '@web5/crypto';
+
+import type {
+  DidMethod,
+  DidService,
+  DidDocument,
+  PortableDid,
+  VerificationMethod,
+  DidResolutionResult,
+  DidResolutionOptions,
+  DidKeySetVerificationMethodKey,
+} from './types.js';
+
+import { parseDid } from './utils.js';
+
+const SupportedCryptoAlgorithms = [
+  'Ed25519',
+  'secp256k1'
+] as const;
+
+export type DidWebCreateOptions = {
+  /**
+   * The domain name, optionally including a port number (e.g., `example.com`
+   * or `localhost:3000`), that will host the DID document.
+   */
+  domain: string;
+  keyAlgorithm?: typeof SupportedCryptoAlgorithms[number];
+  keySet?: DidWebKeySet;
+  /**
+   * Optional path segments under the domain at which the DID document will
+   * be hosted. If omitted, the document is expected at `/.well-known/did.json`.
+   */
+  path?: string[];
+  services?: DidService[];
+}
+
+export type DidWebKeySet = {
+  verificationMethodKeys?: DidKeySetVerificationMethodKey[];
+}
+
+export type DidWebResolutionOptions = DidResolutionOptions & {
+  /**
+   * Optional. A `fetch` compatible function used to retrieve the DID document.
+   * Defaults to the global `fetch` of the runtime.
+   */
+  fetch?: typeof fetch;
+}
+
+export class DidWebMethod implements DidMethod {
+  /**
+   * Name of the DID method
+  */
+  public static methodName = 'web';
+
+  /**
+   * Creates a new `did:web` DID and a DID document that is ready to be hosted
+   * at the URL returned by {@link DidWebMethod.getDidDocumentUrl}.
+   *
+   * Note: Unlike other DID methods, a `did:web` DID is only resolvable after
+   * the returned DID document has been published to the web server of the
+   * given domain.
+   *
+   * @param options - The options to use when creating the DID.
+   * @returns A promise that resolves to a PortableDid object.
+   */
+  public static async create(options: DidWebCreateOptions): Promise<PortableDid> {
+    let { domain, keyAlgorithm, keySet, path = [], services = [] } = options ?? {};
+
+    if (!domain) {
+      throw new Error(`DidWebMethod: Required parameter missing: 'domain'`);
+    }
+
+    // If any member of the key set is missing, generate the keys.
+    keySet = await DidWebMethod.generateKeySet({ keyAlgorithm, keySet });
+
+    /** Per the did:web specification, a port number must be percent encoded
+     * and each path segment is delimited by a colon. */
+    const methodSpecificId = [domain, ...path]
+      .map(segment => encodeURIComponent(segment))
+      .join(':');
+    const did = `did:web:${methodSpecificId}`;
+
+    const document = await DidWebMethod.createDocument({ did, keySet, services });
+
+    return { did, document, keySet };
+  }
+
+  /**
+   * Builds the DID document for a `did:web` DID from the given key set and
+   * services.
+   *
+   * @param options - The DID, key set, and services to include.
+   * @returns A promise that resolves to the DID document.
+   */
+  public static async createDocument(options: {
+    did: string,
+    keySet: DidWebKeySet,
+    services?: DidService[]
+  }): Promise<DidDocument> {
+    const { did, keySet, services = [] } = options;
+
+    const document: DidDocument = {
+      '@context' : ['https://www.w3.org/ns/did/v1', 'https://w3id.org/security/suites/jws-2020/v1'],
+      id         : did,
+    };
+
+    const verificationMethods: VerificationMethod[] = [];
+    for (const key of keySet.verificationMethodKeys ?? []) {
+      const keyId = DidWebMethod.normalizeId({ id: key.publicKeyJwk.kid });
+      const methodId = `${did}#${keyId}`;
+
+      verificationMethods.push({
+        id           : methodId,
+        type         : 'JsonWebKey2020',
+        controller   : did,
+        publicKeyJwk : key.publicKeyJwk
+      });
+
+      for (const relationship of key.relationships) {
+        document[relationship] ??= [];
+        (document[relationship] as string[]).push(methodId);
+      }
+    }
+    document.verificationMethod = verificationMethods;
+
+    if (services.length > 0) {
+      document.service = services.map(service => ({
+        ...service,
+        id: `${did}#${DidWebMethod.normalizeId({ id: service.id })}`
+      }));
+    }
+
+    return document;
+  }
+
+  public static async generateJwkKeyPair(options: {
+    keyAlgorithm: typeof SupportedCryptoAlgorithms[number],
+    keyId?: string
+  }): Promise<JwkKeyPair> {
+    const { keyAlgorithm, keyId } = options;
+
+    let cryptoKeyPair: Web5Crypto.CryptoKeyPair;
+
+    switch (keyAlgorithm) {
+      case 'Ed25519': {
+        cryptoKeyPair = await new EdDsaAlgorithm().generateKey({
+          algorithm   : { name: 'EdDSA', namedCurve: 'Ed25519' },
+          extractable : true,
+          keyUsages   : ['sign', 'verify']
+        });
+        break;
+      }
+
+      case 'secp256k1': {
+        cryptoKeyPair = await new EcdsaAlgorithm().generateKey({
+          algorithm   : { name: 'ECDSA', namedCurve: 'secp256k1' },
+          extractable : true,
+          keyUsages   : ['sign', 'verify']
+        });
+        break;
+      }
+
+      default: {
+        throw new Error(`Unsupported crypto algorithm: '${keyAlgorithm}'`);
+      }
+    }
+
+    // Convert the CryptoKeyPair to JwkKeyPair.
+    const jwkKeyPair = await Jose.cryptoKeyToJwkPair({ keyPair: cryptoKeyPair });
+
+    // Set kid values.
+    if (keyId) {
+      jwkKeyPair.privateKeyJwk.kid = keyId;
+      jwkKeyPair.publicKeyJwk.kid = keyId;
+    } else {
+      // If a key ID is not specified, generate RFC 7638 JWK thumbprint.
+      const jwkThumbprint = await Jose.jwkThumbprint({ key: jwkKeyPair.publicKeyJwk });
+      jwkKeyPair.privateKeyJwk.kid = jwkThumbprint;
+      jwkKeyPair.publicKeyJwk.kid = jwkThumbprint;
+    }
+
+    return jwkKeyPair;
+  }
+
+  public static async generateKeySet(options?: {
+    keyAlgorithm?: typeof SupportedCryptoAlgorithms[number],
+    keySet?: DidWebKeySet
+  }): Promise<DidWebKeySet> {
+    // Generate Ed25519 authentication key pair, by default.
+    let { keyAlgorithm = 'Ed25519', keySet = {} } = options ?? {};
+
+    // If keySet lacks verification method keys, generate one.
+    if (keySet.verificationMethodKeys === undefined) {
+      const signingKeyPair = await DidWebMethod.generateJwkKeyPair({ keyAlgorithm });
+      keySet.verificationMethodKeys = [{
+        ...signingKeyPair,
+        relationships: ['authentication', 'assertionMethod', 'capabilityInvocation', 'capabilityDelegation']
+      }];
+    }
+
+    // Generate RFC 7638 JWK thumbprints if `kid` is missing from any key.
+    for (const key of keySet.verificationMethodKeys) {
+      if (key.publicKeyJwk) key.publicKeyJwk.kid ??= await Jose.jwkThumbprint({ key: key.publicKeyJwk });
+      if (key.privateKeyJwk) key.privateKeyJwk.kid ??= await Jose.jwkThumbprint({ key: key.privateKeyJwk });
+    }
+
+    return keySet;
+  }
+
+  /**
+   * Given the W3C DID Document of a `did:web` DID, return the identifier of
+   * the verification method key that will be used for signing messages and
+   * credentials, by default.
+   *
+   * @param document = DID Document to get the default signing key from.
+   * @returns Verification method identifier for the default signing key.
+   */
+  public static async getDefaultSigningKey(options: {
+    didDocument: DidDocument
+  }): Promise<string | undefined> {
+    const { didDocument } = options;
+
+    if (didDocument.authentication
+      && Array.isArray(didDocument.authentication)
+      && didDocument.authentication.length > 0) {
+
+      const [verificationMethod] = didDocument.authentication;
+      const verificationMethodId = (typeof verificationMethod === 'string')
+        ? verificationMethod
+        : verificationMethod.id;
+
+      // Relative DID URLs are resolved against the DID document `id`.
+      const signingKeyId = verificationMethodId.startsWith('#')
+        ? `${didDocument.id}${verificationMethodId}`
+        : verificationMethodId;
+
+      return signingKeyId;
+    }
+  }
+
+  /**
+   * Transforms a `did:web` DID into the HTTPS URL of its DID document, as
+   * defined in the {@link https://w3c-ccg.github.io/did-method-web/#read-resolve | did:web specification}.
+   *
+   * - `did:web:w3c-ccg.github.io` → `https://w3c-ccg.github.io/.well-known/did.json`
+   * - `did:web:localhost%3A8443` → `https://localhost:8443/.well-known/did.json`
+   * - `did:web:w3c-ccg.github.io:user:alice` → `https://w3c-ccg.github.io/user/alice/did.json`
+   *
+   * @param options - The DID to transform.
+   * @returns The URL from which the DID document can be retrieved.
+   * @throws Error if the DID is not a valid `did:web` DID.
+   */
+  public static getDidDocumentUrl(options: {
+    did: string
+  }): string {
+    const { did } = options;
+
+    const parsedDid = parseDid({ didUrl: did });
+    if (!parsedDid || parsedDid.method !== 'web') {
+      throw new Error(`DidWebMethod: Invalid did:web DID: ${did}`);
+    }
+
+    // Split the method specific identifier into its colon delimited segments.
+    const [domain, ...path] = parsedDid.id
+      .split(':')
+      .map(segment => decodeURIComponent(segment));
+
+    let url: URL;
+    try {
+      url = new URL(`https://${domain}`);
+    } catch (error: any) {
+      throw new Error(`DidWebMethod: Invalid domain name in DID: ${did}`);
+    }
+
+    // The domain name must not include a path, query, or fragment.
+    if (url.pathname !== '/' || url.search || url.hash || url.username || url.password) {
+      throw new Error(`DidWebMethod: Invalid domain name in DID: ${did}`);
+    }
+
+    url.pathname = (path.length > 0)
+      ? `/${path.map(segment => encodeURIComponent(segment)).join('/')}/did.json`
+      : '/.well-known/did.json';
+
+    return url.toString();
+  }
+
+  public static async resolve(options: {
+    didUrl: string,
+    resolutionOptions?: DidWebResolutionOptions
+  }): Promise<DidResolutionResult> {
+    const { didUrl, resolutionOptions = {} } = options;
+    const { fetch: fetchFunction = globalThis.fetch } = resolutionOptions;
+
+    const parsedDid = parseDid({ didUrl });
+    if (!parsedDid) {
+      return DidWebMethod.errorResult({ error: 'invalidDid', errorMessage: `Cannot parse DID: ${didUrl}` });
+    }
+
+    if (parsedDid.method !== 'web') {
+      return DidWebMethod.errorResult({
+        error        : 'methodNotSupported',
+        errorMessage : `Method not supported: ${parsedDid.method}`
+      });
+    }
+
+    let didDocumentUrl: string;
+    try {
+      didDocumentUrl = DidWebMethod.getDidDocumentUrl({ did: parsedDid.did });
+    } catch (error: any) {
+      return DidWebMethod.errorResult({ error: 'invalidDid', errorMessage: error.message });
+    }
+
+    let response: Response;
+    try {
+      response = await fetchFunction(didDocumentUrl, { headers: { 'Accept': 'application/did+json, application/json' } });
+    } catch (error: any) {
+      return DidWebMethod.errorResult({
+        error        : 'internalError',
+        errorMessage : `Failed to retrieve DID document from ${didDocumentUrl}: ${error.message}`
+      });
+    }
+
+    if (response.status === 404 || response.status === 410) {
+      return DidWebMethod.errorResult({
+        error        : 'notFound',
+        errorMessage : `DID document not found at: ${didDocumentUrl}`
+      });
+    }
+
+    if (!response.ok) {
+      return DidWebMethod.errorResult({
+        error        : 'internalError',
+        errorMessage : `DID document host responded with HTTP status code: ${response.status}`
+      });
+    }
+
+    let didDocument: DidDocument;
+    try {
+      didDocument = await response.json();
+    } catch (error: any) {
+      return DidWebMethod.errorResult({
+        error        : 'invalidDidDocument',
+        errorMessage : `DID document at ${didDocumentUrl} is not valid JSON`
+      });
+    }
+
+    // The `id` of the retrieved DID document must match the DID being resolved.
+    if (didDocument?.id !== parsedDid.did) {
+      return DidWebMethod.errorResult({
+        error        : 'invalidDidDocument',
+        errorMessage : `DID document id '${didDocument?.id}' does not match the resolved DID: ${parsedDid.did}`
+      });
+    }
+
+    return {
+      '@context'            : 'https://w3id.org/did-resolution/v1',
+      didDocument,
+      didDocumentMetadata   : {},
+      didResolutionMetadata : {
+        contentType : 'application/did+ld+json',
+        did         : {
+          didString        : parsedDid.did,
+          methodSpecificId : parsedDid.id,
+          method           : parsedDid.method
+        }
+      }
+    };
+  }
+
+  private static errorResult(options: {
+    error: string,
+    errorMessage: string
+  }): DidResolutionResult {
+    const { error, errorMessage } = options;
+
+    return {
+      '@context'            : 'https://w3id.org/did-resolution/v1',
+      didDocument           : undefined,
+      didDocumentMetadata   : {},
+      didResolutionMetadata : {
+        contentType: 'application/did+ld+json',
+        error,
+        errorMessage
+      }
+    };
+  }
+
+  private static normalizeId({ id }: { id: string }): string {
+    // Strip the DID and/or hash symbol (#) prefix, if present.
+    return id.includes('#') ? id.substring(id.indexOf('#') + 1) : id;
+  }
+}
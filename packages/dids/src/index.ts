@@ -1,9 +1,17 @@
 export * from './dht.js';
+export * from './dht-gateway-http.js';
+export * from './dht-gateway-memory.js';
 export * from './did-dht.js';
 export * from './did-ion.js';
+export * from './did-jwk.js';
 export * from './did-key.js';
+export * from './did-peer.js';
+export * from './did-web.js';
 export * from './did-resolver.js';
+export * from './representations.js';
 export * from './resolver-cache-level.js';
+export * from './resolver-cache-memory.js';
 export * from './resolver-cache-noop.js';
 export * from './types.js';
+export * from './universal-resolver.js';
 export * as utils from './utils.js';
\ No newline at end of file
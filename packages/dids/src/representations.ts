@@ -0,0 +1,163 @@
+import type { DidDocument } from './types.js';
+
+import * as cbor from 'cborg';
+import { Convert } from '@web5/common';
+
+import { getVerificationMethodTypes } from './utils.js';
+
+/**
+ * Media types of the DID document representations that can be produced and
+ * consumed.
+ *
+ * @see {@link https://www.w3.org/TR/did-core/#representations | DID Core Representations}
+ */
+export const DidDocumentRepresentations = [
+  'application/did+json',
+  'application/did+ld+json',
+  'application/did+cbor'
+] as const;
+
+export type DidDocumentRepresentation = typeof DidDocumentRepresentations[number];
+
+const DID_CORE_CONTEXT = 'https://www.w3.org/ns/did/v1';
+
+/**
+ * JSON-LD contexts that define the terms of each verification method type.
+ */
+const VERIFICATION_METHOD_TYPE_CONTEXTS: Record<string, string> = {
+  'EcdsaSecp256k1VerificationKey2019' : 'https://w3id.org/security/suites/secp256k1-2019/v1',
+  'Ed25519VerificationKey2020'        : 'https://w3id.org/security/suites/ed25519-2020/v1',
+  'JsonWebKey2020'                    : 'https://w3id.org/security/suites/jws-2020/v1',
+  'Multikey'                          : 'https://w3id.org/security/multikey/v1',
+  'X25519KeyAgreementKey2020'         : 'https://w3id.org/security/suites/x25519-2020/v1'
+};
+
+/**
+ * Type guard function to check if the given media type is a supported DID
+ * document representation.
+ *
+ * @param contentType The media type to check.
+ * @returns True if the media type is a supported representation, false otherwise.
+ */
+export function isDidDocumentRepresentation(contentType: string): contentType is DidDocumentRepresentation {
+  return (DidDocumentRepresentations as readonly string[]).includes(contentType);
+}
+
+/**
+ * Converts a DID document to the data model of a given representation:
+ *
+ * - `application/did+json` and `application/did+cbor` documents do not have an `@context`.
+ * - `application/did+ld+json` documents have an `@context` that includes the DID Core
+ *   context and the contexts of the verification method types used in the document,
+ *   in addition to any contexts the document already had.
+ *
+ * The given DID document is not modified.
+ *
+ * @param options - An object containing input parameters for converting the DID document.
+ * @param options.didDocument - The DID document to convert.
+ * @param options.contentType - The media type of the representation.
+ *
+ * @returns The DID document in the data model of the representation.
+ */
+export function toRepresentationDataModel(options: {
+  didDocument: DidDocument,
+  contentType: DidDocumentRepresentation
+}): DidDocument {
+  const { didDocument, contentType } = options;
+
+  const { '@context': context, ...plainDidDocument } = didDocument;
+
+  if (contentType !== 'application/did+ld+json') {
+    return plainDidDocument;
+  }
+
+  // The `@context` of a DID document can be a single context or an array of contexts.
+  const contexts = ([] as (string | Record<string, any>)[]).concat(context ?? DID_CORE_CONTEXT);
+  if (!contexts.includes(DID_CORE_CONTEXT)) {
+    contexts.unshift(DID_CORE_CONTEXT);
+  }
+
+  for (const type of getVerificationMethodTypes({ didDocument: plainDidDocument })) {
+    const typeContext = VERIFICATION_METHOD_TYPE_CONTEXTS[type];
+    if (typeContext && !contexts.includes(typeContext)) {
+      contexts.push(typeContext);
+    }
+  }
+
+  return { '@context': contexts, ...plainDidDocument };
+}
+
+/**
+ * Produces a representation of a DID document as bytes.
+ *
+ * @see {@link https://www.w3.org/TR/did-core/#production-and-consumption | Production and Consumption}
+ *
+ * @param options - An object containing input parameters for producing the representation.
+ * @param options.didDocument - The DID document to represent.
+ * @param options.contentType - The media type of the representation.
+ *
+ * @returns The representation of the DID document.
+ * @throws Error if the media type is not a supported representation.
+ */
+export function produceRepresentation(options: {
+  didDocument: DidDocument,
+  contentType: string
+}): Uint8Array {
+  const { didDocument, contentType } = options;
+
+  if (!isDidDocumentRepresentation(contentType)) {
+    throw new Error(`representationNotSupported: Unsupported representation: ${contentType}`);
+  }
+
+  const dataModel = toRepresentationDataModel({ didDocument, contentType });
+
+  if (contentType === 'application/did+cbor') {
+    return cbor.encode(dataModel);
+  }
+
+  return Convert.object(dataModel).toUint8Array();
+}
+
+/**
+ * Consumes a representation of a DID document, returning the DID document.
+ *
+ * @see {@link https://www.w3.org/TR/did-core/#production-and-consumption | Production and Consumption}
+ *
+ * @param options - An object containing input parameters for consuming the representation.
+ * @param options.representation - The representation of the DID document.
+ * @param options.contentType - The media type of the representation.
+ *
+ * @returns The DID document.
+ * @throws Error if the media type is not a supported representation or the
+ *         representation is not a DID document.
+ */
+export function consumeRepresentation(options: {
+  representation: Uint8Array,
+  contentType: string
+}): DidDocument {
+  const { representation, contentType } = options;
+
+  if (!isDidDocumentRepresentation(contentType)) {
+    throw new Error(`representationNotSupported: Unsupported representation: ${contentType}`);
+  }
+
+  let didDocument: DidDocument;
+  try {
+    didDocument = (contentType === 'application/did+cbor')
+      ? cbor.decode(representation)
+      : Convert.uint8Array(representation).toObject() as DidDocument;
+  } catch (error: any) {
+    throw new Error(`invalidDidDocument: Unable to decode ${contentType} representation: ${error.message}`);
+  }
+
+  if (typeof didDocument !== 'object' || didDocument === null || typeof didDocument.id !== 'string') {
+    throw new Error(`invalidDidDocument: Representation is not a DID document`);
+  }
+
+  const context = didDocument['@context'];
+  if (contentType === 'application/did+ld+json' && typeof context !== 'string' && !Array.isArray(context)) {
+    throw new Error(`invalidDidDocument: JSON-LD representation is missing '@context'`);
+  }
+
+  return didDocument;
+}
@@ -5,6 +5,8 @@ import { Level } from 'level';
 
 export type DidResolverCacheOptions = {
   location?: string;
+  /** Time to live of cached `notFound` resolution results. */
+  notFoundTtl?: string;
   ttl?: string;
 }
 
@@ -20,20 +22,24 @@ type CacheWrapper = {
  */
 export class DidResolverCacheLevel implements DidResolverCache {
   private cache: Level<string, string>;
+  private notFoundTtl: number;
   private ttl: number;
 
   private static defaultOptions: Required<DidResolverCacheOptions> = {
-    location : 'DATA/AGENT/DID_RESOLVERCACHE',
-    ttl      : '15m'
+    location    : 'DATA/AGENT/DID_RESOLVERCACHE',
+    notFoundTtl : '1m',
+    ttl         : '15m'
   };
 
   constructor(options: DidResolverCacheOptions = {}) {
-    let { location, ttl } = options;
+    let { location, notFoundTtl, ttl } = options;
 
     location ??= DidResolverCacheLevel.defaultOptions.location;
+    notFoundTtl ??= DidResolverCacheLevel.defaultOptions.notFoundTtl;
     ttl ??= DidResolverCacheLevel.defaultOptions.ttl;
 
     this.cache = new Level(location);
+    this.notFoundTtl = ms(notFoundTtl);
     this.ttl = ms(ttl);
   }
 
@@ -62,7 +68,9 @@ export class DidResolverCacheLevel implements DidResolverCache {
   }
 
   set(did: string, value: DidResolutionResult): Promise<void> {
-    const cacheWrapper: CacheWrapper = { ttlMillis: Date.now() + this.ttl, value };
+    // DIDs that were not found may be published soon, so they expire sooner.
+    const ttl = (value.didResolutionMetadata.error === 'notFound') ? this.notFoundTtl : this.ttl;
+    const cacheWrapper: CacheWrapper = { ttlMillis: Date.now() + ttl, value };
     const str = JSON.stringify(cacheWrapper);
 
     return this.cache.put(did, str);
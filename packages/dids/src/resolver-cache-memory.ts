@@ -0,0 +1,115 @@
+import type { DidResolutionResult, DidResolverCache } from './types.js';
+
+import ms from 'ms';
+
+import { parseDid } from './utils.js';
+
+export type DidResolverCacheMemoryOptions = {
+  /** Maximum number of resolution results to cache before evicting the least recently used. */
+  maxEntries?: number;
+
+  /** Time to live of cached resolution results of DID methods without a TTL in `methodTtls`. */
+  ttl?: string;
+
+  /** Time to live of cached resolution results, by DID method name, e.g. `{ dht: '1h' }`. */
+  methodTtls?: Record<string, string>;
+
+  /** Time to live of cached `notFound` resolution results. */
+  notFoundTtl?: string;
+}
+
+type CacheEntry = {
+  expiresAt: number;
+  value: DidResolutionResult;
+}
+
+/**
+ * In-memory LRU cache for DID resolution results. Results are cached for a
+ * TTL that can be configured per DID method. `notFound` results are cached
+ * for a shorter TTL, so that DIDs published shortly after being looked up
+ * are soon resolvable, and all other error results are never cached.
+ */
+export class DidResolverCacheMemory implements DidResolverCache {
+  private cache: Map<string, CacheEntry> = new Map();
+  private maxEntries: number;
+  private methodTtls: Map<string, number>;
+  private notFoundTtl: number;
+  private ttl: number;
+
+  private static defaultOptions: Required<DidResolverCacheMemoryOptions> = {
+    maxEntries  : 1000,
+    methodTtls  : {},
+    notFoundTtl : '1m',
+    ttl         : '15m'
+  };
+
+  constructor(options: DidResolverCacheMemoryOptions = {}) {
+    let { maxEntries, methodTtls, notFoundTtl, ttl } = options;
+
+    maxEntries ??= DidResolverCacheMemory.defaultOptions.maxEntries;
+    methodTtls ??= DidResolverCacheMemory.defaultOptions.methodTtls;
+    notFoundTtl ??= DidResolverCacheMemory.defaultOptions.notFoundTtl;
+    ttl ??= DidResolverCacheMemory.defaultOptions.ttl;
+
+    if (maxEntries < 1) {
+      throw new Error(`DidResolverCacheMemory: 'maxEntries' must be at least 1`);
+    }
+
+    this.maxEntries = maxEntries;
+    this.methodTtls = new Map(Object.entries(methodTtls).map(([method, methodTtl]) => [method, ms(methodTtl)]));
+    this.notFoundTtl = ms(notFoundTtl);
+    this.ttl = ms(ttl);
+  }
+
+  async get(did: string): Promise<DidResolutionResult | void> {
+    const entry = this.cache.get(did);
+    if (!entry) return;
+
+    if (Date.now() >= entry.expiresAt) {
+      this.cache.delete(did);
+      return;
+    }
+
+    // Re-insert the entry to mark it as the most recently used.
+    this.cache.delete(did);
+    this.cache.set(did, entry);
+
+    return entry.value;
+  }
+
+  async set(did: string, value: DidResolutionResult): Promise<void> {
+    const { error } = value.didResolutionMetadata;
+
+    // Only cache successful and `notFound` resolution results.
+    if (error && error !== 'notFound') return;
+
+    const ttl = (error === 'notFound') ? this.notFoundTtl : this.getMethodTtl({ did });
+
+    this.cache.delete(did);
+    this.cache.set(did, { expiresAt: Date.now() + ttl, value });
+
+    // Evict the least recently used entries, which are first in insertion order.
+    for (const key of this.cache.keys()) {
+      if (this.cache.size <= this.maxEntries) break;
+      this.cache.delete(key);
+    }
+  }
+
+  async delete(did: string): Promise<void> {
+    this.cache.delete(did);
+  }
+
+  async clear(): Promise<void> {
+    this.cache.clear();
+  }
+
+  async close(): Promise<void> {
+    this.cache.clear();
+  }
+
+  private getMethodTtl({ did }: { did: string }): number {
+    const method = parseDid({ didUrl: did })?.method;
+
+    return this.methodTtls.get(method) ?? this.ttl;
+  }
+}
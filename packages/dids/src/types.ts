@@ -1,12 +1,16 @@
+import type { Packet } from 'dns-packet';
 import type { KeyValueStore } from '@web5/common';
 import type { PrivateKeyJwk, PublicKeyJwk } from '@web5/crypto';
 
 import { DidKeyKeySet } from './did-key.js';
 import { DidIonKeySet } from './did-ion.js';
+import { DidJwkKeySet } from './did-jwk.js';
 import { DidDhtKeySet } from './did-dht.js';
+import { DidPeerKeySet } from './did-peer.js';
+import { DidWebKeySet } from './did-web.js';
 
 export type DidDocument = {
-  '@context'?: 'https://www.w3.org/ns/did/v1' | string | string[];
+  '@context'?: 'https://www.w3.org/ns/did/v1' | string | (string | Record<string, any>)[];
   id: string;
   alsoKnownAs?: string[];
   controller?: string | string[];
@@ -19,6 +23,27 @@ export type DidDocument = {
   capabilityInvocation?: VerificationMethod[] | string[];
 }
 
+/**
+ * A problem found by `validateDidDocument()` in a DID document.
+ */
+export type DidDocumentValidationFinding = {
+  /** Identifies the kind of problem found. */
+  code:
+    | 'invalidStructure'
+    | 'invalidId'
+    | 'idMismatch'
+    | 'duplicateVerificationMethodId'
+    | 'unknownVerificationMethod'
+    | 'privateKeyMaterial'
+    | 'invalidServiceEndpoint';
+
+  /** Human-readable description of the problem. */
+  message: string;
+
+  /** Path to the property of the DID document with the problem, e.g. `verificationMethod[0].publicKeyJwk`. */
+  path: string;
+};
+
 export type DidDocumentMetadata = {
   // indicates the timestamp of the Create operation. ISO8601 timestamp
   created?: string
@@ -37,14 +62,14 @@ export type DidDocumentMetadata = {
   // is not the latest version of the document.
   nextVersionId?: string
   // @see https://www.w3.org/TR/did-core/#dfn-equivalentid
-  equivalentId?: string
+  equivalentId?: string[]
   // @see https://www.w3.org/TR/did-core/#dfn-canonicalid
   canonicalId?: string
   // Additional output metadata generated during DID Resolution.
   [key: string]: any
 };
 
-export type DidKeySet = DidKeyKeySet | DidIonKeySet | DidDhtKeySet;
+export type DidKeySet = DidKeyKeySet | DidIonKeySet | DidDhtKeySet | DidJwkKeySet | DidPeerKeySet | DidWebKeySet;
 
 export type DidKeySetVerificationMethodKey = {
   /** Unique identifier for the key in the KeyManager store. */
@@ -79,6 +104,18 @@ export interface DidMethodResolver {
   }): Promise<DidResolutionResult>;
 }
 
+/**
+ * A resolver that can resolve DIDs of any method, such as a client of a
+ * remote DID resolver. `DidResolver` falls back to it for DIDs of methods
+ * without a registered `DidMethodResolver`.
+ */
+export interface DidFallbackResolver {
+  resolve(options: {
+    didUrl: string,
+    resolutionOptions?: DidResolutionOptions
+  }): Promise<DidResolutionResult>;
+}
+
 export interface DidMethodOperator {
   new (): DidMethod;
   methodName: string;
@@ -153,6 +190,13 @@ export type DidResolutionMetadata = {
      * property MUST be representationNotSupported.
      */
     | 'representationNotSupported'
+
+    /**
+     * If a resolved DID document is not well-formed and the resolver was
+     * configured to validate DID documents, the value of the DID Resolution
+     * Metadata error property is invalidDidDocument.
+     */
+    | 'invalidDidDocument'
     | string
 
   // Additional output metadata generated during DID Resolution.
@@ -165,12 +209,67 @@ export type DidResolutionMetadata = {
  * @see {@link https://www.w3.org/TR/did-core/#did-resolution-options}
  */
 export interface DidResolutionOptions {
+  /**
+   * The media type of the preferred representation of the DID document, one
+   * of `application/did+json`, `application/did+ld+json`, or
+   * `application/did+cbor`.
+   */
   accept?: string
 
   // Additional properties used during DID Resolution.
   [key: string]: any
 }
 
+/**
+ * DID URL dereferencing input metadata.
+ *
+ * @see {@link https://www.w3.org/TR/did-core/#did-url-dereferencing-options}
+ */
+export interface DidDereferencingOptions {
+  accept?: string
+
+  // Additional properties used during DID URL dereferencing.
+  [key: string]: any
+}
+
+/**
+ * DID URL dereferencing output metadata.
+ *
+ * @see {@link https://www.w3.org/TR/did-core/#did-url-dereferencing-metadata}
+ */
+export type DidDereferencingMetadata = {
+  contentType?: string
+
+  error?:
+    /**
+     * If an invalid DID URL is detected during DID URL dereferencing, the
+     * value of the DID URL Dereferencing Metadata error property MUST be
+     * invalidDidUrl.
+     */
+    | 'invalidDidUrl'
+    | DidResolutionMetadata['error']
+
+  // Additional output metadata generated during DID URL dereferencing.
+  [key: string]: any
+};
+
+/**
+ * A resource that a DID URL can be dereferenced to.
+ */
+export type DidResource = DidDocument | VerificationMethod | DidService;
+
+/**
+ * The result of dereferencing a DID URL, which is either a resource in a DID
+ * document or, for DID URLs that select a service, a service endpoint URL.
+ *
+ * @see {@link https://www.w3.org/TR/did-core/#did-url-dereferencing}
+ */
+export type DidDereferencingResult = {
+  dereferencingMetadata: DidDereferencingMetadata
+  contentStream: DidResource | string | null
+  contentMetadata: DidDocumentMetadata
+};
+
 export type DidResolutionResult = {
   '@context'?: 'https://w3id.org/did-resolution/v1' | string | string[]
   didResolutionMetadata: DidResolutionMetadata
@@ -178,11 +277,67 @@ export type DidResolutionResult = {
   didDocumentMetadata: DidDocumentMetadata
 };
 
+/**
+ * The result of resolving a DID to a representation of its DID document,
+ * rather than to the DID document data model.
+ *
+ * @see {@link https://www.w3.org/TR/did-core/#did-resolution | DID Resolution}
+ */
+export type DidResolutionRepresentationResult = {
+  '@context'?: 'https://w3id.org/did-resolution/v1' | string | string[]
+  didResolutionMetadata: DidResolutionMetadata
+  didDocumentStream?: Uint8Array
+  didDocumentMetadata: DidDocumentMetadata
+};
+
 /**
  * implement this interface to provide your own cache for did resolution results. can be plugged in through Web5 API
  */
 export type DidResolverCache = KeyValueStore<string, DidResolutionResult | void>;
 
+/**
+ * A gateway to the DHT that stores and retrieves the signed packets of did:dht
+ * DIDs. Implement this interface to provide your own gateway to
+ * `DidDhtMethod`, for example to use a private relay or to run without network.
+ *
+ * Signed packets are exchanged as bytes: the 64-byte signature, the 8-byte
+ * timestamp and the encoded DNS packet, as defined by the
+ * {@link https://github.com/Nuhvi/pkarr/blob/main/design/relays.md | pkarr relay} specification.
+ */
+export interface DhtGateway {
+  /**
+   * Retrieves the signed packet published for a public key.
+   *
+   * @param options.publicKey - The public key of the identity key, which is encoded in the DID.
+   * @returns The signed packet bytes, or `undefined` if no packet has been published for the key.
+   */
+  get(options: { publicKey: Uint8Array }): Promise<Uint8Array | undefined>;
+
+  /**
+   * Stores a signed packet, replacing the packet previously published for
+   * the same public key.
+   *
+   * @param options.publicKey - The public key that signed the packet.
+   * @param options.signedPacket - The signed packet bytes to store.
+   * @returns `true` if the packet was stored; otherwise, `false`.
+   */
+  put(options: { publicKey: Uint8Array, signedPacket: Uint8Array }): Promise<boolean>;
+}
+
+/**
+ * A signed packet of a did:dht DID, as retrieved from the DHT.
+ */
+export type DhtSignedPacket = {
+  /** The signed packet bytes, as exchanged with a `DhtGateway`. */
+  bytes: Uint8Array;
+
+  /** The DNS packet that encodes the DID Document. */
+  packet: Packet;
+
+  /** The timestamp, in microseconds, that the packet was signed with. */
+  timestamp: number;
+};
+
 /**
  * Format to document a DID identifier, along with its associated data,
  * which can be exported, saved to a file, or imported. The intent is
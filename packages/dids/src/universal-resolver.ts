@@ -0,0 +1,178 @@
+import type { DidFallbackResolver, DidResolutionOptions, DidResolutionResult } from './types.js';
+
+import { parseDid } from './utils.js';
+
+export type UniversalResolverOptions = {
+  /** Base URLs of Universal Resolver instances, tried in the order given. */
+  endpoints?: string[];
+
+  /** Time, in milliseconds, to wait for each endpoint to respond. */
+  timeout?: number;
+}
+
+/**
+ * Media type requesting a full DID resolution result, rather than only the
+ * DID document, from a Universal Resolver.
+ */
+const DID_RESOLUTION_MEDIA_TYPE = 'application/ld+json;profile="https://w3id.org/did-resolution"';
+
+/**
+ * DID resolution errors implied by Universal Resolver HTTP status codes, for
+ * responses that do not include DID resolution metadata.
+ */
+const HttpStatusToResolutionError: Record<number, string> = {
+  400 : 'invalidDid',
+  404 : 'notFound',
+  406 : 'representationNotSupported',
+  501 : 'methodNotSupported'
+};
+
+/**
+ * Client of the DIF Universal Resolver HTTP interface, which resolves DIDs of
+ * any method supported by the remote resolver. It can be given to
+ * `DidResolver` as a fallback for DID methods without a registered resolver.
+ *
+ * Endpoints are tried in the order given, failing over to the next endpoint
+ * if an endpoint is unreachable, does not respond within the timeout, or
+ * responds with a server error.
+ *
+ * @see {@link https://github.com/decentralized-identity/universal-resolver | Universal Resolver}
+ */
+export class UniversalResolver implements DidFallbackResolver {
+  private endpoints: string[];
+  private timeout: number;
+
+  private static defaultOptions: Required<UniversalResolverOptions> = {
+    endpoints : ['https://dev.uniresolver.io'],
+    timeout   : 10_000
+  };
+
+  constructor(options: UniversalResolverOptions = {}) {
+    let { endpoints, timeout } = options;
+
+    endpoints ??= UniversalResolver.defaultOptions.endpoints;
+    timeout ??= UniversalResolver.defaultOptions.timeout;
+
+    if (endpoints.length === 0) {
+      throw new Error('UniversalResolver: At least one endpoint must be given.');
+    }
+
+    this.endpoints = endpoints;
+    this.timeout = timeout;
+  }
+
+  async resolve(options: {
+    didUrl: string,
+    resolutionOptions?: DidResolutionOptions
+  }): Promise<DidResolutionResult> {
+    const { didUrl } = options;
+
+    const parsedDid = parseDid({ didUrl });
+    if (!parsedDid) {
+      return {
+        '@context'            : 'https://w3id.org/did-resolution/v1',
+        didDocument           : undefined,
+        didDocumentMetadata   : {},
+        didResolutionMetadata : {
+          contentType  : 'application/did+ld+json',
+          error        : 'invalidDid',
+          errorMessage : `Cannot parse DID: ${didUrl}`
+        }
+      };
+    }
+
+    let lastErrorMessage = '';
+
+    for (const endpoint of this.endpoints) {
+      const abortController = new AbortController();
+      const timeoutId = setTimeout(() => abortController.abort(), this.timeout);
+
+      try {
+        const response = await fetch(UniversalResolver.getResolutionUrl({ endpoint, did: parsedDid.did }), {
+          // Always request a DID resolution result, since the DID document is
+          // converted to the requested representation by `DidResolver`.
+          headers : { Accept: DID_RESOLUTION_MEDIA_TYPE },
+          signal  : abortController.signal
+        });
+
+        // Fail over to the next endpoint on server errors.
+        if (response.status >= 500 && response.status !== 501) {
+          lastErrorMessage = `Universal Resolver responded with HTTP status code ${response.status}: ${endpoint}`;
+          continue;
+        }
+
+        return await UniversalResolver.parseResponse({ response });
+
+      } catch (error: any) {
+        lastErrorMessage = (abortController.signal.aborted)
+          ? `Universal Resolver did not respond within ${this.timeout} ms: ${endpoint}`
+          : `Unable to reach Universal Resolver: ${error.message}`;
+
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    }
+
+    return {
+      '@context'            : 'https://w3id.org/did-resolution/v1',
+      didDocument           : undefined,
+      didDocumentMetadata   : {},
+      didResolutionMetadata : {
+        contentType  : 'application/did+ld+json',
+        error        : 'internalError',
+        errorMessage : lastErrorMessage
+      }
+    };
+  }
+
+  private static getResolutionUrl({ endpoint, did }: { endpoint: string, did: string }): string {
+    return `${endpoint.replace(/\/+$/, '')}/1.0/identifiers/${encodeURIComponent(did)}`;
+  }
+
+  /**
+   * Parses a Universal Resolver response, which is either a DID resolution
+   * result or, if the resolver did not honor the requested media type, a
+   * DID document.
+   */
+  private static async parseResponse({ response }: { response: Response }): Promise<DidResolutionResult> {
+    let body: any;
+    try {
+      body = await response.json();
+    } catch {
+      body = undefined;
+    }
+
+    const isResolutionResult = typeof body === 'object' && body !== null
+      && ('didResolutionMetadata' in body || 'didDocument' in body);
+
+    const resolutionResult: DidResolutionResult = (isResolutionResult)
+      ? {
+        '@context'            : body['@context'] ?? 'https://w3id.org/did-resolution/v1',
+        didDocument           : body.didDocument ?? undefined,
+        didDocumentMetadata   : body.didDocumentMetadata ?? {},
+        didResolutionMetadata : body.didResolutionMetadata ?? {}
+      }
+      : {
+        '@context'            : 'https://w3id.org/did-resolution/v1',
+        didDocument           : (response.ok && typeof body?.id === 'string') ? body : undefined,
+        didDocumentMetadata   : {},
+        didResolutionMetadata : {
+          contentType: response.headers.get('Content-Type') ?? 'application/did+ld+json'
+        }
+      };
+
+    // Universal Resolvers respond with HTTP status code 410 for deactivated DIDs.
+    if (response.status === 410) {
+      resolutionResult.didDocumentMetadata.deactivated = true;
+      return resolutionResult;
+    }
+
+    // Set the error implied by the HTTP status code, if the resolver did not give one.
+    if (!resolutionResult.didResolutionMetadata.error && (!response.ok || !resolutionResult.didDocument)) {
+      resolutionResult.didResolutionMetadata.error = HttpStatusToResolutionError[response.status] ?? 'internalError';
+      resolutionResult.didResolutionMetadata.errorMessage ??= `Universal Resolver responded with HTTP status code ${response.status}`;
+    }
+
+    return resolutionResult;
+  }
+}
@@ -1,7 +1,10 @@
 import type { PublicKeyJwk } from '@web5/crypto';
+
+import { Convert } from '@web5/common';
+import { utils as cryptoUtils } from '@web5/crypto';
 import { parse, type ParsedDID } from 'did-resolver';
 
-import type { DidDocument, DidService, DidServiceEndpoint, DwnServiceEndpoint } from './types.js';
+import type { DidDocument, DidDocumentValidationFinding, DidService, DidServiceEndpoint, DwnServiceEndpoint, VerificationMethod, VerificationRelationship } from './types.js';
 
 export interface ParsedDid {
   did: string
@@ -48,6 +51,20 @@ export function getServices(options: {
   }) ?? [ ];
 }
 
+/**
+ * Finds the ID of the verification method in a DID document that contains a
+ * given public key, expressed either as a JWK or in multibase format.
+ *
+ * A JWK also matches `Multikey` verification methods, which only express the
+ * public key in multibase format, if the JWK contains the same public key.
+ *
+ * @param options - An object containing input parameters for finding the verification method.
+ * @param options.didDocument - The DID document to search.
+ * @param options.publicKeyJwk - Optional. The public key, as a JWK.
+ * @param options.publicKeyMultibase - Optional. The public key, as a multibase-encoded multicodec value.
+ *
+ * @returns The verification method ID, or `undefined` if no verification method contains the public key.
+ */
 export function getVerificationMethodIds(options: {
   didDocument: DidDocument,
   publicKeyJwk?: PublicKeyJwk,
@@ -68,7 +85,74 @@ export function getVerificationMethodIds(options: {
             publicKeyJwk.x === method.publicKeyJwk.x) {
         return method.id;
       }
+    } else if (publicKeyJwk && 'crv' in publicKeyJwk &&
+               method.type === 'Multikey' && method.publicKeyMultibase) {
+      const multikey = getMultikey({ publicKeyMultibase: method.publicKeyMultibase });
+      if (multikey && multikey === getMultikeyFromJwk({ publicKeyJwk })) {
+        return method.id;
+      }
+    }
+  }
+}
+
+/**
+ * Curves of the public keys that can be expressed in `Multikey` format, by
+ * multicodec name.
+ */
+const MULTIKEY_CURVES: Record<string, string> = {
+  'ed25519-pub'   : 'Ed25519',
+  'p256-pub'      : 'P-256',
+  'p384-pub'      : 'P-384',
+  'secp256k1-pub' : 'secp256k1',
+  'x25519-pub'    : 'X25519'
+};
+
+/**
+ * Returns the curve and the base64url-encoded bytes of a public key in
+ * `Multikey` format, for comparison with the result of `getMultikeyFromJwk()`.
+ */
+function getMultikey(options: {
+  publicKeyMultibase: string
+}): string | undefined {
+  const { publicKeyMultibase } = options;
+
+  try {
+    const { key, multicodecName } = cryptoUtils.multibaseIdToKey({ multibaseKeyId: publicKeyMultibase });
+    const crv = MULTIKEY_CURVES[multicodecName];
+    if (!crv) return undefined;
+
+    return `${crv}:${Convert.uint8Array(key).toBase64Url()}`;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Returns the curve and the base64url-encoded bytes of a JWK public key as
+ * they would be expressed in `Multikey` format. Elliptic curve public keys in
+ * `Multikey` format are compressed: a prefix byte that encodes the parity of
+ * the y-coordinate, followed by the x-coordinate.
+ */
+function getMultikeyFromJwk(options: {
+  publicKeyJwk: PublicKeyJwk
+}): string | undefined {
+  const { publicKeyJwk } = options;
+  if (!('crv' in publicKeyJwk)) return undefined;
+
+  try {
+    let key = Convert.base64Url(publicKeyJwk.x).toUint8Array();
+
+    if ('y' in publicKeyJwk && publicKeyJwk.y) {
+      const y = Convert.base64Url(publicKeyJwk.y).toUint8Array();
+      const compressedKey = new Uint8Array(key.length + 1);
+      compressedKey[0] = 0x02 | (y[y.length - 1] & 1);
+      compressedKey.set(key, 1);
+      key = compressedKey;
     }
+
+    return `${publicKeyJwk.crv}:${Convert.uint8Array(key).toBase64Url()}`;
+  } catch {
+    return undefined;
   }
 }
 
@@ -121,4 +205,168 @@ export function parseDid({ didUrl }: { didUrl: string }): ParsedDid | undefined
   const parsedDid: ParsedDid = parse(didUrl);
 
   return parsedDid;
-}
\ No newline at end of file
+}
+
+/**
+ * Validates that a DID document is well-formed, checking that:
+ *
+ * - verification methods, verification relationships, and services have the expected structure,
+ * - the `id` is a DID and, if `did` is given, matches the resolved DID,
+ * - verification method IDs are unique,
+ * - verification relationships only reference verification methods in the document,
+ * - verification method JWKs do not contain private key material, and
+ * - service endpoints are URIs or `DwnServiceEndpoint` maps.
+ *
+ * Relative DID URLs, such as `#key-1`, are interpreted relative to the `id`
+ * of the DID document.
+ *
+ * The DID document is treated as untrusted input, so structural problems, such as
+ * a verification relationship that is not an array, are reported as findings rather
+ * than thrown.
+ *
+ * @param options - An object containing input parameters for validating the DID document.
+ * @param options.didDocument - The DID document to validate.
+ * @param options.did - Optional. The DID that was resolved to the DID document.
+ *
+ * @returns An array of findings describing each problem found. If the DID document is valid, an empty array is returned.
+ *
+ * @example
+ *
+ * const findings = validateDidDocument({ didDocument, did });
+ * if (findings.length > 0) console.log(findings.map(finding => finding.message));
+ */
+export function validateDidDocument(options: {
+  didDocument: DidDocument,
+  did?: string
+}): DidDocumentValidationFinding[] {
+  const { didDocument, did } = options;
+
+  const findings: DidDocumentValidationFinding[] = [];
+
+  if (!isObject(didDocument)) {
+    findings.push({ code: 'invalidStructure', message: 'DID document is not an object', path: '' });
+    return findings;
+  }
+
+  if (typeof didDocument.id !== 'string' || !parseDid({ didUrl: didDocument.id })) {
+    findings.push({ code: 'invalidId', message: `DID document 'id' is not a DID: ${didDocument.id}`, path: 'id' });
+  } else if (did !== undefined && didDocument.id !== did) {
+    findings.push({ code: 'idMismatch', message: `DID document 'id' does not match the resolved DID: ${didDocument.id}`, path: 'id' });
+  }
+
+  const toAbsoluteId = (id: string): string => id.startsWith('#') ? `${didDocument.id}${id}` : id;
+
+  // Returns the entries of an optional array property, reporting a finding if the property is not an array.
+  const getEntries = (property: 'verificationMethod' | 'service' | VerificationRelationship): unknown[] => {
+    const entries: unknown = didDocument[property];
+    if (entries === undefined) return [];
+    if (!Array.isArray(entries)) {
+      findings.push({ code: 'invalidStructure', message: `DID document '${property}' is not an array`, path: property });
+      return [];
+    }
+    return entries;
+  };
+
+  // Returns the entry as a verification method, reporting a finding if it is not an object with a string `id`.
+  const asVerificationMethod = (entry: unknown, path: string): VerificationMethod | undefined => {
+    if (!isObject(entry)) {
+      findings.push({ code: 'invalidStructure', message: 'Verification method is not an object', path });
+      return undefined;
+    }
+    if (typeof entry.id !== 'string') {
+      findings.push({ code: 'invalidStructure', message: `Verification method 'id' is not a string`, path: `${path}.id` });
+      return undefined;
+    }
+    return entry as VerificationMethod;
+  };
+
+  // Verification methods can be embedded in verification relationships or referenced by ID.
+  const verificationMethods: { method: VerificationMethod, path: string }[] = [];
+  const references: { id: string, path: string }[] = [];
+
+  getEntries('verificationMethod').forEach((entry, index) => {
+    const path = `verificationMethod[${index}]`;
+    const method = asVerificationMethod(entry, path);
+    if (method) verificationMethods.push({ method, path });
+  });
+
+  for (const relationship of VERIFICATION_RELATIONSHIPS) {
+    getEntries(relationship).forEach((entry, index) => {
+      const path = `${relationship}[${index}]`;
+      if (typeof entry === 'string') {
+        references.push({ id: entry, path });
+      } else {
+        const method = asVerificationMethod(entry, path);
+        if (method) verificationMethods.push({ method, path });
+      }
+    });
+  }
+
+  const methodIds = new Set<string>();
+
+  for (const { method, path } of verificationMethods) {
+    const methodId = toAbsoluteId(method.id);
+    if (methodIds.has(methodId)) {
+      findings.push({ code: 'duplicateVerificationMethodId', message: `Verification method ID is not unique: ${method.id}`, path: `${path}.id` });
+    }
+    methodIds.add(methodId);
+
+    if (isObject(method.publicKeyJwk) && PRIVATE_JWK_PARAMETERS.some(parameter => parameter in method.publicKeyJwk)) {
+      findings.push({ code: 'privateKeyMaterial', message: `Verification method JWK contains private key material: ${method.id}`, path: `${path}.publicKeyJwk` });
+    }
+  }
+
+  for (const { id, path } of references) {
+    if (!methodIds.has(toAbsoluteId(id))) {
+      findings.push({ code: 'unknownVerificationMethod', message: `Verification relationship references an unknown verification method: ${id}`, path });
+    }
+  }
+
+  getEntries('service').forEach((service, index) => {
+    if (!isObject(service)) {
+      findings.push({ code: 'invalidStructure', message: 'Service is not an object', path: `service[${index}]` });
+    } else if (!isValidServiceEndpoint(service.serviceEndpoint)) {
+      findings.push({ code: 'invalidServiceEndpoint', message: `Service endpoint is not a URI or DWN service endpoint: ${service.id}`, path: `service[${index}].serviceEndpoint` });
+    }
+  });
+
+  return findings;
+}
+
+const VERIFICATION_RELATIONSHIPS: VerificationRelationship[] = [
+  'assertionMethod',
+  'authentication',
+  'capabilityDelegation',
+  'capabilityInvocation',
+  'keyAgreement'
+];
+
+/** JWK parameters that only occur in private or symmetric keys. */
+const PRIVATE_JWK_PARAMETERS = ['d', 'p', 'q', 'dp', 'dq', 'qi', 'k'];
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isUri(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isValidServiceEndpoint(endpoint: DidService['serviceEndpoint'] | undefined): boolean {
+  if (Array.isArray(endpoint)) {
+    return endpoint.length > 0 && endpoint.every(entry => isValidServiceEndpoint(entry));
+  }
+
+  if (typeof endpoint === 'object' && endpoint !== null) {
+    return isDwnServiceEndpoint(endpoint) && Array.isArray(endpoint.nodes) && endpoint.nodes.every(node => isUri(node));
+  }
+
+  return isUri(endpoint);
+}
@@ -0,0 +1,126 @@
+import sinon from 'sinon';
+import chai, { expect } from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import { Pkarr, SignedPacket, z32 } from 'pkarr';
+
+import { DhtGatewayHttp } from '../src/dht-gateway-http.js';
+
+chai.use(chaiAsPromised);
+
+describe('DhtGatewayHttp', () => {
+  const relays = ['https://relay1.example.com', 'https://relay2.example.com/'];
+
+  let keyPair: ReturnType<typeof Pkarr.generateKeyPair>;
+  let signedPacket: SignedPacket;
+  let fetchStub: sinon.SinonStub;
+
+  beforeEach(() => {
+    keyPair = Pkarr.generateKeyPair();
+    signedPacket = SignedPacket.fromPacket(keyPair, { id: 0, type: 'response', flags: 0, answers: [] });
+    fetchStub = sinon.stub(globalThis, 'fetch');
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('throws an error if no relays are given', () => {
+    expect(() => new DhtGatewayHttp({ relays: [] })).to.throw(Error, 'At least one relay must be given');
+  });
+
+  describe('get()', () => {
+    it('returns the signed packet from the first relay', async () => {
+      fetchStub.resolves(new Response(signedPacket.bytes(), { status: 200 }));
+      const gateway = new DhtGatewayHttp({ relays });
+
+      const result = await gateway.get({ publicKey: keyPair.publicKey });
+
+      expect(result).to.deep.equal(signedPacket.bytes());
+      sinon.assert.calledOnceWithExactly(fetchStub, `https://relay1.example.com/${z32.encode(keyPair.publicKey)}`);
+    });
+
+    it('fails over to the next relay if a relay responds with an error', async () => {
+      fetchStub.onFirstCall().resolves(new Response(null, { status: 500 }));
+      fetchStub.onSecondCall().resolves(new Response(signedPacket.bytes(), { status: 200 }));
+      const gateway = new DhtGatewayHttp({ relays });
+
+      const result = await gateway.get({ publicKey: keyPair.publicKey });
+
+      expect(result).to.deep.equal(signedPacket.bytes());
+      expect(fetchStub.secondCall.args[0]).to.equal(`https://relay2.example.com/${z32.encode(keyPair.publicKey)}`);
+    });
+
+    it('fails over to the next relay if a relay is unreachable', async () => {
+      fetchStub.onFirstCall().rejects(new TypeError('fetch failed'));
+      fetchStub.onSecondCall().resolves(new Response(signedPacket.bytes(), { status: 200 }));
+      const gateway = new DhtGatewayHttp({ relays });
+
+      const result = await gateway.get({ publicKey: keyPair.publicKey });
+
+      expect(result).to.deep.equal(signedPacket.bytes());
+    });
+
+    it('fails over to the next relay if a relay returns a packet with an invalid signature', async () => {
+      const otherSignedPacket = SignedPacket.fromPacket(Pkarr.generateKeyPair(), { id: 0, type: 'response', flags: 0, answers: [] });
+      fetchStub.onFirstCall().resolves(new Response(otherSignedPacket.bytes(), { status: 200 }));
+      fetchStub.onSecondCall().resolves(new Response(signedPacket.bytes(), { status: 200 }));
+      const gateway = new DhtGatewayHttp({ relays });
+
+      const result = await gateway.get({ publicKey: keyPair.publicKey });
+
+      expect(result).to.deep.equal(signedPacket.bytes());
+    });
+
+    it('returns undefined if no relay has a packet for the public key', async () => {
+      fetchStub.onFirstCall().resolves(new Response(null, { status: 404 }));
+      fetchStub.onSecondCall().resolves(new Response(null, { status: 500 }));
+      const gateway = new DhtGatewayHttp({ relays });
+
+      const result = await gateway.get({ publicKey: keyPair.publicKey });
+
+      expect(result).to.be.undefined;
+    });
+
+    it('throws an error if all relays fail', async () => {
+      fetchStub.resolves(new Response(null, { status: 503 }));
+      const gateway = new DhtGatewayHttp({ relays });
+
+      await expect(
+        gateway.get({ publicKey: keyPair.publicKey })
+      ).to.eventually.be.rejectedWith(Error, 'Failed to get signed packet');
+    });
+  });
+
+  describe('put()', () => {
+    it('publishes the signed packet to the first relay', async () => {
+      fetchStub.resolves(new Response(null, { status: 200 }));
+      const gateway = new DhtGatewayHttp({ relays });
+
+      const isPublished = await gateway.put({ publicKey: keyPair.publicKey, signedPacket: signedPacket.bytes() });
+
+      expect(isPublished).to.be.true;
+      sinon.assert.calledOnce(fetchStub);
+      expect(fetchStub.firstCall.args[1]).to.deep.include({ method: 'PUT', body: signedPacket.bytes() });
+    });
+
+    it('fails over to the next relay if a relay rejects the packet', async () => {
+      fetchStub.onFirstCall().rejects(new TypeError('fetch failed'));
+      fetchStub.onSecondCall().resolves(new Response(null, { status: 200 }));
+      const gateway = new DhtGatewayHttp({ relays });
+
+      const isPublished = await gateway.put({ publicKey: keyPair.publicKey, signedPacket: signedPacket.bytes() });
+
+      expect(isPublished).to.be.true;
+      sinon.assert.calledTwice(fetchStub);
+    });
+
+    it('returns false if all relays fail', async () => {
+      fetchStub.resolves(new Response(null, { status: 500 }));
+      const gateway = new DhtGatewayHttp({ relays });
+
+      const isPublished = await gateway.put({ publicKey: keyPair.publicKey, signedPacket: signedPacket.bytes() });
+
+      expect(isPublished).to.be.false;
+    });
+  });
+});
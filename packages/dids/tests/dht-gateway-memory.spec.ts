@@ -0,0 +1,83 @@
+import { expect } from 'chai';
+import { Pkarr, SignedPacket } from 'pkarr';
+
+import { DhtGatewayMemory } from '../src/dht-gateway-memory.js';
+
+function createSignedPacket({ keyPair, timestamp, id = 0 }: {
+  keyPair: ReturnType<typeof Pkarr.generateKeyPair>,
+  timestamp: number,
+  id?: number
+}): Uint8Array {
+  const packet = { id, type: 'response' as const, flags: 0, answers: [] };
+
+  return SignedPacket.fromPacket(keyPair, packet, { timestamp: timestamp as unknown as object }).bytes();
+}
+
+describe('DhtGatewayMemory', () => {
+  let gateway: DhtGatewayMemory;
+
+  beforeEach(() => {
+    gateway = new DhtGatewayMemory();
+  });
+
+  it('returns undefined if no packet was stored for the public key', async () => {
+    const keyPair = Pkarr.generateKeyPair();
+
+    const signedPacket = await gateway.get({ publicKey: keyPair.publicKey });
+
+    expect(signedPacket).to.be.undefined;
+  });
+
+  it('stores and returns signed packets', async () => {
+    const keyPair = Pkarr.generateKeyPair();
+    const signedPacket = createSignedPacket({ keyPair, timestamp: 1000 });
+
+    const isStored = await gateway.put({ publicKey: keyPair.publicKey, signedPacket });
+    const storedPacket = await gateway.get({ publicKey: keyPair.publicKey });
+
+    expect(isStored).to.be.true;
+    expect(storedPacket).to.deep.equal(signedPacket);
+  });
+
+  it('only accepts packets that are newer than the stored packet', async () => {
+    const keyPair = Pkarr.generateKeyPair();
+    const { publicKey } = keyPair;
+    await gateway.put({ publicKey, signedPacket: createSignedPacket({ keyPair, timestamp: 2000 }) });
+
+    expect(await gateway.put({ publicKey, signedPacket: createSignedPacket({ keyPair, timestamp: 1000 }) })).to.be.false;
+    expect(await gateway.put({ publicKey, signedPacket: createSignedPacket({ keyPair, timestamp: 2000, id: 1 }) })).to.be.false;
+    expect(await gateway.put({ publicKey, signedPacket: createSignedPacket({ keyPair, timestamp: 3000 }) })).to.be.true;
+
+    const storedPacket = await gateway.get({ publicKey });
+    expect(SignedPacket.fromBytes(publicKey, storedPacket!).timestamp()).to.equal(3000);
+  });
+
+  it('accepts a stored packet being republished unchanged', async () => {
+    const keyPair = Pkarr.generateKeyPair();
+    const signedPacket = createSignedPacket({ keyPair, timestamp: 1000 });
+    await gateway.put({ publicKey: keyPair.publicKey, signedPacket });
+
+    const isStored = await gateway.put({ publicKey: keyPair.publicKey, signedPacket: new Uint8Array(signedPacket) });
+
+    expect(isStored).to.be.true;
+  });
+
+  it('rejects packets that are not signed by the public key', async () => {
+    const keyPair = Pkarr.generateKeyPair();
+    const signedPacket = createSignedPacket({ keyPair: Pkarr.generateKeyPair(), timestamp: 1000 });
+
+    const isStored = await gateway.put({ publicKey: keyPair.publicKey, signedPacket });
+
+    expect(isStored).to.be.false;
+    expect(await gateway.get({ publicKey: keyPair.publicKey })).to.be.undefined;
+  });
+
+  it('removes all stored packets when cleared', async () => {
+    const keyPair = Pkarr.generateKeyPair();
+    await gateway.put({ publicKey: keyPair.publicKey, signedPacket: createSignedPacket({ keyPair, timestamp: 1000 }) });
+
+    await gateway.clear();
+
+    expect(await gateway.get({ publicKey: keyPair.publicKey })).to.be.undefined;
+  });
+});
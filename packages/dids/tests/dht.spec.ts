@@ -1,13 +1,20 @@
-import { expect } from 'chai';
-import { Jose } from '@web5/crypto';
+import type { TxtAnswer } from 'dns-packet';
+import type { JwkParamsOkpPublic, PublicKeyJwk } from '@web5/crypto';
+
 import sinon from 'sinon';
+import chai, { expect } from 'chai';
+import { Jose } from '@web5/crypto';
+import { Convert } from '@web5/common';
+import chaiAsPromised from 'chai-as-promised';
 
 import type { DidDhtKeySet } from '../src/did-dht.js';
-import type { DidKeySetVerificationMethodKey, DidService } from '../src/types.js';
+import type { DidDocument, DidKeySetVerificationMethodKey, DidService, VerificationRelationship } from '../src/types.js';
 
-import { DidDht } from '../src/dht.js';
+import { DidDht, DidDhtRegisteredDidType } from '../src/dht.js';
 import { DidDhtMethod } from '../src/did-dht.js';
 
+chai.use(chaiAsPromised);
+
 describe('DidDht', () => {
   it('should create a put and parse a get request', async () => {
 
@@ -84,5 +91,125 @@ describe('DidDht', () => {
       expect(document.verificationMethod[1].publicKeyJwk.kid).to.deep.equal(decoded.verificationMethod[1].publicKeyJwk.kid);
       expect(document.verificationMethod[1].publicKeyJwk.kty).to.deep.equal(decoded.verificationMethod[1].publicKeyJwk.kty);
     });
+
+    it('encodes and decodes X25519 keyAgreement keys', async () => {
+      const x25519 = await DidDhtMethod.generateJwkKeyPair({ keyAlgorithm: 'X25519' });
+      const keySet = {
+        verificationMethodKeys: [{
+          publicKeyJwk  : x25519.publicKeyJwk,
+          privateKeyJwk : x25519.privateKeyJwk,
+          relationships : ['keyAgreement'] as VerificationRelationship[]
+        }]
+      };
+      const { did, document } = await DidDhtMethod.create({ keySet });
+
+      const encoded = await DidDht.toDnsPacket({ didDocument: document });
+      const decoded = await DidDht.fromDnsPacket({ did, packet: encoded });
+
+      const keyRecord = encoded.answers.find(answer => answer.name === '_k0._did') as TxtAnswer;
+      expect(keyRecord.data).to.include('t=3');
+      expect(decoded.keyAgreement).to.deep.equal(document.keyAgreement);
+      expect(decoded.verificationMethod[0].publicKeyJwk).to.deep.equal({
+        crv : 'X25519',
+        kty : 'OKP',
+        kid : x25519.publicKeyJwk.kid,
+        x   : (x25519.publicKeyJwk as JwkParamsOkpPublic).x
+      });
+    });
+
+    it('encodes and decodes P-256 keys using compressed point encoding', async () => {
+      const did = 'did:dht:9tjoow45ef1hksoo96bmzkwwy3mhme95d7fsi3ezjyjghmp75qyo';
+      const publicKeyJwk = {
+        crv : 'P-256',
+        kty : 'EC',
+        alg : 'ES256',
+        kid : 'p256',
+        x   : 'acbIQiuMs3i8_uszEjJ2tpTtRM4EU3yz91PH6CdH2V0',
+        y   : '_KcyLj9vWMptnmKtm46GqDz8wf74I5LKgrl2GzH3nSE'
+      } as PublicKeyJwk;
+      const document: DidDocument = {
+        id                 : did,
+        verificationMethod : [{ id: `${did}#p256`, type: 'JsonWebKey2020', controller: did, publicKeyJwk }],
+        authentication     : ['#p256']
+      };
+
+      const encoded = await DidDht.toDnsPacket({ didDocument: document });
+      const decoded = await DidDht.fromDnsPacket({ did, packet: encoded });
+
+      const keyRecord = encoded.answers.find(answer => answer.name === '_k0._did') as TxtAnswer;
+      const { k } = Object.fromEntries(keyRecord.data!.toString().split(',').map(pair => pair.split('=')));
+      expect(keyRecord.data).to.include('t=2');
+      expect(Convert.base64Url(k).toUint8Array()).to.have.length(33);
+      expect(decoded.verificationMethod).to.deep.equal(document.verificationMethod);
+      expect(decoded.authentication).to.deep.equal(document.authentication);
+    });
+
+    it('throws an error when encoding an unsupported key type', async () => {
+      const did = 'did:dht:9tjoow45ef1hksoo96bmzkwwy3mhme95d7fsi3ezjyjghmp75qyo';
+      const document: DidDocument = {
+        id                 : did,
+        verificationMethod : [{
+          id           : `${did}#0`,
+          type         : 'JsonWebKey2020',
+          controller   : did,
+          publicKeyJwk : { crv: 'P-384', kty: 'EC', x: 'abc', y: 'def' } as PublicKeyJwk
+        }]
+      };
+
+      await expect(
+        DidDht.toDnsPacket({ didDocument: document })
+      ).to.eventually.be.rejectedWith(Error, 'Unsupported key type: P-384');
+    });
+
+    it('skips key records with an unsupported key type when decoding', async () => {
+      const { did, document } = await DidDhtMethod.create();
+      const encoded = await DidDht.toDnsPacket({ didDocument: document });
+
+      const keyRecord = encoded.answers.find(answer => answer.name === '_k0._did') as TxtAnswer;
+      keyRecord.data = keyRecord.data!.toString().replace('t=0', 't=9');
+
+      const decoded = await DidDht.fromDnsPacket({ did, packet: encoded });
+
+      expect(decoded.id).to.equal(did);
+      expect(decoded.verificationMethod).to.be.undefined;
+      expect(decoded.authentication).to.be.undefined;
+      expect(decoded.assertionMethod).to.be.undefined;
+    });
+
+    it('encodes and decodes controller, alsoKnownAs and type index records', async () => {
+      const { did, document } = await DidDhtMethod.create();
+      document.controller = 'did:example:1234';
+      document.alsoKnownAs = ['did:example:efgh', 'did:example:ijkl'];
+      const types = [DidDhtRegisteredDidType.Organization, DidDhtRegisteredDidType.Corporation];
+
+      const encoded = await DidDht.toDnsPacket({ didDocument: document, types });
+      const decoded = await DidDht.fromDnsPacket({ did, packet: encoded });
+
+      expect(encoded.answers.map(answer => answer.name)).to.include.members(['_cnt._did', '_aka._did', '_typ._did']);
+      expect(decoded.controller).to.equal('did:example:1234');
+      expect(decoded.alsoKnownAs).to.deep.equal(['did:example:efgh', 'did:example:ijkl']);
+      expect(DidDht.typesFromDnsPacket({ packet: encoded })).to.deep.equal([1, 3]);
+    });
+
+    it('decodes multiple controllers as an array', async () => {
+      const { did, document } = await DidDhtMethod.create();
+      document.controller = ['did:example:1234', 'did:example:5678'];
+
+      const encoded = await DidDht.toDnsPacket({ didDocument: document });
+      const decoded = await DidDht.fromDnsPacket({ did, packet: encoded });
+
+      expect(decoded.controller).to.deep.equal(['did:example:1234', 'did:example:5678']);
+    });
+
+    it('omits records for absent properties', async () => {
+      const { did, document } = await DidDhtMethod.create();
+
+      const encoded = await DidDht.toDnsPacket({ didDocument: document });
+      const decoded = await DidDht.fromDnsPacket({ did, packet: encoded });
+
+      expect(decoded).to.not.have.property('controller');
+      expect(decoded).to.not.have.property('alsoKnownAs');
+      expect(DidDht.typesFromDnsPacket({ packet: encoded })).to.be.undefined;
+    });
   });
 });
@@ -2,10 +2,13 @@ import chai, { expect } from 'chai';
 import chaiAsPromised from 'chai-as-promised';
 import sinon from 'sinon';
 
+import type { TxtAnswer } from 'dns-packet';
 import type { DidDhtKeySet } from '../src/did-dht.js';
-import type {DidKeySetVerificationMethodKey, DidService, PortableDid} from '../src/types.js';
+import type {DhtGateway, DidKeySetVerificationMethodKey, DidService, PortableDid} from '../src/types.js';
 
 import { DidDhtMethod } from '../src/did-dht.js';
+import { DidDht, DidDhtRegisteredDidType } from '../src/dht.js';
+import { DhtGatewayMemory } from '../src/dht-gateway-memory.js';
 
 chai.use(chaiAsPromised);
 
@@ -199,6 +202,16 @@ describe('DidDhtMethod', () => {
     });
   });
 
+  describe('getDefaultSigningKey()', () => {
+    it('returns the first authentication verification method ID as a DID URL', async () => {
+      const { did, document } = await DidDhtMethod.create();
+
+      const signingKeyId = await DidDhtMethod.getDefaultSigningKey({ didDocument: document });
+
+      expect(signingKeyId).to.equal(`${did}#0`);
+    });
+  });
+
   describe('did publishing and resolving', function () {
     it('should publish and get a did document', async () => {
       const { document, keySet } = await DidDhtMethod.create();
@@ -279,5 +292,184 @@ describe('DidDhtMethod', () => {
       sinon.assert.calledOnce(dhtDidResolutionSpy);
       sinon.restore();
     });
+
+    it('should publish and resolve the types of a did', async () => {
+      const gateway = new DhtGatewayMemory();
+      const types = [DidDhtRegisteredDidType.Organization, DidDhtRegisteredDidType.FinancialInstitution];
+
+      const { did, document, metadata } = await DidDhtMethod.create({ publish: true, types, gateway });
+      expect(metadata).to.deep.equal({ types });
+
+      const didResolutionResult = await DidDhtMethod.resolve({ didUrl: did, resolutionOptions: { gateway } });
+      expect(didResolutionResult.didDocument.id).to.equal(document.id);
+      expect(didResolutionResult.didDocumentMetadata.types).to.deep.equal([1, 7]);
+
+      sinon.restore();
+    });
+
+    it('should return a notFound error if the did has not been published', async () => {
+      const { did } = await DidDhtMethod.create();
+
+      const { didDocument, didResolutionMetadata } = await DidDhtMethod.resolve({ didUrl: did, resolutionOptions: { gateway: new DhtGatewayMemory() } });
+      expect(didDocument).to.be.undefined;
+      expect(didResolutionMetadata.error).to.equal('notFound');
+    });
+
+    it('should return an internalError if the gateway fails', async () => {
+      const { did } = await DidDhtMethod.create();
+      const gateway: DhtGateway = {
+        get : async () => { throw new Error('Relay unreachable'); },
+        put : async () => false
+      };
+
+      const { didResolutionMetadata } = await DidDhtMethod.resolve({ didUrl: did, resolutionOptions: { gateway } });
+      expect(didResolutionMetadata.error).to.equal('internalError');
+      expect(didResolutionMetadata.errorMessage).to.equal('Relay unreachable');
+    });
+
+    it('should skip keys with an unsupported key type', async () => {
+      const { did, document } = await DidDhtMethod.create({
+        keySet: {
+          verificationMethodKeys: [{
+            ...await DidDhtMethod.generateJwkKeyPair({ keyAlgorithm: 'secp256k1', keyId: '1' }),
+            relationships: ['keyAgreement']
+          }]
+        }
+      });
+      const packet = await DidDht.toDnsPacket({ didDocument: document });
+      const keyRecord = packet.answers!.find(answer => answer.type === 'TXT' && answer.data!.toString().startsWith('id=1,')) as TxtAnswer;
+      keyRecord.data = keyRecord.data!.toString().replace('t=1', 't=9');
+      sinon.stub(DidDht, 'getSignedPacket').resolves({ bytes: new Uint8Array(), packet, timestamp: Date.now() * 1000 });
+
+      const { didDocument, didResolutionMetadata } = await DidDhtMethod.resolve({ didUrl: did });
+      expect(didResolutionMetadata.error).to.be.undefined;
+      expect(didDocument.verificationMethod.map(method => method.id)).to.deep.equal([`${did}#0`]);
+      expect(didDocument.keyAgreement).to.be.undefined;
+
+      sinon.restore();
+    });
+
+    it('should return an invalidDidDocument error if the packet cannot be decoded', async () => {
+      const { did, document } = await DidDhtMethod.create();
+      const packet = await DidDht.toDnsPacket({ didDocument: document });
+      packet.answers = packet.answers!.filter(answer => answer.name !== '_did');
+      sinon.stub(DidDht, 'getSignedPacket').resolves({ bytes: new Uint8Array(), packet, timestamp: Date.now() * 1000 });
+
+      const { didDocument, didResolutionMetadata } = await DidDhtMethod.resolve({ didUrl: did });
+      expect(didDocument).to.be.undefined;
+      expect(didResolutionMetadata.error).to.equal('invalidDidDocument');
+      expect(didResolutionMetadata.errorMessage).to.equal('No root record found');
+
+      sinon.restore();
+    });
+  });
+
+  describe('did updating and deactivating', function () {
+    afterEach(() => {
+      sinon.restore();
+    });
+
+    it('should report the published version in the document metadata', async () => {
+      const gateway = new DhtGatewayMemory();
+      const clock = sinon.useFakeTimers({ now: Date.parse('2023-11-01T12:00:00.000Z'), toFake: ['Date'] });
+
+      const { did } = await DidDhtMethod.create({ publish: true, gateway });
+      const { didDocumentMetadata } = await DidDhtMethod.resolve({ didUrl: did, resolutionOptions: { gateway } });
+
+      expect(didDocumentMetadata).to.deep.equal({
+        updated   : '2023-11-01T12:00:00.000Z',
+        versionId : (Date.parse('2023-11-01T12:00:00.000Z') * 1000).toString()
+      });
+
+      clock.restore();
+    });
+
+    it('should update keys and services', async () => {
+      const gateway = new DhtGatewayMemory();
+      const { did, keySet } = await DidDhtMethod.create({ publish: true, gateway });
+      const { didDocumentMetadata: initialMetadata } = await DidDhtMethod.resolve({ didUrl: did, resolutionOptions: { gateway } });
+
+      const secp = await DidDhtMethod.generateJwkKeyPair({ keyAlgorithm: 'secp256k1' });
+      const updatedKeySet: DidDhtKeySet = {
+        identityKey            : (keySet as DidDhtKeySet).identityKey,
+        verificationMethodKeys : [{ ...secp, relationships: ['authentication'] }]
+      };
+      const services: DidService[] = [{ id: 'dwn', type: 'DecentralizedWebNode', serviceEndpoint: 'https://example.com/dwn' }];
+
+      const updatedDid = await DidDhtMethod.update({ keySet: updatedKeySet, services, gateway });
+      expect(updatedDid.did).to.equal(did);
+
+      const { didDocument, didDocumentMetadata } = await DidDhtMethod.resolve({ didUrl: did, resolutionOptions: { gateway } });
+      expect(didDocument.verificationMethod.map(vm => vm.id)).to.deep.equal([`${did}#${secp.publicKeyJwk.kid}`, `${did}#0`]);
+      expect(didDocument.authentication).to.deep.equal([`#${secp.publicKeyJwk.kid}`, '#0']);
+      expect(didDocument.service).to.deep.equal([{ id: `${did}#dwn`, type: 'DecentralizedWebNode', serviceEndpoint: 'https://example.com/dwn' }]);
+      expect(Number(didDocumentMetadata.versionId)).to.be.greaterThan(Number(initialMetadata.versionId));
+      expect(didDocumentMetadata).to.not.have.property('deactivated');
+    });
+
+    it('should increase the sequence number even if the clock moves backwards', async () => {
+      const gateway = new DhtGatewayMemory();
+      const clock = sinon.useFakeTimers({ now: Date.parse('2023-11-01T12:00:00.000Z'), toFake: ['Date'] });
+      const { did, keySet } = await DidDhtMethod.create({ publish: true, gateway });
+      const { didDocumentMetadata: initialMetadata } = await DidDhtMethod.resolve({ didUrl: did, resolutionOptions: { gateway } });
+
+      clock.setSystemTime(Date.parse('2023-10-01T12:00:00.000Z'));
+      await DidDhtMethod.update({ keySet: keySet as DidDhtKeySet, gateway });
+
+      const { didDocumentMetadata } = await DidDhtMethod.resolve({ didUrl: did, resolutionOptions: { gateway } });
+      expect(didDocumentMetadata.versionId).to.equal((Number(initialMetadata.versionId) + 1).toString());
+
+      clock.restore();
+    });
+
+    it('should throw an error if the update is rejected by the relay', async () => {
+      const { keySet } = await DidDhtMethod.create();
+      const gateway: DhtGateway = {
+        get : async () => undefined,
+        put : async () => false
+      };
+
+      await expect(
+        DidDhtMethod.update({ keySet: keySet as DidDhtKeySet, gateway })
+      ).to.eventually.be.rejectedWith(Error, 'Failed to publish update');
+    });
+
+    it('should deactivate a did', async () => {
+      const gateway = new DhtGatewayMemory();
+      const { did, keySet } = await DidDhtMethod.create({ publish: true, gateway });
+
+      const isDeactivated = await DidDhtMethod.deactivate({ keySet: keySet as DidDhtKeySet, gateway });
+      expect(isDeactivated).to.be.true;
+
+      const { didDocument, didDocumentMetadata } = await DidDhtMethod.resolve({ didUrl: did, resolutionOptions: { gateway } });
+      expect(didDocument).to.deep.equal({ id: did });
+      expect(didDocumentMetadata.deactivated).to.be.true;
+      expect(didDocumentMetadata.versionId).to.exist;
+      expect(didDocumentMetadata.updated).to.exist;
+    });
+
+    it('should not update a deactivated did', async () => {
+      const gateway = new DhtGatewayMemory();
+      const { keySet } = await DidDhtMethod.create({ publish: true, gateway });
+      await DidDhtMethod.deactivate({ keySet: keySet as DidDhtKeySet, gateway });
+
+      await expect(
+        DidDhtMethod.update({ keySet: keySet as DidDhtKeySet, gateway })
+      ).to.eventually.be.rejectedWith(Error, 'DID has been deactivated');
+
+      await expect(
+        DidDhtMethod.deactivate({ keySet: keySet as DidDhtKeySet, gateway })
+      ).to.eventually.be.rejectedWith(Error, 'DID has been deactivated');
+    });
+
+    it('should throw an error if the identity key is missing', async () => {
+      await expect(
+        DidDhtMethod.update({ keySet: {} })
+      ).to.eventually.be.rejectedWith(Error, 'Required parameter missing: identityKey');
+
+      await expect(
+        DidDhtMethod.deactivate({ keySet: {} })
+      ).to.eventually.be.rejectedWith(Error, 'Required parameter missing: identityKey');
+    });
   });
 });
@@ -1,6 +1,7 @@
-import type { JwkKeyPair } from '@web5/crypto';
+import type { JwkKeyPair, JwkParamsEcPublic, JwkParamsOkpPublic } from '@web5/crypto';
 
 import * as sinon from 'sinon';
+import { Convert } from '@web5/common';
 import chai, { expect } from 'chai';
 import chaiAsPromised from 'chai-as-promised';
 
@@ -94,6 +95,33 @@ describe('DidIonMethod', () => {
 
       expect(resolutionResult).to.deep.equal(mockResult);
     });
+
+    it('submits the given operation request', async () => {
+      const fetchStub = sinon.stub(global, 'fetch');
+      // @ts-expect-error because we're only mocking ok and json() from global.fetch().
+      fetchStub.returns(Promise.resolve({
+        ok   : true,
+        json : () => Promise.resolve({})
+      }));
+
+      const did = await DidIonMethod.getLongFormDid({ keySet: testKeySet, services: [] });
+      const request = await DidIonMethod.getIonDeactivateRequest({ did, keySet: testKeySet });
+
+      await DidIonMethod.anchor({
+        challengeEnabled   : false,
+        operationsEndpoint : 'https://ion-service.com/operations',
+        request
+      });
+      fetchStub.restore();
+
+      expect(JSON.parse(fetchStub.firstCall.args[1]?.body as string)).to.deep.equal(request);
+    });
+
+    it(`throws an error if neither 'keySet' nor 'request' is given`, async () => {
+      await expect(
+        DidIonMethod.anchor({ challengeEnabled: false })
+      ).to.eventually.be.rejectedWith(Error, 'Required parameter missing');
+    });
   });
 
   describe('create()', () => {
@@ -669,6 +697,113 @@ describe('DidIonMethod', () => {
     });
   });
 
+  describe('getIonDeactivateRequest()', () => {
+    it('reveals and signs with the recovery key', async () => {
+      const did = await DidIonMethod.getLongFormDid({ keySet: testKeySet, services: [] });
+      const canonicalId = await DidIonMethod.getShortFormDid({ didUrl: did });
+
+      const request = await DidIonMethod.getIonDeactivateRequest({ did, keySet: testKeySet });
+
+      const signedData = Convert.base64Url(request.signedData.split('.')[1]).toObject();
+      expect(request.type).to.equal('deactivate');
+      expect(request.didSuffix).to.equal(canonicalId.split(':').pop());
+      expect(signedData).to.have.property('didSuffix', request.didSuffix);
+      expect(signedData).to.have.property('recoveryKey').that.includes({ x: (testRecoveryKey.publicKeyJwk as JwkParamsEcPublic).x });
+    });
+
+    it('throws an error if the recovery private key is missing', async () => {
+      const did = await DidIonMethod.getLongFormDid({ keySet: testKeySet, services: [] });
+      const keySet = { ...testKeySet, recoveryKey: { publicKeyJwk: testRecoveryKey.publicKeyJwk } as JwkKeyPair };
+
+      await expect(
+        DidIonMethod.getIonDeactivateRequest({ did, keySet })
+      ).to.eventually.be.rejectedWith(Error, `'recoveryKey' private key`);
+    });
+  });
+
+  describe('getIonRecoverRequest()', () => {
+    it('replaces the DID document and rotates the recovery and update keys', async () => {
+      const did = await DidIonMethod.getLongFormDid({ keySet: testKeySet, services: [] });
+      const services = [{ id: '#dwn', type: 'DecentralizedWebNode', serviceEndpoint: 'https://dwn.tbddev.org/dwn0' }];
+
+      const { keySet, request } = await DidIonMethod.getIonRecoverRequest({ did, keySet: testKeySet, services });
+
+      const signedData = Convert.base64Url(request.signedData.split('.')[1]).toObject();
+      expect(request.type).to.equal('recover');
+      expect(signedData).to.have.property('recoveryKey').that.includes({ x: (testRecoveryKey.publicKeyJwk as JwkParamsEcPublic).x });
+      expect(keySet.recoveryKey).to.not.deep.equal(testRecoveryKey);
+      expect(keySet.updateKey).to.not.deep.equal(testUpdateKey);
+      expect(request.delta.patches).to.have.length(1);
+      expect(request.delta.patches[0].action).to.equal('replace');
+      expect(request.delta.patches[0].document.publicKeys[0].publicKeyJwk).to.include({ x: (keySet.verificationMethodKeys![0].publicKeyJwk as JwkParamsOkpPublic).x });
+      expect(request.delta.patches[0].document.services?.[0].id).to.equal('dwn');
+    });
+
+    it('uses the given next key set', async () => {
+      const did = await DidIonMethod.getLongFormDid({ keySet: testKeySet, services: [] });
+      const nextKeySet = await DidIonMethod.generateKeySet();
+
+      const { keySet, request } = await DidIonMethod.getIonRecoverRequest({ did, keySet: testKeySet, nextKeySet });
+
+      expect(keySet).to.deep.equal(nextKeySet);
+      expect(request.delta.patches[0].document.publicKeys[0].publicKeyJwk).to.include({ x: (nextKeySet.verificationMethodKeys![0].publicKeyJwk as JwkParamsOkpPublic).x });
+    });
+  });
+
+  describe('getIonUpdateRequest()', () => {
+    it('reveals and signs with the update key and commits to a new update key', async () => {
+      const did = await DidIonMethod.getLongFormDid({ keySet: testKeySet, services: [] });
+
+      const { keySet, request } = await DidIonMethod.getIonUpdateRequest({ did, keySet: testKeySet });
+
+      const signedData = Convert.base64Url(request.signedData.split('.')[1]).toObject();
+      expect(request.type).to.equal('update');
+      expect(signedData).to.have.property('updateKey').that.includes({ x: (testUpdateKey.publicKeyJwk as JwkParamsEcPublic).x });
+      expect(keySet.updateKey).to.not.deep.equal(testUpdateKey);
+      expect(keySet.recoveryKey).to.deep.equal(testRecoveryKey);
+    });
+
+    it('creates patches to add and remove public keys and services', async () => {
+      const did = await DidIonMethod.getLongFormDid({ keySet: testKeySet, services: [] });
+      const newKey = await DidIonMethod.generateJwkKeyPair({ keyAlgorithm: 'Ed25519', keyId: 'new-key' });
+      const services = [{ id: '#dwn', type: 'DecentralizedWebNode', serviceEndpoint: 'https://dwn.tbddev.org/dwn0' }];
+
+      const { keySet, request } = await DidIonMethod.getIonUpdateRequest({
+        did,
+        idsOfPublicKeysToRemove : ['#test-kid'],
+        idsOfServicesToRemove   : ['#old-service'],
+        keySet                  : testKeySet,
+        publicKeysToAdd         : [{ ...newKey, relationships: ['authentication'] }],
+        servicesToAdd           : services
+      });
+
+      expect(request.delta.patches).to.deep.include({ action: 'remove-public-keys', ids: ['test-kid'] });
+      expect(request.delta.patches).to.deep.include({ action: 'remove-services', ids: ['old-service'] });
+      expect(request.delta.patches).to.deep.include({ action: 'add-services', services: [{ ...services[0], id: 'dwn' }] });
+      const addPublicKeysPatch = request.delta.patches.find(patch => patch.action === 'add-public-keys');
+      expect(addPublicKeysPatch?.publicKeys?.[0]).to.include({ id: 'new-key', type: 'JsonWebKey2020' });
+      expect(keySet.verificationMethodKeys?.map(key => key.publicKeyJwk?.kid)).to.deep.equal(['new-key']);
+    });
+
+    it('uses the given next update key', async () => {
+      const did = await DidIonMethod.getLongFormDid({ keySet: testKeySet, services: [] });
+      const nextUpdateKey = await DidIonMethod.generateJwkKeyPair({ keyAlgorithm: 'secp256k1', keyId: 'ion-update-2' });
+
+      const { keySet } = await DidIonMethod.getIonUpdateRequest({ did, keySet: testKeySet, nextUpdateKey });
+
+      expect(keySet.updateKey).to.deep.equal(nextUpdateKey);
+    });
+
+    it('throws an error if the update private key is missing', async () => {
+      const did = await DidIonMethod.getLongFormDid({ keySet: testKeySet, services: [] });
+      const keySet = { ...testKeySet, updateKey: { publicKeyJwk: testUpdateKey.publicKeyJwk } as JwkKeyPair };
+
+      await expect(
+        DidIonMethod.getIonUpdateRequest({ did, keySet })
+      ).to.eventually.be.rejectedWith(Error, `'updateKey' private key`);
+    });
+  });
+
   describe('resolve()', () => {
     it('resolves published short form ION DIDs', async() => {
       const did = 'did:ion:EiCab9QRUcUTKKIM-W2SMCwnOPxa4y0q7emoWJDSOSz3HQ';
@@ -718,6 +853,98 @@ describe('DidIonMethod', () => {
       expect(resolutionResult.didDocumentMetadata.method).to.have.property('published', false);
     });
 
+    for (const vector of didIonCreateTestVectors) {
+      it(`resolves long form ION DIDs offline to the document of test vector ${vector.id}`, async () => {
+        const resolutionResult = await DidIonMethod.resolve({
+          didUrl            : vector.output.did,
+          resolutionOptions : { offline: true }
+        });
+
+        expect(resolutionResult.didDocument).to.deep.equal(vector.output.document);
+        expect(resolutionResult.didDocumentMetadata).to.not.have.property('canonicalId');
+        expect(resolutionResult.didDocumentMetadata.equivalentId).to.deep.equal([vector.output.canonicalId]);
+        expect(resolutionResult.didDocumentMetadata.method).to.have.property('published', false);
+        expect(resolutionResult.didResolutionMetadata).to.not.have.property('error');
+      });
+    }
+
+    it('resolves long form ION DIDs locally if the DID resolver cannot be reached', async () => {
+      const fetchStub = sinon.stub(global, 'fetch').rejects(new TypeError('fetch failed'));
+
+      const resolutionResult = await DidIonMethod.resolve({ didUrl: didIonCreateTestVectors[0].output.did });
+      fetchStub.restore();
+
+      expect(fetchStub.calledOnce).to.be.true;
+      expect(resolutionResult.didDocument).to.deep.equal(didIonCreateTestVectors[0].output.document);
+      expect(resolutionResult.didDocumentMetadata).to.not.have.property('canonicalId');
+      expect(resolutionResult.didDocumentMetadata.method).to.have.property('published', false);
+    });
+
+    it('resolves long form ION DIDs locally if the DID resolver responds with a server error', async () => {
+      const fetchStub = sinon.stub(global, 'fetch').resolves(new Response('Service Unavailable', { status: 503 }));
+
+      const resolutionResult = await DidIonMethod.resolve({ didUrl: didIonCreateTestVectors[0].output.did });
+      fetchStub.restore();
+
+      expect(fetchStub.calledOnce).to.be.true;
+      expect(resolutionResult.didDocument).to.deep.equal(didIonCreateTestVectors[0].output.document);
+      expect(resolutionResult.didDocumentMetadata.method).to.have.property('published', false);
+    });
+
+    it('applies the patches of long form ION DIDs resolved offline', async () => {
+      const keySet = await DidIonMethod.generateKeySet();
+      const services = [{ id: 'dwn', type: 'DecentralizedWebNode', serviceEndpoint: 'https://dwn.tbddev.org/dwn0' }];
+      const did = await DidIonMethod.getLongFormDid({ keySet, services });
+
+      const resolutionResult = await DidIonMethod.resolve({ didUrl: `${did}#dwn-sig`, resolutionOptions: { offline: true } });
+
+      expect(resolutionResult.didDocument?.id).to.equal(did);
+      expect(resolutionResult.didDocument?.verificationMethod?.[0]).to.include({ id: '#dwn-sig', controller: did });
+      expect(resolutionResult.didDocument?.authentication).to.deep.equal(['#dwn-sig']);
+      expect(resolutionResult.didDocument?.service).to.deep.equal([{ ...services[0], id: '#dwn' }]);
+    });
+
+    it('returns invalidDid error if the initial state of a long form DID does not match its suffix', async () => {
+      const [longFormDid, otherLongFormDid] = didIonCreateTestVectors.map(vector => vector.output.did);
+      const did = `${longFormDid.split(':', 3).join(':')}:${otherLongFormDid.split(':').pop()}`;
+
+      const resolutionResult = await DidIonMethod.resolve({ didUrl: did, resolutionOptions: { offline: true } });
+
+      expect(resolutionResult.didDocument).to.be.undefined;
+      expect(resolutionResult.didResolutionMetadata).to.have.property('error', 'invalidDid');
+    });
+
+    it('returns notFound error if a short form DID is resolved offline', async () => {
+      const resolutionResult = await DidIonMethod.resolve({
+        didUrl            : 'did:ion:EiCab9QRUcUTKKIM-W2SMCwnOPxa4y0q7emoWJDSOSz3HQ',
+        resolutionOptions : { offline: true }
+      });
+
+      expect(resolutionResult.didDocument).to.be.undefined;
+      expect(resolutionResult.didResolutionMetadata).to.have.property('error', 'notFound');
+      expect(resolutionResult.didResolutionMetadata.errorMessage).to.include('requires network access');
+    });
+
+    it('returns the error of the DID resolver for a short form DID if it responds with a server error', async () => {
+      const fetchStub = sinon.stub(global, 'fetch').resolves(new Response('Service Unavailable', { status: 503 }));
+
+      const resolutionResult = await DidIonMethod.resolve({ didUrl: 'did:ion:EiCab9QRUcUTKKIM-W2SMCwnOPxa4y0q7emoWJDSOSz3HQ' });
+      fetchStub.restore();
+
+      expect(resolutionResult.didResolutionMetadata).to.have.property('error', 'internalError');
+      expect(resolutionResult.didResolutionMetadata.errorMessage).to.include('503');
+    });
+
+    it('returns internalError if the DID resolver cannot be reached for a short form DID', async () => {
+      const fetchStub = sinon.stub(global, 'fetch').rejects(new TypeError('fetch failed'));
+
+      const resolutionResult = await DidIonMethod.resolve({ didUrl: 'did:ion:EiCab9QRUcUTKKIM-W2SMCwnOPxa4y0q7emoWJDSOSz3HQ' });
+      fetchStub.restore();
+
+      expect(resolutionResult.didResolutionMetadata).to.have.property('error', 'internalError');
+      expect(resolutionResult.didResolutionMetadata.errorMessage).to.include('fetch failed');
+    });
+
     it('returns internalError if custom DID resolver returns invalid response', async () => {
       // Setup stub so that a mocked response is returned rather than calling over the network.
       const mockResult = `<html>
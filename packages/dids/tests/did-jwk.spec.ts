@@ -0,0 +1,165 @@
+import chai, { expect } from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import { Convert } from '@web5/common';
+
+import { DidJwkMethod } from '../src/did-jwk.js';
+import { DidResolver } from '../src/did-resolver.js';
+
+chai.use(chaiAsPromised);
+
+describe('DidJwkMethod', () => {
+  describe('create()', () => {
+    it('creates a DID with Ed25519 keys, by default', async () => {
+      const portableDid = await DidJwkMethod.create();
+
+      expect(portableDid.did).to.match(/^did:jwk:/);
+      expect(portableDid.keySet.verificationMethodKeys).to.have.length(1);
+      expect(portableDid.keySet.verificationMethodKeys?.[0].publicKeyJwk).to.have.property('crv', 'Ed25519');
+      expect(portableDid.keySet.verificationMethodKeys?.[0]).to.have.property('privateKeyJwk');
+    });
+
+    it('creates a DID with secp256k1 keys, if specified', async () => {
+      const portableDid = await DidJwkMethod.create({ keyAlgorithm: 'secp256k1' });
+
+      expect(portableDid.keySet.verificationMethodKeys?.[0].publicKeyJwk).to.have.property('crv', 'secp256k1');
+      expect(portableDid.document.verificationMethod?.[0].publicKeyJwk).to.have.property('y');
+    });
+
+    it('encodes only public key members in the identifier', async () => {
+      const { did } = await DidJwkMethod.create();
+
+      const encodedJwk = Convert.base64Url(did.split(':')[2]).toObject();
+
+      expect(encodedJwk).to.have.all.keys('alg', 'crv', 'kty', 'x');
+    });
+
+    it('creates the same DID for the same key', async () => {
+      const keySet = await DidJwkMethod.generateKeySet();
+
+      const portableDid1 = await DidJwkMethod.create({ keySet });
+      const portableDid2 = await DidJwkMethod.create({ keySet });
+
+      expect(portableDid1.did).to.equal(portableDid2.did);
+      expect(portableDid1.document).to.deep.equal(portableDid2.document);
+    });
+
+    it('throws an error if the key set has no public key', async () => {
+      await expect(
+        DidJwkMethod.create({ keySet: { verificationMethodKeys: [] } })
+      ).to.eventually.be.rejectedWith(Error, 'Failed to create DID');
+    });
+  });
+
+  describe('createDocument()', () => {
+    it('passes the did:jwk specification P-256 test vector', async () => {
+      const did = 'did:jwk:eyJjcnYiOiJQLTI1NiIsImt0eSI6IkVDIiwieCI6ImFjYklRaXVNczNpOF91c3pFakoydHBUdFJNNEVVM3l6OTFQSDZDZEgyVjAiLCJ5IjoiX0tjeUxqOXZXTXB0bm1LdG00NkdxRHo4d2Y3NEk1TEtncmwyR3pIM25TRSJ9';
+
+      const didDocument = await DidJwkMethod.createDocument({ did });
+
+      expect(didDocument).to.deep.equal({
+        '@context'         : ['https://www.w3.org/ns/did/v1', 'https://w3id.org/security/suites/jws-2020/v1'],
+        id                 : did,
+        verificationMethod : [{
+          id           : `${did}#0`,
+          type         : 'JsonWebKey2020',
+          controller   : did,
+          publicKeyJwk : {
+            crv : 'P-256',
+            kty : 'EC',
+            x   : 'acbIQiuMs3i8_uszEjJ2tpTtRM4EU3yz91PH6CdH2V0',
+            y   : '_KcyLj9vWMptnmKtm46GqDz8wf74I5LKgrl2GzH3nSE'
+          }
+        }],
+        assertionMethod      : [`${did}#0`],
+        authentication       : [`${did}#0`],
+        capabilityInvocation : [`${did}#0`],
+        capabilityDelegation : [`${did}#0`],
+        keyAgreement         : [`${did}#0`]
+      });
+    });
+
+    it(`limits keys with 'use' of 'sig' to signature relationships`, async () => {
+      const did = `did:jwk:${Convert.object({ crv: 'Ed25519', kty: 'OKP', use: 'sig', x: 'ZuVpK6HnahBtV1Y_jhnYK-fqHAz3dXmWXT_h-J7SL6I' }).toBase64Url()}`;
+
+      const didDocument = await DidJwkMethod.createDocument({ did });
+
+      expect(didDocument).to.include.all.keys('assertionMethod', 'authentication', 'capabilityInvocation', 'capabilityDelegation');
+      expect(didDocument).to.not.have.property('keyAgreement');
+    });
+
+    it(`limits keys with 'use' of 'enc' to keyAgreement`, async () => {
+      const { did, document, keySet } = await DidJwkMethod.create({ keyAlgorithm: 'X25519' });
+
+      expect(keySet.verificationMethodKeys?.[0].relationships).to.deep.equal(['keyAgreement']);
+      expect(document.keyAgreement).to.deep.equal([`${did}#0`]);
+      expect(document).to.not.have.property('authentication');
+      expect(document).to.not.have.property('assertionMethod');
+    });
+
+    it('throws an error if the identifier is not a base64url encoded JWK', async () => {
+      await expect(
+        DidJwkMethod.createDocument({ did: 'did:jwk:abc123' })
+      ).to.eventually.be.rejectedWith(Error, 'invalidDid');
+    });
+
+    it('throws an error if the identifier contains a private key', async () => {
+      const { keySet } = await DidJwkMethod.create();
+      const did = `did:jwk:${Convert.object(keySet.verificationMethodKeys![0].privateKeyJwk!).toBase64Url()}`;
+
+      await expect(
+        DidJwkMethod.createDocument({ did })
+      ).to.eventually.be.rejectedWith(Error, 'must not contain a private key');
+    });
+  });
+
+  describe('getDefaultSigningKey()', () => {
+    it('returns the first authentication verification method ID', async () => {
+      const { did, document } = await DidJwkMethod.create();
+
+      const signingKeyId = await DidJwkMethod.getDefaultSigningKey({ didDocument: document });
+
+      expect(signingKeyId).to.equal(`${did}#0`);
+    });
+
+    it('returns undefined for encryption only keys', async () => {
+      const { document } = await DidJwkMethod.create({ keyAlgorithm: 'X25519' });
+
+      const signingKeyId = await DidJwkMethod.getDefaultSigningKey({ didDocument: document });
+
+      expect(signingKeyId).to.be.undefined;
+    });
+  });
+
+  describe('resolve()', () => {
+    it('resolves a did:jwk DID to the same document returned by create()', async () => {
+      const { did, document } = await DidJwkMethod.create();
+
+      const resolutionResult = await DidJwkMethod.resolve({ didUrl: `${did}#0` });
+
+      expect(resolutionResult.didDocument).to.deep.equal(document);
+      expect(resolutionResult.didResolutionMetadata).to.not.have.property('error');
+    });
+
+    it('returns an invalidDid error if the identifier is not a JWK', async () => {
+      const resolutionResult = await DidJwkMethod.resolve({ didUrl: 'did:jwk:abc123' });
+
+      expect(resolutionResult.didDocument).to.be.undefined;
+      expect(resolutionResult.didResolutionMetadata).to.have.property('error', 'invalidDid');
+    });
+
+    it('returns a methodNotSupported error if the DID method is not jwk', async () => {
+      const resolutionResult = await DidJwkMethod.resolve({ didUrl: 'did:key:z6MkmNvXGmVuux5W63nXKEM8zoxFmDLNfe7siCKG2GM7Kd8D' });
+
+      expect(resolutionResult.didResolutionMetadata).to.have.property('error', 'methodNotSupported');
+    });
+
+    it('can be used with DidResolver', async () => {
+      const { did, document } = await DidJwkMethod.create({ keyAlgorithm: 'secp256k1' });
+      const didResolver = new DidResolver({ didResolvers: [DidJwkMethod] });
+
+      const resolutionResult = await didResolver.resolve(did);
+
+      expect(resolutionResult.didDocument).to.deep.equal(document);
+    });
+  });
+});
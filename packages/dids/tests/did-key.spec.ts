@@ -38,6 +38,17 @@ describe('DidKeyMethod', () => {
       expect(portableDid.keySet.verificationMethodKeys?.[0].publicKeyJwk).to.have.property('crv', 'secp256k1');
     });
 
+    it('creates a DID with P-256 or P-384 keys, if specified', async () => {
+      for (const keyAlgorithm of ['P-256', 'P-384'] as const) {
+        const portableDid = await DidKeyMethod.create({ keyAlgorithm });
+
+        // Verify expected result.
+        expect(portableDid.keySet.verificationMethodKeys?.[0].publicKeyJwk).to.have.property('crv', keyAlgorithm);
+        expect(portableDid.keySet.verificationMethodKeys?.[0].privateKeyJwk).to.have.property('d');
+        expect(portableDid.document.verificationMethod?.[0].publicKeyJwk).to.have.property('crv', keyAlgorithm);
+      }
+    });
+
     for (const vector of didKeyCreateTestVectors ) {
       it(`passes test vector ${vector.id}`, async () => {
         const portableDid = await DidKeyMethod.create(vector.input as DidKeyCreateOptions);
@@ -0,0 +1,241 @@
+import chai, { expect } from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import { Jose } from '@web5/crypto';
+import { Convert } from '@web5/common';
+
+import type { DwnServiceEndpoint } from '../src/types.js';
+
+import { DidPeerMethod } from '../src/did-peer.js';
+import { DidResolver } from '../src/did-resolver.js';
+
+chai.use(chaiAsPromised);
+
+describe('DidPeerMethod', () => {
+  describe('create()', () => {
+    it('creates a numalgo 2 DID with Ed25519 and X25519 keys, by default', async () => {
+      const portableDid = await DidPeerMethod.create();
+
+      expect(portableDid.did).to.match(/^did:peer:2\.Vz6Mk/);
+      expect(portableDid.keySet.verificationMethodKeys).to.have.length(2);
+      expect(portableDid.keySet.verificationMethodKeys?.[0].publicKeyJwk).to.have.property('crv', 'Ed25519');
+      expect(portableDid.keySet.verificationMethodKeys?.[1].publicKeyJwk).to.have.property('crv', 'X25519');
+      expect(portableDid.keySet.verificationMethodKeys?.[1].relationships).to.deep.equal(['keyAgreement']);
+    });
+
+    it('creates a numalgo 0 DID with a single inception key, if specified', async () => {
+      const { did, document, keySet } = await DidPeerMethod.create({ numalgo: 0 });
+
+      const multibaseId = did.substring('did:peer:0'.length);
+      const methodId = `${did}#${multibaseId}`;
+
+      expect(did).to.match(/^did:peer:0z6Mk/);
+      expect(keySet.verificationMethodKeys).to.have.length(1);
+      expect(document.verificationMethod).to.have.length(1);
+      expect(document.verificationMethod?.[0]).to.have.property('id', methodId);
+      expect(await Jose.jwkThumbprint({ key: document.verificationMethod![0].publicKeyJwk! })).to.equal(keySet.verificationMethodKeys?.[0].publicKeyJwk?.kid);
+      expect(document.authentication).to.deep.equal([methodId]);
+      expect(document.assertionMethod).to.deep.equal([methodId]);
+      expect(document).to.not.have.property('keyAgreement');
+    });
+
+    it('creates a numalgo 0 DID with secp256k1 keys, if specified', async () => {
+      const { did, document, keySet } = await DidPeerMethod.create({ keyAlgorithm: 'secp256k1', numalgo: 0 });
+
+      expect(did).to.match(/^did:peer:0zQ3s/);
+      expect(await Jose.jwkThumbprint({ key: document.verificationMethod![0].publicKeyJwk! })).to.equal(keySet.verificationMethodKeys?.[0].publicKeyJwk?.kid);
+    });
+
+    it('encodes each key once per verification relationship', async () => {
+      const { did, document } = await DidPeerMethod.create();
+
+      const purposeCodes = did.split('.').slice(1).map(element => element.charAt(0));
+
+      expect(purposeCodes).to.deep.equal(['V', 'A', 'I', 'D', 'E']);
+      expect(document.verificationMethod?.map(method => method.id)).to.deep.equal(['#key-1', '#key-2', '#key-3', '#key-4', '#key-5']);
+      expect(document.authentication).to.deep.equal(['#key-1']);
+      expect(document.keyAgreement).to.deep.equal(['#key-5']);
+    });
+
+    it('encodes services in abbreviated form', async () => {
+      const service = {
+        id              : '#dwn',
+        type            : 'DecentralizedWebNode',
+        serviceEndpoint : {
+          nodes          : ['https://dwn.tbddev.org/dwn0'],
+          signingKeys    : ['#key-1'],
+          encryptionKeys : ['#key-5']
+        }
+      };
+
+      const { did, document } = await DidPeerMethod.create({ services: [service] });
+
+      const encodedService = did.split('.').pop()!;
+
+      expect(encodedService.charAt(0)).to.equal('S');
+      expect(Convert.base64Url(encodedService.substring(1)).toObject()).to.deep.equal({
+        id : '#dwn',
+        t  : 'DecentralizedWebNode',
+        s  : service.serviceEndpoint
+      });
+      expect(document.service).to.deep.equal([service]);
+      expect((document.service?.[0].serviceEndpoint as DwnServiceEndpoint).signingKeys).to.deep.equal(document.authentication);
+    });
+
+    it('creates the same DID for the same key set', async () => {
+      const keySet = await DidPeerMethod.generateKeySet();
+
+      const portableDid1 = await DidPeerMethod.create({ keySet });
+      const portableDid2 = await DidPeerMethod.create({ keySet });
+
+      expect(portableDid1.did).to.equal(portableDid2.did);
+      expect(portableDid1.document).to.deep.equal(portableDid2.document);
+    });
+
+    it('throws an error if numalgo 0 is given multiple keys or services', async () => {
+      const keySet = await DidPeerMethod.generateKeySet();
+
+      await expect(
+        DidPeerMethod.create({ keySet, numalgo: 0 })
+      ).to.eventually.be.rejectedWith(Error, 'single inception key');
+
+      await expect(
+        DidPeerMethod.create({ numalgo: 0, services: [{ id: '#dwn', type: 'DecentralizedWebNode', serviceEndpoint: 'https://dwn.tbddev.org/dwn0' }] })
+      ).to.eventually.be.rejectedWith(Error, 'single inception key');
+    });
+
+    it('throws an error if the key set has no public key', async () => {
+      await expect(
+        DidPeerMethod.create({ keySet: { verificationMethodKeys: [] } })
+      ).to.eventually.be.rejectedWith(Error, 'Failed to create DID');
+    });
+
+    it('throws an error for unsupported numalgos', async () => {
+      await expect(
+        DidPeerMethod.create({ numalgo: 1 as any })
+      ).to.eventually.be.rejectedWith(Error, 'Unsupported numalgo');
+    });
+  });
+
+  describe('createDocument()', () => {
+    it('expands the did:peer numalgo 2 specification example', async () => {
+      const did = 'did:peer:2.Vz6Mkj3PUd1WjvaDhNZhhhXQdz5UnZXmS7ehtx8bsPpD47kKc.Ez6LSg8zQom395jKLrGiBNruB9MM6V8PWuf2FpEy4uRFiqQBR.SeyJ0IjoiZG0iLCJzIjp7InVyaSI6Imh0dHA6Ly9leGFtcGxlLmNvbS9kaWRjb21tIiwiYSI6WyJkaWRjb21tL3YyIl0sInIiOlsiZGlkOmV4YW1wbGU6MTIzNDU2Nzg5YWJjZGVmZ2hpI2tleS0xIl19fQ.SeyJ0IjoiZG0iLCJzIjp7InVyaSI6Imh0dHA6Ly9leGFtcGxlLmNvbS9hbm90aGVyIiwiYSI6WyJkaWRjb21tL3YyIl0sInIiOlsiZGlkOmV4YW1wbGU6MTIzNDU2Nzg5YWJjZGVmZ2hpI2tleS0yIl19fQ';
+
+      const didDocument = await DidPeerMethod.createDocument({ did });
+
+      expect(didDocument.id).to.equal(did);
+      expect(didDocument.verificationMethod).to.have.length(2);
+      expect(didDocument.verificationMethod?.[0]).to.include({ id: '#key-1', type: 'JsonWebKey2020', controller: did });
+      expect(didDocument.verificationMethod?.[0].publicKeyJwk).to.have.property('crv', 'Ed25519');
+      expect(didDocument.verificationMethod?.[1].publicKeyJwk).to.have.property('crv', 'X25519');
+      expect(didDocument.authentication).to.deep.equal(['#key-1']);
+      expect(didDocument.keyAgreement).to.deep.equal(['#key-2']);
+      expect(didDocument.service).to.deep.equal([
+        {
+          id              : '#service',
+          type            : 'DIDCommMessaging',
+          serviceEndpoint : {
+            uri         : 'http://example.com/didcomm',
+            accept      : ['didcomm/v2'],
+            routingKeys : ['did:example:123456789abcdefghi#key-1']
+          }
+        },
+        {
+          id              : '#service-1',
+          type            : 'DIDCommMessaging',
+          serviceEndpoint : {
+            uri         : 'http://example.com/another',
+            accept      : ['didcomm/v2'],
+            routingKeys : ['did:example:123456789abcdefghi#key-2']
+          }
+        }
+      ]);
+    });
+
+    it('derives keyAgreement from a numalgo 0 X25519 key', async () => {
+      const did = 'did:peer:0z6LSg8zQom395jKLrGiBNruB9MM6V8PWuf2FpEy4uRFiqQBR';
+
+      const didDocument = await DidPeerMethod.createDocument({ did });
+
+      expect(didDocument.keyAgreement).to.deep.equal([`${did}#z6LSg8zQom395jKLrGiBNruB9MM6V8PWuf2FpEy4uRFiqQBR`]);
+      expect(didDocument).to.not.have.property('authentication');
+    });
+
+    it('throws an error for unknown purpose codes', async () => {
+      await expect(
+        DidPeerMethod.createDocument({ did: 'did:peer:2.Xz6Mkj3PUd1WjvaDhNZhhhXQdz5UnZXmS7ehtx8bsPpD47kKc' })
+      ).to.eventually.be.rejectedWith(Error, `Unknown purpose code 'X'`);
+    });
+
+    it('throws an error if a key cannot be decoded', async () => {
+      await expect(
+        DidPeerMethod.createDocument({ did: 'did:peer:2.Vz6Mkabc' })
+      ).to.eventually.be.rejectedWith(Error, 'Unable to decode public key');
+    });
+
+    it('throws an error if a service is not base64url encoded JSON', async () => {
+      await expect(
+        DidPeerMethod.createDocument({ did: 'did:peer:2.Vz6Mkj3PUd1WjvaDhNZhhhXQdz5UnZXmS7ehtx8bsPpD47kKc.Sabc' })
+      ).to.eventually.be.rejectedWith(Error, 'invalidDid');
+    });
+  });
+
+  describe('getDefaultSigningKey()', () => {
+    it('returns the first authentication verification method ID as a DID URL', async () => {
+      const { did, document } = await DidPeerMethod.create();
+
+      const signingKeyId = await DidPeerMethod.getDefaultSigningKey({ didDocument: document });
+
+      expect(signingKeyId).to.equal(`${did}#key-1`);
+    });
+
+    it('returns the numalgo 0 verification method ID unchanged', async () => {
+      const { document } = await DidPeerMethod.create({ numalgo: 0 });
+
+      const signingKeyId = await DidPeerMethod.getDefaultSigningKey({ didDocument: document });
+
+      expect(signingKeyId).to.equal(document.verificationMethod?.[0].id);
+    });
+  });
+
+  describe('resolve()', () => {
+    it('resolves a numalgo 2 DID offline to the same document returned by create()', async () => {
+      const { did, document } = await DidPeerMethod.create({
+        services: [{ id: '#dwn', type: 'DecentralizedWebNode', serviceEndpoint: 'https://dwn.tbddev.org/dwn0' }]
+      });
+
+      const resolutionResult = await DidPeerMethod.resolve({ didUrl: `${did}#key-1` });
+
+      expect(resolutionResult.didDocument).to.deep.equal(document);
+      expect(resolutionResult.didResolutionMetadata).to.not.have.property('error');
+      expect(resolutionResult.didResolutionMetadata.did).to.have.property('method', 'peer');
+    });
+
+    it('returns an invalidDid error if the identifier cannot be decoded', async () => {
+      const resolutionResult = await DidPeerMethod.resolve({ didUrl: 'did:peer:0z6Mkabc' });
+
+      expect(resolutionResult.didDocument).to.be.undefined;
+      expect(resolutionResult.didResolutionMetadata).to.have.property('error', 'invalidDid');
+    });
+
+    it('returns a methodNotSupported error for unsupported numalgos', async () => {
+      const resolutionResult = await DidPeerMethod.resolve({ didUrl: 'did:peer:4zQmd8CpeFPci817KDsbSAKWcXAE2mjvCQSasRqanC8Gs3Up' });
+
+      expect(resolutionResult.didResolutionMetadata).to.have.property('error', 'methodNotSupported');
+    });
+
+    it('returns a methodNotSupported error if the DID method is not peer', async () => {
+      const resolutionResult = await DidPeerMethod.resolve({ didUrl: 'did:key:z6MkmNvXGmVuux5W63nXKEM8zoxFmDLNfe7siCKG2GM7Kd8D' });
+
+      expect(resolutionResult.didResolutionMetadata).to.have.property('error', 'methodNotSupported');
+    });
+
+    it('can be used with DidResolver', async () => {
+      const { did, document } = await DidPeerMethod.create({ keyAlgorithm: 'secp256k1' });
+      const didResolver = new DidResolver({ didResolvers: [DidPeerMethod] });
+
+      const resolutionResult = await didResolver.resolve(did);
+
+      expect(resolutionResult.didDocument).to.deep.equal(document);
+    });
+  });
+});
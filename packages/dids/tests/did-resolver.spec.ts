@@ -2,9 +2,12 @@ import * as sinon from 'sinon';
 import { expect } from 'chai';
 
 import { DidKeyMethod } from '../src/did-key.js';
+import { DidPeerMethod } from '../src/did-peer.js';
 import { DidResolver } from '../src/did-resolver.js';
+import { consumeRepresentation } from '../src/representations.js';
 import { didResolverTestVectors } from './fixtures/test-vectors/did-resolver.js';
 import { DidResolverCacheLevel } from '../src/resolver-cache-level.js';
+import { DidResolverCacheMemory } from '../src/resolver-cache-memory.js';
 import { DidResolverCache } from '../src/types.js';
 
 describe('DidResolver', () => {
@@ -37,6 +40,42 @@ describe('DidResolver', () => {
         expect(didResolutionResult.didResolutionMetadata).to.have.property('error', 'methodNotSupported');
       });
 
+      it('returns a representationNotSupported error if the representation is not supported', async () => {
+        const didResolutionResult = await didResolver.resolve('did:key:z6MkmNvXGmVuux5W63nXKEM8zoxFmDLNfe7siCKG2GM7Kd8D', { accept: 'application/xml' });
+        expect(didResolutionResult.didDocument).to.be.undefined;
+        expect(didResolutionResult.didResolutionMetadata).to.have.property('error', 'representationNotSupported');
+      });
+
+      it('returns the DID document in the data model of the requested representation', async () => {
+        const did = 'did:key:z6MkmNvXGmVuux5W63nXKEM8zoxFmDLNfe7siCKG2GM7Kd8D';
+
+        const jsonResult = await didResolver.resolve(did, { accept: 'application/did+json' });
+        const jsonLdResult = await didResolver.resolve(did, { accept: 'application/did+ld+json' });
+
+        expect(jsonResult.didDocument).to.not.have.property('@context');
+        expect(jsonResult.didResolutionMetadata).to.have.property('contentType', 'application/did+json');
+        expect(jsonLdResult.didDocument?.['@context']).to.include('https://w3id.org/security/suites/jws-2020/v1');
+        expect(jsonLdResult.didResolutionMetadata).to.have.property('contentType', 'application/did+ld+json');
+      });
+
+      it('reports the content type of the DID document data model, if no representation is requested', async () => {
+        const did = 'did:key:z6MkmNvXGmVuux5W63nXKEM8zoxFmDLNfe7siCKG2GM7Kd8D';
+        const jsonLdResult = await didResolver.resolve(did);
+        expect(jsonLdResult.didResolutionMetadata).to.have.property('contentType', 'application/did+ld+json');
+
+        sinon.stub(DidKeyMethod, 'resolve').resolves({
+          didDocument           : { id: did },
+          didDocumentMetadata   : {},
+          didResolutionMetadata : { contentType: 'application/did+ld+json' }
+        });
+
+        const jsonResult = await didResolver.resolve(did);
+        sinon.restore();
+
+        expect(jsonResult.didDocument).to.deep.equal({ id: did });
+        expect(jsonResult.didResolutionMetadata).to.have.property('contentType', 'application/did+json');
+      });
+
       it('passes test vectors', async () => {
         for (const vector of didResolverTestVectors) {
           const didResolutionResult = await didResolver.resolve(vector.input);
@@ -113,5 +152,266 @@ describe('DidResolver', () => {
         cacheGetSpy.restore();
       });
     });
+
+    describe('with in-memory cache', () => {
+      let cache: DidResolverCacheMemory;
+
+      beforeEach(() => {
+        cache = new DidResolverCacheMemory();
+        didResolver = new DidResolver({ cache, didResolvers: [DidKeyMethod] });
+      });
+
+      afterEach(() => {
+        sinon.restore();
+      });
+
+      it('coalesces concurrent resolutions of the same DID', async () => {
+        const did = 'did:key:z6MkmNvXGmVuux5W63nXKEM8zoxFmDLNfe7siCKG2GM7Kd8D';
+        const resolveSpy = sinon.spy(DidKeyMethod, 'resolve');
+
+        const results = await Promise.all([
+          didResolver.resolve(did),
+          didResolver.resolve(did),
+          didResolver.resolve(`${did}#z6MkmNvXGmVuux5W63nXKEM8zoxFmDLNfe7siCKG2GM7Kd8D`)
+        ]);
+
+        expect(resolveSpy.calledOnce).to.be.true;
+        expect(results[1]).to.deep.equal(results[0]);
+        expect(results[2]).to.deep.equal(results[0]);
+      });
+
+      it('does not cache results with errors other than notFound', async () => {
+        const did = 'did:key:z6MkmNvXGmVuux5W63nXKEM8zoxFmDLNfe7siCKG2GM7Kd8D';
+        const internalError = { didDocument: undefined, didDocumentMetadata: {}, didResolutionMetadata: { error: 'internalError' } };
+        const resolveStub = sinon.stub(DidKeyMethod, 'resolve').resolves(internalError);
+        const cacheSetSpy = sinon.spy(cache, 'set');
+
+        await didResolver.resolve(did);
+        await didResolver.resolve(did);
+
+        expect(resolveStub.calledTwice).to.be.true;
+        expect(cacheSetSpy.called).to.be.false;
+      });
+
+      it('caches notFound results', async () => {
+        const did = 'did:key:z6MkmNvXGmVuux5W63nXKEM8zoxFmDLNfe7siCKG2GM7Kd8D';
+        const notFound = { didDocument: undefined, didDocumentMetadata: {}, didResolutionMetadata: { error: 'notFound' } };
+        const resolveStub = sinon.stub(DidKeyMethod, 'resolve').resolves(notFound);
+
+        await didResolver.resolve(did);
+        const resolutionResult = await didResolver.resolve(did);
+
+        expect(resolveStub.calledOnce).to.be.true;
+        expect(resolutionResult).to.deep.equal(notFound);
+      });
+
+      it('bypasses the cache for resolution options other than accept', async () => {
+        const did = 'did:key:z6MkmNvXGmVuux5W63nXKEM8zoxFmDLNfe7siCKG2GM7Kd8D';
+        const resolveSpy = sinon.spy(DidKeyMethod, 'resolve');
+        const cacheSetSpy = sinon.spy(cache, 'set');
+
+        await didResolver.resolve(did, { versionId: '1' });
+        await didResolver.resolve(did, { versionId: '1' });
+
+        expect(resolveSpy.calledTwice).to.be.true;
+        expect(cacheSetSpy.called).to.be.false;
+
+        await didResolver.resolve(did, { accept: 'application/did+json' });
+        await didResolver.resolve(did);
+
+        expect(resolveSpy.calledThrice).to.be.true;
+      });
+    });
+
+    describe('with DID document validation', () => {
+      const did = 'did:key:z6MkmNvXGmVuux5W63nXKEM8zoxFmDLNfe7siCKG2GM7Kd8D';
+
+      beforeEach(() => {
+        didResolver = new DidResolver({ didResolvers: [DidKeyMethod], validateDidDocuments: true });
+      });
+
+      afterEach(() => {
+        sinon.restore();
+      });
+
+      it('returns valid DID documents', async () => {
+        const didResolutionResult = await didResolver.resolve(did);
+
+        expect(didResolutionResult.didResolutionMetadata).to.not.have.property('error');
+        expect(didResolutionResult.didDocument).to.have.property('id', did);
+      });
+
+      it('returns an invalidDidDocument error with the findings for invalid DID documents', async () => {
+        sinon.stub(DidKeyMethod, 'resolve').resolves({
+          didDocument           : { id: did, authentication: [`${did}#missing`] },
+          didDocumentMetadata   : {},
+          didResolutionMetadata : {}
+        });
+
+        const didResolutionResult = await didResolver.resolve(did);
+
+        expect(didResolutionResult.didDocument).to.be.undefined;
+        expect(didResolutionResult.didResolutionMetadata).to.have.property('error', 'invalidDidDocument');
+        expect(didResolutionResult.didResolutionMetadata.findings).to.have.lengthOf(1);
+        expect(didResolutionResult.didResolutionMetadata.findings[0]).to.have.property('code', 'unknownVerificationMethod');
+      });
+
+      it('returns an invalidDidDocument error for structurally malformed DID documents', async () => {
+        sinon.stub(DidKeyMethod, 'resolve').resolves({
+          didDocument           : { id: did, authentication: `${did}#key-1` } as any,
+          didDocumentMetadata   : {},
+          didResolutionMetadata : {}
+        });
+
+        const didResolutionResult = await didResolver.resolve(did);
+
+        expect(didResolutionResult.didDocument).to.be.undefined;
+        expect(didResolutionResult.didResolutionMetadata).to.have.property('error', 'invalidDidDocument');
+        expect(didResolutionResult.didResolutionMetadata.findings[0]).to.include({ code: 'invalidStructure', path: 'authentication' });
+      });
+    });
+  });
+
+  describe('resolveRepresentation()', () => {
+    const did = 'did:key:z6MkmNvXGmVuux5W63nXKEM8zoxFmDLNfe7siCKG2GM7Kd8D';
+    let didResolver: DidResolver;
+
+    beforeEach(() => {
+      didResolver = new DidResolver({ didResolvers: [DidKeyMethod] });
+    });
+
+    it('returns a JSON-LD representation of the DID document, by default', async () => {
+      const { didDocumentStream, didResolutionMetadata } = await didResolver.resolveRepresentation(did);
+
+      expect(didResolutionMetadata).to.have.property('contentType', 'application/did+ld+json');
+      expect(consumeRepresentation({ representation: didDocumentStream!, contentType: 'application/did+ld+json' })).to.have.property('id', did);
+    });
+
+    it('returns a CBOR representation of the DID document, if requested', async () => {
+      const { didDocumentStream, didResolutionMetadata } = await didResolver.resolveRepresentation(did, { accept: 'application/did+cbor' });
+
+      expect(didResolutionMetadata).to.have.property('contentType', 'application/did+cbor');
+      const didDocument = consumeRepresentation({ representation: didDocumentStream!, contentType: 'application/did+cbor' });
+      expect(didDocument).to.have.property('id', did);
+      expect(didDocument).to.not.have.property('@context');
+    });
+
+    it('returns a representationNotSupported error if the representation is not supported', async () => {
+      const result = await didResolver.resolveRepresentation(did, { accept: 'text/html' });
+
+      expect(result.didDocumentStream).to.be.undefined;
+      expect(result.didResolutionMetadata).to.have.property('error', 'representationNotSupported');
+    });
+  });
+
+  describe('dereference()', () => {
+    const didKey = 'did:key:z6MkmNvXGmVuux5W63nXKEM8zoxFmDLNfe7siCKG2GM7Kd8D';
+    let didResolver: DidResolver;
+
+    beforeEach(() => {
+      didResolver = new DidResolver({ didResolvers: [DidKeyMethod, DidPeerMethod] });
+    });
+
+    it('returns the DID document if the DID URL has no path, query, or fragment', async () => {
+      const result = await didResolver.dereference(didKey);
+
+      expect(result.contentStream).to.deep.equal(didResolverTestVectors[0].output);
+      expect(result.dereferencingMetadata).to.not.have.property('error');
+    });
+
+    it('returns the DID document in the data model of the requested representation', async () => {
+      const result = await didResolver.dereference(didKey, { accept: 'application/did+json' });
+
+      expect(result.contentStream).to.not.have.property('@context');
+      expect(result.contentStream).to.have.property('id', didKey);
+      expect(result.dereferencingMetadata).to.have.property('contentType', 'application/did+json');
+
+      const resourceResult = await didResolver.dereference(`${didKey}#z6MkmNvXGmVuux5W63nXKEM8zoxFmDLNfe7siCKG2GM7Kd8D`, { accept: 'application/did+json' });
+      expect(resourceResult.dereferencingMetadata).to.have.property('contentType', 'application/did+json');
+    });
+
+    it('returns a representationNotSupported error if the representation is not supported', async () => {
+      const result = await didResolver.dereference(didKey, { accept: 'application/xml' });
+
+      expect(result.contentStream).to.be.null;
+      expect(result.dereferencingMetadata).to.have.property('error', 'representationNotSupported');
+    });
+
+    it('returns the verification method identified by an absolute ID fragment', async () => {
+      const result = await didResolver.dereference(`${didKey}#z6MkmNvXGmVuux5W63nXKEM8zoxFmDLNfe7siCKG2GM7Kd8D`);
+
+      expect(result.contentStream).to.deep.equal(didResolverTestVectors[0].output.verificationMethod[0]);
+      expect(result.dereferencingMetadata).to.have.property('contentType', 'application/did+ld+json');
+    });
+
+    it('returns the verification method or service identified by a relative ID fragment', async () => {
+      const service = { id: '#dwn', type: 'DecentralizedWebNode', serviceEndpoint: 'https://dwn.tbddev.org/dwn0' };
+      const { did, document } = await DidPeerMethod.create({ services: [service] });
+
+      const keyResult = await didResolver.dereference(`${did}#key-1`);
+      const serviceResult = await didResolver.dereference(`${did}#dwn`);
+
+      expect(keyResult.contentStream).to.deep.equal(document.verificationMethod?.[0]);
+      expect(serviceResult.contentStream).to.deep.equal(service);
+    });
+
+    it('returns the service endpoint URL of the service selected by query parameter', async () => {
+      const service = { id: '#files', type: 'LinkedDomains', serviceEndpoint: 'https://example.com/files/' };
+      const { did } = await DidPeerMethod.create({ services: [service] });
+
+      const result = await didResolver.dereference(`${did}?service=files`);
+
+      expect(result.contentStream).to.equal('https://example.com/files/');
+      expect(result.dereferencingMetadata).to.have.property('contentType', 'text/uri-list');
+    });
+
+    it('resolves the relative reference against the service endpoint URL', async () => {
+      const service = { id: '#files', type: 'LinkedDomains', serviceEndpoint: 'https://example.com/files/' };
+      const { did } = await DidPeerMethod.create({ services: [service] });
+
+      const relativeResult = await didResolver.dereference(`${did}?service=files&relativeRef=resume.pdf#page-2`);
+      const absoluteResult = await didResolver.dereference(`${did}?service=files&relativeRef=%2Fsome%2Fpath%3Fquery`);
+
+      expect(relativeResult.contentStream).to.equal('https://example.com/files/resume.pdf#page-2');
+      expect(absoluteResult.contentStream).to.equal('https://example.com/some/path?query');
+    });
+
+    it('returns a notFound error if the fragment does not identify a resource', async () => {
+      const result = await didResolver.dereference(`${didKey}#missing`);
+
+      expect(result.contentStream).to.be.null;
+      expect(result.dereferencingMetadata).to.have.property('error', 'notFound');
+    });
+
+    it('returns a notFound error if the selected service does not exist or has no URL endpoint', async () => {
+      const service = { id: '#dwn', type: 'DecentralizedWebNode', serviceEndpoint: { nodes: ['https://dwn.tbddev.org/dwn0'], signingKeys: ['#key-1'] } };
+      const { did } = await DidPeerMethod.create({ services: [service] });
+
+      const missingResult = await didResolver.dereference(`${did}?service=missing`);
+      const objectEndpointResult = await didResolver.dereference(`${did}?service=dwn`);
+
+      expect(missingResult.dereferencingMetadata).to.have.property('error', 'notFound');
+      expect(objectEndpointResult.dereferencingMetadata).to.have.property('error', 'notFound');
+    });
+
+    it('returns a notFound error for DID URL paths', async () => {
+      const result = await didResolver.dereference(`${didKey}/path/to/resource`);
+
+      expect(result.dereferencingMetadata).to.have.property('error', 'notFound');
+    });
+
+    it('returns an invalidDidUrl error if the DID URL cannot be parsed', async () => {
+      const result = await didResolver.dereference('unparseable:did#key-1');
+
+      expect(result.contentStream).to.be.null;
+      expect(result.dereferencingMetadata).to.have.property('error', 'invalidDidUrl');
+    });
+
+    it('returns the DID resolution error if the DID cannot be resolved', async () => {
+      const result = await didResolver.dereference('did:unknown:abc123#key-1');
+
+      expect(result.contentStream).to.be.null;
+      expect(result.dereferencingMetadata).to.have.property('error', 'methodNotSupported');
+    });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,296 @@
+import type { AddressInfo } from 'node:net';
+
+import chai, { expect } from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+
+import type { DidDocument } from '../src/types.js';
+
+import { DidWebMethod } from '../src/did-web.js';
+import { DidResolver } from '../src/did-resolver.js';
+
+chai.use(chaiAsPromised);
+
+type DidDocumentHost = {
+  fetch: typeof fetch;
+  requestedPaths: string[];
+  close: () => Promise<void>;
+};
+
+/**
+ * Module specifier for `node:http`, kept out of the `import()` call so that browser
+ * bundles of this file don't try to resolve it.
+ */
+const NODE_HTTP = 'node:http';
+
+/**
+ * Starts a local HTTP server that hosts the given DID documents by path, simulating
+ * the web server of a did:web domain. Requests whose path has no document get a 404,
+ * and numeric entries are answered with that HTTP status code.
+ *
+ * did:web always resolves over HTTPS, so the returned `fetch` function redirects every
+ * request to the local server, keeping the path of the requested URL.
+ */
+async function startDidDocumentHost(documents: Record<string, unknown>): Promise<DidDocumentHost> {
+  const http: typeof import('node:http') = await import(NODE_HTTP);
+  const requestedPaths: string[] = [];
+
+  const server = http.createServer((req, res) => {
+    const path = req.url ?? '/';
+    requestedPaths.push(path);
+
+    const body = documents[path];
+    if (body === undefined) {
+      res.writeHead(404).end('Not Found');
+    } else if (typeof body === 'number') {
+      res.writeHead(body).end();
+    } else {
+      res.writeHead(200, { 'Content-Type': 'application/did+json' });
+      res.end(typeof body === 'string' ? body : JSON.stringify(body));
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    fetch: (input, init) => {
+      const { pathname } = new URL(input.toString());
+      return globalThis.fetch(`http://127.0.0.1:${port}${pathname}`, init);
+    },
+    requestedPaths,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.close(error => error ? reject(error) : resolve());
+    })
+  };
+}
+
+describe('DidWebMethod', () => {
+  describe('create()', () => {
+    it('creates a DID with Ed25519 keys, by default', async () => {
+      const portableDid = await DidWebMethod.create({ domain: 'example.com' });
+
+      expect(portableDid.did).to.equal('did:web:example.com');
+      expect(portableDid.document.id).to.equal('did:web:example.com');
+      expect(portableDid.keySet.verificationMethodKeys).to.have.length(1);
+      expect(portableDid.keySet.verificationMethodKeys?.[0].publicKeyJwk).to.have.property('crv', 'Ed25519');
+      expect(portableDid.keySet.verificationMethodKeys?.[0]).to.have.property('privateKeyJwk');
+    });
+
+    it('creates a DID with secp256k1 keys, if specified', async () => {
+      const portableDid = await DidWebMethod.create({ domain: 'example.com', keyAlgorithm: 'secp256k1' });
+
+      expect(portableDid.keySet.verificationMethodKeys?.[0].publicKeyJwk).to.have.property('crv', 'secp256k1');
+    });
+
+    it('percent encodes the port number', async () => {
+      const portableDid = await DidWebMethod.create({ domain: 'localhost:8443' });
+
+      expect(portableDid.did).to.equal('did:web:localhost%3A8443');
+    });
+
+    it('includes path segments in the DID', async () => {
+      const portableDid = await DidWebMethod.create({ domain: 'example.com', path: ['user', 'alice'] });
+
+      expect(portableDid.did).to.equal('did:web:example.com:user:alice');
+    });
+
+    it('creates a document with verification methods, relationships, and services', async () => {
+      const { did, document, keySet } = await DidWebMethod.create({
+        domain   : 'example.com',
+        services : [{ id: '#dwn', type: 'DecentralizedWebNode', serviceEndpoint: 'https://dwn.example.com' }]
+      });
+
+      const kid = keySet.verificationMethodKeys?.[0].publicKeyJwk?.kid;
+      const methodId = `${did}#${kid}`;
+
+      expect(document.verificationMethod).to.have.length(1);
+      expect(document.verificationMethod?.[0]).to.have.property('id', methodId);
+      expect(document.verificationMethod?.[0]).to.have.property('type', 'JsonWebKey2020');
+      expect(document.verificationMethod?.[0]).to.have.property('controller', did);
+      expect(document.verificationMethod?.[0].publicKeyJwk).to.not.have.property('d');
+      expect(document.authentication).to.deep.equal([methodId]);
+      expect(document.assertionMethod).to.deep.equal([methodId]);
+      expect(document.service).to.deep.equal([{
+        id              : `${did}#dwn`,
+        type            : 'DecentralizedWebNode',
+        serviceEndpoint : 'https://dwn.example.com'
+      }]);
+    });
+
+    it('throws an error if domain is missing', async () => {
+      await expect(
+        DidWebMethod.create({} as any)
+      ).to.eventually.be.rejectedWith(Error, `Required parameter missing: 'domain'`);
+    });
+  });
+
+  describe('getDefaultSigningKey()', () => {
+    it('returns the first authentication verification method ID', async () => {
+      const { document } = await DidWebMethod.create({ domain: 'example.com' });
+
+      const signingKeyId = await DidWebMethod.getDefaultSigningKey({ didDocument: document });
+
+      expect(signingKeyId).to.equal(document.authentication?.[0]);
+    });
+
+    it('expands relative verification method IDs', async () => {
+      const didDocument = {
+        id             : 'did:web:example.com',
+        authentication : ['#key-1']
+      } as DidDocument;
+
+      const signingKeyId = await DidWebMethod.getDefaultSigningKey({ didDocument });
+
+      expect(signingKeyId).to.equal('did:web:example.com#key-1');
+    });
+  });
+
+  describe('getDidDocumentUrl()', () => {
+    it('maps a domain only DID to the well-known URL', () => {
+      const url = DidWebMethod.getDidDocumentUrl({ did: 'did:web:w3c-ccg.github.io' });
+      expect(url).to.equal('https://w3c-ccg.github.io/.well-known/did.json');
+    });
+
+    it('maps a DID with a percent encoded port', () => {
+      const url = DidWebMethod.getDidDocumentUrl({ did: 'did:web:localhost%3A8443' });
+      expect(url).to.equal('https://localhost:8443/.well-known/did.json');
+    });
+
+    it('maps a path-based DID', () => {
+      const url = DidWebMethod.getDidDocumentUrl({ did: 'did:web:w3c-ccg.github.io:user:alice' });
+      expect(url).to.equal('https://w3c-ccg.github.io/user/alice/did.json');
+    });
+
+    it('maps a path-based DID with a port', () => {
+      const url = DidWebMethod.getDidDocumentUrl({ did: 'did:web:example.com%3A3000:user:alice' });
+      expect(url).to.equal('https://example.com:3000/user/alice/did.json');
+    });
+
+    it('ignores DID URL fragments', () => {
+      const url = DidWebMethod.getDidDocumentUrl({ did: 'did:web:example.com#key-1' });
+      expect(url).to.equal('https://example.com/.well-known/did.json');
+    });
+
+    it('throws an error for non did:web DIDs', () => {
+      expect(
+        () => DidWebMethod.getDidDocumentUrl({ did: 'did:key:z6MkmNvXGmVuux5W63nXKEM8zoxFmDLNfe7siCKG2GM7Kd8D' })
+      ).to.throw(Error, 'Invalid did:web DID');
+    });
+
+    it('throws an error if the domain includes a path', () => {
+      expect(
+        () => DidWebMethod.getDidDocumentUrl({ did: 'did:web:example.com%2Fpath' })
+      ).to.throw(Error, 'Invalid domain name');
+    });
+  });
+
+  describe('resolve()', () => {
+    describe('with a hosted DID document', function () {
+      let host: DidDocumentHost | undefined;
+
+      before(function () {
+        // Skip in web browsers since a local HTTP server can't be started.
+        if (typeof window !== 'undefined') this.skip();
+      });
+
+      afterEach(async () => {
+        await host?.close();
+        host = undefined;
+      });
+
+      it('resolves a hosted DID document', async () => {
+        const { did, document } = await DidWebMethod.create({ domain: 'example.com' });
+        host = await startDidDocumentHost({ '/.well-known/did.json': document });
+
+        const resolutionResult = await DidWebMethod.resolve({ didUrl: did, resolutionOptions: { fetch: host.fetch } });
+
+        expect(host.requestedPaths).to.deep.equal(['/.well-known/did.json']);
+        expect(resolutionResult.didDocument).to.deep.equal(document);
+        expect(resolutionResult.didResolutionMetadata).to.not.have.property('error');
+        expect(resolutionResult.didResolutionMetadata.did).to.deep.equal({
+          didString        : 'did:web:example.com',
+          methodSpecificId : 'example.com',
+          method           : 'web'
+        });
+      });
+
+      it('resolves a path-based DID with a port', async () => {
+        const { did, document } = await DidWebMethod.create({ domain: 'localhost:8443', path: ['user', 'alice'] });
+        host = await startDidDocumentHost({ '/user/alice/did.json': document });
+
+        const resolutionResult = await DidWebMethod.resolve({ didUrl: `${did}#key-1`, resolutionOptions: { fetch: host.fetch } });
+
+        expect(host.requestedPaths).to.deep.equal(['/user/alice/did.json']);
+        expect(resolutionResult.didDocument).to.deep.equal(document);
+      });
+
+      it('returns notFound error if the DID document is not hosted', async () => {
+        host = await startDidDocumentHost({});
+
+        const resolutionResult = await DidWebMethod.resolve({ didUrl: 'did:web:example.com', resolutionOptions: { fetch: host.fetch } });
+
+        expect(resolutionResult.didDocument).to.be.undefined;
+        expect(resolutionResult.didResolutionMetadata).to.have.property('error', 'notFound');
+      });
+
+      it('returns internalError error if the DID document host is unreachable', async () => {
+        // Stop the server before resolving so that the connection is refused.
+        const { fetch, close } = await startDidDocumentHost({});
+        await close();
+
+        const resolutionResult = await DidWebMethod.resolve({ didUrl: 'did:web:example.com', resolutionOptions: { fetch } });
+
+        expect(resolutionResult.didResolutionMetadata).to.have.property('error', 'internalError');
+        expect(resolutionResult.didResolutionMetadata.errorMessage).to.include('fetch failed');
+      });
+
+      it('returns internalError error if the DID document host responds with a server error', async () => {
+        host = await startDidDocumentHost({ '/.well-known/did.json': 502 });
+
+        const resolutionResult = await DidWebMethod.resolve({ didUrl: 'did:web:example.com', resolutionOptions: { fetch: host.fetch } });
+
+        expect(resolutionResult.didResolutionMetadata).to.have.property('error', 'internalError');
+        expect(resolutionResult.didResolutionMetadata.errorMessage).to.include('502');
+      });
+
+      it('returns invalidDidDocument error if the response is not JSON', async () => {
+        host = await startDidDocumentHost({ '/.well-known/did.json': '<html></html>' });
+
+        const resolutionResult = await DidWebMethod.resolve({ didUrl: 'did:web:example.com', resolutionOptions: { fetch: host.fetch } });
+
+        expect(resolutionResult.didResolutionMetadata).to.have.property('error', 'invalidDidDocument');
+      });
+
+      it('returns invalidDidDocument error if the document id does not match the DID', async () => {
+        const { document } = await DidWebMethod.create({ domain: 'other.example.com' });
+        host = await startDidDocumentHost({ '/.well-known/did.json': document });
+
+        const resolutionResult = await DidWebMethod.resolve({ didUrl: 'did:web:example.com', resolutionOptions: { fetch: host.fetch } });
+
+        expect(resolutionResult.didResolutionMetadata).to.have.property('error', 'invalidDidDocument');
+      });
+
+      it('can be used with DidResolver', async () => {
+        const { did, document } = await DidWebMethod.create({ domain: 'example.com' });
+        host = await startDidDocumentHost({ '/.well-known/did.json': document });
+        const didResolver = new DidResolver({ didResolvers: [DidWebMethod] });
+
+        const resolutionResult = await didResolver.resolve(did, { fetch: host.fetch });
+
+        expect(resolutionResult.didDocument).to.deep.equal(document);
+      });
+    });
+
+    it('returns an invalidDid error if the DID cannot be parsed', async () => {
+      const resolutionResult = await DidWebMethod.resolve({ didUrl: 'unparseable:did' });
+
+      expect(resolutionResult.didResolutionMetadata).to.have.property('error', 'invalidDid');
+    });
+
+    it('returns a methodNotSupported error if the DID method is not web', async () => {
+      const resolutionResult = await DidWebMethod.resolve({ didUrl: 'did:key:z6MkmNvXGmVuux5W63nXKEM8zoxFmDLNfe7siCKG2GM7Kd8D' });
+
+      expect(resolutionResult.didResolutionMetadata).to.have.property('error', 'methodNotSupported');
+    });
+  });
+});
@@ -104,6 +104,102 @@ export const didDocumentIdTestVectors = [
       },
     },
     output: undefined
+  },
+  {
+    id    : 'did.getIdByKey.5',
+    input : {
+      didDocument: {
+        id                 : 'did:method:bob',
+        verificationMethod : [
+          {
+            id                 : 'did:method:bob#key-1',
+            type               : 'Multikey',
+            controller         : 'did:method:bob',
+            publicKeyMultibase : 'z6MkmNvXGmVuux5W63nXKEM8zoxFmDLNfe7siCKG2GM7Kd8D'
+          },
+          {
+            id                 : 'did:method:bob#key-2',
+            type               : 'Multikey',
+            controller         : 'did:method:bob',
+            publicKeyMultibase : 'zDnaerDaTF5BXEavCrfRZEk316dpbLsfPDZ3WJ5hRTPFU2169'
+          }
+        ]
+      },
+      publicKeyJwk: {
+        kty : 'EC',
+        crv : 'P-256',
+        x   : 'fyNYMN0976ci7xqiSdag3buk-ZCwgXU4kz9XNkBlNUI',
+        y   : 'hW2ojTNfH7Jbi8--CJUo3OCbH3y5n91g-IMA9MLMbTU'
+      },
+    },
+    output: 'did:method:bob#key-2'
+  },
+  {
+    id    : 'did.getIdByKey.6',
+    input : {
+      didDocument: {
+        id                 : 'did:method:bob',
+        verificationMethod : [
+          {
+            id                 : 'did:method:bob#key-1',
+            type               : 'Multikey',
+            controller         : 'did:method:bob',
+            publicKeyMultibase : 'z6MkmNvXGmVuux5W63nXKEM8zoxFmDLNfe7siCKG2GM7Kd8D'
+          }
+        ]
+      },
+      publicKeyJwk: {
+        kty : 'OKP',
+        crv : 'Ed25519',
+        x   : 'ZuVpK6HnahBtV1Y_jhnYK-fqHAz3dXmWXT_h-J7SL6I'
+      },
+    },
+    output: 'did:method:bob#key-1'
+  },
+  {
+    id    : 'did.getIdByKey.7',
+    input : {
+      didDocument: {
+        id                 : 'did:method:bob',
+        verificationMethod : [
+          {
+            id                 : 'did:method:bob#key-1',
+            type               : 'Multikey',
+            controller         : 'did:method:bob',
+            publicKeyMultibase : 'zDnaerDaTF5BXEavCrfRZEk316dpbLsfPDZ3WJ5hRTPFU2169'
+          }
+        ]
+      },
+      publicKeyJwk: {
+        kty : 'EC',
+        crv : 'P-256',
+        x   : 'fyNYMN0976ci7xqiSdag3buk-ZCwgXU4kz9XNkBlNUI',
+        y   : 'epJXccyg4E6kdDBB92rXIx9k4IRGYCKfB3z_Cz0zkso'
+      },
+    },
+    output: undefined
+  },
+  {
+    id    : 'did.getIdByKey.8',
+    input : {
+      didDocument: {
+        id                 : 'did:method:bob',
+        verificationMethod : [
+          {
+            id                 : 'did:method:bob#key-1',
+            type               : 'Multikey',
+            controller         : 'did:method:bob',
+            publicKeyMultibase : 'z6MkmNvXGmVuux5W63nXKEM8zoxFmDLNfe7siCKG2GM7Kd8D'
+          }
+        ]
+      },
+      publicKeyJwk: {
+        kty : 'OKP',
+        crv : 'X25519',
+        x   : 'ZuVpK6HnahBtV1Y_jhnYK-fqHAz3dXmWXT_h-J7SL6I'
+      },
+    },
+    output: undefined
   }
 ];
 
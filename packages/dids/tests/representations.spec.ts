@@ -0,0 +1,122 @@
+import { expect } from 'chai';
+import { Convert } from '@web5/common';
+
+import type { DidDocument } from '../src/types.js';
+
+import {
+  consumeRepresentation,
+  produceRepresentation,
+  toRepresentationDataModel,
+} from '../src/representations.js';
+
+describe('DID Document Representations', () => {
+  const didDocument: DidDocument = {
+    '@context'         : ['https://www.w3.org/ns/did/v1'],
+    id                 : 'did:example:123',
+    verificationMethod : [
+      {
+        id                 : 'did:example:123#key-1',
+        type               : 'Multikey',
+        controller         : 'did:example:123',
+        publicKeyMultibase : 'z6MkmNvXGmVuux5W63nXKEM8zoxFmDLNfe7siCKG2GM7Kd8D'
+      },
+      {
+        id           : 'did:example:123#key-2',
+        type         : 'JsonWebKey2020',
+        controller   : 'did:example:123',
+        publicKeyJwk : { crv: 'Ed25519', kty: 'OKP', x: 'ZuVpK6HnahBtV1Y_jhnYK-fqHAz3dXmWXT_h-J7SL6I' }
+      }
+    ],
+    authentication: ['did:example:123#key-1']
+  };
+
+  describe('toRepresentationDataModel()', () => {
+    it('removes the @context for JSON representations', () => {
+      const dataModel = toRepresentationDataModel({ didDocument, contentType: 'application/did+json' });
+
+      expect(dataModel).to.not.have.property('@context');
+      expect(dataModel.verificationMethod).to.deep.equal(didDocument.verificationMethod);
+    });
+
+    it('adds the contexts of the verification method types for JSON-LD representations', () => {
+      const { '@context': _, ...plainDidDocument } = didDocument;
+
+      const dataModel = toRepresentationDataModel({ didDocument: plainDidDocument, contentType: 'application/did+ld+json' });
+
+      expect(dataModel['@context']).to.deep.equal([
+        'https://www.w3.org/ns/did/v1',
+        'https://w3id.org/security/multikey/v1',
+        'https://w3id.org/security/suites/jws-2020/v1'
+      ]);
+    });
+
+    it('preserves existing contexts for JSON-LD representations', () => {
+      const context = ['https://www.w3.org/ns/did/v1', { '@base': 'did:example:123' }];
+
+      const dataModel = toRepresentationDataModel({
+        didDocument : { id: 'did:example:123', '@context': context },
+        contentType : 'application/did+ld+json'
+      });
+
+      expect(dataModel['@context']).to.deep.equal(context);
+    });
+
+    it('preserves an existing context given as a string for JSON-LD representations', () => {
+      const dataModel = toRepresentationDataModel({
+        didDocument : { id: 'did:example:123', '@context': 'https://www.w3.org/ns/did/v1' },
+        contentType : 'application/did+ld+json'
+      });
+
+      expect(dataModel['@context']).to.deep.equal(['https://www.w3.org/ns/did/v1']);
+    });
+  });
+
+  describe('produceRepresentation() and consumeRepresentation()', () => {
+    for (const contentType of ['application/did+json', 'application/did+ld+json', 'application/did+cbor']) {
+      it(`round trips ${contentType} representations`, () => {
+        const representation = produceRepresentation({ didDocument, contentType });
+
+        const consumed = consumeRepresentation({ representation, contentType });
+
+        expect(consumed).to.deep.equal(toRepresentationDataModel({ didDocument, contentType: contentType as any }));
+      });
+    }
+
+    it('produces JSON representations as UTF-8 encoded JSON', () => {
+      const representation = produceRepresentation({ didDocument, contentType: 'application/did+json' });
+
+      expect(Convert.uint8Array(representation).toObject()).to.have.property('id', 'did:example:123');
+    });
+
+    it('throws an error for unsupported representations', () => {
+      expect(
+        () => produceRepresentation({ didDocument, contentType: 'application/xml' })
+      ).to.throw(Error, 'representationNotSupported');
+      expect(
+        () => consumeRepresentation({ representation: new Uint8Array(), contentType: 'application/xml' })
+      ).to.throw(Error, 'representationNotSupported');
+    });
+
+    it('consumes JSON-LD representations with a string @context', () => {
+      const representation = Convert.object({ id: 'did:example:123', '@context': 'https://www.w3.org/ns/did/v1' }).toUint8Array();
+
+      const consumed = consumeRepresentation({ representation, contentType: 'application/did+ld+json' });
+
+      expect(consumed['@context']).to.equal('https://www.w3.org/ns/did/v1');
+    });
+
+    it('throws an error if a JSON-LD representation has no @context', () => {
+      const representation = produceRepresentation({ didDocument, contentType: 'application/did+json' });
+
+      expect(
+        () => consumeRepresentation({ representation, contentType: 'application/did+ld+json' })
+      ).to.throw(Error, `missing '@context'`);
+    });
+
+    it('throws an error if the representation is not a DID document', () => {
+      expect(
+        () => consumeRepresentation({ representation: Convert.string('[1, 2, 3]').toUint8Array(), contentType: 'application/did+json' })
+      ).to.throw(Error, 'invalidDidDocument');
+    });
+  });
+});
@@ -81,6 +81,32 @@ describe('DidResolverCacheLevel', () => {
       valueInCache = await cache.get(testDid);
       expect(valueInCache).to.be.undefined;
     });
+
+    it('uses a 1 minute TTL for notFound results, by default', async () => {
+      cache = new DidResolverCacheLevel({ location: cacheStoreLocation });
+
+      const testDid = 'did:example:alice';
+
+      const testDidResolutionResult = {
+        didResolutionMetadata : { error: 'notFound' },
+        didDocument           : undefined,
+        didDocumentMetadata   : {}
+      };
+
+      // Write an entry into the cache.
+      await cache.set(testDid, testDidResolutionResult);
+
+      // Confirm a cache hit.
+      let valueInCache = await cache.get(testDid);
+      expect(valueInCache).to.have.nested.property('didResolutionMetadata.error', 'notFound');
+
+      // Time travel 61 seconds.
+      clock.tick(1000 * 61);
+
+      // Confirm a cache miss.
+      valueInCache = await cache.get(testDid);
+      expect(valueInCache).to.be.undefined;
+    });
   });
 
   describe('clear()', () => {
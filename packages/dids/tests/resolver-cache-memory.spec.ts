@@ -0,0 +1,119 @@
+import sinon from 'sinon';
+import { expect } from 'chai';
+
+import type { DidResolutionResult } from '../src/types.js';
+
+import { DidResolverCacheMemory } from '../src/resolver-cache-memory.js';
+
+describe('DidResolverCacheMemory', () => {
+  let cache: DidResolverCacheMemory;
+  let clock: sinon.SinonFakeTimers;
+
+  const testDidResolutionResult: DidResolutionResult = {
+    didResolutionMetadata : {},
+    didDocument           : { id: 'did:example:alice' },
+    didDocumentMetadata   : {}
+  };
+
+  beforeEach(() => {
+    clock = sinon.useFakeTimers();
+  });
+
+  afterEach(async () => {
+    await cache.close();
+    clock.restore();
+  });
+
+  describe('constructor', () => {
+    it('uses a 15 minute TTL, by default', async () => {
+      cache = new DidResolverCacheMemory();
+
+      await cache.set('did:example:alice', testDidResolutionResult);
+
+      clock.tick(1000 * 60 * 15 - 1);
+      expect(await cache.get('did:example:alice')).to.deep.equal(testDidResolutionResult);
+
+      clock.tick(1);
+      expect(await cache.get('did:example:alice')).to.be.undefined;
+    });
+
+    it('uses per-method TTLs, when specified', async () => {
+      cache = new DidResolverCacheMemory({ ttl: '1m', methodTtls: { dht: '1h' } });
+
+      await cache.set('did:example:alice', testDidResolutionResult);
+      await cache.set('did:dht:alice', testDidResolutionResult);
+
+      clock.tick(1000 * 60 * 30);
+
+      expect(await cache.get('did:example:alice')).to.be.undefined;
+      expect(await cache.get('did:dht:alice')).to.deep.equal(testDidResolutionResult);
+    });
+
+    it('throws an error if the maximum number of entries is less than 1', () => {
+      expect(
+        () => cache = new DidResolverCacheMemory({ maxEntries: 0 })
+      ).to.throw(Error, 'must be at least 1');
+      cache = new DidResolverCacheMemory();
+    });
+  });
+
+  describe('set()', () => {
+    it('caches notFound results for a shorter TTL', async () => {
+      cache = new DidResolverCacheMemory({ notFoundTtl: '30s' });
+      const notFoundResult = { ...testDidResolutionResult, didDocument: undefined, didResolutionMetadata: { error: 'notFound' } };
+
+      await cache.set('did:example:alice', notFoundResult);
+      expect(await cache.get('did:example:alice')).to.deep.equal(notFoundResult);
+
+      clock.tick(1000 * 30);
+      expect(await cache.get('did:example:alice')).to.be.undefined;
+    });
+
+    it('does not cache results with other errors', async () => {
+      cache = new DidResolverCacheMemory();
+
+      await cache.set('did:example:alice', { ...testDidResolutionResult, didResolutionMetadata: { error: 'internalError' } });
+
+      expect(await cache.get('did:example:alice')).to.be.undefined;
+    });
+
+    it('evicts the least recently used entry when full', async () => {
+      cache = new DidResolverCacheMemory({ maxEntries: 2 });
+
+      await cache.set('did:example:alice', testDidResolutionResult);
+      await cache.set('did:example:bob', testDidResolutionResult);
+
+      // Use alice so that bob becomes the least recently used entry.
+      await cache.get('did:example:alice');
+      await cache.set('did:example:carol', testDidResolutionResult);
+
+      expect(await cache.get('did:example:alice')).to.exist;
+      expect(await cache.get('did:example:bob')).to.be.undefined;
+      expect(await cache.get('did:example:carol')).to.exist;
+    });
+  });
+
+  describe('delete()', () => {
+    it('removes the cached result of a DID', async () => {
+      cache = new DidResolverCacheMemory();
+      await cache.set('did:example:alice', testDidResolutionResult);
+
+      await cache.delete('did:example:alice');
+
+      expect(await cache.get('did:example:alice')).to.be.undefined;
+    });
+  });
+
+  describe('clear()', () => {
+    it('removes all cached results', async () => {
+      cache = new DidResolverCacheMemory();
+      await cache.set('did:example:alice', testDidResolutionResult);
+      await cache.set('did:example:bob', testDidResolutionResult);
+
+      await cache.clear();
+
+      expect(await cache.get('did:example:alice')).to.be.undefined;
+      expect(await cache.get('did:example:bob')).to.be.undefined;
+    });
+  });
+});
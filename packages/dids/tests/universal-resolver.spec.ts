@@ -0,0 +1,157 @@
+import sinon from 'sinon';
+import { expect } from 'chai';
+
+import { DidResolver } from '../src/did-resolver.js';
+import { DidKeyMethod } from '../src/did-key.js';
+import { UniversalResolver } from '../src/universal-resolver.js';
+
+describe('UniversalResolver', () => {
+  const did = 'did:example:123456789abcdefghi';
+  const didDocument = { id: did };
+
+  let fetchStub: sinon.SinonStub;
+
+  beforeEach(() => {
+    fetchStub = sinon.stub(globalThis, 'fetch');
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  describe('constructor', () => {
+    it('throws an error if no endpoints are given', () => {
+      expect(() => new UniversalResolver({ endpoints: [] })).to.throw(Error, 'At least one endpoint');
+    });
+  });
+
+  describe('resolve()', () => {
+    it('requests a DID resolution result from the identifiers endpoint', async () => {
+      const resolutionResult = {
+        '@context'            : 'https://w3id.org/did-resolution/v1',
+        didDocument,
+        didDocumentMetadata   : { created: '2023-11-01T12:00:00Z' },
+        didResolutionMetadata : { contentType: 'application/did+ld+json' }
+      };
+      fetchStub.resolves(new Response(JSON.stringify(resolutionResult)));
+      const universalResolver = new UniversalResolver({ endpoints: ['https://resolver.example.com/'] });
+
+      const result = await universalResolver.resolve({ didUrl: `${did}#key-1` });
+
+      expect(result).to.deep.equal(resolutionResult);
+      expect(fetchStub.firstCall.args[0]).to.equal(`https://resolver.example.com/1.0/identifiers/${encodeURIComponent(did)}`);
+      expect(fetchStub.firstCall.args[1].headers.Accept).to.include('https://w3id.org/did-resolution');
+    });
+
+    it('requests a DID resolution result regardless of the requested representation', async () => {
+      fetchStub.resolves(new Response(JSON.stringify({ didDocument, didDocumentMetadata: {}, didResolutionMetadata: {} })));
+      const universalResolver = new UniversalResolver({ endpoints: ['https://resolver.example.com'] });
+
+      await universalResolver.resolve({ didUrl: did, resolutionOptions: { accept: 'application/did+cbor' } });
+
+      expect(fetchStub.firstCall.args[1].headers.Accept).to.include('https://w3id.org/did-resolution');
+    });
+
+    it('percent-encodes the DID in the request URL', async () => {
+      fetchStub.resolves(new Response(JSON.stringify({ didDocument: { id: 'did:web:localhost%3A8080' } })));
+      const universalResolver = new UniversalResolver({ endpoints: ['https://resolver.example.com'] });
+
+      await universalResolver.resolve({ didUrl: 'did:web:localhost%3A8080' });
+
+      expect(fetchStub.firstCall.args[0]).to.equal('https://resolver.example.com/1.0/identifiers/did%3Aweb%3Alocalhost%253A8080');
+    });
+
+    it('wraps a DID document returned instead of a DID resolution result', async () => {
+      fetchStub.resolves(new Response(JSON.stringify(didDocument), { headers: { 'Content-Type': 'application/did+ld+json' } }));
+      const universalResolver = new UniversalResolver({ endpoints: ['https://resolver.example.com'] });
+
+      const result = await universalResolver.resolve({ didUrl: did });
+
+      expect(result.didDocument).to.deep.equal(didDocument);
+      expect(result.didDocumentMetadata).to.deep.equal({});
+      expect(result.didResolutionMetadata).to.deep.equal({ contentType: 'application/did+ld+json' });
+    });
+
+    it('returns the error in the DID resolution result of an unsuccessful response', async () => {
+      fetchStub.resolves(new Response(JSON.stringify({ didResolutionMetadata: { error: 'notFound', errorMessage: 'DID not found' } }), { status: 404 }));
+      const universalResolver = new UniversalResolver({ endpoints: ['https://resolver.example.com'] });
+
+      const result = await universalResolver.resolve({ didUrl: did });
+
+      expect(result.didDocument).to.be.undefined;
+      expect(result.didDocumentMetadata).to.deep.equal({});
+      expect(result.didResolutionMetadata).to.deep.equal({ error: 'notFound', errorMessage: 'DID not found' });
+    });
+
+    it('returns the error implied by the HTTP status code if the response has no DID resolution metadata', async () => {
+      fetchStub.onFirstCall().resolves(new Response('Not Found', { status: 404 }));
+      fetchStub.onSecondCall().resolves(new Response('Not Implemented', { status: 501 }));
+      const universalResolver = new UniversalResolver({ endpoints: ['https://resolver.example.com'] });
+
+      const notFoundResult = await universalResolver.resolve({ didUrl: did });
+      const methodNotSupportedResult = await universalResolver.resolve({ didUrl: did });
+
+      expect(notFoundResult.didResolutionMetadata).to.have.property('error', 'notFound');
+      expect(methodNotSupportedResult.didResolutionMetadata).to.have.property('error', 'methodNotSupported');
+    });
+
+    it('marks DIDs as deactivated if the response has HTTP status code 410', async () => {
+      fetchStub.resolves(new Response(JSON.stringify({ didDocument, didResolutionMetadata: {} }), { status: 410 }));
+      const universalResolver = new UniversalResolver({ endpoints: ['https://resolver.example.com'] });
+
+      const result = await universalResolver.resolve({ didUrl: did });
+
+      expect(result.didDocumentMetadata).to.have.property('deactivated', true);
+      expect(result.didResolutionMetadata).to.not.have.property('error');
+    });
+
+    it('fails over to the next endpoint if an endpoint is unreachable or responds with a server error', async () => {
+      fetchStub.onFirstCall().rejects(new TypeError('fetch failed'));
+      fetchStub.onSecondCall().resolves(new Response(null, { status: 503 }));
+      fetchStub.onThirdCall().resolves(new Response(JSON.stringify({ didDocument, didResolutionMetadata: {} })));
+      const universalResolver = new UniversalResolver({
+        endpoints: ['https://resolver1.example.com', 'https://resolver2.example.com', 'https://resolver3.example.com']
+      });
+
+      const result = await universalResolver.resolve({ didUrl: did });
+
+      expect(result.didDocument).to.deep.equal(didDocument);
+      expect(fetchStub.thirdCall.args[0]).to.equal(`https://resolver3.example.com/1.0/identifiers/${encodeURIComponent(did)}`);
+    });
+
+    it('returns an internalError if an endpoint does not respond within the timeout', async () => {
+      fetchStub.callsFake((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+        init.signal!.addEventListener('abort', () => reject(new DOMException('The operation was aborted.', 'AbortError')));
+      }));
+      const universalResolver = new UniversalResolver({ endpoints: ['https://resolver.example.com'], timeout: 10 });
+
+      const result = await universalResolver.resolve({ didUrl: did });
+
+      expect(result.didResolutionMetadata).to.have.property('error', 'internalError');
+      expect(result.didResolutionMetadata.errorMessage).to.include('did not respond within 10 ms');
+    });
+
+    it('returns an invalidDid error if the DID cannot be parsed', async () => {
+      const universalResolver = new UniversalResolver();
+
+      const result = await universalResolver.resolve({ didUrl: 'unparseable:did' });
+
+      expect(result.didResolutionMetadata).to.have.property('error', 'invalidDid');
+      sinon.assert.notCalled(fetchStub);
+    });
+
+    it('can be used by DidResolver as a fallback for unregistered DID methods', async () => {
+      fetchStub.resolves(new Response(JSON.stringify({ didDocument, didResolutionMetadata: {} })));
+      const didResolver = new DidResolver({
+        didResolvers     : [DidKeyMethod],
+        fallbackResolver : new UniversalResolver({ endpoints: ['https://resolver.example.com'] })
+      });
+
+      const result = await didResolver.resolve(did);
+      await didResolver.resolve('did:key:z6MkmNvXGmVuux5W63nXKEM8zoxFmDLNfe7siCKG2GM7Kd8D');
+
+      expect(result.didDocument).to.deep.equal(didDocument);
+      sinon.assert.calledOnce(fetchStub);
+    });
+  });
+});
@@ -1,9 +1,12 @@
+import type { PublicKeyJwk } from '@web5/crypto';
+
 import { expect } from 'chai';
 
 import {
   getVerificationMethodIds,
   getVerificationMethodTypes,
   parseDid,
+  validateDidDocument,
 } from '../src/utils.js';
 import { didDocumentIdTestVectors, didDocumentTypeTestVectors } from './fixtures/test-vectors/did-utils.js';
 
@@ -52,4 +55,153 @@ describe('DID Utils', () => {
       expect(query).to.equal('service=agent&relativeRef=/credentials');
     });
   });
-});
\ No newline at end of file
+
+  describe('validateDidDocument()', () => {
+    const did = 'did:example:123';
+    const publicKeyJwk: PublicKeyJwk = { crv: 'Ed25519', kty: 'OKP', x: 'o40shZrsco-CfEqk6mFsXfcP94ly3Az3gm84PzAUsXo' };
+
+    it('returns no findings for a valid DID document', () => {
+      const findings = validateDidDocument({
+        did,
+        didDocument: {
+          id                 : did,
+          verificationMethod : [{ id: '#key-1', type: 'JsonWebKey2020', controller: did, publicKeyJwk }],
+          authentication     : [`${did}#key-1`],
+          keyAgreement       : [{ id: `${did}#key-2`, type: 'JsonWebKey2020', controller: did, publicKeyJwk }],
+          assertionMethod    : ['#key-2'],
+          service            : [
+            { id: '#linked-domain', type: 'LinkedDomains', serviceEndpoint: 'https://example.com' },
+            { id: '#dwn', type: 'DecentralizedWebNode', serviceEndpoint: { nodes: ['https://dwn.example.com'], signingKeys: ['#key-1'] } }
+          ]
+        }
+      });
+
+      expect(findings).to.be.empty;
+    });
+
+    it('returns a finding if the id does not match the resolved DID', () => {
+      const findings = validateDidDocument({ did, didDocument: { id: 'did:example:456' } });
+
+      expect(findings).to.deep.equal([{
+        code    : 'idMismatch',
+        message : `DID document 'id' does not match the resolved DID: did:example:456`,
+        path    : 'id'
+      }]);
+    });
+
+    it('returns a finding if the id is not a DID', () => {
+      const findings = validateDidDocument({ didDocument: { id: 'https://example.com' } });
+
+      expect(findings.map(finding => finding.code)).to.deep.equal(['invalidId']);
+    });
+
+    it('returns a finding for each duplicate verification method ID', () => {
+      const findings = validateDidDocument({
+        didDocument: {
+          id                 : did,
+          verificationMethod : [{ id: '#key-1', type: 'JsonWebKey2020', controller: did, publicKeyJwk }],
+          authentication     : [{ id: `${did}#key-1`, type: 'JsonWebKey2020', controller: did, publicKeyJwk }]
+        }
+      });
+
+      expect(findings).to.have.lengthOf(1);
+      expect(findings[0]).to.include({ code: 'duplicateVerificationMethodId', path: 'authentication[0].id' });
+    });
+
+    it('returns a finding for each reference to an unknown verification method', () => {
+      const findings = validateDidDocument({
+        didDocument: {
+          id                   : did,
+          verificationMethod   : [{ id: '#key-1', type: 'JsonWebKey2020', controller: did, publicKeyJwk }],
+          authentication       : ['#key-1', '#key-2'],
+          capabilityDelegation : [`${did}#key-3`]
+        }
+      });
+
+      expect(findings.map(({ code, path }) => ({ code, path }))).to.deep.equal([
+        { code: 'unknownVerificationMethod', path: 'authentication[1]' },
+        { code: 'unknownVerificationMethod', path: 'capabilityDelegation[0]' }
+      ]);
+    });
+
+    it('returns a finding if a verification method JWK contains private key material', () => {
+      const findings = validateDidDocument({
+        didDocument: {
+          id                 : did,
+          verificationMethod : [{ id: '#key-1', type: 'JsonWebKey2020', controller: did, publicKeyJwk: { ...publicKeyJwk, d: 'dwdtCnMYpX08FsFyUbJmRd9ML4frwJkqsXf7pR25LCo' } as any }]
+        }
+      });
+
+      expect(findings).to.have.lengthOf(1);
+      expect(findings[0]).to.include({ code: 'privateKeyMaterial', path: 'verificationMethod[0].publicKeyJwk' });
+    });
+
+    it('returns a finding for each service endpoint that is not a URI or DWN service endpoint', () => {
+      const findings = validateDidDocument({
+        didDocument: {
+          id      : did,
+          service : [
+            { id: '#service-1', type: 'LinkedDomains', serviceEndpoint: 'not a URI' },
+            { id: '#service-2', type: 'LinkedDomains', serviceEndpoint: ['https://example.com', 'not a URI'] },
+            { id: '#service-3', type: 'DecentralizedWebNode', serviceEndpoint: { nodes: ['not a URI'], signingKeys: ['#key-1'] } },
+            { id: '#service-4', type: 'LinkedDomains', serviceEndpoint: ['https://example.com', { nodes: ['https://dwn.example.com'], signingKeys: ['#key-1'] } as any] }
+          ]
+        }
+      });
+
+      expect(findings.map(({ code, path }) => ({ code, path }))).to.deep.equal([
+        { code: 'invalidServiceEndpoint', path: 'service[0].serviceEndpoint' },
+        { code: 'invalidServiceEndpoint', path: 'service[1].serviceEndpoint' },
+        { code: 'invalidServiceEndpoint', path: 'service[2].serviceEndpoint' }
+      ]);
+    });
+
+    it('returns a finding instead of throwing if a property is not an array', () => {
+      const findings = validateDidDocument({
+        didDocument: {
+          id                 : did,
+          verificationMethod : { id: '#key-1', type: 'JsonWebKey2020', controller: did, publicKeyJwk },
+          authentication     : `${did}#key-1`,
+          service            : 'https://example.com'
+        } as any
+      });
+
+      expect(findings.map(({ code, path }) => ({ code, path }))).to.deep.equal([
+        { code: 'invalidStructure', path: 'verificationMethod' },
+        { code: 'invalidStructure', path: 'authentication' },
+        { code: 'invalidStructure', path: 'service' }
+      ]);
+    });
+
+    it('returns a finding instead of throwing if a verification method has no id', () => {
+      const findings = validateDidDocument({
+        didDocument: {
+          id                 : did,
+          verificationMethod : [{ type: 'JsonWebKey2020', controller: did, publicKeyJwk }, null],
+          keyAgreement       : [{ type: 'JsonWebKey2020', controller: did, publicKeyJwk }, 42]
+        } as any
+      });
+
+      expect(findings.map(({ code, path }) => ({ code, path }))).to.deep.equal([
+        { code: 'invalidStructure', path: 'verificationMethod[0].id' },
+        { code: 'invalidStructure', path: 'verificationMethod[1]' },
+        { code: 'invalidStructure', path: 'keyAgreement[0].id' },
+        { code: 'invalidStructure', path: 'keyAgreement[1]' }
+      ]);
+    });
+
+    it('returns a finding instead of throwing for malformed services', () => {
+      const findings = validateDidDocument({
+        didDocument: {
+          id      : did,
+          service : [null, { id: '#dwn', type: 'DecentralizedWebNode', serviceEndpoint: { nodes: 'https://dwn.example.com', signingKeys: [] } }]
+        } as any
+      });
+
+      expect(findings.map(({ code, path }) => ({ code, path }))).to.deep.equal([
+        { code: 'invalidStructure', path: 'service[0]' },
+        { code: 'invalidServiceEndpoint', path: 'service[1].serviceEndpoint' }
+      ]);
+    });
+  });
+});
@@ -10,12 +10,13 @@ import type {
   SendDwnRequest,
   ProcessVcRequest,
   Web5ManagedAgent,
+  DidDhtRepublisher,
   ProcessDwnRequest,
 } from '@web5/agent';
 
 import { LevelStore } from '@web5/common';
 import { EdDsaAlgorithm } from '@web5/crypto';
-import { DidIonMethod, DidKeyMethod, DidResolver } from '@web5/dids';
+import { DidDhtMethod, DidIonMethod, DidJwkMethod, DidKeyMethod, DidResolver } from '@web5/dids';
 import {
   LocalKms,
   DidManager,
@@ -30,6 +31,7 @@ import {
   IdentityStoreDwn,
   SyncManagerLevel,
   PrivateKeyStoreDwn,
+  DidDhtRepublisherLevel,
   cryptoToPortableKeyPair,
 } from '@web5/agent';
 
@@ -37,6 +39,7 @@ export type IdentityAgentOptions = {
   agentDid: string;
   appData: AppDataStore;
   didManager: DidManager;
+  didRepublisher: DidDhtRepublisher;
   didResolver: DidResolver;
   dwnManager: DwnManager;
   identityManager: IdentityManager;
@@ -49,6 +52,7 @@ export class IdentityAgent implements Web5ManagedAgent {
   agentDid: string;
   appData: AppDataStore;
   didManager: DidManager;
+  didRepublisher: DidDhtRepublisher;
   didResolver: DidResolver;
   dwnManager: DwnManager;
   identityManager: IdentityManager;
@@ -60,6 +64,7 @@ export class IdentityAgent implements Web5ManagedAgent {
     this.agentDid = options.agentDid;
     this.appData = options.appData;
     this.didManager = options.didManager;
+    this.didRepublisher = options.didRepublisher;
     this.didResolver = options.didResolver;
     this.dwnManager = options.dwnManager;
     this.identityManager = options.identityManager;
@@ -69,6 +74,7 @@ export class IdentityAgent implements Web5ManagedAgent {
 
     // Set this agent to be the default agent.
     this.didManager.agent = this;
+    this.didRepublisher.agent = this;
     this.dwnManager.agent = this;
     this.identityManager.agent = this;
     this.keyManager.agent = this;
@@ -77,8 +83,8 @@ export class IdentityAgent implements Web5ManagedAgent {
 
   static async create(options: Partial<IdentityAgentOptions> = {}): Promise<IdentityAgent> {
     let {
-      agentDid, appData, didManager, didResolver, dwnManager,
-      identityManager, keyManager, rpcClient, syncManager
+      agentDid, appData, didManager, didRepublisher, didResolver,
+      dwnManager, identityManager, keyManager, rpcClient, syncManager
     } = options;
 
     if (agentDid === undefined) {
@@ -98,7 +104,7 @@ export class IdentityAgent implements Web5ManagedAgent {
       // A custom DidManager implementation was not specified, so
       // instantiate a default with in-memory store.
       didManager = new DidManager({
-        didMethods : [DidIonMethod, DidKeyMethod],
+        didMethods : [DidDhtMethod, DidIonMethod, DidJwkMethod, DidKeyMethod],
         store      : new DidStoreDwn()
       });
     }
@@ -106,7 +112,7 @@ export class IdentityAgent implements Web5ManagedAgent {
     if (didResolver === undefined) {
       // A custom DidManager implementation was not specified, so
       // instantiate a default with in-memory store.
-      didResolver = new DidResolver({ didResolvers: [DidIonMethod, DidKeyMethod] });
+      didResolver = new DidResolver({ didResolvers: [DidDhtMethod, DidIonMethod, DidJwkMethod, DidKeyMethod] });
     }
 
     if (dwnManager === undefined) {
@@ -155,11 +161,18 @@ export class IdentityAgent implements Web5ManagedAgent {
       syncManager = new SyncManagerLevel();
     }
 
+    if (didRepublisher === undefined) {
+      // A custom DidDhtRepublisher implementation was not specified, so
+      // instantiate a LevelDB-backed default.
+      didRepublisher = new DidDhtRepublisherLevel();
+    }
+
     // Instantiate the Identity Agent.
     const agent = new IdentityAgent({
       agentDid,
       appData,
       didManager,
+      didRepublisher,
       didResolver,
       dwnManager,
       identityManager,
@@ -260,5 +273,14 @@ export class IdentityAgent implements Web5ManagedAgent {
       }
     });
     await this.keyManager.setDefaultSigningKey({ key: defaultSigningKey });
+
+    // 4. Republish the did:dht DIDs managed by the Agent before their DHT records expire.
+    await this.didRepublisher.registerManagedDids();
+    this.didRepublisher.startRepublish();
+  }
+
+  async stop(): Promise<void> {
+    // Stop republishing the did:dht DIDs managed by the Agent.
+    this.didRepublisher.stopRepublish();
   }
 }
\ No newline at end of file
@@ -10,12 +10,13 @@ import type {
   SendDwnRequest,
   ProcessVcRequest,
   Web5ManagedAgent,
+  DidDhtRepublisher,
   ProcessDwnRequest,
 } from '@web5/agent';
 
 import { LevelStore } from '@web5/common';
 import { EdDsaAlgorithm } from '@web5/crypto';
-import { DidIonMethod, DidKeyMethod, DidResolver } from '@web5/dids';
+import { DidDhtMethod, DidIonMethod, DidJwkMethod, DidKeyMethod, DidResolver } from '@web5/dids';
 import {
   LocalKms,
   DidManager,
@@ -29,6 +30,7 @@ import {
   IdentityStoreDwn,
   SyncManagerLevel,
   PrivateKeyStoreDwn,
+  DidDhtRepublisherLevel,
   cryptoToPortableKeyPair,
 } from '@web5/agent';
 
@@ -36,6 +38,7 @@ export type Web5ProxyAgentOptions = {
   agentDid: string;
   appData: AppDataStore;
   didManager: DidManager;
+  didRepublisher: DidDhtRepublisher;
   didResolver: DidResolver;
   dwnManager: DwnManager;
   identityManager: IdentityManager;
@@ -48,6 +51,7 @@ export class Web5ProxyAgent implements Web5ManagedAgent {
   agentDid: string;
   appData: AppDataStore;
   didManager: DidManager;
+  didRepublisher: DidDhtRepublisher;
   didResolver: DidResolver;
   dwnManager: DwnManager;
   identityManager: IdentityManager;
@@ -60,6 +64,7 @@ export class Web5ProxyAgent implements Web5ManagedAgent {
     this.appData = options.appData;
     this.keyManager = options.keyManager;
     this.didManager = options.didManager;
+    this.didRepublisher = options.didRepublisher;
     this.didResolver = options.didResolver;
     this.dwnManager = options.dwnManager;
     this.identityManager = options.identityManager;
@@ -68,6 +73,7 @@ export class Web5ProxyAgent implements Web5ManagedAgent {
 
     // Set this agent to be the default agent.
     this.didManager.agent = this;
+    this.didRepublisher.agent = this;
     this.dwnManager.agent = this;
     this.identityManager.agent = this;
     this.keyManager.agent = this;
@@ -76,8 +82,8 @@ export class Web5ProxyAgent implements Web5ManagedAgent {
 
   static async create(options: Partial<Web5ProxyAgentOptions> = {}): Promise<Web5ProxyAgent> {
     let {
-      agentDid, appData, didManager, didResolver, dwnManager,
-      identityManager, keyManager, rpcClient, syncManager
+      agentDid, appData, didManager, didRepublisher, didResolver,
+      dwnManager, identityManager, keyManager, rpcClient, syncManager
     } = options;
 
     if (agentDid === undefined) {
@@ -97,7 +103,7 @@ export class Web5ProxyAgent implements Web5ManagedAgent {
       // A custom DidManager implementation was not specified, so
       // instantiate a default with in-memory store.
       didManager = new DidManager({
-        didMethods : [DidIonMethod, DidKeyMethod],
+        didMethods : [DidDhtMethod, DidIonMethod, DidJwkMethod, DidKeyMethod],
         store      : new DidStoreDwn()
       });
     }
@@ -105,7 +111,7 @@ export class Web5ProxyAgent implements Web5ManagedAgent {
     if (didResolver === undefined) {
       // A custom DidManager implementation was not specified, so
       // instantiate a default with in-memory store.
-      didResolver = new DidResolver({ didResolvers: [DidIonMethod, DidKeyMethod] });
+      didResolver = new DidResolver({ didResolvers: [DidDhtMethod, DidIonMethod, DidJwkMethod, DidKeyMethod] });
     }
 
     if (dwnManager === undefined) {
@@ -154,11 +160,18 @@ export class Web5ProxyAgent implements Web5ManagedAgent {
       syncManager = new SyncManagerLevel();
     }
 
+    if (didRepublisher === undefined) {
+      // A custom DidDhtRepublisher implementation was not specified, so
+      // instantiate a LevelDB-backed default.
+      didRepublisher = new DidDhtRepublisherLevel();
+    }
+
     // Instantiate the Identity Agent.
     const agent = new Web5ProxyAgent({
       agentDid,
       appData,
       didManager,
+      didRepublisher,
       didResolver,
       dwnManager,
       keyManager,
@@ -251,5 +264,14 @@ export class Web5ProxyAgent implements Web5ManagedAgent {
 
     // Import the Agent's signing key pair to the in-memory KMS key stores.
     await this.keyManager.setDefaultSigningKey({ key: defaultSigningKey });
+
+    // 4. Republish the did:dht DIDs managed by the Agent before their DHT records expire.
+    await this.didRepublisher.registerManagedDids();
+    this.didRepublisher.startRepublish();
+  }
+
+  async stop(): Promise<void> {
+    // Stop republishing the did:dht DIDs managed by the Agent.
+    this.didRepublisher.stopRepublish();
   }
 }
\ No newline at end of file
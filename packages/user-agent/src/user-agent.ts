@@ -10,12 +10,13 @@ import type {
   SendDwnRequest,
   ProcessVcRequest,
   Web5ManagedAgent,
+  DidDhtRepublisher,
   ProcessDwnRequest,
 } from '@web5/agent';
 
 import { LevelStore } from '@web5/common';
 import { EdDsaAlgorithm } from '@web5/crypto';
-import { DidIonMethod, DidKeyMethod, DidResolverCacheLevel, DidResolver } from '@web5/dids';
+import { DidDhtMethod, DidIonMethod, DidJwkMethod, DidKeyMethod, DidResolverCacheLevel, DidResolver } from '@web5/dids';
 import {
   LocalKms,
   DidManager,
@@ -29,6 +30,7 @@ import {
   IdentityStoreDwn,
   SyncManagerLevel,
   PrivateKeyStoreDwn,
+  DidDhtRepublisherLevel,
   cryptoToPortableKeyPair,
   DidMessage,
 } from '@web5/agent';
@@ -37,6 +39,7 @@ export type Web5UserAgentOptions = {
   agentDid: string;
   appData: AppDataStore;
   didManager: DidManager;
+  didRepublisher: DidDhtRepublisher;
   didResolver: DidResolver;
   dwnManager: DwnManager;
   identityManager: IdentityManager;
@@ -49,6 +52,7 @@ export class Web5UserAgent implements Web5ManagedAgent {
   agentDid: string;
   appData: AppDataStore;
   didManager: DidManager;
+  didRepublisher: DidDhtRepublisher;
   didResolver: DidResolver;
   dwnManager: DwnManager;
   identityManager: IdentityManager;
@@ -61,6 +65,7 @@ export class Web5UserAgent implements Web5ManagedAgent {
     this.appData = options.appData;
     this.keyManager = options.keyManager;
     this.didManager = options.didManager;
+    this.didRepublisher = options.didRepublisher;
     this.didResolver = options.didResolver;
     this.dwnManager = options.dwnManager;
     this.identityManager = options.identityManager;
@@ -69,6 +74,7 @@ export class Web5UserAgent implements Web5ManagedAgent {
 
     // Set this agent to be the default agent.
     this.didManager.agent = this;
+    this.didRepublisher.agent = this;
     this.dwnManager.agent = this;
     this.identityManager.agent = this;
     this.keyManager.agent = this;
@@ -77,8 +83,8 @@ export class Web5UserAgent implements Web5ManagedAgent {
 
   static async create(options: Partial<Web5UserAgentOptions> = {}): Promise<Web5UserAgent> {
     let {
-      agentDid, appData, didManager, didResolver, dwnManager,
-      identityManager, keyManager, rpcClient, syncManager
+      agentDid, appData, didManager, didRepublisher, didResolver,
+      dwnManager, identityManager, keyManager, rpcClient, syncManager
     } = options;
 
     if (agentDid === undefined) {
@@ -98,7 +104,7 @@ export class Web5UserAgent implements Web5ManagedAgent {
       /** A custom DidManager implementation was not specified, so
        * instantiate a default that uses a DWN-backed store. */
       didManager = new DidManager({
-        didMethods : [DidIonMethod, DidKeyMethod],
+        didMethods : [DidDhtMethod, DidIonMethod, DidJwkMethod, DidKeyMethod],
         store      : new DidStoreDwn()
       });
     }
@@ -109,7 +115,7 @@ export class Web5UserAgent implements Web5ManagedAgent {
        * LevelDB-backed resolution cache. */
       didResolver = new DidResolver({
         cache        : new DidResolverCacheLevel(),
-        didResolvers : [DidIonMethod, DidKeyMethod]
+        didResolvers : [DidDhtMethod, DidIonMethod, DidJwkMethod, DidKeyMethod]
       });
     }
 
@@ -159,11 +165,18 @@ export class Web5UserAgent implements Web5ManagedAgent {
       syncManager = new SyncManagerLevel();
     }
 
+    if (didRepublisher === undefined) {
+      // A custom DidDhtRepublisher implementation was not specified, so
+      // instantiate a LevelDB-backed default.
+      didRepublisher = new DidDhtRepublisherLevel();
+    }
+
     // Instantiate the Agent.
     const agent = new Web5UserAgent({
       agentDid,
       appData,
       didManager,
+      didRepublisher,
       didResolver,
       dwnManager,
       keyManager,
@@ -264,5 +277,14 @@ export class Web5UserAgent implements Web5ManagedAgent {
 
     // Import the Agent's signing key pair to the in-memory KMS key stores.
     await this.keyManager.setDefaultSigningKey({ key: defaultSigningKey });
+
+    // 4. Republish the did:dht DIDs managed by the Agent before their DHT records expire.
+    await this.didRepublisher.registerManagedDids();
+    this.didRepublisher.startRepublish();
+  }
+
+  async stop(): Promise<void> {
+    // Stop republishing the did:dht DIDs managed by the Agent.
+    this.didRepublisher.stopRepublish();
   }
 }
\ No newline at end of file